@@ -1,6 +1,42 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
 import fetch from 'node-fetch';
+import { ConfigurationService, TelemetryMode } from './services/configurationService';
+
+// Telemetry is off unless coDebugger.telemetry.mode says otherwise:
+//   off    - nothing is recorded (default)
+//   local  - events are written to the "Co Debugger AI Telemetry" output channel and/or
+//            coDebugger.telemetry.logFile, nothing leaves the machine
+//   remote - events are also sent to Google Analytics, but only while VS Code's own
+//            telemetry setting (vscode.env.isTelemetryEnabled) is on
+export type { TelemetryMode };
+
+// The complete list of fields an event can carry. Params outside this list are dropped.
+//   client_id         - vscode.env.machineId, the anonymous install hash VS Code provides
+//   extension_version - version of this extension
+//   date              - YYYY-MM-DD, daily_active_user only
+//   command           - command id, command_used only
+export const TELEMETRY_FIELDS = ['client_id', 'extension_version', 'date', 'command'];
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+export function getTelemetryMode(): TelemetryMode {
+  return ConfigurationService.getInstance().telemetry.mode;
+}
+
+export async function trackEvent(eventName: string, params: Record<string, any> = {}) {
+  const mode = getTelemetryMode();
+  if (mode === 'off') {
+    return;
+  }
+
+  const eventParams = buildEventParams(params);
+  logEventLocally(eventName, eventParams, mode);
+
+  if (mode !== 'remote' || !vscode.env.isTelemetryEnabled) {
+    return;
+  }
 
-export async function trackEvent(eventName: string, params: Record<string, any>) {
   // Your Measurement ID and API Secret from Google Analytics 4
   const measurementId = 'G-C5JEV3GNBG';
   const apiSecret = 'btpZUn7USuOfSNOBaSO-uA';
@@ -8,11 +44,11 @@ export async function trackEvent(eventName: string, params: Record<string, any>)
 
   // Build payload
   const payload = {
-    client_id: params.client_id || 'anonymous',
+    client_id: eventParams.client_id,
     events: [
       {
         name: eventName,
-        params: params
+        params: eventParams
       }
     ]
   };
@@ -27,4 +63,42 @@ export async function trackEvent(eventName: string, params: Record<string, any>)
     // Fail silently or log locally
     console.warn('Analytics tracking failed:', err);
   }
-}
\ No newline at end of file
+}
+
+export function disposeAnalytics() {
+  outputChannel?.dispose();
+  outputChannel = undefined;
+}
+
+function buildEventParams(params: Record<string, any>): Record<string, any> {
+  const eventParams: Record<string, any> = {
+    client_id: vscode.env.machineId,
+    extension_version: vscode.extensions.getExtension('NandamYashwanth.go-debugger-ai')?.packageJSON?.version || 'unknown'
+  };
+
+  for (const field of TELEMETRY_FIELDS) {
+    if (params[field] !== undefined && field !== 'client_id') {
+      eventParams[field] = params[field];
+    }
+  }
+
+  return eventParams;
+}
+
+function logEventLocally(eventName: string, params: Record<string, any>, mode: TelemetryMode) {
+  const line = JSON.stringify({ timestamp: new Date().toISOString(), event: eventName, mode, params });
+
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel('Co Debugger AI Telemetry');
+  }
+  outputChannel.appendLine(line);
+
+  const logFile = ConfigurationService.getInstance().telemetry.logFile;
+  if (logFile) {
+    fs.appendFile(logFile, line + '\n', err => {
+      if (err) {
+        console.warn('Telemetry log file write failed:', err);
+      }
+    });
+  }
+}
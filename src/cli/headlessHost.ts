@@ -0,0 +1,62 @@
+import Module from 'module';
+
+// Outside the editor nobody provides the 'vscode' module. The protocols reach the debugger through a
+// DapTransport, so all the analysis pipeline still needs from it at runtime are settings
+// (ConfigurationService). This host answers require('vscode') with just that, read from a
+// settings.json-style object with flat "coDebugger.*" keys.
+export class HeadlessHost {
+    private static _instance: HeadlessHost;
+
+    private settings: Record<string, unknown> = {};
+    private installed = false;
+
+    static getInstance(): HeadlessHost {
+        if (!HeadlessHost._instance) {
+            HeadlessHost._instance = new HeadlessHost();
+        }
+        return HeadlessHost._instance;
+    }
+
+    install(): void {
+        if (this.installed) return;
+        this.installed = true;
+
+        const api = this.createApi();
+        const moduleLoader = Module as any;
+        const load = moduleLoader._load;
+        moduleLoader._load = function (request: string, ...rest: any[]) {
+            return request === 'vscode' ? api : load.call(this, request, ...rest);
+        };
+    }
+
+    configure(settings: Record<string, unknown>): void {
+        this.settings = { ...settings };
+    }
+
+    private createApi(): any {
+        const host = this;
+        const getConfiguration = (section?: string) => {
+            const lookup = (key: string) => host.settings[section ? `${section}.${key}` : key];
+            return {
+                get: (key: string, defaultValue?: unknown) => lookup(key) ?? defaultValue,
+                has: (key: string) => lookup(key) !== undefined,
+                inspect: (key: string) => lookup(key) === undefined ? undefined : { key, globalValue: lookup(key) },
+                update: async () => {
+                    throw new Error('Settings are read-only in the headless CLI');
+                }
+            };
+        };
+
+        return {
+            workspace: {
+                getConfiguration,
+                onDidChangeConfiguration: () => ({ dispose: () => undefined }),
+                workspaceFolders: undefined
+            },
+            ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 }
+        };
+    }
+}
+
+// Installed on import, before anything that loads 'vscode' is imported
+HeadlessHost.getInstance().install();
@@ -0,0 +1,285 @@
+import * as path from 'path';
+import { DapEndpoint, DapMessage, SocketDapTransport } from '../transport/socketDapTransport';
+import { ContextCollector, ContextData } from '../services/contextCollector';
+import { DelveClient } from '../services/delveClient';
+import { SupportedLanguage } from '../languages/languageHandler';
+import { createLanguageAwareDelveClient, createLanguageHandler } from '../factories/sessionClientFactory';
+
+export interface HeadlessBreakpoint {
+    file: string;
+    line: number;
+    condition?: string;
+}
+
+export interface HeadlessRunOptions {
+    language: SupportedLanguage;
+    endpoint: DapEndpoint;
+    request: 'launch' | 'attach';
+    // The launch.json-style configuration sent with launch/attach
+    configuration: Record<string, any>;
+    breakpoints: HeadlessBreakpoint[];
+    exceptionFilters: string[];
+    maxStops: number;
+    timeoutMs: number;
+}
+
+export interface HeadlessStop {
+    index: number;
+    sessionName: string;
+    reason: string;
+    description?: string;
+    threadId: number;
+    timestamp: number;
+    // Plain JSON copy taken at the stop; Maps are stored as { __map: [...] } like snapshot files
+    context: ContextData;
+    symbolicSummary: string;
+    pathSensitivitySummary: string;
+}
+
+export type HeadlessEndReason = 'terminated' | 'maxStops' | 'timeout' | 'error';
+
+export interface HeadlessReport {
+    language: SupportedLanguage;
+    request: 'launch' | 'attach';
+    program?: string;
+    startedAt: number;
+    finishedAt?: number;
+    endReason?: HeadlessEndReason;
+    error?: string;
+    exitCode?: number;
+    breakpoints: (HeadlessBreakpoint & { verified: boolean; message?: string })[];
+    stops: HeadlessStop[];
+    // Last lines the debuggee printed, for the failure that made the run interesting
+    output: string[];
+}
+
+const MAX_OUTPUT_LINES = 200;
+
+function replacer(_key: string, value: any): any {
+    if (value instanceof Map) {
+        return { __map: Array.from(value.entries()) };
+    }
+    if (value instanceof Set) {
+        return { __set: Array.from(value.values()) };
+    }
+    return value;
+}
+
+// Drives one debug run without VS Code: opens the DAP session, sets the breakpoints, and on every
+// stop runs the same ContextCollector pipeline as the extension (variables, symbolic execution,
+// path sensitivity) before continuing. js-debug's child sessions (startDebugging) get their own
+// connection to the same server and are analysed the same way.
+export class HeadlessRunner {
+    private options: HeadlessRunOptions;
+    private report: HeadlessReport;
+    private sessions: SocketDapTransport[] = [];
+    private delveClient?: DelveClient;
+    private contextCollector?: ContextCollector;
+    private stopQueue: Promise<void> = Promise.resolve();
+    private finish?: (reason: HeadlessEndReason, error?: string) => void;
+
+    constructor(options: HeadlessRunOptions) {
+        this.options = options;
+        this.report = {
+            language: options.language,
+            request: options.request,
+            program: options.configuration.program,
+            startedAt: Date.now(),
+            breakpoints: [],
+            stops: [],
+            output: []
+        };
+    }
+
+    async run(): Promise<HeadlessReport> {
+        const { endpoint, configuration, language } = this.options;
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const root = await SocketDapTransport.open(endpoint, configuration.name || `${language} (headless)`, configuration.type || language);
+            this.delveClient = createLanguageAwareDelveClient(root, language);
+            this.contextCollector = new ContextCollector(this.delveClient, createLanguageHandler(language), configuration);
+            // Stops are collected explicitly so each one is complete before the debuggee continues
+            this.contextCollector.setCollectOnStop(false);
+            this.contextCollector.startCollection();
+            this.delveClient.attachToSession(root);
+
+            await new Promise<void>(resolve => {
+                this.finish = (reason, error) => {
+                    if (this.report.endReason) return;
+                    this.report.endReason = reason;
+                    this.report.error = error;
+                    resolve();
+                };
+                timer = setTimeout(() => this.finish?.('timeout', `No result within ${this.options.timeoutMs / 1000}s`), this.options.timeoutMs);
+                root.on('close', () => this.finish?.('terminated'));
+                this.startSession(root, this.options.request, configuration)
+                    .catch(error => this.finish?.('error', error.message));
+            });
+        } catch (error) {
+            this.report.endReason = 'error';
+            this.report.error = error.message;
+        } finally {
+            clearTimeout(timer);
+            await this.stopQueue;
+            await this.shutdown();
+        }
+
+        this.report.finishedAt = Date.now();
+        console.log(`🏁 Headless run ended (${this.report.endReason}) with ${this.report.stops.length} stop(s)`);
+        return this.report;
+    }
+
+    private async startSession(connection: SocketDapTransport, request: string, configuration: Record<string, any>): Promise<void> {
+        this.sessions.push(connection);
+        connection.configuration = configuration;
+        connection.on('stopped', body => {
+            this.stopQueue = this.stopQueue.then(() => this.handleStop(connection, body))
+                .catch(error => console.error(`❌ Could not analyse stop:`, error));
+        });
+        connection.on('output', body => this.recordOutput(body));
+        connection.on('exited', body => this.report.exitCode = body.exitCode);
+        connection.on('terminated', () => {
+            if (connection === this.sessions[0]) this.finish?.('terminated');
+        });
+        connection.on('reverseRequest', (message: DapMessage) => this.handleReverseRequest(connection, message));
+
+        // Adapters may send 'initialized' right behind the initialize response, so listen before asking
+        const initialized = new Promise(resolve => connection.once('initialized', resolve));
+        const capabilities = await connection.customRequest('initialize', {
+            clientID: 'co-debugger-cli',
+            clientName: 'Co Debugger CLI',
+            adapterID: connection.type,
+            pathFormat: 'path',
+            linesStartAt1: true,
+            columnsStartAt1: true,
+            supportsVariableType: true,
+            supportsRunInTerminalRequest: false,
+            supportsStartDebuggingRequest: true
+        });
+
+        // Adapters differ on whether launch answers before or after configurationDone, so it is not awaited here
+        const started = connection.customRequest(request, configuration, 0);
+        started.catch(() => undefined);
+        await Promise.race([initialized, started]);
+
+        await this.setBreakpoints(connection);
+        if (this.options.exceptionFilters.length > 0) {
+            await connection.customRequest('setExceptionBreakpoints', { filters: this.options.exceptionFilters });
+        }
+        if (capabilities.supportsConfigurationDoneRequest) {
+            await connection.customRequest('configurationDone');
+        }
+        await started;
+        console.log(`🔗 ${connection.name}: ${request} done, ${this.options.breakpoints.length} breakpoint(s) set`);
+    }
+
+    private async setBreakpoints(connection: SocketDapTransport): Promise<void> {
+        const byFile = new Map<string, HeadlessBreakpoint[]>();
+        for (const breakpoint of this.options.breakpoints) {
+            const file = path.resolve(breakpoint.file);
+            byFile.set(file, [...(byFile.get(file) || []), breakpoint]);
+        }
+
+        const results: HeadlessReport['breakpoints'] = [];
+        for (const [file, breakpoints] of byFile) {
+            const response = await connection.customRequest('setBreakpoints', {
+                source: { path: file, name: path.basename(file) },
+                breakpoints: breakpoints.map(breakpoint => ({ line: breakpoint.line, condition: breakpoint.condition }))
+            });
+            breakpoints.forEach((breakpoint, index) => {
+                const actual = response.breakpoints?.[index];
+                results.push({ ...breakpoint, verified: !!actual?.verified, message: actual?.message });
+            });
+        }
+
+        // A child session's answer replaces the parent's; js-debug only verifies them in the child
+        if (results.some(result => result.verified) || this.report.breakpoints.length === 0) {
+            this.report.breakpoints = results;
+        }
+    }
+
+    private async handleStop(connection: SocketDapTransport, body: any): Promise<void> {
+        if (this.report.endReason || this.report.stops.length >= this.options.maxStops) {
+            return;
+        }
+
+        const delveClient = this.delveClient!;
+        const collector = this.contextCollector!;
+        if (delveClient.currentSession !== connection) {
+            delveClient.attachToSession(connection);
+        }
+
+        // The transport already focused the thread that stopped
+        await delveClient.notifyStoppedFromVSCode();
+        await collector.refreshAll();
+
+        const context = collector.getContext();
+        const stop: HeadlessStop = {
+            index: this.report.stops.length + 1,
+            sessionName: connection.name,
+            reason: body.reason,
+            description: body.description || body.text,
+            threadId: body.threadId,
+            timestamp: Date.now(),
+            context: JSON.parse(JSON.stringify(context, replacer)),
+            symbolicSummary: collector.getSymbolicExecutionSummary(),
+            pathSensitivitySummary: collector.getPathSensitivitySummary()
+        };
+        this.report.stops.push(stop);
+        console.log(`🛑 Stop ${stop.index} (${stop.reason}) at ${context.currentLocation ? `${path.basename(context.currentLocation.file)}:${context.currentLocation.line}` : 'unknown location'}: ${context.variables.length} variables`);
+
+        if (this.report.stops.length >= this.options.maxStops) {
+            this.finish?.('maxStops');
+            return;
+        }
+
+        delveClient.notifyContinuedFromVSCode();
+        await connection.customRequest('continue', { threadId: body.threadId });
+    }
+
+    private async handleReverseRequest(connection: SocketDapTransport, message: DapMessage): Promise<void> {
+        if (message.command !== 'startDebugging') {
+            connection.respond(message, undefined, `'${message.command}' is not supported by the headless CLI`);
+            return;
+        }
+
+        const endpoint = this.options.endpoint;
+        if (!('host' in endpoint)) {
+            connection.respond(message, undefined, 'Child sessions need a TCP endpoint (--connect)');
+            return;
+        }
+
+        connection.respond(message, {});
+        try {
+            const { configuration, request } = message.arguments;
+            const child = await SocketDapTransport.open(endpoint, configuration.name || `${connection.name} (child)`, configuration.type || connection.type);
+            await this.startSession(child, request || 'launch', configuration);
+        } catch (error) {
+            console.error(`❌ Could not start child session:`, error.message);
+        }
+    }
+
+    private recordOutput(body: any): void {
+        if (body.category === 'telemetry' || typeof body.output !== 'string') return;
+        const lines = body.output.split(/\r?\n/).filter((line: string) => line.length > 0);
+        this.report.output.push(...lines);
+        if (this.report.output.length > MAX_OUTPUT_LINES) {
+            this.report.output.splice(0, this.report.output.length - MAX_OUTPUT_LINES);
+        }
+    }
+
+    private async shutdown(): Promise<void> {
+        for (const connection of [...this.sessions].reverse()) {
+            if (connection.isClosed()) continue;
+            try {
+                await connection.customRequest('disconnect', { terminateDebuggee: this.options.request === 'launch' }, 5000);
+            } catch {
+                // The adapter may already be gone
+            }
+            connection.close();
+        }
+        this.contextCollector?.dispose();
+        this.delveClient?.dispose();
+    }
+}
@@ -0,0 +1,225 @@
+// Must stay the first import: it answers require('vscode') for everything imported below
+import { HeadlessHost } from './headlessHost';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DapEndpoint } from '../transport/socketDapTransport';
+import { HeadlessBreakpoint, HeadlessRunner, HeadlessRunOptions } from './headlessRunner';
+import { ReportFormat, writeReport } from './reportWriter';
+import { SupportedLanguage } from '../languages/languageHandler';
+
+const LANGUAGES: SupportedLanguage[] = ['go', 'python', 'javascript', 'typescript', 'java', 'cpp', 'csharp'];
+
+// Launch configurations for --program, per adapter
+const DEFAULT_LAUNCH: Partial<Record<SupportedLanguage, Record<string, any>>> = {
+    go: { type: 'go', mode: 'debug' },
+    python: { type: 'debugpy', console: 'internalConsole', justMyCode: true },
+    javascript: { type: 'pwa-node', console: 'internalConsole' },
+    typescript: { type: 'pwa-node', console: 'internalConsole' }
+};
+
+const USAGE = `Usage: co-debugger --language <lang> (--connect <host:port> | --adapter "<command> [args]")
+                   (--program <path> | --launch <config.json> | --attach <config.json>) [options]
+
+Runs the Co Debugger analysis (variables, symbolic execution, path sensitivity) on every stop
+of a debug run and writes a report. Talks DAP directly to dlv dap, debugpy or js-debug.
+
+  --language <lang>          ${LANGUAGES.join(', ')}
+  --connect <host:port>      DAP server to connect to (dlv dap --listen, js-debug dapDebugServer)
+  --adapter "<cmd> [args]"   Adapter speaking DAP on stdio (python -m debugpy.adapter)
+  --program <path>           Launch this program with the language's default configuration
+  --launch <config.json>     Launch with this launch.json-style configuration
+  --attach <config.json>     Attach with this configuration
+  --break <file:line[:cond]> Breakpoint; repeat for more
+  --exception-filter <id>    Exception breakpoint filter (e.g. raised, uncaught); repeat for more
+  --max-stops <n>            Stop after capturing n stops (default 10)
+  --timeout <seconds>        Give up after this long (default 300)
+  --format <json|markdown>   Report format (default markdown)
+  --out <file>               Write the report here instead of stdout
+  --settings <file>          settings.json with "coDebugger.*" keys
+  --verbose                  Log the analysis to stderr
+  --help                     Show this help
+
+Exit codes: 0 report written, 1 the run failed, 2 bad arguments.`;
+
+class UsageError extends Error {}
+
+interface CliArguments {
+    options: HeadlessRunOptions;
+    format: ReportFormat;
+    outFile?: string;
+    settings?: Record<string, unknown>;
+    verbose: boolean;
+}
+
+function parseArguments(argv: string[]): CliArguments | undefined {
+    const values = new Map<string, string[]>();
+    const flags = new Set<string>();
+    const valueOptions = ['language', 'connect', 'adapter', 'program', 'launch', 'attach', 'break', 'exception-filter',
+        'max-stops', 'timeout', 'format', 'out', 'settings'];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const match = arg.match(/^--([a-z-]+)(?:=(.*))?$/);
+        if (!match) {
+            throw new UsageError(`Unexpected argument '${arg}'`);
+        }
+
+        const [, name, inline] = match;
+        if (name === 'help' || name === 'verbose') {
+            flags.add(name);
+        } else if (valueOptions.includes(name)) {
+            const value = inline ?? argv[++i];
+            if (value === undefined) {
+                throw new UsageError(`--${name} needs a value`);
+            }
+            values.set(name, [...(values.get(name) || []), value]);
+        } else {
+            throw new UsageError(`Unknown option --${name}`);
+        }
+    }
+
+    if (flags.has('help')) {
+        return undefined;
+    }
+
+    const single = (name: string) => values.get(name)?.[values.get(name)!.length - 1];
+    const language = single('language') as SupportedLanguage;
+    if (!LANGUAGES.includes(language)) {
+        throw new UsageError(`--language must be one of ${LANGUAGES.join(', ')}`);
+    }
+
+    return {
+        options: {
+            language,
+            endpoint: parseEndpoint(single('connect'), single('adapter')),
+            ...parseConfiguration(language, single('program'), single('launch'), single('attach')),
+            breakpoints: (values.get('break') || []).map(parseBreakpoint),
+            exceptionFilters: values.get('exception-filter') || [],
+            maxStops: parsePositive('max-stops', single('max-stops'), 10),
+            timeoutMs: parsePositive('timeout', single('timeout'), 300) * 1000
+        },
+        format: parseFormat(single('format')),
+        outFile: single('out'),
+        settings: single('settings') ? readJson(single('settings')!) : undefined,
+        verbose: flags.has('verbose')
+    };
+}
+
+function parseEndpoint(connect?: string, adapter?: string): DapEndpoint {
+    if (!!connect === !!adapter) {
+        throw new UsageError('Give exactly one of --connect or --adapter');
+    }
+    if (adapter) {
+        const [command, ...args] = adapter.trim().split(/\s+/);
+        return { command, args };
+    }
+
+    const match = connect!.match(/^(?:(.+):)?(\d+)$/);
+    if (!match) {
+        throw new UsageError(`--connect expects host:port, got '${connect}'`);
+    }
+    return { host: match[1] || '127.0.0.1', port: Number(match[2]) };
+}
+
+function parseConfiguration(language: SupportedLanguage, program?: string, launchFile?: string, attachFile?: string): Pick<HeadlessRunOptions, 'request' | 'configuration'> {
+    if ([program, launchFile, attachFile].filter(Boolean).length !== 1) {
+        throw new UsageError('Give exactly one of --program, --launch or --attach');
+    }
+
+    if (program) {
+        const defaults = DEFAULT_LAUNCH[language];
+        if (!defaults) {
+            throw new UsageError(`--program has no default configuration for ${language}; use --launch <config.json>`);
+        }
+        return {
+            request: 'launch',
+            configuration: { ...defaults, name: `${path.basename(program)} (headless)`, request: 'launch', program: path.resolve(program), cwd: process.cwd() }
+        };
+    }
+
+    const request = launchFile ? 'launch' : 'attach';
+    return { request, configuration: { ...readJson(launchFile || attachFile!), request } };
+}
+
+function parseBreakpoint(spec: string): HeadlessBreakpoint {
+    // file:line[:condition]; the file may itself contain ':' (Windows drive letters)
+    const match = spec.match(/^(.+?):(\d+)(?::(.+))?$/);
+    if (!match) {
+        throw new UsageError(`--break expects file:line[:condition], got '${spec}'`);
+    }
+    return { file: match[1], line: Number(match[2]), condition: match[3] };
+}
+
+function parsePositive(name: string, value: string | undefined, defaultValue: number): number {
+    if (value === undefined) {
+        return defaultValue;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0) {
+        throw new UsageError(`--${name} must be a positive whole number`);
+    }
+    return number;
+}
+
+function parseFormat(value?: string): ReportFormat {
+    if (value === undefined || value === 'markdown' || value === 'md') {
+        return 'markdown';
+    }
+    if (value === 'json') {
+        return 'json';
+    }
+    throw new UsageError(`--format must be json or markdown`);
+}
+
+function readJson(file: string): Record<string, any> {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new UsageError(`Could not read ${file}: ${error.message}`);
+    }
+}
+
+// The report may go to stdout, so the pipeline's logging goes to stderr, and only with --verbose
+function routeLogging(verbose: boolean): void {
+    const toStderr = (...args: any[]) => process.stderr.write(args.map(arg => typeof arg === 'string' ? arg : String(arg?.stack || arg)).join(' ') + '\n');
+    const log = verbose ? toStderr : () => undefined;
+    console.log = log;
+    console.info = log;
+    console.debug = log;
+    console.warn = log;
+    console.error = log;
+}
+
+async function main(): Promise<number> {
+    let parsed: CliArguments | undefined;
+    try {
+        parsed = parseArguments(process.argv.slice(2));
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        process.stderr.write(`co-debugger: ${error.message}\n\n${USAGE}\n`);
+        return 2;
+    }
+    if (!parsed) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+
+    routeLogging(parsed.verbose);
+    if (parsed.settings) {
+        HeadlessHost.getInstance().configure(parsed.settings);
+    }
+
+    const report = await new HeadlessRunner(parsed.options).run();
+    writeReport(report, parsed.format, parsed.outFile);
+
+    process.stderr.write(`co-debugger: ${report.stops.length} stop(s) captured, ended by ${report.endReason}${report.error ? ` (${report.error})` : ''}\n`);
+    return report.endReason === 'error' ? 1 : 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`co-debugger: ${error.message}\n`);
+        process.exit(1);
+    }
+);
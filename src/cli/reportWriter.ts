@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HeadlessReport, HeadlessStop } from './headlessRunner';
+
+export type ReportFormat = 'json' | 'markdown';
+
+const MAX_REPORT_VARIABLES = 60;
+const MAX_REPORT_VALUE_LENGTH = 300;
+
+// Writes a headless run to a file, or to stdout when no file is given (the CLI's own logging goes to stderr)
+export function writeReport(report: HeadlessReport, format: ReportFormat, outFile?: string): void {
+    const content = format === 'json' ? JSON.stringify(report, null, 2) + '\n' : toMarkdown(report);
+    if (!outFile) {
+        process.stdout.write(content);
+        return;
+    }
+
+    fs.mkdirSync(path.dirname(path.resolve(outFile)), { recursive: true });
+    fs.writeFileSync(outFile, content, 'utf8');
+    console.log(`📝 Report written to ${outFile}`);
+}
+
+export function toMarkdown(report: HeadlessReport): string {
+    const lines = [
+        `# Co Debugger Report · ${report.program ? path.basename(report.program) : report.language}`,
+        '',
+        `- Language: ${report.language} (${report.request})`,
+        `- Started: ${new Date(report.startedAt).toISOString()}${report.finishedAt ? `, took ${((report.finishedAt - report.startedAt) / 1000).toFixed(1)}s` : ''}`,
+        `- Ended by: ${report.endReason || 'unknown'}${report.error ? ` (${report.error})` : ''}${report.exitCode !== undefined ? `, exit code ${report.exitCode}` : ''}`,
+        `- Stops captured: ${report.stops.length}`,
+        ''
+    ];
+
+    if (report.breakpoints.length > 0) {
+        lines.push('## Breakpoints', '');
+        report.breakpoints.forEach(breakpoint => {
+            lines.push(`- ${breakpoint.verified ? '✅' : '⚠️'} ${breakpoint.file}:${breakpoint.line}${breakpoint.condition ? ` if \`${breakpoint.condition}\`` : ''}${breakpoint.message ? ` (${breakpoint.message})` : ''}`);
+        });
+        lines.push('');
+    }
+
+    report.stops.forEach(stop => lines.push(...renderStop(stop)));
+
+    if (report.output.length > 0) {
+        lines.push('## Program Output (last lines)', '', '```', ...report.output, '```', '');
+    }
+    return lines.join('\n');
+}
+
+function renderStop(stop: HeadlessStop): string[] {
+    const context = stop.context;
+    const location = context.currentLocation;
+    const lines = [
+        `## Stop ${stop.index}: ${location ? `\`${location.function}\` ${location.file}:${location.line}` : 'unknown location'}`,
+        '',
+        `- Reason: ${stop.reason}${stop.description ? ` (${stop.description})` : ''}`,
+        `- Session: ${stop.sessionName}, thread ${stop.threadId}, at ${new Date(stop.timestamp).toISOString()}`
+    ];
+    if (context.debugInfo.errors.length > 0) {
+        lines.push(`- Collection errors: ${context.debugInfo.errors.join('; ')}`);
+    }
+    lines.push('');
+
+    const stoppedStack = context.functionCalls.filter(call => !call.executionUnit);
+    if (stoppedStack.length > 0) {
+        lines.push('### Call Stack', '');
+        stoppedStack.forEach((call, index) => {
+            lines.push(`${index + 1}. ${call.asyncBoundary ? `⏳ ${call.asyncBoundary} ` : ''}\`${call.name}\` ${path.basename(call.file)}:${call.line}`);
+        });
+        lines.push('');
+    }
+
+    // Application variables first; runtime internals only fill what is left of the table
+    const variables = [...context.variables]
+        .sort((a, b) => Number(b.isApplicationRelevant) - Number(a.isApplicationRelevant))
+        .slice(0, MAX_REPORT_VARIABLES);
+    if (variables.length > 0) {
+        lines.push('### Variables', '', '| Name | Type | Scope | Value |', '| --- | --- | --- | --- |');
+        variables.forEach(variable => {
+            lines.push(`| ${cell(variable.name)} | ${cell(variable.type)} | ${cell(variable.scope)} | ${cell(variable.value)} |`);
+        });
+        if (context.variables.length > variables.length) {
+            lines.push('', `_${context.variables.length - variables.length} more variable(s) in the JSON report_`);
+        }
+        lines.push('');
+    }
+
+    // The summaries are written for the AI prompt with their own ## headings; nest them under the stop
+    [stop.symbolicSummary, stop.pathSensitivitySummary]
+        .filter(summary => summary && summary.trim().length > 0)
+        .forEach(summary => lines.push(summary.replace(/^(#{1,4}) /gm, '$1## ').trim(), ''));
+
+    return lines;
+}
+
+function cell(text: string): string {
+    const value = String(text ?? '');
+    const truncated = value.length > MAX_REPORT_VALUE_LENGTH ? value.substring(0, MAX_REPORT_VALUE_LENGTH) + '...' : value;
+    return truncated.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -6,21 +6,47 @@ import { LLMService } from './services/llmService';
 import { ExecutionPathGraphService } from './services/executionPathGraphService';
 import { ExecutionPathGraphView } from './views/executionPathGraphView';
 import { LanguageDetector } from './detection/languageDetector';
-import { DebuggerFactory } from './factories/debuggerFactory';
+import { createLanguageAwareDelveClient, createLanguageHandler } from './factories/sessionClientFactory';
+import { VsCodeDapTransport } from './transport/vscodeDapTransport';
 import { SupportedLanguage } from './languages/languageHandler';
 import { AIConfigurationService } from './services/aiConfigurationService';
 import { CoDebugAIControl } from './views/coDebugAIControl';
-import { trackEvent } from './analytics';
+import { DebugChatView } from './views/debugChatView';
+import { TestSkeletonGenerator } from './services/testSkeletonGenerator';
+import { ConfigurationService } from './services/configurationService';
+import { DebugSessionRegistry } from './services/debugSessionRegistry';
+import { SnapshotService, SnapshotSummary } from './services/snapshotService';
+import { SnapshotTreeProvider, SnapshotTreeNode } from './views/snapshotTreeView';
+import { SnapshotDiffer } from './services/snapshotDiff';
+import { SnapshotDiffView } from './views/snapshotDiffView';
+import { StepTraceRecorder, TraceOptions, MAX_TRACE_STEPS } from './services/stepTraceRecorder';
+import { trackEvent, disposeAnalytics } from './analytics';
 import * as os from 'os';
+import * as path from 'path';
+
+// Everything Co Debugger runs for one debug session
+interface SessionStack {
+    session: vscode.DebugSession;
+    language: SupportedLanguage;
+    delveClient: DelveClient;
+    contextCollector: ContextCollector;
+    contextSelectorView: ContextSelectorView;
+    executionPathGraphService: ExecutionPathGraphService;
+    executionPathGraphView: ExecutionPathGraphView;
+    stepTraceRecorder: StepTraceRecorder;
+    dispose(): void;
+}
 
-let contextCollector: ContextCollector;
-let delveClient: DelveClient;
+let extensionContext: vscode.ExtensionContext;
 let llmService: LLMService;
-let contextSelectorView: ContextSelectorView;
-let executionPathGraphService: ExecutionPathGraphService;
-let executionPathGraphView: ExecutionPathGraphView;
 let coDebugAIControl: CoDebugAIControl;
-let currentLanguage: SupportedLanguage | null = null;
+// One collector/protocol stack per debug session, so the sessions of a compound launch don't replace each other
+const sessionStacks = new DebugSessionRegistry<SessionStack>();
+// One chat per debug session, keyed by DebugSession.id; kept after termination until its panel is closed
+const debugChatViews = new Map<string, DebugChatView>();
+let snapshotService: SnapshotService;
+// Read-only context views of saved snapshots, keyed by snapshot id; removed when their panel closes
+const snapshotViews = new Map<string, ContextSelectorView>();
 
 // Helper functions
 function getCurrentUser(): string {
@@ -36,43 +62,86 @@ let lastActiveEventDate: string | null = null;
 function sendDailyActiveEvent() {
     const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
     if (lastActiveEventDate !== today) {
-        trackEvent('daily_active_user', { client_id: getCurrentUser(), date: today });
+        trackEvent('daily_active_user', { date: today });
         lastActiveEventDate = today;
     }
 }
 
 export function activate(context: vscode.ExtensionContext) {
-    trackEvent('extension_activated', { client_id: getCurrentUser() }); // Analytics: extension activated
+    trackEvent('extension_activated'); // Analytics: extension activated (no-op unless coDebugger.telemetry.mode is set)
     sendDailyActiveEvent(); 
 
     console.log(`✅ Co Debugger AI: Activated at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
 
     // Initialize services
+    const configurationService = ConfigurationService.getInstance();
+    context.subscriptions.push(configurationService);
+    configurationService.migrateLegacySettings().catch(error => {
+        console.error(`❌ Settings migration failed at ${getCurrentTimestamp()}:`, error);
+    });
+
+    extensionContext = context;
     llmService = new LLMService();
     coDebugAIControl = new CoDebugAIControl(llmService);
     context.subscriptions.push(coDebugAIControl);
 
+    // Every stop is saved to workspace storage and listed per session in the Run and Debug sidebar
+    snapshotService = new SnapshotService(context.storageUri || context.globalStorageUri);
+    const snapshotTreeProvider = new SnapshotTreeProvider(snapshotService);
+    context.subscriptions.push(
+        snapshotService,
+        snapshotTreeProvider,
+        vscode.window.registerTreeDataProvider('coDebugger.snapshots', snapshotTreeProvider)
+    );
+
+    // The quick menu and status bar follow whichever session is active
+    sessionStacks.on('activeSessionChanged', (stack?: SessionStack) => {
+        if (stack) {
+            coDebugAIControl.setContext(stack.contextCollector, stack.language);
+            coDebugAIControl.setDebugState(stack.contextCollector.getContext().debugInfo.isStopped);
+        } else {
+            coDebugAIControl.clearContext();
+        }
+    });
+
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('contextSelector.openView', () => {
             sendDailyActiveEvent();
             console.log(`📱 Opening Context Selector view at ${getCurrentTimestamp()}`);
-            contextSelectorView?.show();
+            sessionStacks.getActive()?.contextSelectorView.show();
         }),
 
         vscode.commands.registerCommand('contextSelector.showExecutionGraph', () => {
             sendDailyActiveEvent();
             console.log(`📊 Opening Execution Path Graph at ${getCurrentTimestamp()}`);
-            executionPathGraphView?.show();
+            sessionStacks.getActive()?.executionPathGraphView.show();
         }),
 
-        vscode.commands.registerCommand('contextSelector.refreshContext', async () => {
+        vscode.commands.registerCommand('coDebugger.recordTrace', async () => {
             sendDailyActiveEvent();
-            console.log(`🔄 Manual refresh command triggered for ${currentLanguage || 'unknown'} at ${getCurrentTimestamp()}`);
+            trackEvent('command_used', { command: 'coDebugger.recordTrace' }); // Analytics: command used
+            await recordStepTrace();
+        }),
+
+        vscode.commands.registerCommand('coDebugger.exportTrace', async () => {
+            sendDailyActiveEvent();
+            const stack = sessionStacks.getActive();
+            if (!stack) {
+                vscode.window.showWarningMessage('No active debug session');
+                return;
+            }
+            await stack.executionPathGraphView.exportTrace();
+        }),
+
+        vscode.commands.registerCommand('contextSelector.refreshContext', async (sessionId?: string) => {
+            sendDailyActiveEvent();
+            const stack = sessionStacks.get(sessionId) || sessionStacks.getActive();
+            console.log(`🔄 Manual refresh command triggered for ${stack?.language || 'unknown'} at ${getCurrentTimestamp()}`);
             try {
-                await contextCollector?.refreshAll();
-                contextSelectorView?.refresh();
-                vscode.window.showInformationMessage(`✅ ${currentLanguage || 'Debug'} context refreshed successfully`);
+                await stack?.contextCollector.refreshAll();
+                stack?.contextSelectorView.refresh();
+                vscode.window.showInformationMessage(`✅ ${stack?.language || 'Debug'} context refreshed successfully`);
             } catch (error) {
                 console.error(`❌ Manual refresh failed at ${getCurrentTimestamp()}:`, error);
                 vscode.window.showErrorMessage(`❌ Refresh failed: ${error.message}`);
@@ -81,10 +150,12 @@ export function activate(context: vscode.ExtensionContext) {
 
         vscode.commands.registerCommand('contextSelector.checkStopped', () => {
             sendDailyActiveEvent();
-            if (contextCollector && delveClient) {
-                const context = contextCollector.getContext();
+            const stack = sessionStacks.getActive();
+            if (stack) {
+                const context = stack.contextCollector.getContext();
                 vscode.window.showInformationMessage(
-                    `Language: ${currentLanguage?.toUpperCase() || 'Unknown'} | ` +
+                    `Session: ${stack.session.name} | ` +
+                    `Language: ${stack.language.toUpperCase()} | ` +
                     `Connected: ${context.debugInfo.isConnected ? '✅' : '❌'} | ` +
                     `Stopped: ${context.debugInfo.isStopped ? '✅' : '❌'} | ` +
                     `Variables: ${context.variables.length}`
@@ -96,10 +167,68 @@ export function activate(context: vscode.ExtensionContext) {
 
         vscode.commands.registerCommand('coDebugger.configureAI', async () => {
             sendDailyActiveEvent();
-            trackEvent('command_used', { command: 'coDebugger.configureAI', client_id: getCurrentUser() }); // Analytics: command used
+            trackEvent('command_used', { command: 'coDebugger.configureAI' }); // Analytics: command used
             await AIConfigurationService.configureAI(llmService);
         }),
 
+        vscode.commands.registerCommand('coDebugger.openDebugChat', () => {
+            sendDailyActiveEvent();
+            const session = vscode.debug.activeDebugSession;
+            const chat = (session && debugChatViews.get(session.id)) || Array.from(debugChatViews.values()).pop();
+            if (!chat) {
+                vscode.window.showWarningMessage('Start a debug session to chat about it');
+                return;
+            }
+            console.log(`💬 Opening debug chat at ${getCurrentTimestamp()}`);
+            chat.show();
+        }),
+
+        vscode.commands.registerCommand('coDebugger.generatePathTest', async (pathId?: string, sessionId?: string) => {
+            sendDailyActiveEvent();
+            trackEvent('command_used', { command: 'coDebugger.generatePathTest' }); // Analytics: command used
+            await generatePathTest(pathId, sessionId);
+        }),
+
+        vscode.commands.registerCommand('coDebugger.switchSession', async () => {
+            sendDailyActiveEvent();
+            await switchSession();
+        }),
+
+        vscode.commands.registerCommand('coDebugger.showSessionsSideBySide', () => {
+            sendDailyActiveEvent();
+            const stacks = sessionStacks.getAll();
+            if (stacks.length === 0) {
+                vscode.window.showWarningMessage('No active debug session');
+                return;
+            }
+            console.log(`🪟 Showing ${stacks.length} debug session(s) side by side at ${getCurrentTimestamp()}`);
+            stacks.forEach((stack, index) => stack.contextSelectorView.show(Math.min(index + 1, vscode.ViewColumn.Nine)));
+        }),
+
+        vscode.commands.registerCommand('coDebugger.openSnapshot', async (node?: SnapshotTreeNode) => {
+            sendDailyActiveEvent();
+            await openSnapshot(node?.kind === 'snapshot' ? node.snapshot.id : undefined);
+        }),
+
+        vscode.commands.registerCommand('coDebugger.compareStops', async (node?: SnapshotTreeNode) => {
+            sendDailyActiveEvent();
+            await compareStops(node?.kind === 'snapshot' ? node.snapshot : undefined);
+        }),
+
+        vscode.commands.registerCommand('coDebugger.deleteSnapshot', async (node?: SnapshotTreeNode) => {
+            if (!node) return;
+            const ids = node.kind === 'snapshot' ? [node.snapshot.id] : node.snapshots.map(snapshot => snapshot.id);
+            ids.forEach(id => snapshotViews.get(id)?.dispose());
+            await snapshotService.delete(ids);
+        }),
+
+        vscode.commands.registerCommand('coDebugger.clearSnapshots', async () => {
+            const answer = await vscode.window.showWarningMessage('Delete all saved debug snapshots?', { modal: true }, 'Delete');
+            if (answer !== 'Delete') return;
+            Array.from(snapshotViews.values()).forEach(view => view.dispose());
+            await snapshotService.clear();
+        }),
+
         vscode.commands.registerCommand('coDebugAI.showQuickMenu', async () => {
             sendDailyActiveEvent();
             await coDebugAIControl.showQuickMenu();
@@ -109,25 +238,28 @@ export function activate(context: vscode.ExtensionContext) {
     // VS Code Debug Event Handlers
     const onStackItemChanged = vscode.debug.onDidChangeActiveStackItem((stackItem) => {
         sendDailyActiveEvent();
-        if (stackItem && isLanguageSupported(stackItem.session.configuration.type)) {
+        const stack = stackItem ? sessionStacks.get(stackItem.session.id) : sessionStacks.getActive();
+        if (stackItem && stack) {
             console.log(`🎯 VS Code active stack item changed at ${getCurrentTimestamp()}:`, {
                 sessionName: stackItem.session.name,
                 threadId: stackItem.threadId,
-                language: currentLanguage,
+                language: stack.language,
                 user: getCurrentUser()
             });
             
+            sessionStacks.setActive(stack.session.id);
+            
             // Notify Co Debug AI Control
             coDebugAIControl.setDebugState(true);
             
-            delveClient?.notifyStoppedFromVSCode();
+            stack.delveClient.notifyStoppedFromVSCode();
         } else if (!stackItem) {
             console.log(`🔄 VS Code active stack item cleared at ${getCurrentTimestamp()}`);
             
             // Notify Co Debug AI Control
             coDebugAIControl.setDebugState(false);
             
-            delveClient?.notifyContinuedFromVSCode();
+            stack?.delveClient.notifyContinuedFromVSCode();
         }
     });
 
@@ -135,42 +267,30 @@ export function activate(context: vscode.ExtensionContext) {
         sendDailyActiveEvent();
         const detectedLanguage = LanguageDetector.detectLanguage(session);
         
-        if (isLanguageSupported(session.configuration.type) || LanguageDetector.isLanguageSupported(detectedLanguage)) {
+        if ((isLanguageSupported(session.configuration.type) || LanguageDetector.isLanguageSupported(detectedLanguage)) && !sessionStacks.has(session.id)) {
             console.log(`🔧 ${detectedLanguage} debug session started at ${getCurrentTimestamp()}`, {
                 name: session.name,
                 type: session.type,
                 configuration: session.configuration.name,
                 detectedLanguage,
+                sessions: sessionStacks.size + 1,
                 user: getCurrentUser()
             });
             
-            currentLanguage = detectedLanguage;
-            
-            // Create appropriate DelveClient based on language
-            delveClient = createLanguageAwareDelveClient(session, detectedLanguage);
-            
-            // Initialize collectors
-            contextCollector = new ContextCollector(delveClient);
-            contextSelectorView = new ContextSelectorView(contextCollector, llmService, delveClient);
-            executionPathGraphService = new ExecutionPathGraphService(contextCollector, delveClient);
-            executionPathGraphView = new ExecutionPathGraphView(executionPathGraphService, context);
-            
-            delveClient.attachToSession(session);
-            contextCollector.startCollection();
-            
-            // Notify Co Debug AI Control
-            coDebugAIControl.setContext(contextCollector, detectedLanguage);
+            sessionStacks.add(createSessionStack(session, detectedLanguage));
             
             vscode.window.showInformationMessage(
-                `🚀 Co Debugger AI connected to ${detectedLanguage.toUpperCase()} debugger`,
+                `🚀 Co Debugger AI connected to ${detectedLanguage.toUpperCase()} debugger (${session.name})`,
                 'Open Context View',
                 'Show Execution Graph',
                 'Configure AI'
             ).then(selection => {
+                // Open the views of the session that was announced, not whichever is active by now
+                const stack = sessionStacks.get(session.id);
                 if (selection === 'Open Context View') {
-                    vscode.commands.executeCommand('contextSelector.openView');
+                    stack?.contextSelectorView.show();
                 } else if (selection === 'Show Execution Graph') {
-                    vscode.commands.executeCommand('contextSelector.showExecutionGraph');
+                    stack?.executionPathGraphView.show();
                 } else if (selection === 'Configure AI') {
                     vscode.commands.executeCommand('coDebugger.configureAI');
                 }
@@ -180,66 +300,35 @@ export function activate(context: vscode.ExtensionContext) {
 
     const onDebugSessionTerminated = vscode.debug.onDidTerminateDebugSession((session) => {
         sendDailyActiveEvent();
-        if (currentLanguage && (isLanguageSupported(session.configuration.type) || session === delveClient?.currentSession)) {
-            console.log(`🔌 ${currentLanguage} debug session terminated at ${getCurrentTimestamp()}:`, {
+        const stack = sessionStacks.get(session.id);
+        if (stack) {
+            console.log(`🔌 ${stack.language} debug session terminated at ${getCurrentTimestamp()}:`, {
                 sessionName: session.name,
+                remainingSessions: sessionStacks.size - 1,
                 user: getCurrentUser()
             });
             
-            delveClient?.detachFromSession();
-            contextCollector?.stopCollection();
-            executionPathGraphService?.dispose();
-            executionPathGraphView?.dispose();
-            
-            // Clear Co Debug AI Control
-            coDebugAIControl.clearContext();
+            debugChatViews.get(session.id)?.endSession();
+            sessionStacks.remove(session.id);
             
-            vscode.window.showInformationMessage(`🛑 Co Debugger AI disconnected from ${currentLanguage.toUpperCase()} debugger`);
-            
-            // Clean up
-            currentLanguage = null;
+            vscode.window.showInformationMessage(`🛑 Co Debugger AI disconnected from ${stack.language.toUpperCase()} debugger (${session.name})`);
         }
     });
 
     const onDebugSessionChanged = vscode.debug.onDidChangeActiveDebugSession((session) => {
         sendDailyActiveEvent();
-        if (session) {
-            const detectedLanguage = LanguageDetector.detectLanguage(session);
+        if (session && sessionStacks.has(session.id)) {
+            console.log(`🔄 Active debug session changed at ${getCurrentTimestamp()}:`, {
+                sessionName: session.name,
+                user: getCurrentUser()
+            });
             
-            if (isLanguageSupported(session.configuration.type) || LanguageDetector.isLanguageSupported(detectedLanguage)) {
-                console.log(`🔄 Active ${detectedLanguage} debug session changed at ${getCurrentTimestamp()}:`, {
-                    sessionName: session.name,
-                    user: getCurrentUser()
-                });
-                
-                // If language changed, reinitialize
-                if (currentLanguage !== detectedLanguage) {
-                    console.log(`🔄 Switching from ${currentLanguage} to ${detectedLanguage} at ${getCurrentTimestamp()}`);
-                    
-                    currentLanguage = detectedLanguage;
-                    
-                    // Dispose old collectors
-                    contextCollector?.dispose();
-                    executionPathGraphService?.dispose();
-                    executionPathGraphView?.dispose();
-                    
-                    // Create new collectors for the language
-                    delveClient = createLanguageAwareDelveClient(session, detectedLanguage);
-                    contextCollector = new ContextCollector(delveClient);
-                    contextSelectorView = new ContextSelectorView(contextCollector, llmService, delveClient);
-                    executionPathGraphService = new ExecutionPathGraphService(contextCollector, delveClient);
-                    executionPathGraphView = new ExecutionPathGraphView(executionPathGraphService, context);
-                    
-                    // Update Co Debug AI Control
-                    coDebugAIControl.setContext(contextCollector, detectedLanguage);
-                }
-                
-                delveClient?.attachToSession(session);
-                contextCollector?.startCollection();
-            }
+            sessionStacks.setActive(session.id);
         } else if (!session) {
             console.log(`🔌 No active debug session at ${getCurrentTimestamp()}`);
-            coDebugAIControl.clearContext();
+            if (sessionStacks.size === 0) {
+                coDebugAIControl.clearContext();
+            }
         }
     });
 
@@ -265,28 +354,18 @@ export function activate(context: vscode.ExtensionContext) {
                 user: getCurrentUser()
             });
             
-            currentLanguage = detectedLanguage;
-            delveClient = createLanguageAwareDelveClient(activeSession, detectedLanguage);
-            contextCollector = new ContextCollector(delveClient);
-            contextSelectorView = new ContextSelectorView(contextCollector, llmService, delveClient);
-            executionPathGraphService = new ExecutionPathGraphService(contextCollector, delveClient);
-            executionPathGraphView = new ExecutionPathGraphView(executionPathGraphService, context);
-            
-            delveClient.attachToSession(activeSession);
-            contextCollector.startCollection();
+            const stack = createSessionStack(activeSession, detectedLanguage);
+            sessionStacks.add(stack);
             
-            // Set Co Debug AI Control
-            coDebugAIControl.setContext(contextCollector, detectedLanguage);
-            
-            if (activeStackItem) {
+            if (activeStackItem && activeStackItem.session.id === activeSession.id) {
                 console.log(`🎯 Found existing active stack item at ${getCurrentTimestamp()}:`, {
                     sessionName: activeStackItem.session.name,
                     threadId: activeStackItem.threadId,
-                    language: currentLanguage,
+                    language: detectedLanguage,
                     user: getCurrentUser()
                 });
                 coDebugAIControl.setDebugState(true);
-                delveClient.notifyStoppedFromVSCode();
+                stack.delveClient.notifyStoppedFromVSCode();
             } else {
                 coDebugAIControl.setDebugState(false);
             }
@@ -306,132 +385,348 @@ export function deactivate() {
     
     try {
         coDebugAIControl?.dispose();
-        delveClient?.dispose();
-        contextCollector?.dispose();
-        executionPathGraphService?.dispose();
-        executionPathGraphView?.dispose();
+        sessionStacks.dispose();
+        Array.from(debugChatViews.values()).forEach(chat => chat.dispose());
+        Array.from(snapshotViews.values()).forEach(view => view.dispose());
+        disposeAnalytics();
         console.log(`✅ All resources disposed successfully at ${getCurrentTimestamp()}`);
     } catch (error) {
         console.error(`❌ Error during deactivation at ${getCurrentTimestamp()}:`, error);
     }
 }
 
-// Helper function to check if a debug type is supported
-function isLanguageSupported(debugType: string): boolean {
-    const supportedTypes = [
-        'go', 'python', 'debugpy', 'node', 'chrome', 'msedge', 'typescript',
-        'java', 'cppdbg', 'cppvsdbg', 'lldb', 'gdb', 'csharp', 'coreclr'
-    ];
-    return supportedTypes.includes(debugType);
+// Build and attach the collector/protocol stack for one debug session
+function createSessionStack(session: vscode.DebugSession, language: SupportedLanguage): SessionStack {
+    const transport = new VsCodeDapTransport(session);
+    const delveClient = createLanguageAwareDelveClient(transport, language);
+    const contextCollector = new ContextCollector(delveClient, createLanguageHandler(language), session.configuration);
+    const executionPathGraphService = new ExecutionPathGraphService(contextCollector, delveClient);
+    const stepTraceRecorder = new StepTraceRecorder(delveClient, contextCollector);
+    const stack: SessionStack = {
+        session,
+        language,
+        delveClient,
+        contextCollector,
+        contextSelectorView: new ContextSelectorView(contextCollector, llmService, delveClient, session),
+        executionPathGraphService,
+        executionPathGraphView: new ExecutionPathGraphView(executionPathGraphService, extensionContext, session),
+        stepTraceRecorder,
+        dispose: () => {
+            console.log(`🧹 Disposing ${language} stack for ${session.name} at ${getCurrentTimestamp()}`);
+            stack.stepTraceRecorder.cancel();
+            stack.stepTraceRecorder.removeAllListeners();
+            stack.delveClient.dispose();
+            stack.contextCollector.dispose();
+            stack.executionPathGraphService.dispose();
+            stack.executionPathGraphView.dispose();
+            stack.contextSelectorView.dispose();
+        }
+    };
+
+    // Save every collected stop; a refresh at the same stop replaces its snapshot
+    let stopCount = 0;
+    delveClient.on('stopped', () => stopCount++);
+    contextCollector.on('contextUpdated', context => {
+        if (stopCount > 0 && context.debugInfo.isStopped && context.currentLocation) {
+            snapshotService.save(session, language, stopCount, context, contextCollector.getExpandedVariables());
+        }
+    });
+
+    // The trace timeline lives in the session's execution graph and fills in while recording
+    stepTraceRecorder.on('stepRecorded', (_step, trace) => stack.executionPathGraphView.showTrace(trace));
+    stepTraceRecorder.on('traceFinished', trace => stack.executionPathGraphView.showTrace(trace));
+
+    registerDebugChat(session, contextCollector);
+    delveClient.attachToSession(transport);
+    contextCollector.startCollection();
+    return stack;
 }
 
-// Create a language-aware DelveClient
-function createLanguageAwareDelveClient(session: vscode.DebugSession, language: SupportedLanguage): DelveClient {
-    if (language === 'go') {
-        console.log(`🐹 Creating original DelveClient for Go at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
-        return new DelveClient();
-    } else {
-        console.log(`🌍 Creating wrapped DelveClient for ${language} at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
-        
-        try {
-            const protocol = DebuggerFactory.createDebuggerProtocol(language);
-            return createDelveClientWrapper(protocol, language);
-        } catch (error) {
-            console.warn(`⚠️ Could not create ${language} protocol, falling back to Go DelveClient: ${error.message}`);
-            return new DelveClient();
-        }
+async function switchSession(): Promise<void> {
+    const stacks = sessionStacks.getAll();
+    if (stacks.length === 0) {
+        vscode.window.showWarningMessage('No active debug session');
+        return;
     }
+
+    const active = sessionStacks.getActive();
+    const picked = await vscode.window.showQuickPick(
+        stacks.map(stack => {
+            const debugInfo = stack.contextCollector.getContext().debugInfo;
+            return {
+                label: `${stack === active ? '$(debug-alt) ' : ''}${stack.session.name}`,
+                description: stack.language.toUpperCase(),
+                detail: debugInfo.isStopped ? '🛑 Stopped' : debugInfo.isConnected ? '▶️ Running' : '🔌 Not attached',
+                stack
+            };
+        }),
+        { placeHolder: 'Debug session to show in Co Debugger' }
+    );
+    if (!picked) return;
+
+    sessionStacks.setActive(picked.stack.session.id);
+    picked.stack.contextSelectorView.show();
 }
 
-// Create a DelveClient wrapper that delegates to universal protocols
-function createDelveClientWrapper(protocol: any, language: SupportedLanguage): DelveClient {
-    class LanguageDelveClientWrapper extends DelveClient {
-        constructor() {
-            super();
-            console.log(`🔗 Creating ${language} DelveClient wrapper at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
-        }
+// Ask how far to step, then record a step trace of the active session with cancellable progress
+async function recordStepTrace(): Promise<void> {
+    const stack = sessionStacks.getActive();
+    if (!stack || !stack.delveClient.isStoppedAtBreakpoint()) {
+        vscode.window.showWarningMessage('Stop at a breakpoint to record a step trace');
+        return;
+    }
+    if (stack.stepTraceRecorder.isRecording()) {
+        vscode.window.showWarningMessage(`A step trace is already recording in ${stack.session.name}`);
+        return;
+    }
 
-        attachToSession(session: vscode.DebugSession): void {
-            console.log(`🔗 ${language} wrapper: Attaching to session: ${session.name} at ${getCurrentTimestamp()}`);
-            protocol.attachToSession(session);
-            this.currentSession = session;
-            this['isAttached'] = true;
-            this.emit('attached', session);
-        }
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: '$(debug-step-over) Step Over', description: 'DAP next - stay in the current function', stepKind: 'next' as const },
+            { label: '$(debug-step-into) Step Into', description: 'DAP stepIn - follow calls', stepKind: 'stepIn' as const }
+        ],
+        { placeHolder: 'How should the trace step?' }
+    );
+    if (!mode) return;
 
-        detachFromSession(): void {
-            console.log(`🔌 ${language} wrapper: Detaching from session at ${getCurrentTimestamp()}`);
-            protocol.detachFromSession();
-            this.currentSession = null;
-            this['isAttached'] = false;
-            this.emit('detached');
-        }
+    const steps = await vscode.window.showInputBox({
+        prompt: 'Maximum number of steps',
+        value: '50',
+        validateInput: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= MAX_TRACE_STEPS
+            ? undefined : `Enter a number from 1 to ${MAX_TRACE_STEPS}`
+    });
+    if (!steps) return;
 
-        isConnected(): boolean {
-            return protocol.isConnected();
-        }
+    const until = await vscode.window.showInputBox({
+        prompt: 'Stop earlier at a line or function (optional)',
+        placeHolder: 'e.g. 42, handler.go:42 or processOrder'
+    });
+    if (until === undefined) return;
+
+    const options: TraceOptions = { stepKind: mode.stepKind, maxSteps: Number(steps) };
+    const target = until.trim();
+    const line = target.match(/^(?:(.+):)?(\d+)$/);
+    if (line) {
+        options.untilLine = { file: line[1], line: Number(line[2]) };
+    } else if (target) {
+        options.untilFunction = target;
+    }
 
-        isStoppedAtBreakpoint(): boolean {
-            return protocol.isStoppedAtBreakpoint();
+    stack.executionPathGraphView.show();
+    const trace = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `🎬 Recording step trace in ${stack.session.name}`, cancellable: true },
+        async (progress, token) => {
+            token.onCancellationRequested(() => stack.stepTraceRecorder.cancel());
+            const onStep = () => progress.report({ increment: 100 / (options.maxSteps + 1) });
+            stack.stepTraceRecorder.on('stepRecorded', onStep);
+            try {
+                return await stack.stepTraceRecorder.record(options);
+            } catch (error) {
+                vscode.window.showErrorMessage(`❌ Step trace failed: ${error.message}`);
+                return undefined;
+            } finally {
+                stack.stepTraceRecorder.off('stepRecorded', onStep);
+            }
         }
+    );
+    if (!trace) return;
 
-        async notifyStoppedFromVSCode(): Promise<void> {
-            console.log(`🛑 ${language} wrapper: Debug stopped at ${getCurrentTimestamp()}`);
-            await protocol.notifyStoppedFromVSCode();
-            this['currentThreadId'] = protocol.getCurrentThreadId();
-            this['currentFrameId'] = protocol.getCurrentFrameId();
-            this.emit('stopped', {
-                threadId: this['currentThreadId'],
-                frameId: this['currentFrameId'],
-                reason: `${language}-breakpoint`
-            });
-        }
+    const answer = await vscode.window.showInformationMessage(
+        `🎬 Recorded ${trace.steps.length} steps (${trace.endReason}${trace.error ? `: ${trace.error}` : ''})`,
+        'Export'
+    );
+    if (answer === 'Export') {
+        await stack.executionPathGraphView.exportTrace();
+    }
+}
 
-        notifyContinuedFromVSCode(): void {
-            console.log(`▶️ ${language} wrapper: Debug continued at ${getCurrentTimestamp()}`);
-            protocol.notifyContinuedFromVSCode();
-            this['currentThreadId'] = null;
-            this['currentFrameId'] = null;
-            this.emit('continued', { reason: `${language}-continue` });
+// Reopen a saved stop in a read-only context view; asks which one when no id is given
+async function openSnapshot(snapshotId?: string): Promise<ContextSelectorView | undefined> {
+    if (!snapshotId) {
+        const snapshots = await snapshotService.list();
+        if (snapshots.length === 0) {
+            vscode.window.showInformationMessage('No debug snapshots saved yet - they are taken each time the debugger stops');
+            return undefined;
         }
 
-        async getCurrentFrame() {
-            return protocol.getCurrentFrame();
-        }
+        const picked = await vscode.window.showQuickPick(
+            snapshots.map(snapshot => ({
+                label: `${snapshot.sessionName} #${snapshot.stopIndex}`,
+                description: snapshot.location ? `${snapshot.location.function} (${path.basename(snapshot.location.file)}:${snapshot.location.line})` : '',
+                detail: new Date(snapshot.timestamp).toLocaleString(),
+                snapshot
+            })),
+            { placeHolder: 'Debug snapshot to open' }
+        );
+        if (!picked) return undefined;
+        snapshotId = picked.snapshot.id;
+    }
 
-        async getCurrentDebugState() {
-            return protocol.getCurrentDebugState();
-        }
+    const existing = snapshotViews.get(snapshotId);
+    if (existing) {
+        existing.show();
+        return existing;
+    }
 
-        async getStackTrace() {
-            return protocol.getStackTrace();
-        }
+    const snapshot = await snapshotService.load(snapshotId);
+    if (!snapshot) {
+        vscode.window.showErrorMessage('❌ Could not load the debug snapshot - it may have been removed by the retention limit');
+        return undefined;
+    }
 
-        async getScopes() {
-            return protocol.getScopes();
-        }
+    const id = snapshotId;
+    const collector = ContextCollector.fromSnapshot(
+        snapshot.context,
+        snapshot.expandedVariables,
+        createLanguageHandler(snapshot.summary.language as SupportedLanguage)
+    );
+    const view = new ContextSelectorView(collector, llmService, undefined, undefined, snapshot.summary);
+    view.onDidClose(() => {
+        snapshotViews.delete(id);
+        collector.dispose();
+    });
+    snapshotViews.set(id, view);
 
-        async getScopeVariables(variablesReference: number) {
-            return protocol.getScopeVariables(variablesReference);
-        }
+    console.log(`📸 Opening snapshot ${id} read-only at ${getCurrentTimestamp()}`);
+    view.show();
+    return view;
+}
 
-        async getFrameVariables(frameId: number) {
-            return protocol.getFrameVariables(frameId);
-        }
+// Diff two saved stops side by side. From the tree, the clicked stop is compared with the previous
+// stop of its session; otherwise both are picked. Attaching sends the diff to the live view of the
+// later stop's session while it is stopped, or to that stop's read-only snapshot view.
+async function compareStops(after?: SnapshotSummary): Promise<void> {
+    const snapshots = await snapshotService.list();
+    if (snapshots.length < 2) {
+        vscode.window.showInformationMessage('Comparing needs at least two saved stops - they are taken each time the debugger stops');
+        return;
+    }
 
-        getCurrentThreadId(): number | null {
-            return protocol.getCurrentThreadId();
-        }
+    const toItem = (snapshot: SnapshotSummary) => ({
+        label: `${snapshot.sessionName} #${snapshot.stopIndex}`,
+        description: snapshot.location ? `${snapshot.location.function} (${path.basename(snapshot.location.file)}:${snapshot.location.line})` : '',
+        detail: new Date(snapshot.timestamp).toLocaleString(),
+        snapshot
+    });
+
+    let before: SnapshotSummary | undefined;
+    if (after) {
+        const current = after;
+        before = snapshots
+            .filter(snapshot => snapshot.sessionId === current.sessionId && snapshot.stopIndex < current.stopIndex)
+            .sort((a, b) => b.stopIndex - a.stopIndex)[0];
+    }
+    if (!before || !after) {
+        const pickedBefore = await vscode.window.showQuickPick(
+            snapshots.filter(snapshot => snapshot.id !== after?.id).map(toItem),
+            { placeHolder: after ? `Stop to compare ${after.sessionName} #${after.stopIndex} against` : 'Earlier stop (before)' }
+        );
+        if (!pickedBefore) return;
+        before = pickedBefore.snapshot;
+    }
+    if (!after) {
+        const first = before;
+        const pickedAfter = await vscode.window.showQuickPick(
+            snapshots.filter(snapshot => snapshot.id !== first.id).map(toItem),
+            { placeHolder: 'Later stop (after)' }
+        );
+        if (!pickedAfter) return;
+        after = pickedAfter.snapshot;
+    }
+
+    const [beforeSnapshot, afterSnapshot] = await Promise.all([snapshotService.load(before.id), snapshotService.load(after.id)]);
+    if (!beforeSnapshot || !afterSnapshot) {
+        vscode.window.showErrorMessage('❌ Could not load the debug snapshots - they may have been removed by the retention limit');
+        return;
+    }
 
-        getCurrentFrameId(): number | null {
-            return protocol.getCurrentFrameId();
+    const differ = new SnapshotDiffer();
+    const diff = differ.diff(beforeSnapshot, afterSnapshot);
+    console.log(`🔀 Comparing ${before.id} with ${after.id}: ${diff.variables.length} variable changes, ` +
+        `${diff.constraintFlips.length} constraint flips at ${getCurrentTimestamp()}`);
+
+    const view = new SnapshotDiffView(diff, differ, async (section, attached) => {
+        const label = `Comparison of ${attached.before.sessionName} #${attached.before.stopIndex} and #${attached.after.stopIndex}`;
+        const stack = sessionStacks.get(attached.after.sessionId);
+        if (stack && stack.contextCollector.getContext().debugInfo.isStopped) {
+            stack.contextSelectorView.attachFocusedContext(label, section);
+            return;
         }
+        const snapshotView = await openSnapshot(attached.after.id);
+        snapshotView?.attachFocusedContext(label, section);
+    });
+    view.show();
+}
+
+// Create the session's chat, or point an existing one at the session's collector
+function registerDebugChat(session: vscode.DebugSession, contextCollector: ContextCollector): void {
+    const existing = debugChatViews.get(session.id);
+    if (existing) {
+        existing.setContextCollector(contextCollector);
+        return;
+    }
+
+    debugChatViews.set(session.id, new DebugChatView(contextCollector, llmService, session.name, () => {
+        debugChatViews.delete(session.id);
+    }));
+}
 
-        dispose(): void {
-            protocol.dispose?.();
-            super.dispose();
+// Write a test skeleton for one of the current stop's alternative paths next to the source and open it
+async function generatePathTest(pathId?: string, sessionId?: string): Promise<void> {
+    const context = (sessionStacks.get(sessionId) || sessionStacks.getActive())?.contextCollector.getContext();
+    const location = context?.currentLocation;
+    const alternatives = context?.symbolicExecution?.alternativePaths || [];
+    if (!context || !location || alternatives.length === 0) {
+        vscode.window.showWarningMessage('No alternative paths at the current stop - pause the debugger inside a function with branches');
+        return;
+    }
+
+    let alternative = alternatives.find(alt => alt.id === pathId);
+    if (!alternative) {
+        const picked = await vscode.window.showQuickPick(
+            alternatives.map(alt => ({ label: alt.description.replace(/`/g, ''), detail: alt.testSuggestion, alternative: alt })),
+            { placeHolder: 'Alternative path to generate a test for' }
+        );
+        if (!picked) return;
+        alternative = picked.alternative;
+    }
+
+    // The stopped frame is the first call, unless frames were filtered before it
+    const frame = context.functionCalls.find(call => call.file === location.file) || context.functionCalls[0];
+
+    try {
+        const test = new TestSkeletonGenerator().generate({ location, parameters: frame?.parameters || {}, path: alternative });
+        const uri = vscode.Uri.file(test.file);
+
+        const exists = await vscode.workspace.fs.stat(uri).then(() => true, () => false);
+        if (exists) {
+            const answer = await vscode.window.showWarningMessage(
+                `${path.basename(test.file)} already exists. Overwrite it?`,
+                { modal: true },
+                'Overwrite'
+            );
+            if (answer !== 'Overwrite') return;
         }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(test.file)));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(test.content, 'utf8'));
+        await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), vscode.ViewColumn.Beside);
+
+        console.log(`🧪 Generated ${test.framework} test at ${test.file} (${test.todos} TODOs) at ${getCurrentTimestamp()}`);
+        vscode.window.showInformationMessage(
+            `🧪 Wrote ${path.basename(test.file)} (${test.framework})${test.todos > 0 ? ` - ${test.todos} TODOs left to fill in` : ''}`
+        );
+    } catch (error) {
+        console.error(`❌ Test generation failed at ${getCurrentTimestamp()}:`, error);
+        vscode.window.showErrorMessage(`❌ Test generation failed: ${error.message}`);
     }
+}
 
-    return new LanguageDelveClientWrapper();
-}
\ No newline at end of file
+// Helper function to check if a debug type is supported
+function isLanguageSupported(debugType: string): boolean {
+    const supportedTypes = [
+        'go', 'python', 'debugpy', 'node', 'chrome', 'msedge', 'typescript',
+        'java', 'cppdbg', 'cppvsdbg', 'lldb', 'gdb', 'csharp', 'coreclr'
+    ];
+    return supportedTypes.includes(debugType);
+}
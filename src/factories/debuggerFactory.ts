@@ -4,9 +4,15 @@ import { LanguageHandler, SupportedLanguage } from '../languages/languageHandler
 import { DelveClient } from '../services/delveClient';
 import { GoLanguageHandler } from '../languages/goHandler';
 import { PythonLanguageHandler } from '../languages/pythonHandler';
-import { JavaScriptLanguageHandler } from '../languages/javaScriptHandler';
+import { JavaScriptLanguageHandler } from '../languages/javascriptHandler';
+import { JavaLanguageHandler } from '../languages/javaHandler';
+import { CppLanguageHandler } from '../languages/cppHandler';
+import { CSharpLanguageHandler } from '../languages/csharpHandler';
 import { PythonDebuggerProtocol } from '../protocols/pythonDebuggerProtocol';
-import { JavaScriptDebuggerProtocol } from '../protocols/javaScriptDebuggerProtocol';
+import { JavaScriptDebuggerProtocol } from '../protocols/javascriptDebuggerProtocol';
+import { JavaDebuggerProtocol } from '../protocols/javaDebuggerProtocol';
+import { CppDebuggerProtocol } from '../protocols/cppDebuggerProtocol';
+import { CSharpDebuggerProtocol } from '../protocols/csharpDebuggerProtocol';
 
 export class DebuggerFactory {
     private static protocolInstances = new Map<SupportedLanguage, DebuggerProtocol>();
@@ -32,11 +38,14 @@ export class DebuggerFactory {
                 protocol = new JavaScriptDebuggerProtocol();
                 break;
             case 'java':
-                // TODO: Implement Java debugger protocol
-                throw new Error(`Java debugger protocol not yet implemented`);
+                protocol = new JavaDebuggerProtocol();
+                break;
+            case 'cpp':
+                protocol = new CppDebuggerProtocol();
+                break;
             case 'csharp':
-                // TODO: Implement C# debugger protocol
-                throw new Error(`C# debugger protocol not yet implemented`);
+                protocol = new CSharpDebuggerProtocol();
+                break;
             default:
                 throw new Error(`Unsupported language: ${language}`);
         }
@@ -66,11 +75,14 @@ export class DebuggerFactory {
                 handler = new JavaScriptLanguageHandler();
                 break;
             case 'java':
-                // TODO: Implement Java language handler
-                throw new Error(`Java language handler not yet implemented`);
+                handler = new JavaLanguageHandler();
+                break;
+            case 'cpp':
+                handler = new CppLanguageHandler();
+                break;
             case 'csharp':
-                // TODO: Implement C# language handler
-                throw new Error(`C# language handler not yet implemented`);
+                handler = new CSharpLanguageHandler();
+                break;
             default:
                 throw new Error(`Unsupported language: ${language}`);
         }
@@ -81,7 +93,7 @@ export class DebuggerFactory {
     }
 
     static getSupportedLanguages(): SupportedLanguage[] {
-        return ['go', 'python', 'javascript', 'typescript'];
+        return ['go', 'python', 'javascript', 'typescript', 'java', 'cpp', 'csharp'];
     }
 
     static isLanguageSupported(language: SupportedLanguage): boolean {
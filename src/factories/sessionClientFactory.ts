@@ -0,0 +1,145 @@
+import * as os from 'os';
+import { DebuggerFactory } from './debuggerFactory';
+import { DelveClient } from '../services/delveClient';
+import { LanguageHandler, SupportedLanguage } from '../languages/languageHandler';
+import { DapTransport } from '../transport/dapTransport';
+
+// Builds the DelveClient and language handler a ContextCollector runs on, for the extension's debug
+// sessions and for the headless CLI alike
+
+function getCurrentUser(): string {
+    return os.userInfo().username || 'unknown-user';
+}
+
+function getCurrentTimestamp(): string {
+    return new Date().toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Create a language-aware DelveClient
+export function createLanguageAwareDelveClient(transport: DapTransport, language: SupportedLanguage): DelveClient {
+    if (language === 'go') {
+        console.log(`🐹 Creating original DelveClient for Go at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
+        return new DelveClient();
+    } else {
+        console.log(`🌍 Creating wrapped DelveClient for ${language} at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
+        
+        try {
+            const protocol = DebuggerFactory.createDebuggerProtocol(language);
+            return createDelveClientWrapper(protocol, language);
+        } catch (error) {
+            console.warn(`⚠️ Could not create ${language} protocol, falling back to Go DelveClient: ${error.message}`);
+            return new DelveClient();
+        }
+    }
+}
+
+// Language handler for the context collector; Go keeps the configurable variableAnalysis patterns
+export function createLanguageHandler(language: SupportedLanguage): LanguageHandler | undefined {
+    if (language === 'go') {
+        return undefined;
+    }
+
+    try {
+        return DebuggerFactory.createLanguageHandler(language);
+    } catch (error) {
+        console.warn(`⚠️ Could not create ${language} language handler, using default variable analysis: ${error.message}`);
+        return undefined;
+    }
+}
+
+// Create a DelveClient wrapper that delegates to universal protocols
+function createDelveClientWrapper(protocol: any, language: SupportedLanguage): DelveClient {
+    class LanguageDelveClientWrapper extends DelveClient {
+        constructor() {
+            super();
+            console.log(`🔗 Creating ${language} DelveClient wrapper at ${getCurrentTimestamp()} (User: ${getCurrentUser()})`);
+        }
+
+        attachToSession(session: DapTransport): void {
+            console.log(`🔗 ${language} wrapper: Attaching to session: ${session.name} at ${getCurrentTimestamp()}`);
+            protocol.attachToSession(session);
+            this.currentSession = session;
+            this['isAttached'] = true;
+            this.emit('attached', session);
+        }
+
+        detachFromSession(): void {
+            console.log(`🔌 ${language} wrapper: Detaching from session at ${getCurrentTimestamp()}`);
+            protocol.detachFromSession();
+            this.currentSession = null;
+            this['isAttached'] = false;
+            this.emit('detached');
+        }
+
+        isConnected(): boolean {
+            return protocol.isConnected();
+        }
+
+        isStoppedAtBreakpoint(): boolean {
+            return protocol.isStoppedAtBreakpoint();
+        }
+
+        async notifyStoppedFromVSCode(): Promise<void> {
+            console.log(`🛑 ${language} wrapper: Debug stopped at ${getCurrentTimestamp()}`);
+            await protocol.notifyStoppedFromVSCode();
+            this['currentThreadId'] = protocol.getCurrentThreadId();
+            this['currentFrameId'] = protocol.getCurrentFrameId();
+            this.emit('stopped', {
+                threadId: this['currentThreadId'],
+                frameId: this['currentFrameId'],
+                reason: `${language}-breakpoint`
+            });
+        }
+
+        notifyContinuedFromVSCode(): void {
+            console.log(`▶️ ${language} wrapper: Debug continued at ${getCurrentTimestamp()}`);
+            protocol.notifyContinuedFromVSCode();
+            this['currentThreadId'] = null;
+            this['currentFrameId'] = null;
+            this.emit('continued', { reason: `${language}-continue` });
+        }
+
+        async getCurrentFrame() {
+            return protocol.getCurrentFrame();
+        }
+
+        async getCurrentDebugState() {
+            return protocol.getCurrentDebugState();
+        }
+
+        async getStackTrace() {
+            return protocol.getStackTrace();
+        }
+
+        async getScopes() {
+            return protocol.getScopes();
+        }
+
+        async getScopeVariables(variablesReference: number) {
+            return protocol.getScopeVariables(variablesReference);
+        }
+
+        async getFrameVariables(frameId: number) {
+            return protocol.getFrameVariables(frameId);
+        }
+
+        async getExecutionUnits() {
+            return protocol.getExecutionUnits ? protocol.getExecutionUnits() : [];
+        }
+
+        getCurrentThreadId(): number | null {
+            return protocol.getCurrentThreadId();
+        }
+
+        getCurrentFrameId(): number | null {
+            return protocol.getCurrentFrameId();
+        }
+
+        dispose(): void {
+            protocol.dispose?.();
+            super.dispose();
+        }
+    }
+
+    return new LanguageDelveClientWrapper();
+}
\ No newline at end of file
@@ -39,6 +39,14 @@ export class CppLanguageHandler implements LanguageHandler {
     inferType(name: string, value: string, context: TypeContext): string {
         const keyLower = name.toLowerCase();
         
+        // GDB/LLDB pretty-printer output carries the type in the value
+        const smartPointer = this.parseSmartPointer(value);
+        if (smartPointer) return smartPointer.type;
+        const container = this.parseStlContainer(value);
+        if (container) return container.type;
+        const rawPointer = value.match(/^\(([^)]+\*)\)\s*0x[0-9a-fA-F]+/);
+        if (rawPointer) return rawPointer[1].trim();
+        
         // C++-specific type inference
         if (value === 'nullptr' || value === 'NULL') return 'nullptr_t';
         if (value === 'true' || value === 'false') return 'bool';
@@ -79,25 +87,35 @@ export class CppLanguageHandler implements LanguageHandler {
 
     parseVariableValue(value: string, type: string): ParsedValue {
         const isNil = this.isNilValue(value);
-        const isPointer = type.includes('*') || value.includes('0x') || type.includes('ptr');
+        const smartPointer = this.parseSmartPointer(value);
+        const container = smartPointer ? null : this.parseStlContainer(value);
+        const isPointer = !!smartPointer || type.includes('*') || value.includes('0x') || type.includes('ptr');
         let memoryAddress: string | undefined;
         
         // Extract memory address for pointers
-        if (isPointer) {
+        if (smartPointer) {
+            memoryAddress = smartPointer.address;
+        } else if (isPointer) {
             const addressMatch = value.match(/0x[a-fA-F0-9]+/);
             memoryAddress = addressMatch ? addressMatch[0] : undefined;
         }
         
-        // Parse array/container length
+        // Parse array/container length, trusting the size reported by the pretty-printer
         let arrayLength: number | undefined;
-        if (this.isCollectionType(value, type)) {
+        let objectKeyCount: number | undefined;
+        if (container) {
+            if (container.isAssociative) {
+                objectKeyCount = container.size;
+            } else {
+                arrayLength = container.size;
+            }
+        } else if (this.isCollectionType(value, type)) {
             const elements = this.parseArrayElements(value);
             arrayLength = elements.length;
         }
         
         // Parse object field count
-        let objectKeyCount: number | undefined;
-        if (value.includes('{') && value.includes('}')) {
+        if (!container && !smartPointer && value.includes('{') && value.includes('}')) {
             const fields = this.parseStructFields(value);
             objectKeyCount = Object.keys(fields).length;
         }
@@ -209,11 +227,21 @@ export class CppLanguageHandler implements LanguageHandler {
     parseStructFields(rawValue: string): Record<string, string> {
         const fields: Record<string, string> = {};
         
+        // std::map pretty-printer: std::map with 2 elements = {["a"] = 1, ["b"] = 2}
+        const container = this.parseStlContainer(rawValue);
+        if (container && container.isAssociative) {
+            container.elements.forEach(entry => {
+                const entryMatch = entry.match(/^\[(.+?)\]\s*=\s*(.*)$/s);
+                if (entryMatch) {
+                    fields[entryMatch[1].trim()] = entryMatch[2].trim();
+                }
+            });
+            return fields;
+        }
+        
         if (rawValue.includes('{') && rawValue.includes('}')) {
-            let content = rawValue;
-            const structMatch = content.match(/\{([^}]+)\}/);
-            if (structMatch) {
-                content = structMatch[1];
+            const content = this.extractBraceContent(rawValue);
+            if (content !== null) {
                 
                 // Parse field = value pairs
                 const pairs = this.splitStructPairs(content);
@@ -246,10 +274,15 @@ export class CppLanguageHandler implements LanguageHandler {
         }
         
         // Handle STL container representation
+        const container = this.parseStlContainer(rawValue);
+        if (container) {
+            return container.elements;
+        }
+        
         if (rawValue.includes('{') && rawValue.includes('}')) {
-            const match = rawValue.match(/\{([^}]+)\}/);
-            if (match) {
-                return this.splitArrayElements(match[1]);
+            const content = this.extractBraceContent(rawValue);
+            if (content) {
+                return this.splitArrayElements(content);
             }
         }
         
@@ -257,13 +290,46 @@ export class CppLanguageHandler implements LanguageHandler {
     }
 
     isNilValue(rawValue: string): boolean {
+        const trimmed = rawValue.trim();
         const nilValues = ['nullptr', 'NULL', '0x0', '(null)'];
-        return nilValues.includes(rawValue.trim());
+        if (nilValues.includes(trimmed) || /^0x0+$/.test(trimmed) || /^\([^)]+\*\)\s*0x0+$/.test(trimmed)) {
+            return true;
+        }
+        
+        const smartPointer = this.parseSmartPointer(trimmed);
+        return !!smartPointer && smartPointer.isEmpty;
     }
 
     formatDisplayValue(value: string, type: string): string {
         if (this.isNilValue(value)) return 'nullptr';
         
+        // Smart pointers: show the pointee address and reference counts
+        const smartPointer = this.parseSmartPointer(value);
+        if (smartPointer) {
+            const counts = smartPointer.useCount !== undefined
+                ? ` (use_count=${smartPointer.useCount}${smartPointer.weakCount !== undefined ? `, weak=${smartPointer.weakCount}` : ''})`
+                : '';
+            return `${smartPointer.type} → ${smartPointer.address || '?'}${counts}`;
+        }
+        
+        // STL containers: keep the element preview but lead with the size
+        const container = this.parseStlContainer(value);
+        if (container) {
+            const summary = `${container.type} (${container.size} ${container.isAssociative ? 'entries' : 'elements'})`;
+            if (container.elements.length === 0) {
+                return summary;
+            }
+            const preview = container.elements.slice(0, 10).join(', ');
+            const more = container.elements.length > 10 ? ', ...' : '';
+            return `${summary} {${preview}${more}}`;
+        }
+        
+        // Raw pointers printed by GDB: (User *) 0x55555556aeb0
+        const rawPointer = value.match(/^\(([^)]+\*)\)\s*(0x[0-9a-fA-F]+)(.*)$/);
+        if (rawPointer) {
+            return `${rawPointer[1].trim()} → ${rawPointer[2]}${rawPointer[3]}`;
+        }
+        
         // Clean up string quotes for display
         if (type.includes('string') && value.startsWith('"') && value.endsWith('"')) {
             return value.slice(1, -1);
@@ -321,7 +387,89 @@ export class CppLanguageHandler implements LanguageHandler {
         };
     }
 
+    // Parses GDB libstdc++ and LLDB libc++ smart pointer summaries:
+    //   std::shared_ptr<User> (use count 2, weak count 0) = {get() = 0x55555556aeb0}
+    //   std::shared_ptr (count 2, weak 0) 0x614c20
+    //   std::shared_ptr<User>::element_type @ 0x0000600000c04018 strong=1 weak=1
+    //   std::unique_ptr<User> = {get() = 0x0}
+    private parseSmartPointer(value: string): { type: string; address?: string; useCount?: number; weakCount?: number; isEmpty: boolean } | null {
+        const typeMatch = value.match(/^((?:std::)?(?:__1::)?(shared_ptr|unique_ptr|weak_ptr)(?:<.*?>)?)(?=[\s:=(]|$)/);
+        if (!typeMatch) {
+            return null;
+        }
+        
+        const addressMatch = value.match(/get\(\)\s*=\s*(0x[0-9a-fA-F]+)/) ||
+            value.match(/@\s*(0x[0-9a-fA-F]+)/) ||
+            value.match(/(0x[0-9a-fA-F]+)/);
+        const useCountMatch = value.match(/(?:use count|count|strong=)\s*(\d+)/);
+        const weakCountMatch = value.match(/(?:weak count|weak|weak=)\s*=?\s*(\d+)/);
+        const address = addressMatch ? addressMatch[1] : undefined;
+        
+        return {
+            type: typeMatch[1].replace(/::element_type$/, ''),
+            address,
+            useCount: useCountMatch ? parseInt(useCountMatch[1]) : undefined,
+            weakCount: weakCountMatch ? parseInt(weakCountMatch[1]) : undefined,
+            isEmpty: /\(empty\)|nullptr/.test(value) || (address !== undefined && /^0x0+$/.test(address))
+        };
+    }
+
+    // Parses STL container pretty-printer summaries from GDB and LLDB:
+    //   std::vector of length 3, capacity 4 = {1, 2, 3}
+    //   std::map with 2 elements = {["a"] = 1, ["b"] = 2}
+    //   size=3 {...} (LLDB/natvis summaries)
+    private parseStlContainer(value: string): { type: string; size: number; elements: string[]; isAssociative: boolean } | null {
+        const gdbMatch = value.match(/^((?:std::)?(?:__\w+::)?(\w+)(?:<.*?>)?)\s+(?:of length|with)\s+(\d+)\s*(?:elements?)?/);
+        const lldbMatch = gdbMatch ? null : value.match(/^(?:((?:std::)?(?:__\w+::)?(\w+)(?:<.*?>)?)\s+)?\{?\s*size=(\d+)/);
+        const match = gdbMatch || lldbMatch;
+        if (!match) {
+            return null;
+        }
+        
+        const containerName = match[2] || 'container';
+        const content = this.extractBraceContent(value.substring(value.indexOf('=') + 1));
+        const elements = content ? this.splitArrayElements(content).filter(e => e !== '...') : [];
+        
+        return {
+            type: match[1] ? match[1].replace(/::__\w+::/, '::').replace(/^std::__\w+::/, 'std::') : 'container',
+            size: parseInt(match[3]),
+            elements,
+            isAssociative: /map|multimap/.test(containerName) || elements.some(e => /^\[.+?\]\s*=/.test(e) && !/^\[\d+\]\s*=/.test(e))
+        };
+    }
+
+    private extractBraceContent(value: string): string | null {
+        const start = value.indexOf('{');
+        if (start === -1) {
+            return null;
+        }
+        
+        let depth = 0;
+        let inQuotes = false;
+        for (let i = start; i < value.length; i++) {
+            const char = value[i];
+            if (char === '"' && value[i - 1] !== '\\') {
+                inQuotes = !inQuotes;
+            } else if (!inQuotes) {
+                if (char === '{') depth++;
+                else if (char === '}') {
+                    depth--;
+                    if (depth === 0) {
+                        return value.substring(start + 1, i);
+                    }
+                }
+            }
+        }
+        
+        return value.substring(start + 1);
+    }
+
     private isExpandable(value: string, type: string): boolean {
+        const container = this.parseStlContainer(value);
+        if (container) {
+            return container.size > 0;
+        }
+        
         return (
             value.startsWith('{') ||
             value.startsWith('[') ||
@@ -0,0 +1,374 @@
+import { LanguageHandler, SupportedLanguage, LanguagePatterns, TypeContext, ParsedValue, LanguageSpecificConfig } from './languageHandler';
+
+export class CSharpLanguageHandler implements LanguageHandler {
+    readonly language: SupportedLanguage = 'csharp';
+    readonly patterns: LanguagePatterns = {
+        applicationPatterns: [
+            'controller', 'service', 'repository', 'entity', 'dto', 'model',
+            'handler', 'manager', 'provider', 'context', 'options', 'command',
+            'query', 'request', 'response', 'data', 'result', 'user',
+            'config', 'client', 'api', 'payload', 'message', 'order'
+        ],
+        systemPatterns: [
+            '<>', 'c__DisplayClass', 'CS$', '$VB$', '<>4__this', '<>1__state',
+            '<>t__builder', '<>u__', 'k__BackingField', '$exception', '$ReturnValue',
+            'System.', 'Microsoft.', '__'
+        ],
+        controlFlowPatterns: [
+            'result', 'success', 'failure', 'error', 'exception', 'status',
+            'valid', 'invalid', 'found', 'exists', 'enabled', 'disabled',
+            'iscompleted', 'isfaulted', 'iscanceled', 'handled', 'ok'
+        ],
+        primitiveTypes: [
+            'bool', 'byte', 'sbyte', 'char', 'short', 'ushort', 'int', 'uint',
+            'long', 'ulong', 'float', 'double', 'decimal', 'string', 'object',
+            'System.Boolean', 'System.Int32', 'System.Int64', 'System.String',
+            'System.Double', 'System.Decimal', 'System.DateTime', 'System.Guid'
+        ],
+        complexTypes: [
+            'List<', 'Dictionary<', 'HashSet<', 'IEnumerable<', 'ICollection<',
+            'IList<', 'IDictionary<', 'Queue<', 'Stack<', 'ConcurrentDictionary<',
+            'Task<', 'Task', 'ValueTask<', 'Nullable<', 'Tuple<', 'KeyValuePair<'
+        ]
+    };
+
+    inferType(name: string, value: string, context: TypeContext): string {
+        const keyLower = name.toLowerCase();
+
+        // .NET debugger value inference
+        if (value === 'null') return 'object';
+        if (value === 'true' || value === 'false') return 'bool';
+        if (/^-?\d+$/.test(value)) return 'int';
+        if (/^-?\d+\.\d+$/.test(value)) return 'double';
+        if (/^-?\d+(\.\d+)?M$/i.test(value)) return 'decimal';
+        if (value.startsWith('"') && value.endsWith('"')) return 'string';
+        if (value.startsWith("'") && value.endsWith("'")) return 'char';
+
+        // {System.Collections.Generic.List<int>}, {int[3]}, {MyApp.Models.User}
+        const braced = value.match(/^\{([A-Za-z_][\w.`<>,\s]*(?:\[\d*\])?)\}$/);
+        if (braced) {
+            const arrayMatch = braced[1].match(/^([\w.<>,\s]+)\[\d+\]$/);
+            return arrayMatch ? `${arrayMatch[1]}[]` : braced[1];
+        }
+        if (value.startsWith('Count = ')) return 'ICollection';
+
+        // Context-based inference
+        if (name === '$exception') return 'System.Exception';
+        if (keyLower.includes('list') || keyLower.includes('items')) return 'List<object>';
+        if (keyLower.includes('map') || keyLower.includes('dict') || keyLower.includes('lookup')) return 'Dictionary<string, object>';
+        if (keyLower.includes('count') || keyLower.includes('length') || keyLower.includes('index')) return 'int';
+        if (keyLower.includes('id') && /^[0-9a-f-]{36}$/i.test(value)) return 'Guid';
+        if (keyLower.includes('id') && /^\d+$/.test(value)) return 'long';
+        if (keyLower.includes('price') || keyLower.includes('amount') || keyLower.includes('total')) return 'decimal';
+        if (keyLower.includes('date') || keyLower.includes('time')) return 'DateTime';
+        if (keyLower.includes('token')) return 'CancellationToken';
+        if (keyLower.includes('task')) return 'Task';
+        if (keyLower.includes('request')) return 'HttpRequest';
+        if (keyLower.includes('response')) return 'HttpResponse';
+
+        return context.parentType || 'object';
+    }
+
+    parseVariableValue(value: string, type: string): ParsedValue {
+        const isNil = this.isNilValue(value);
+        const isPointer = false; // Managed references are not exposed as addresses
+
+        // Collections report their size as "Count = N" (vsdbg) or via the array rank ({int[3]})
+        let arrayLength: number | undefined;
+        let objectKeyCount: number | undefined;
+        const reportedCount = this.parseReportedCount(value);
+
+        if (this.isDictionaryType(value, type)) {
+            const entryCount = Object.keys(this.parseStructFields(value)).length;
+            objectKeyCount = reportedCount !== undefined ? reportedCount : (entryCount > 0 ? entryCount : undefined);
+        } else if (this.isCollectionType(value, type)) {
+            // A bare type display ({System.Collections.Generic.List<int>}) says nothing about the size
+            const elementCount = this.parseArrayElements(value).length;
+            arrayLength = reportedCount !== undefined ? reportedCount : (elementCount > 0 ? elementCount : undefined);
+        }
+
+        return {
+            displayValue: this.formatDisplayValue(value, type),
+            actualValue: value,
+            isExpandable: this.isExpandable(value, type),
+            isNil,
+            isPointer,
+            arrayLength,
+            objectKeyCount
+        };
+    }
+
+    extractFunctionName(rawName: string): string {
+        if (!rawName) return 'unknown';
+
+        let cleaned = rawName.trim();
+
+        // Drop the assembly prefix: "MyApp.dll!MyApp.Services.OrderService.Process(int id)"
+        const bangIndex = cleaned.indexOf('!');
+        if (bangIndex >= 0) {
+            cleaned = cleaned.substring(bangIndex + 1);
+        }
+
+        // Async state machines: OrderService.<ProcessAsync>d__4.MoveNext() -> OrderService.ProcessAsync
+        cleaned = cleaned.replace(/\.<([^>]+)>d__\d+\.MoveNext\(\)/, '.$1');
+
+        // Lambdas: <Main>b__0_0 -> Main.lambda
+        cleaned = cleaned.replace(/<([^>]+)>b__[\w]+/, '$1.lambda');
+
+        // Remove method parameters
+        cleaned = cleaned.replace(/\([^)]*\)/g, '()');
+
+        // Keep the last Namespace.Class.Method parts for readability
+        const parts = cleaned.split('.');
+        if (parts.length > 3) {
+            cleaned = parts.slice(-3).join('.');
+        }
+
+        if (cleaned.length > 60) {
+            cleaned = cleaned.substring(0, 57) + '...';
+        }
+
+        return cleaned;
+    }
+
+    isSystemVariable(name: string, value: string): boolean {
+        // Compiler-generated closures, async state machine fields and debugger pseudo-variables
+        if (this.isCompilerGenerated(name) || name.startsWith('$')) {
+            return true;
+        }
+
+        return this.patterns.systemPatterns.some(pattern =>
+            name.startsWith(pattern) || name.includes(pattern));
+    }
+
+    isApplicationRelevant(name: string, value: string): boolean {
+        // A debugger pseudo-variable, but the active exception is always worth surfacing
+        if (name === '$exception') return true;
+        if (this.isSystemVariable(name, value)) return false;
+
+        const nameLower = name.toLowerCase();
+        const hasApplicationKeyword = this.patterns.applicationPatterns.some(keyword =>
+            nameLower.includes(keyword) || keyword.includes(nameLower));
+
+        const hasMeaningfulValue = value &&
+            value !== 'null' &&
+            !/^\{System\.[\w.]+\}$/.test(value) &&
+            value.length > 1;
+
+        return hasApplicationKeyword || hasMeaningfulValue;
+    }
+
+    isControlFlowVariable(name: string): boolean {
+        const nameLower = name.toLowerCase();
+        return this.patterns.controlFlowPatterns.some(pattern =>
+            nameLower.includes(pattern));
+    }
+
+    isPrimitiveType(typeName: string): boolean {
+        return this.patterns.primitiveTypes.some(p => typeName === p || typeName === `${p}?`);
+    }
+
+    isCollectionType(value: string, typeName: string): boolean {
+        return (
+            typeName.includes('[]') ||
+            /(^|\.)(List|HashSet|IEnumerable|ICollection|IList|Queue|Stack|ImmutableArray)(`\d+)?</.test(typeName) ||
+            /^\{[\w.<>,\s]+\[\d+\]\}$/.test(value) ||
+            /^\{System\.Collections\.Generic\.(List|HashSet|Queue|Stack)</.test(value) ||
+            (value.startsWith('[') && value.endsWith(']'))
+        );
+    }
+
+    isStructuredType(value: string, typeName: string): boolean {
+        return (
+            this.isDictionaryType(value, typeName) ||
+            /^\{[\w.]+\}$/.test(value) ||
+            (!this.isPrimitiveType(typeName) && !this.isCollectionType(value, typeName))
+        );
+    }
+
+    parseStructFields(rawValue: string): Record<string, string> {
+        const fields: Record<string, string> = {};
+
+        // Dictionary display: {[alice, 3], [bob, 5]} or [alice, 3], [bob, 5]
+        const entryPattern = /\[([^,\[\]]+),\s*([^\[\]]*)\]/g;
+        let match: RegExpExecArray | null;
+        while ((match = entryPattern.exec(rawValue)) !== null) {
+            fields[match[1].trim()] = match[2].trim();
+        }
+        if (Object.keys(fields).length > 0) {
+            return fields;
+        }
+
+        // Anonymous types and records: { Name = Alice, Age = 30 } / User { Name = Alice }
+        const braceStart = rawValue.indexOf('{');
+        if (braceStart >= 0 && rawValue.endsWith('}')) {
+            const content = rawValue.substring(braceStart + 1, rawValue.length - 1);
+            this.splitTopLevel(content).forEach(pair => {
+                const equalIndex = pair.indexOf('=');
+                if (equalIndex > 0) {
+                    fields[pair.substring(0, equalIndex).trim()] = pair.substring(equalIndex + 1).trim();
+                }
+            });
+        }
+
+        return fields;
+    }
+
+    parseArrayElements(rawValue: string): string[] {
+        if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+            return this.splitTopLevel(rawValue.slice(1, -1));
+        }
+
+        // Expanded collection previews: {1, 2, 3}
+        if (/^\{[^=]*\}$/.test(rawValue) && rawValue.includes(',')) {
+            return this.splitTopLevel(rawValue.slice(1, -1));
+        }
+
+        return [];
+    }
+
+    isNilValue(rawValue: string): boolean {
+        return rawValue.trim() === 'null';
+    }
+
+    formatDisplayValue(value: string, type: string): string {
+        if (this.isNilValue(value)) return 'null';
+
+        // Clean up string quotes for display
+        if ((type === 'string' || type === 'System.String') && value.startsWith('"') && value.endsWith('"')) {
+            return value.slice(1, -1);
+        }
+
+        // Collections: "Count = 3" becomes List<int> (3 items)
+        const count = this.parseReportedCount(value);
+        if (count !== undefined) {
+            const shortType = this.shortTypeName(type || this.inferType('', value, { variableName: '' }));
+            const unit = this.isDictionaryType(value, type) ? 'entries' : 'items';
+            return `${shortType} (${count} ${unit})`;
+        }
+
+        // Type-only displays such as {MyApp.Models.User}
+        const braced = value.match(/^\{([\w.`<>,\s]+)\}$/);
+        if (braced) {
+            return `<${this.shortTypeName(braced[1])}>`;
+        }
+
+        return value;
+    }
+
+    calculateVariableImportance(name: string, value: string): number {
+        let score = 0;
+        const nameLower = name.toLowerCase();
+
+        // High importance patterns
+        if (this.patterns.applicationPatterns.some(p => nameLower.includes(p))) score += 100;
+        if (this.patterns.controlFlowPatterns.some(p => nameLower.includes(p))) score += 75;
+
+        if (name === '$exception') score += 150;
+
+        // Low importance patterns (negative score)
+        if (this.isCompilerGenerated(name)) score -= 100;
+        else if (this.patterns.systemPatterns.some(p => name.includes(p))) score -= 50;
+
+        // Value-based scoring
+        if (value && value !== 'null' && !/^\{System\.[\w.]+\}$/.test(value)) score += 25;
+        if (value.startsWith('Count = ') || value.startsWith('{')) score += 10;
+
+        // Penalty for very long names
+        if (name.length > 30) score -= 10;
+
+        return score;
+    }
+
+    getDefaultConfig(): LanguageSpecificConfig {
+        return {
+            maxVariableDepth: 4,
+            maxVariableValueLength: 1200,
+            maxParameterCount: 20,
+            enableTypeInference: true,
+            enableDeepExpansion: true,
+            memoryLimitMB: 50,
+            enableAsyncAnalysis: true,
+            analyzeClosures: true
+        };
+    }
+
+    private isCompilerGenerated(name: string): boolean {
+        return (
+            name.includes('<>') ||
+            name.includes('c__DisplayClass') ||
+            name.startsWith('CS$') ||
+            name.includes('$VB$') ||
+            /^<[^>]+>[a-z]__/.test(name) ||
+            name.endsWith('k__BackingField')
+        );
+    }
+
+    private isDictionaryType(value: string, typeName: string): boolean {
+        return (
+            /(^|\.)(I?Dictionary|ConcurrentDictionary|SortedDictionary|ImmutableDictionary)(`\d+)?</.test(typeName) ||
+            /^\{System\.Collections\.(Generic|Concurrent)\.\w*Dictionary</.test(value) ||
+            /^\{\[[^,\[\]]+,[^\[\]]*\]/.test(value)
+        );
+    }
+
+    private parseReportedCount(value: string): number | undefined {
+        const countMatch = value.match(/^Count\s*=\s*(\d+)/);
+        if (countMatch) return parseInt(countMatch[1]);
+
+        const arrayMatch = value.match(/^\{[\w.<>,\s]+\[(\d+)\]\}$/);
+        if (arrayMatch) return parseInt(arrayMatch[1]);
+
+        return undefined;
+    }
+
+    private shortTypeName(typeName: string): string {
+        // System.Collections.Generic.Dictionary<string, int> -> Dictionary<string, int>
+        const genericStart = typeName.indexOf('<');
+        const baseName = genericStart >= 0 ? typeName.substring(0, genericStart) : typeName;
+        const generics = genericStart >= 0 ? typeName.substring(genericStart) : '';
+        return `${baseName.split('.').pop()}${generics}`;
+    }
+
+    private isExpandable(value: string, type: string): boolean {
+        const count = this.parseReportedCount(value);
+        if (count !== undefined) {
+            return count > 0;
+        }
+
+        return (
+            value.startsWith('{') ||
+            value.startsWith('[') ||
+            this.isCollectionType(value, type) ||
+            this.isDictionaryType(value, type) ||
+            (!!type && !this.isPrimitiveType(type) && !this.isNilValue(value))
+        );
+    }
+
+    private splitTopLevel(content: string): string[] {
+        const elements: string[] = [];
+        let current = '';
+        let depth = 0;
+        let inQuotes = false;
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+
+            if (char === '"' && content[i - 1] !== '\\') {
+                inQuotes = !inQuotes;
+            } else if (!inQuotes) {
+                if (char === '{' || char === '[' || char === '(' || char === '<') depth++;
+                else if (char === '}' || char === ']' || char === ')' || char === '>') depth--;
+                else if (char === ',' && depth === 0) {
+                    if (current.trim()) elements.push(current.trim());
+                    current = '';
+                    continue;
+                }
+            }
+            current += char;
+        }
+
+        if (current.trim()) elements.push(current.trim());
+        return elements;
+    }
+}
@@ -44,10 +44,10 @@ export class JavaLanguageHandler implements LanguageHandler {
         if (/^\d+\.\d+f?$/.test(value)) return 'double';
         if (value.startsWith('"') && value.endsWith('"')) return 'String';
         if (value.startsWith('[') && value.endsWith(']')) return 'Array';
-        if (value.includes('@') && value.includes(' ')) {
-            // Java object representation: com.example.User@1a2b3c4d
-            const match = value.match(/^([^@]+)@/);
-            if (match) return match[1];
+        if (value.includes('@')) {
+            // Java object representation: com.example.User@1a2b3c4d, ArrayList@24 size=3, int[3]@28
+            const match = value.match(/^([\w.$]+)(\[\d*\])?@/);
+            if (match) return match[2] ? `${match[1]}[]` : match[1];
         }
         
         // Context-based inference
@@ -74,16 +74,19 @@ export class JavaLanguageHandler implements LanguageHandler {
         const isNil = this.isNilValue(value);
         const isPointer = false; // Java doesn't expose pointers directly
         
-        // Parse array length
+        // Parse array length, preferring the size the debugger reports (ArrayList@24 size=3, int[3]@28)
         let arrayLength: number | undefined;
-        if (type.includes('[]') || type.includes('Array') || type.includes('List')) {
-            const elements = this.parseArrayElements(value);
-            arrayLength = elements.length;
+        const reportedSize = this.parseReportedSize(value);
+        const isMap = type.includes('Map') || /^[\w.$]*Map@/.test(value);
+        if (!isMap && (type.includes('[]') || type.includes('Array') || type.includes('List') || type.includes('Set'))) {
+            arrayLength = reportedSize !== undefined ? reportedSize : this.parseArrayElements(value).length;
         }
         
         // Parse object field count
         let objectKeyCount: number | undefined;
-        if (value.includes('{') && value.includes('}')) {
+        if (isMap && reportedSize !== undefined) {
+            objectKeyCount = reportedSize;
+        } else if (value.includes('{') && value.includes('}')) {
             const fields = this.parseStructFields(value);
             objectKeyCount = Object.keys(fields).length;
         }
@@ -233,11 +236,12 @@ export class JavaLanguageHandler implements LanguageHandler {
             return value.slice(1, -1);
         }
         
-        // Simplify object representations
+        // Simplify object representations, keeping the collection size when reported
         if (value.includes('@')) {
             const match = value.match(/([^.]+)@/);
             if (match) {
-                return `<${match[1]} object>`;
+                const size = this.parseReportedSize(value);
+                return size !== undefined ? `<${match[1]} size=${size}>` : `<${match[1]} object>`;
             }
         }
         
@@ -282,6 +286,16 @@ export class JavaLanguageHandler implements LanguageHandler {
         };
     }
 
+    private parseReportedSize(value: string): number | undefined {
+        const sizeMatch = value.match(/@[0-9a-fA-F]+\s+size=(\d+)/);
+        if (sizeMatch) return parseInt(sizeMatch[1]);
+        
+        const arrayMatch = value.match(/\[(\d+)\]@[0-9a-fA-F]+/);
+        if (arrayMatch) return parseInt(arrayMatch[1]);
+        
+        return undefined;
+    }
+
     private isExpandable(value: string, type: string): boolean {
         return (
             value.startsWith('{') ||
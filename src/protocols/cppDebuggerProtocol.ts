@@ -1,9 +1,9 @@
-import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
 import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState } from './debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
 
 export class CppDebuggerProtocol extends EventEmitter implements DebuggerProtocol {
-    public currentSession: vscode.DebugSession | null = null;
+    public currentSession: DapTransport | null = null;
     private isAttached = false;
     private currentThreadId: number | null = null;
     private currentFrameId: number | null = null;
@@ -13,7 +13,7 @@ export class CppDebuggerProtocol extends EventEmitter implements DebuggerProtoco
         console.log(`🔧 CppDebuggerProtocol initialized at 2025-06-14 09:29:38`);
     }
 
-    attachToSession(session: vscode.DebugSession): void {
+    attachToSession(session: DapTransport): void {
         console.log(`🔗 C++ debugger: Attaching to session: ${session.name} at 2025-06-14 09:29:38`);
         this.currentSession = session;
         this.isAttached = true;
@@ -43,10 +43,10 @@ export class CppDebuggerProtocol extends EventEmitter implements DebuggerProtoco
     async notifyStoppedFromVSCode(): Promise<void> {
         console.log(`🛑 C++ debug stopped - detecting context at 2025-06-14 09:29:38`);
         
-        const activeStackItem = vscode.debug.activeStackItem;
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
         
-        if (activeStackItem && activeStackItem.session === this.currentSession) {
-            this.currentThreadId = activeStackItem.threadId;
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
             
             console.log(`🎯 Using C++ active thread: ${this.currentThreadId} at 2025-06-14 09:29:38`);
             
@@ -171,11 +171,14 @@ export class CppDebuggerProtocol extends EventEmitter implements DebuggerProtoco
             });
 
             if (scopes.scopes) {
-                const scopeList = scopes.scopes.map((scope: any) => ({
-                    name: scope.name,
-                    variablesReference: scope.variablesReference,
-                    expensive: scope.expensive || false
-                }));
+                // Registers and disassembly are not useful as variable context
+                const scopeList = scopes.scopes
+                    .filter((scope: any) => scope.name !== 'Registers' && scope.name !== 'Disassembly')
+                    .map((scope: any) => ({
+                        name: scope.name,
+                        variablesReference: scope.variablesReference,
+                        expensive: scope.expensive || false
+                    }));
                 console.log(`✅ Got ${scopeList.length} C++ scopes at 2025-06-14 09:29:38:`, scopeList.map(s => s.name));
                 return scopeList;
             }
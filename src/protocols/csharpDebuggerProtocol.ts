@@ -0,0 +1,297 @@
+import { EventEmitter } from 'events';
+import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState } from './debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
+
+export class CSharpDebuggerProtocol extends EventEmitter implements DebuggerProtocol {
+    public currentSession: DapTransport | null = null;
+    private isAttached = false;
+    private currentThreadId: number | null = null;
+    private currentFrameId: number | null = null;
+
+    constructor() {
+        super();
+        console.log(`🔷 CSharpDebuggerProtocol initialized`);
+    }
+
+    attachToSession(session: DapTransport): void {
+        console.log(`🔗 C# debugger: Attaching to session: ${session.name}`);
+        this.currentSession = session;
+        this.isAttached = true;
+        this.currentThreadId = null;
+        this.currentFrameId = null;
+        this.emit('attached', session);
+        console.log(`✅ C# debugger: Attached successfully`);
+    }
+
+    detachFromSession(): void {
+        console.log(`🔌 C# debugger: Detaching from session`);
+        this.currentSession = null;
+        this.isAttached = false;
+        this.currentThreadId = null;
+        this.currentFrameId = null;
+        this.emit('detached');
+    }
+
+    isConnected(): boolean {
+        return this.isAttached && this.currentSession !== null;
+    }
+
+    isStoppedAtBreakpoint(): boolean {
+        return this.isConnected() && this.currentThreadId !== null;
+    }
+
+    async notifyStoppedFromVSCode(): Promise<void> {
+        console.log(`🛑 C# debug stopped - detecting context`);
+        
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
+        
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
+            
+            console.log(`🎯 Using C# active thread: ${this.currentThreadId}`);
+            
+            try {
+                const stackTrace = await this.currentSession!.customRequest('stackTrace', {
+                    threadId: this.currentThreadId,
+                    startFrame: 0,
+                    levels: 1
+                });
+                
+                if (stackTrace.stackFrames && stackTrace.stackFrames.length > 0) {
+                    this.currentFrameId = stackTrace.stackFrames[0].id;
+                    console.log(`🎯 C# current frame ID: ${this.currentFrameId}, frame: ${stackTrace.stackFrames[0].name}`);
+                }
+            } catch (error) {
+                console.error(`❌ Error getting C# current frame:`, error);
+            }
+        } else {
+            await this.detectStoppedThread();
+        }
+        
+        this.emit('stopped', { 
+            threadId: this.currentThreadId,
+            frameId: this.currentFrameId,
+            reason: 'csharp-breakpoint' 
+        });
+    }
+
+    notifyContinuedFromVSCode(): void {
+        console.log(`▶️ C# debug continued`);
+        this.currentThreadId = null;
+        this.currentFrameId = null;
+        this.emit('continued', { reason: 'csharp-continue' });
+    }
+
+    async getCurrentFrame(): Promise<DebugFrame | null> {
+        if (!this.currentThreadId || !this.currentSession) {
+            console.log(`❌ No C# current thread or session`);
+            return null;
+        }
+
+        try {
+            const stackTrace = await this.currentSession.customRequest('stackTrace', {
+                threadId: this.currentThreadId,
+                startFrame: 0,
+                levels: 1
+            });
+
+            if (stackTrace.stackFrames && stackTrace.stackFrames.length > 0) {
+                const frame = stackTrace.stackFrames[0];
+                this.currentFrameId = frame.id;
+                
+                console.log(`✅ C# current frame: ${frame.name}`);
+                
+                return {
+                    id: frame.id,
+                    name: frame.name,
+                    source: frame.source ? {
+                        name: frame.source.name,
+                        path: frame.source.path
+                    } : undefined,
+                    line: frame.line,
+                    column: frame.column
+                };
+            }
+        } catch (error) {
+            console.error(`❌ Error getting C# current frame:`, error);
+        }
+
+        return null;
+    }
+
+    async getCurrentDebugState(): Promise<DebugState> {
+        return {
+            stopped: this.isStoppedAtBreakpoint(),
+            currentThreadId: this.currentThreadId,
+            currentFrameId: this.currentFrameId,
+            session: this.currentSession
+        };
+    }
+
+    async getStackTrace(): Promise<DebugFrame[]> {
+        if (!this.currentThreadId || !this.currentSession) {
+            console.log(`❌ Cannot get C# stack trace - no current thread`);
+            return [];
+        }
+
+        try {
+            const stackTrace = await this.currentSession.customRequest('stackTrace', {
+                threadId: this.currentThreadId,
+                startFrame: 0,
+                levels: 30
+            });
+
+            if (stackTrace.stackFrames) {
+                const frames = stackTrace.stackFrames.map((frame: any) => ({
+                    id: frame.id,
+                    name: frame.name,
+                    source: frame.source,
+                    line: frame.line,
+                    column: frame.column
+                }));
+                console.log(`✅ Got ${frames.length} C# stack frames for thread ${this.currentThreadId}`);
+                return frames;
+            }
+        } catch (error) {
+            console.error(`❌ Error getting C# stack trace:`, error.message);
+        }
+
+        return [];
+    }
+
+    async getScopes(): Promise<DebugScope[]> {
+        if (!this.currentFrameId || !this.currentSession) {
+            console.log(`❌ Cannot get C# scopes - no current frame`);
+            return [];
+        }
+
+        try {
+            const scopes = await this.currentSession.customRequest('scopes', {
+                frameId: this.currentFrameId
+            });
+
+            if (scopes.scopes) {
+                const scopeList = scopes.scopes.map((scope: any) => ({
+                    name: scope.name,
+                    variablesReference: scope.variablesReference,
+                    expensive: scope.expensive || false
+                }));
+                console.log(`✅ Got ${scopeList.length} C# scopes:`, scopeList.map(s => s.name));
+                return scopeList;
+            }
+        } catch (error) {
+            console.error(`❌ Error getting C# scopes:`, error.message);
+        }
+
+        return [];
+    }
+
+    async getScopeVariables(variablesReference: number): Promise<DebugVariable[]> {
+        if (!this.currentSession || variablesReference === 0) {
+            return [];
+        }
+
+        try {
+            const variables = await this.currentSession.customRequest('variables', {
+                variablesReference
+            });
+
+            if (variables.variables) {
+                const varList = variables.variables.map((variable: any) => ({
+                    name: variable.name,
+                    value: variable.value,
+                    type: variable.type,
+                    variablesReference: variable.variablesReference,
+                    evaluateName: variable.evaluateName
+                }));
+                console.log(`✅ Got ${varList.length} C# variables`);
+                return varList;
+            }
+        } catch (error) {
+            console.error(`❌ Error getting C# variables:`, error.message);
+        }
+
+        return [];
+    }
+
+    async getFrameVariables(frameId: number): Promise<Record<string, any>> {
+        if (!this.currentSession) {
+            return {};
+        }
+
+        try {
+            const scopes = await this.currentSession.customRequest('scopes', { frameId });
+            const variables: Record<string, any> = {};
+
+            if (scopes.scopes) {
+                for (const scope of scopes.scopes) {
+                    // Skip register and static member scopes that vsdbg/netcoredbg can expose
+                    if (scope.name === 'Registers' || scope.name === 'Static members') {
+                        continue;
+                    }
+
+                    const scopeVars = await this.currentSession.customRequest('variables', {
+                        variablesReference: scope.variablesReference
+                    });
+
+                    if (scopeVars.variables) {
+                        for (const variable of scopeVars.variables) {
+                            variables[variable.name] = variable.value;
+                        }
+                    }
+                }
+            }
+
+            console.log(`✅ Got C# frame variables:`, Object.keys(variables));
+            return variables;
+        } catch (error) {
+            console.error(`❌ Error getting C# frame variables:`, error.message);
+            return {};
+        }
+    }
+
+    getCurrentThreadId(): number | null {
+        return this.currentThreadId;
+    }
+
+    getCurrentFrameId(): number | null {
+        return this.currentFrameId;
+    }
+
+    private async detectStoppedThread(): Promise<void> {
+        if (!this.currentSession) return;
+        
+        try {
+            const threadsResponse = await this.currentSession.customRequest('threads');
+            
+            if (threadsResponse.threads && threadsResponse.threads.length > 0) {
+                for (const thread of threadsResponse.threads) {
+                    try {
+                        const stackTrace = await this.currentSession.customRequest('stackTrace', {
+                            threadId: thread.id,
+                            startFrame: 0,
+                            levels: 1
+                        });
+                        
+                        if (stackTrace.stackFrames && stackTrace.stackFrames.length > 0) {
+                            this.currentThreadId = thread.id;
+                            this.currentFrameId = stackTrace.stackFrames[0].id;
+                            console.log(`🔍 Detected C# stopped thread: ${this.currentThreadId}, frame: ${stackTrace.stackFrames[0].name}`);
+                            break;
+                        }
+                    } catch (error) {
+                        // Continue to next thread
+                    }
+                }
+            }
+        } catch (error) {
+            console.error(`❌ Error detecting C# stopped thread:`, error);
+        }
+    }
+
+    dispose(): void {
+        console.log(`🧹 Disposing CSharpDebuggerProtocol`);
+        this.detachFromSession();
+        this.removeAllListeners();
+    }
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import { DapTransport } from '../transport/dapTransport';
 
 export interface DebugFrame {
     id: number;
@@ -9,6 +9,23 @@ export interface DebugFrame {
     };
     line: number;
     column: number;
+    // Set when the next frame down the stack awaited this one rather than calling it: the label of the
+    // async boundary DAP reported between them ('await', 'Promise.then', ...)
+    asyncBoundary?: string;
+}
+
+// A thread or async task beyond the stopped thread's own stack
+export interface DebugExecutionUnit {
+    id: string;
+    kind: 'thread' | 'task';
+    name: string;
+    state?: string;
+    // The task the debugger stopped in; its frames are already part of the stopped stack
+    isCurrent?: boolean;
+    // Innermost frame first; frames outside DAP (asyncio task stacks) have id 0
+    frames: DebugFrame[];
+    // Unit awaiting this one, e.g. the asyncio task gathering it
+    awaitedBy?: string;
 }
 
 export interface DebugScope {
@@ -29,13 +46,13 @@ export interface DebugState {
     stopped: boolean;
     currentThreadId: number | null;
     currentFrameId: number | null;
-    session: vscode.DebugSession | null;
+    session: DapTransport | null;
 }
 
 export interface DebuggerProtocol {
-    readonly currentSession: vscode.DebugSession | null;
+    readonly currentSession: DapTransport | null;
     
-    attachToSession(session: vscode.DebugSession): void;
+    attachToSession(session: DapTransport): void;
     detachFromSession(): void;
     isConnected(): boolean;
     isStoppedAtBreakpoint(): boolean;
@@ -49,6 +66,8 @@ export interface DebuggerProtocol {
     getScopes(): Promise<DebugScope[]>;
     getScopeVariables(variablesReference: number): Promise<DebugVariable[]>;
     getFrameVariables(frameId: number): Promise<Record<string, any>>;
+    // Other threads and async tasks, for protocols that can list them
+    getExecutionUnits?(): Promise<DebugExecutionUnit[]>;
     
     getCurrentThreadId(): number | null;
     getCurrentFrameId(): number | null;
@@ -1,9 +1,9 @@
-import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
 import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState } from './debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
 
 export class JavaDebuggerProtocol extends EventEmitter implements DebuggerProtocol {
-    public currentSession: vscode.DebugSession | null = null;
+    public currentSession: DapTransport | null = null;
     private isAttached = false;
     private currentThreadId: number | null = null;
     private currentFrameId: number | null = null;
@@ -13,7 +13,7 @@ export class JavaDebuggerProtocol extends EventEmitter implements DebuggerProtoc
         console.log(`☕ JavaDebuggerProtocol initialized at 2025-06-14 09:29:38`);
     }
 
-    attachToSession(session: vscode.DebugSession): void {
+    attachToSession(session: DapTransport): void {
         console.log(`🔗 Java debugger: Attaching to session: ${session.name} at 2025-06-14 09:29:38`);
         this.currentSession = session;
         this.isAttached = true;
@@ -43,10 +43,10 @@ export class JavaDebuggerProtocol extends EventEmitter implements DebuggerProtoc
     async notifyStoppedFromVSCode(): Promise<void> {
         console.log(`🛑 Java debug stopped - detecting context at 2025-06-14 09:29:38`);
         
-        const activeStackItem = vscode.debug.activeStackItem;
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
         
-        if (activeStackItem && activeStackItem.session === this.currentSession) {
-            this.currentThreadId = activeStackItem.threadId;
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
             
             console.log(`🎯 Using Java active thread: ${this.currentThreadId} at 2025-06-14 09:29:38`);
             
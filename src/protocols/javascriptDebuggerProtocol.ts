@@ -1,9 +1,9 @@
-import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
 import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState } from './debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
 
 export class JavaScriptDebuggerProtocol extends EventEmitter implements DebuggerProtocol {
-    public currentSession: vscode.DebugSession | null = null;
+    public currentSession: DapTransport | null = null;
     private isAttached = false;
     private currentThreadId: number | null = null;
     private currentFrameId: number | null = null;
@@ -13,7 +13,7 @@ export class JavaScriptDebuggerProtocol extends EventEmitter implements Debugger
         console.log(`⚡ JavaScriptDebuggerProtocol initialized at 2025-06-13 04:05:26`);
     }
 
-    attachToSession(session: vscode.DebugSession): void {
+    attachToSession(session: DapTransport): void {
         console.log(`🔗 JavaScript debugger: Attaching to session: ${session.name} at 2025-06-13 04:05:26`);
         this.currentSession = session;
         this.isAttached = true;
@@ -43,10 +43,10 @@ export class JavaScriptDebuggerProtocol extends EventEmitter implements Debugger
     async notifyStoppedFromVSCode(): Promise<void> {
         console.log(`🛑 JavaScript debug stopped - detecting context at 2025-06-13 04:05:26`);
         
-        const activeStackItem = vscode.debug.activeStackItem;
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
         
-        if (activeStackItem && activeStackItem.session === this.currentSession) {
-            this.currentThreadId = activeStackItem.threadId;
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
             
             console.log(`🎯 Using JavaScript active thread: ${this.currentThreadId} at 2025-06-13 04:05:26`);
             
@@ -142,13 +142,25 @@ export class JavaScriptDebuggerProtocol extends EventEmitter implements Debugger
             });
 
             if (stackTrace.stackFrames) {
-                const frames = stackTrace.stackFrames.map((frame: any) => ({
-                    id: frame.id,
-                    name: frame.name || 'anonymous',
-                    source: frame.source,
-                    line: frame.line,
-                    column: frame.column
-                }));
+                const frames: DebugFrame[] = [];
+                for (const frame of stackTrace.stackFrames) {
+                    // Async stack traces: js-debug separates the awaited frames from the frames that
+                    // awaited them with a label frame ('await', 'Promise.then', ...) that has no source
+                    if (frame.presentationHint === 'label') {
+                        if (frames.length > 0) {
+                            frames[frames.length - 1].asyncBoundary = frame.name || 'async';
+                        }
+                        continue;
+                    }
+
+                    frames.push({
+                        id: frame.id,
+                        name: frame.name || 'anonymous',
+                        source: frame.source,
+                        line: frame.line,
+                        column: frame.column
+                    });
+                }
                 console.log(`✅ Got ${frames.length} JavaScript stack frames for thread ${this.currentThreadId} at 2025-06-13 04:05:26`);
                 return frames;
             }
@@ -1,9 +1,33 @@
-import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
-import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState } from './debuggerProtocol';
+import { DebuggerProtocol, DebugFrame, DebugScope, DebugVariable, DebugState, DebugExecutionUnit } from './debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
+
+const MAX_THREADS = 16;
+const MAX_TASKS = 32;
+const UNIT_STACK_LEVELS = 12;
+
+// Evaluated in the stopped frame; asyncio.all_tasks() needs the event loop running in that thread.
+// Each task lists the tasks it waits on (directly or through gather) so the await chain can be rebuilt.
+const ASYNCIO_TASKS_EXPRESSION = "__import__('json').dumps([{" +
+    "'id': id(t), 'name': t.get_name(), 'current': t is __import__('asyncio').current_task(), " +
+    "'coro': getattr(getattr(t.get_coro(), 'cr_code', None), 'co_name', None), " +
+    `'stack': [[f.f_code.co_name, f.f_code.co_filename, f.f_lineno] for f in t.get_stack(limit=${UNIT_STACK_LEVELS})], ` +
+    "'waits': [id(w) for w in (getattr(getattr(t, '_fut_waiter', None), '_children', None) or [getattr(t, '_fut_waiter', None)]) if w is not None]" +
+    `} for t in list(__import__('asyncio').all_tasks())[:${MAX_TASKS}]])`;
+
+interface AsyncioTaskInfo {
+    id: number;
+    name: string;
+    current: boolean;
+    // Name of the task's own coroutine; the running task's stack continues into the event loop below it
+    coro: string | null;
+    // Oldest frame first: [function, file, line]
+    stack: [string, string, number][];
+    waits: number[];
+}
 
 export class PythonDebuggerProtocol extends EventEmitter implements DebuggerProtocol {
-    public currentSession: vscode.DebugSession | null = null;
+    public currentSession: DapTransport | null = null;
     private isAttached = false;
     private currentThreadId: number | null = null;
     private currentFrameId: number | null = null;
@@ -13,7 +37,7 @@ export class PythonDebuggerProtocol extends EventEmitter implements DebuggerProt
         console.log(`🐍 PythonDebuggerProtocol initialized at 2025-06-13 04:05:26`);
     }
 
-    attachToSession(session: vscode.DebugSession): void {
+    attachToSession(session: DapTransport): void {
         console.log(`🔗 Python debugger: Attaching to session: ${session.name} at 2025-06-13 04:05:26`);
         this.currentSession = session;
         this.isAttached = true;
@@ -43,10 +67,10 @@ export class PythonDebuggerProtocol extends EventEmitter implements DebuggerProt
     async notifyStoppedFromVSCode(): Promise<void> {
         console.log(`🛑 Python debug stopped - detecting context at 2025-06-13 04:05:26`);
         
-        const activeStackItem = vscode.debug.activeStackItem;
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
         
-        if (activeStackItem && activeStackItem.session === this.currentSession) {
-            this.currentThreadId = activeStackItem.threadId;
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
             
             console.log(`🎯 Using Python active thread: ${this.currentThreadId} at 2025-06-13 04:05:26`);
             
@@ -253,6 +277,102 @@ export class PythonDebuggerProtocol extends EventEmitter implements DebuggerProt
         return this.currentFrameId;
     }
 
+    // Every other thread's stack plus the asyncio tasks of the stopped thread's event loop
+    async getExecutionUnits(): Promise<DebugExecutionUnit[]> {
+        if (!this.currentSession || this.currentThreadId === null) {
+            return [];
+        }
+
+        const units: DebugExecutionUnit[] = [];
+        try {
+            const threadsResponse = await this.currentSession.customRequest('threads');
+            const threads = (threadsResponse.threads || []).filter((thread: any) => thread.id !== this.currentThreadId);
+
+            for (const thread of threads.slice(0, MAX_THREADS)) {
+                try {
+                    const stackTrace = await this.currentSession.customRequest('stackTrace', {
+                        threadId: thread.id,
+                        startFrame: 0,
+                        levels: UNIT_STACK_LEVELS
+                    });
+                    units.push({
+                        id: `thread-${thread.id}`,
+                        kind: 'thread',
+                        name: thread.name || `Thread ${thread.id}`,
+                        frames: (stackTrace.stackFrames || []).map((frame: any) => ({
+                            id: frame.id,
+                            name: frame.name,
+                            source: frame.source,
+                            line: frame.line,
+                            column: frame.column
+                        }))
+                    });
+                } catch (error) {
+                    // Threads debugpy did not suspend have no stack to report
+                }
+            }
+        } catch (error) {
+            console.error(`❌ Error listing Python threads:`, error.message);
+        }
+
+        units.push(...await this.getAsyncioTasks());
+        console.log(`🧵 Python execution units: ${units.filter(u => u.kind === 'thread').length} other threads, ${units.filter(u => u.kind === 'task').length} asyncio tasks`);
+        return units;
+    }
+
+    private async getAsyncioTasks(): Promise<DebugExecutionUnit[]> {
+        if (!this.currentSession || this.currentFrameId === null) {
+            return [];
+        }
+
+        let tasks: AsyncioTaskInfo[];
+        try {
+            const response = await this.currentSession.customRequest('evaluate', {
+                expression: ASYNCIO_TASKS_EXPRESSION,
+                frameId: this.currentFrameId,
+                context: 'clipboard'
+            });
+            tasks = JSON.parse(this.unquotePythonString(response.result));
+        } catch (error) {
+            // No running event loop in the stopped thread, or evaluate is unavailable
+            return [];
+        }
+
+        const awaitedBy = new Map<number, number>();
+        for (const task of tasks) {
+            for (const waited of task.waits) {
+                awaitedBy.set(waited, task.id);
+            }
+        }
+
+        return tasks.map(task => {
+            const frames: DebugFrame[] = task.stack.slice().reverse().map(([name, file, line]) => ({
+                id: 0,
+                name,
+                source: { name: file.split(/[\\/]/).pop() || file, path: file },
+                line,
+                column: 0
+            }));
+            const coroIndex = frames.findIndex(frame => frame.name === task.coro);
+
+            return {
+                id: `task-${task.id}`,
+                kind: 'task' as const,
+                name: task.name,
+                state: task.current ? 'running' : task.waits.length > 0 ? 'awaiting' : 'pending',
+                isCurrent: task.current,
+                frames: coroIndex >= 0 ? frames.slice(0, coroIndex + 1) : frames,
+                awaitedBy: awaitedBy.has(task.id) ? `task-${awaitedBy.get(task.id)}` : undefined
+            };
+        });
+    }
+
+    // debugpy returns the repr of the string: quoted, with backslashes and quotes escaped
+    private unquotePythonString(value: string): string {
+        const quoted = value.match(/^(['"])([\s\S]*)\1$/);
+        return quoted ? quoted[2].replace(/\\([\\'"])/g, '$1') : value;
+    }
+
     private async detectStoppedThread(): Promise<void> {
         if (!this.currentSession) return;
         
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
-import { LLMService } from './llmService';
+import { LLMService, LLMOptions, LocalApiStyle } from './llmService';
 import * as os from 'os';
+import { ConfigurationService, LLMSettings, LLMStringSetting } from './configurationService';
 
 export interface AIProvider {
     label: string;
@@ -9,6 +10,12 @@ export interface AIProvider {
     models: { label: string; value: string; description?: string }[];
 }
 
+// The provider/model every AI entry point should use, resolved from coDebugger.llm.*
+export interface AIProfile extends LLMOptions {
+    label: string;
+    isConfigured: boolean;
+}
+
 export class AIConfigurationService {
     private static readonly providers: AIProvider[] = [
         {
@@ -40,6 +47,13 @@ export class AIConfigurationService {
                 { label: 'GPT-4', value: 'gpt-4', description: 'Azure GPT-4 deployment' },
                 { label: 'GPT-35-Turbo', value: 'gpt-35-turbo', description: 'Azure GPT-3.5 deployment' }
             ]
+        },
+        {
+            label: 'Local Model',
+            value: 'local',
+            description: 'Ollama or llama.cpp server on this machine - debug data never leaves it',
+            // Models are discovered from the running server during configuration
+            models: []
         }
     ];
 
@@ -48,13 +62,12 @@ export class AIConfigurationService {
         const user = os.userInfo().username || 'unknown-user';
         console.log(`🤖 Starting AI configuration at ${timestamp} (User: ${user})`);
 
-        // Check if API key is already configured
-        const config = vscode.workspace.getConfiguration('coDebugger.llm');
-        const currentProvider = config.get<string>('provider', 'openai');
-        const hasApiKey = this.hasValidApiKey(currentProvider);
+        // Check if the active profile is already usable
+        const profile = this.getActiveProfile();
+        const currentProvider = profile.provider;
+        const currentModel = profile.model;
 
-        if (hasApiKey) {
-            const currentModel = config.get<string>('model', 'gpt-4');
+        if (profile.isConfigured) {
             const action = await vscode.window.showInformationMessage(
                 `🤖 AI is already configured!\nProvider: ${currentProvider.toUpperCase()}\nModel: ${currentModel}`,
                 'Test Configuration',
@@ -84,14 +97,73 @@ export class AIConfigurationService {
         return false;
     }
 
+    static getActiveProfile(overrides: Partial<LLMOptions> = {}): AIProfile {
+        const config = ConfigurationService.getInstance().llm;
+        const provider = config.provider;
+        const providerInfo = this.providers.find(p => p.value === provider);
+
+        let model = config.model || this.getDefaultModel(provider);
+        if (provider === 'azure') {
+            model = config.azureDeploymentName || model;
+        }
+
+        const profile: AIProfile = {
+            provider,
+            model,
+            temperature: config.temperature,
+            maxTokens: config.maxTokens,
+            apiEndpoint: provider === 'custom'
+                ? config.customEndpoint || undefined
+                : provider === 'local' ? config.localEndpoint || undefined : undefined,
+            label: `${providerInfo?.label || (provider === 'custom' ? 'Custom' : provider)} · ${model}`,
+            isConfigured: provider === 'custom'
+                ? !!config.customEndpoint
+                : provider === 'local' || this.hasValidApiKey(provider)
+        };
+
+        return { ...profile, ...overrides };
+    }
+
+    // Makes sure an AI profile is usable before a query is sent, offering the wizard otherwise
+    static async ensureActiveProfile(llmService: LLMService, overrides: Partial<LLMOptions> = {}): Promise<AIProfile | null> {
+        const profile = this.getActiveProfile(overrides);
+        if (profile.isConfigured) {
+            return profile;
+        }
+
+        const selection = await vscode.window.showWarningMessage(
+            `🤖 ${profile.label} is not configured yet. Set up an AI provider to use AI analysis.`,
+            'Configure AI',
+            'Cancel'
+        );
+
+        if (selection === 'Configure AI' && await this.configureAI(llmService)) {
+            const configured = this.getActiveProfile(overrides);
+            return configured.isConfigured ? configured : null;
+        }
+
+        return null;
+    }
+
+    private static getDefaultModel(provider: string): string {
+        switch (provider) {
+            case 'anthropic': return 'claude-3-sonnet-20240229';
+            case 'custom': return 'default';
+            case 'local': return 'llama3';
+            default: return 'gpt-4';
+        }
+    }
+
     private static async showConfigurationWizard(llmService: LLMService): Promise<boolean> {
         try {
             // Step 1: Choose Provider
             const selectedProvider = await vscode.window.showQuickPick(
                 this.providers.map(p => ({
-                    label: `$(cloud) ${p.label}`,
+                    label: p.value === 'local' ? `$(server) ${p.label}` : `$(cloud) ${p.label}`,
                     description: p.description,
-                    detail: `Models: ${p.models.map(m => m.label).join(', ')}`,
+                    detail: p.models.length > 0
+                        ? `Models: ${p.models.map(m => m.label).join(', ')}`
+                        : 'Models: discovered from your local server',
                     provider: p
                 })),
                 {
@@ -103,6 +175,10 @@ export class AIConfigurationService {
 
             if (!selectedProvider) return false;
 
+            if (selectedProvider.provider.value === 'local') {
+                return await this.showLocalConfigurationWizard(llmService);
+            }
+
             // Step 2: Enter API Key
             const apiKeyResult = await this.promptForApiKey(selectedProvider.provider);
             if (!apiKeyResult) return false;
@@ -147,6 +223,85 @@ export class AIConfigurationService {
         }
     }
 
+    private static async showLocalConfigurationWizard(llmService: LLMService): Promise<boolean> {
+        const settings = ConfigurationService.getInstance();
+
+        // Step 2: Server protocol and endpoint
+        const selectedStyle = await vscode.window.showQuickPick(
+            [
+                { label: '$(server) Ollama', description: '/api/chat', style: 'ollama' as LocalApiStyle },
+                { label: '$(server) OpenAI-compatible', description: '/v1/chat/completions (llama.cpp, LM Studio, vLLM)', style: 'openai' as LocalApiStyle }
+            ],
+            {
+                placeHolder: 'Select the protocol your local server speaks',
+                title: 'Step 2/3: Local Server',
+                ignoreFocusOut: true
+            }
+        );
+
+        if (!selectedStyle) return false;
+
+        const currentEndpoint = settings.llm.localEndpoint;
+        const endpoint = await vscode.window.showInputBox({
+            prompt: 'Enter the local server URL',
+            value: currentEndpoint || LLMService.getDefaultLocalEndpoint(selectedStyle.style),
+            ignoreFocusOut: true,
+            title: 'Step 2/3: Local Server',
+            validateInput: (value) => {
+                if (!LLMService.isLoopbackEndpoint(value)) {
+                    return 'Endpoint must be on this machine (localhost, 127.0.0.1 or ::1)';
+                }
+                return null;
+            }
+        });
+
+        if (!endpoint) return false;
+
+        // Step 3: Pick one of the models the server reports
+        let model: string | undefined;
+        try {
+            const models = await llmService.listLocalModels(endpoint, selectedStyle.style);
+            if (models.length > 0) {
+                const selectedModel = await vscode.window.showQuickPick(
+                    models.map(m => ({ label: `$(gear) ${m}`, model: m })),
+                    {
+                        placeHolder: 'Select local model',
+                        title: 'Step 3/3: Choose Model',
+                        ignoreFocusOut: true
+                    }
+                );
+                if (!selectedModel) return false;
+                model = selectedModel.model;
+            }
+        } catch (error) {
+            console.warn(`⚠️ Could not list local models:`, error);
+            vscode.window.showWarningMessage(`⚠️ Could not list models from ${endpoint}: ${error.message}`);
+        }
+
+        if (!model) {
+            model = await vscode.window.showInputBox({
+                prompt: 'Enter the model name to use (e.g. llama3, codellama:13b)',
+                value: settings.llm.model || 'llama3',
+                ignoreFocusOut: true,
+                title: 'Step 3/3: Choose Model'
+            });
+        }
+
+        if (!model) return false;
+
+        await settings.updateLLMSetting('provider', 'local');
+        await settings.updateLLMSetting('model', model);
+        await settings.updateLLMSetting('localEndpoint', endpoint);
+        await settings.updateLLMSetting('localApiStyle', selectedStyle.style);
+        console.log(`✅ Local AI configuration saved: ${selectedStyle.style} ${endpoint} / ${model}`);
+
+        const testResult = await this.testConfiguration(llmService, 'local', model);
+        if (testResult) {
+            vscode.window.showInformationMessage(`🎉 AI Configuration Complete!\n✅ Local model ${model} is ready to use.`);
+        }
+        return testResult;
+    }
+
     private static async promptForApiKey(provider: AIProvider): Promise<string | null> {
         let placeHolder = '';
         let prompt = '';
@@ -213,25 +368,25 @@ export class AIConfigurationService {
             if (!deployment) return null;
 
             // Save Azure-specific settings
-            const config = vscode.workspace.getConfiguration('coDebugger.llm');
-            await config.update('azureEndpoint', endpoint, vscode.ConfigurationTarget.Global);
-            await config.update('azureDeploymentName', deployment, vscode.ConfigurationTarget.Global);
+            const settings = ConfigurationService.getInstance();
+            await settings.updateLLMSetting('azureEndpoint', endpoint);
+            await settings.updateLLMSetting('azureDeploymentName', deployment);
         }
 
         return apiKey;
     }
 
     private static async saveConfiguration(provider: AIProvider, apiKey: string, model: string): Promise<void> {
-        const config = vscode.workspace.getConfiguration('coDebugger.llm');
+        const settings = ConfigurationService.getInstance();
         const timestamp = new Date().toISOString().slice(0, 19).replace('T', ' ');
         const user = os.userInfo().username || 'unknown-user';
 
-        await config.update('provider', provider.value, vscode.ConfigurationTarget.Global);
-        await config.update('model', model, vscode.ConfigurationTarget.Global);
+        await settings.updateLLMSetting('provider', provider.value as LLMSettings['provider']);
+        await settings.updateLLMSetting('model', model);
 
         // Save provider-specific API key
         const apiKeyField = this.getApiKeyField(provider.value);
-        await config.update(apiKeyField, apiKey, vscode.ConfigurationTarget.Global);
+        await settings.updateLLMSetting(apiKeyField, apiKey);
 
         console.log(`✅ Configuration saved at ${timestamp}: ${provider.value}/${model} (User: ${user})`);
     }
@@ -322,13 +477,11 @@ You can now use the AI debug assistant with your ${provider.toUpperCase()} ${mod
     }
 
     private static hasValidApiKey(provider: string): boolean {
-        const config = vscode.workspace.getConfiguration('coDebugger.llm');
-        const apiKeyField = this.getApiKeyField(provider);
-        const apiKey = config.get<string>(apiKeyField, '');
+        const apiKey = ConfigurationService.getInstance().getLLMSetting(this.getApiKeyField(provider)) || '';
         return apiKey.length > 10;
     }
 
-    private static getApiKeyField(provider: string): string {
+    private static getApiKeyField(provider: string): LLMStringSetting {
         switch (provider) {
             case 'openai': return 'openaiApiKey';
             case 'anthropic': return 'anthropicApiKey';
@@ -338,11 +491,10 @@ You can now use the AI debug assistant with your ${provider.toUpperCase()} ${mod
     }
 
     static async quickConfigure(): Promise<boolean> {
-        const config = vscode.workspace.getConfiguration('coDebugger.llm');
-        const hasAnyKey = this.hasValidApiKey('openai') || this.hasValidApiKey('anthropic') || this.hasValidApiKey('azure');
+        const profile = this.getActiveProfile();
 
-        if (hasAnyKey) {
-            vscode.window.showInformationMessage('✅ AI is already configured! You can use the AI assistant in debug sessions.');
+        if (profile.isConfigured) {
+            vscode.window.showInformationMessage(`✅ AI is already configured (${profile.label})! You can use the AI assistant in debug sessions.`);
             return true;
         }
 
@@ -0,0 +1,381 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+
+export interface VariableAnalysisSettings {
+    controlFlowPatterns: string[];
+    systemVariablePatterns: string[];
+    applicationVariablePatterns: string[];
+    maxVariableValueLength: number;
+    maxParameterCount: number;
+    enableTypeInference: boolean;
+    enableDeepExpansion: boolean;
+    maxExpansionDepth: number;
+    memoryLimitMB: number;
+    maxChangeHistory: number;
+}
+
+export interface LLMSettings {
+    provider: 'openai' | 'anthropic' | 'azure' | 'custom' | 'local';
+    // Only set when the user picked a model; the contributed gpt-4 default means nothing for other providers
+    model?: string;
+    openaiApiKey: string;
+    anthropicApiKey: string;
+    azureApiKey: string;
+    azureEndpoint: string;
+    azureDeploymentName: string;
+    customEndpoint: string;
+    customApiKey: string;
+    localEndpoint: string;
+    localApiStyle: 'ollama' | 'openai';
+    temperature: number;
+    maxTokens: number;
+    contextTokenBudget: number;
+}
+
+export type LLMStringSetting = {
+    [K in keyof LLMSettings]-?: LLMSettings[K] extends string ? K : never
+}[keyof LLMSettings];
+
+// Simplification limits for one language. Built-in values come from CoDataStructureHandler;
+// coDebugger.languageSpecific.<language>.* and a launch configuration's coDebuggerProfile override them.
+export interface LanguageProfile {
+    maxVariableDepth: number;
+    maxArrayLength: number;
+    maxObjectKeys: number;
+    knownTypes: string[];
+    truncateThreshold: number;
+    memoryLimitMB: number;
+    analyzeSTLContainers: boolean;
+}
+
+export interface SnapshotSettings {
+    enabled: boolean;
+    // Oldest snapshots are deleted once the workspace holds more than this many
+    maxSnapshots: number;
+}
+
+// off: nothing is recorded; local: events stay on this machine; remote: also sent to Google Analytics
+export type TelemetryMode = 'off' | 'local' | 'remote';
+
+export interface TelemetrySettings {
+    mode: TelemetryMode;
+    // File local events are appended to, in addition to the output channel; empty for none
+    logFile: string;
+}
+
+export interface CoDebuggerSettings {
+    variableAnalysis: VariableAnalysisSettings;
+    llm: LLMSettings;
+    snapshots: SnapshotSettings;
+    telemetry: TelemetrySettings;
+}
+
+const VARIABLE_ANALYSIS_SECTION = 'coDebugger.variableAnalysis';
+const LLM_SECTION = 'coDebugger.llm';
+const LANGUAGE_SPECIFIC_SECTION = 'coDebugger.languageSpecific';
+const SNAPSHOTS_SECTION = 'coDebugger.snapshots';
+const TELEMETRY_SECTION = 'coDebugger.telemetry';
+
+// Launch configuration attribute holding per-session profile overrides
+export const LAUNCH_PROFILE_ATTRIBUTE = 'coDebuggerProfile';
+
+const LANGUAGE_PROFILE_TYPES: Record<keyof LanguageProfile, 'number' | 'boolean' | 'string[]'> = {
+    maxVariableDepth: 'number',
+    maxArrayLength: 'number',
+    maxObjectKeys: 'number',
+    knownTypes: 'string[]',
+    truncateThreshold: 'number',
+    memoryLimitMB: 'number',
+    analyzeSTLContainers: 'boolean'
+};
+
+// Namespaces used before everything moved under coDebugger; their values are copied over on activation
+const LEGACY_SECTIONS: { from: string; to: string }[] = [
+    { from: 'goDebugger.variableAnalysis', to: VARIABLE_ANALYSIS_SECTION },
+    { from: 'contextSelector.llm', to: LLM_SECTION }
+];
+
+const VARIABLE_ANALYSIS_DEFAULTS: VariableAnalysisSettings = {
+    controlFlowPatterns: [
+        'err', 'error', 'ok', 'found', 'valid', 'success', 'fail', 'failed',
+        'result', 'status', 'state', 'flag', 'enabled', 'disabled', 'response',
+        'resp', 'req', 'request', 'ctx', 'context', 'done', 'finished',
+        'complete', 'ready', 'active', 'running', 'stopped'
+    ],
+    systemVariablePatterns: [
+        '~', '.', '_internal', '_system', '_runtime', '_debug',
+        'autotmp', 'goroutine', 'stack', 'heap', 'gc', 'sync',
+        'mutex', 'lock', 'once', 'pool', 'buffer', 'cache'
+    ],
+    applicationVariablePatterns: [
+        'id', 'name', 'user', 'client', 'data', 'value', 'content',
+        'config', 'params', 'handler', 'service', 'manager', 'request',
+        'response', 'message', 'body', 'payload', 'result', 'output',
+        'input', 'query', 'command', 'event', 'notification'
+    ],
+    maxVariableValueLength: 500,
+    maxParameterCount: 30,
+    enableTypeInference: true,
+    enableDeepExpansion: true,
+    maxExpansionDepth: 6,
+    memoryLimitMB: 50,
+    maxChangeHistory: 50
+};
+
+const LLM_DEFAULTS: LLMSettings = {
+    provider: 'openai',
+    model: undefined,
+    openaiApiKey: '',
+    anthropicApiKey: '',
+    azureApiKey: '',
+    azureEndpoint: '',
+    azureDeploymentName: '',
+    customEndpoint: '',
+    customApiKey: '',
+    localEndpoint: '',
+    localApiStyle: 'ollama',
+    temperature: 0.3,
+    maxTokens: 4000,
+    contextTokenBudget: 0
+};
+
+const SNAPSHOT_DEFAULTS: SnapshotSettings = {
+    enabled: true,
+    maxSnapshots: 100
+};
+
+const TELEMETRY_DEFAULTS: TelemetrySettings = {
+    mode: 'off',
+    logFile: ''
+};
+
+// Single typed view of the coDebugger.* settings. Values are cached and re-read on
+// onDidChangeConfiguration, so the next refresh picks up edits without restarting the session.
+// Emits 'variableAnalysisChanged' with only the keys that changed, 'languageProfilesChanged', 'llmChanged'
+// with the new LLM settings, 'snapshotsChanged' with the new snapshot settings and 'telemetryChanged'
+// with the new telemetry settings.
+export class ConfigurationService extends EventEmitter implements vscode.Disposable {
+    private static _instance: ConfigurationService;
+
+    private settings: CoDebuggerSettings;
+    private languageOverrides: Map<string, Partial<LanguageProfile>> = new Map();
+    private listener: vscode.Disposable;
+
+    static getInstance(): ConfigurationService {
+        if (!ConfigurationService._instance) {
+            ConfigurationService._instance = new ConfigurationService();
+        }
+        return ConfigurationService._instance;
+    }
+
+    private constructor() {
+        super();
+        this.settings = this.readSettings();
+        this.listener = vscode.workspace.onDidChangeConfiguration(event => this.handleConfigurationChange(event));
+    }
+
+    get variableAnalysis(): VariableAnalysisSettings {
+        return { ...this.settings.variableAnalysis };
+    }
+
+    get llm(): LLMSettings {
+        return { ...this.settings.llm };
+    }
+
+    get snapshots(): SnapshotSettings {
+        return { ...this.settings.snapshots };
+    }
+
+    get telemetry(): TelemetrySettings {
+        return { ...this.settings.telemetry };
+    }
+
+    getLLMSetting(key: LLMStringSetting): string | undefined {
+        return this.settings.llm[key] || undefined;
+    }
+
+    async updateLLMSetting<K extends keyof LLMSettings>(key: K, value: LLMSettings[K], target = vscode.ConfigurationTarget.Global): Promise<void> {
+        await vscode.workspace.getConfiguration(LLM_SECTION).update(key, value, target);
+        // The change event also arrives, but callers usually read the value straight back
+        this.settings.llm = this.readLLMSettings();
+    }
+
+    // Values set for coDebugger.languageSpecific.<language>.* at any level; unset keys are left out
+    getLanguageOverrides(language: string): Partial<LanguageProfile> {
+        let overrides = this.languageOverrides.get(language);
+        if (!overrides) {
+            const config = vscode.workspace.getConfiguration(`${LANGUAGE_SPECIFIC_SECTION}.${language}`);
+            const values: Record<string, unknown> = {};
+            for (const key of Object.keys(LANGUAGE_PROFILE_TYPES)) {
+                values[key] = config.get(key);
+            }
+            overrides = ConfigurationService.parseLanguageProfile(values);
+            this.languageOverrides.set(language, overrides);
+        }
+        return { ...overrides };
+    }
+
+    // Reads the coDebuggerProfile attribute of a launch configuration, ignoring values of the wrong type
+    static getLaunchProfileOverrides(configuration?: Record<string, any>): Partial<LanguageProfile> {
+        const raw = configuration?.[LAUNCH_PROFILE_ATTRIBUTE];
+        if (!raw || typeof raw !== 'object') {
+            return {};
+        }
+        return ConfigurationService.parseLanguageProfile(raw);
+    }
+
+    private static parseLanguageProfile(values: Record<string, unknown>): Partial<LanguageProfile> {
+        const profile: Partial<LanguageProfile> = {};
+        for (const [key, type] of Object.entries(LANGUAGE_PROFILE_TYPES) as [keyof LanguageProfile, string][]) {
+            const value = values[key];
+            const valid = type === 'number' ? typeof value === 'number' && Number.isFinite(value) && value > 0
+                : type === 'boolean' ? typeof value === 'boolean'
+                : Array.isArray(value) && value.every(item => typeof item === 'string');
+            if (valid) {
+                (profile as any)[key] = value;
+            } else if (value !== undefined && value !== null) {
+                console.warn(`⚠️ Ignoring ${key}=${JSON.stringify(value)} in language profile: expected ${type}`);
+            }
+        }
+        return profile;
+    }
+
+    // Copies values from the legacy namespaces into coDebugger.* wherever the new key is still unset.
+    // The old keys are not contributed any more, so they are left in place rather than rewritten.
+    async migrateLegacySettings(): Promise<number> {
+        let migrated = 0;
+
+        for (const { from, to } of LEGACY_SECTIONS) {
+            const legacy = vscode.workspace.getConfiguration(from);
+            const current = vscode.workspace.getConfiguration(to);
+            const defaults: object = to === LLM_SECTION ? LLM_DEFAULTS : VARIABLE_ANALYSIS_DEFAULTS;
+
+            for (const key of Object.keys(defaults)) {
+                const oldValue = legacy.inspect(key);
+                const newValue = current.inspect(key);
+                if (!oldValue) {
+                    continue;
+                }
+
+                const targets: [unknown, unknown, vscode.ConfigurationTarget][] = [
+                    [oldValue.globalValue, newValue?.globalValue, vscode.ConfigurationTarget.Global],
+                    [oldValue.workspaceValue, newValue?.workspaceValue, vscode.ConfigurationTarget.Workspace]
+                ];
+
+                for (const [value, existing, target] of targets) {
+                    if (value === undefined || value === '' || existing !== undefined) {
+                        continue;
+                    }
+                    try {
+                        await current.update(key, value, target);
+                        migrated++;
+                    } catch (error) {
+                        console.warn(`⚠️ Could not migrate ${from}.${key} to ${to}.${key}:`, error);
+                    }
+                }
+            }
+        }
+
+        if (migrated > 0) {
+            console.log(`🔧 Migrated ${migrated} legacy setting(s) to coDebugger.*`);
+            this.settings = this.readSettings();
+        }
+        return migrated;
+    }
+
+    dispose(): void {
+        this.listener.dispose();
+        this.removeAllListeners();
+    }
+
+    private handleConfigurationChange(event: vscode.ConfigurationChangeEvent): void {
+        if (event.affectsConfiguration(VARIABLE_ANALYSIS_SECTION)) {
+            const previous = this.settings.variableAnalysis;
+            this.settings.variableAnalysis = this.readVariableAnalysisSettings();
+
+            const changes: Partial<VariableAnalysisSettings> = {};
+            for (const key of Object.keys(VARIABLE_ANALYSIS_DEFAULTS) as (keyof VariableAnalysisSettings)[]) {
+                if (event.affectsConfiguration(`${VARIABLE_ANALYSIS_SECTION}.${key}`) &&
+                    JSON.stringify(previous[key]) !== JSON.stringify(this.settings.variableAnalysis[key])) {
+                    (changes as any)[key] = this.settings.variableAnalysis[key];
+                }
+            }
+
+            if (Object.keys(changes).length > 0) {
+                console.log(`🔧 Variable analysis settings changed: ${Object.keys(changes).join(', ')}`);
+                this.emit('variableAnalysisChanged', changes);
+            }
+        }
+
+        if (event.affectsConfiguration(LANGUAGE_SPECIFIC_SECTION)) {
+            this.languageOverrides.clear();
+            console.log(`🔧 Language-specific profiles changed`);
+            this.emit('languageProfilesChanged');
+        }
+
+        if (event.affectsConfiguration(LLM_SECTION)) {
+            this.settings.llm = this.readLLMSettings();
+            console.log(`🔧 LLM settings changed (provider: ${this.settings.llm.provider})`);
+            this.emit('llmChanged', this.llm);
+        }
+
+        if (event.affectsConfiguration(SNAPSHOTS_SECTION)) {
+            this.settings.snapshots = this.readSnapshotSettings();
+            console.log(`🔧 Snapshot settings changed (enabled: ${this.settings.snapshots.enabled}, max: ${this.settings.snapshots.maxSnapshots})`);
+            this.emit('snapshotsChanged', this.snapshots);
+        }
+
+        if (event.affectsConfiguration(TELEMETRY_SECTION)) {
+            this.settings.telemetry = this.readTelemetrySettings();
+            console.log(`🔧 Telemetry settings changed (mode: ${this.settings.telemetry.mode})`);
+            this.emit('telemetryChanged', this.telemetry);
+        }
+    }
+
+    private readSettings(): CoDebuggerSettings {
+        return {
+            variableAnalysis: this.readVariableAnalysisSettings(),
+            llm: this.readLLMSettings(),
+            snapshots: this.readSnapshotSettings(),
+            telemetry: this.readTelemetrySettings()
+        };
+    }
+
+    private readTelemetrySettings(): TelemetrySettings {
+        const config = vscode.workspace.getConfiguration(TELEMETRY_SECTION);
+        const mode = config.get<string>('mode', TELEMETRY_DEFAULTS.mode);
+        return {
+            mode: mode === 'local' || mode === 'remote' ? mode : 'off',
+            logFile: config.get('logFile', TELEMETRY_DEFAULTS.logFile) || ''
+        };
+    }
+
+    private readSnapshotSettings(): SnapshotSettings {
+        const config = vscode.workspace.getConfiguration(SNAPSHOTS_SECTION);
+        return {
+            enabled: config.get('enabled', SNAPSHOT_DEFAULTS.enabled),
+            maxSnapshots: Math.max(1, config.get('maxSnapshots', SNAPSHOT_DEFAULTS.maxSnapshots))
+        };
+    }
+
+    private readVariableAnalysisSettings(): VariableAnalysisSettings {
+        const config = vscode.workspace.getConfiguration(VARIABLE_ANALYSIS_SECTION);
+        const settings = { ...VARIABLE_ANALYSIS_DEFAULTS };
+        for (const key of Object.keys(settings) as (keyof VariableAnalysisSettings)[]) {
+            (settings as any)[key] = config.get(key, VARIABLE_ANALYSIS_DEFAULTS[key]);
+        }
+        return settings;
+    }
+
+    private readLLMSettings(): LLMSettings {
+        const config = vscode.workspace.getConfiguration(LLM_SECTION);
+        const settings = { ...LLM_DEFAULTS };
+        for (const key of Object.keys(settings) as (keyof LLMSettings)[]) {
+            (settings as any)[key] = config.get(key, LLM_DEFAULTS[key]);
+        }
+
+        const modelInspect = config.inspect<string>('model');
+        settings.model = modelInspect?.workspaceFolderValue ?? modelInspect?.workspaceValue ?? modelInspect?.globalValue ?? undefined;
+        return settings;
+    }
+}
@@ -0,0 +1,711 @@
+import * as path from 'path';
+
+// One conjunct of a path condition: `expression` has to evaluate to `value`
+export interface SolverLiteral {
+    expression: string;
+    value: boolean;
+}
+
+// What is known about a variable at the stop; the solver keeps these values where it can
+export interface SolverVariable {
+    name: string;
+    type?: string;
+    value?: string;
+}
+
+export type WitnessValue =
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: string }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'null' }
+    | { kind: 'non-null' }
+    // Collections only constrained through len(x) / x.length
+    | { kind: 'length'; value: number };
+
+export interface SolverResult {
+    // partial: the supported literals were solved, the unsupported ones ignored
+    // unknown: no witness found, which does not prove the path infeasible (integer gaps, size limits)
+    status: 'sat' | 'partial' | 'unsat' | 'unknown';
+    witness: Record<string, WitnessValue>;
+    // Witness entries that differ from the known value at the stop
+    changed: string[];
+    unsupported: string[];
+    solvedLiterals: number;
+}
+
+// sum(coeffs[v] * v) + constant
+interface LinearExpression {
+    coeffs: Map<string, number>;
+    constant: number;
+}
+
+// expression <op> 0
+interface LinearConstraint {
+    expression: LinearExpression;
+    op: '<' | '<=' | '==' | '!=';
+}
+
+// expression < 0 (strict) or expression <= 0
+interface Row {
+    coeffs: Map<string, number>;
+    constant: number;
+    strict: boolean;
+}
+
+type Atom =
+    | { kind: 'linear'; constraint: LinearConstraint }
+    | { kind: 'string'; variable: string; literal: string; equal: boolean }
+    | { kind: 'null'; variable: string; isNull: boolean }
+    | { kind: 'boolean'; variable: string; value: boolean };
+
+const COMPARISON_OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '<', '>'];
+const NULL_LITERAL = /^(?:nil|null|None|undefined|nullptr|NULL)$/;
+const BOOLEAN_LITERAL = /^(?:true|false|True|False)$/;
+const STRING_LITERAL = /^(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`[^`]*`)$/;
+const PATH = /^[A-Za-z_$][\w$]*(?:(?:\.|->)[A-Za-z_$][\w$]*)*$/;
+const LENGTH_PROPERTY = /^(.+?)(?:\.|->)(?:length|Length|Count|size|len)$/;
+const TOKEN = /\s*(\d+(?:\.\d+)?|[A-Za-z_$][\w$]*(?:(?:\.|->)[A-Za-z_$][\w$]*)*|[-+*/()])/y;
+// Fourier-Motzkin grows quadratically per eliminated variable; bail out before it gets expensive
+const MAX_ROWS = 400;
+const MAX_NUDGES = 20;
+
+// A small decision procedure for the conditions branch scanning produces: conjunctions of linear
+// integer/real (in)equalities, boolean flags, string (in)equality and length, and null checks.
+// Linear parts are solved by Fourier-Motzkin elimination; back-substitution picks the value
+// closest to the one observed at the stop, so witnesses change as little input as possible.
+export class ConstraintSolver {
+    solve(literals: SolverLiteral[], variables: SolverVariable[] = []): SolverResult {
+        const known = new Map(variables.map(v => [v.name, v]));
+        const unsupported: string[] = [];
+        const atoms: Atom[] = [];
+
+        for (const literal of literals) {
+            const atom = this.parseLiteral(literal);
+            if (atom) atoms.push(atom);
+            else unsupported.push(literal.expression);
+        }
+
+        const unsat = (): SolverResult => ({ status: 'unsat', witness: {}, changed: [], unsupported, solvedLiterals: 0 });
+        const strings = new Map<string, { equal?: string; excluded: Set<string> }>();
+        const nulls = new Map<string, boolean>();
+        const booleans = new Map<string, boolean>();
+        const linear: LinearConstraint[] = [];
+
+        for (const atom of atoms) {
+            switch (atom.kind) {
+                case 'linear':
+                    linear.push(atom.constraint);
+                    break;
+                case 'boolean':
+                    if (booleans.has(atom.variable) && booleans.get(atom.variable) !== atom.value) return unsat();
+                    booleans.set(atom.variable, atom.value);
+                    break;
+                case 'null':
+                    if (nulls.has(atom.variable) && nulls.get(atom.variable) !== atom.isNull) return unsat();
+                    nulls.set(atom.variable, atom.isNull);
+                    break;
+                case 'string': {
+                    const facts = strings.get(atom.variable) || { excluded: new Set<string>() };
+                    if (atom.equal) {
+                        if (facts.equal !== undefined && facts.equal !== atom.literal) return unsat();
+                        facts.equal = atom.literal;
+                    } else {
+                        facts.excluded.add(atom.literal);
+                    }
+                    strings.set(atom.variable, facts);
+                    break;
+                }
+            }
+        }
+
+        for (const [name, facts] of strings) {
+            if (facts.equal !== undefined && facts.excluded.has(facts.equal)) return unsat();
+            // A string compared against a literal is not null
+            if (nulls.get(name) === true && facts.equal !== undefined) return unsat();
+        }
+
+        // Length terms are non-negative integers and agree with any string they are pinned to
+        const lengthOf = new Map<string, string>();
+        linear.forEach(c => c.expression.coeffs.forEach((_, term) => {
+            const base = /^len\((.+)\)$/.exec(term);
+            if (base) lengthOf.set(term, base[1]);
+        }));
+        for (const [term, base] of lengthOf) {
+            linear.push({ expression: { coeffs: new Map([[term, -1]]), constant: 0 }, op: '<=' });
+            const pinned = strings.get(base)?.equal;
+            if (pinned !== undefined) {
+                linear.push({ expression: { coeffs: new Map([[term, 1]]), constant: -pinned.length }, op: '==' });
+            }
+            if (nulls.get(base) === true) return unsat();
+        }
+
+        const numericVariables = new Set<string>();
+        linear.forEach(c => c.expression.coeffs.forEach((_, v) => numericVariables.add(v)));
+        const integers = new Set<string>();
+        const preferred = new Map<string, number>();
+        numericVariables.forEach(v => {
+            const base = lengthOf.get(v);
+            const observed = base !== undefined ? this.observedLength(known.get(base)) : this.parseNumber(known.get(v)?.value);
+            if (observed !== undefined) preferred.set(v, observed);
+            if (base !== undefined || this.isIntegerVariable(known.get(v))) integers.add(v);
+        });
+
+        const numeric = this.solveLinear(linear, Array.from(numericVariables), integers, preferred);
+        if (numeric.status === 'unsat') return unsat();
+        if (numeric.status === 'unknown') {
+            return { status: 'unknown', witness: {}, changed: [], unsupported, solvedLiterals: 0 };
+        }
+
+        const witness: Record<string, WitnessValue> = {};
+        const changed: string[] = [];
+        const set = (name: string, value: WitnessValue, observed = known.get(name)) => {
+            witness[name] = value;
+            if (!this.matchesObserved(value, observed)) changed.push(name);
+        };
+
+        numeric.values.forEach((value, name) => {
+            if (!lengthOf.has(name)) set(name, { kind: 'number', value });
+        });
+
+        const stringLike = new Set(strings.keys());
+        lengthOf.forEach(base => {
+            if (this.isStringVariable(known.get(base))) stringLike.add(base);
+        });
+        lengthOf.forEach((base, term) => {
+            if (!stringLike.has(base)) set(term, { kind: 'length', value: numeric.values.get(term) as number }, known.get(base));
+        });
+
+        for (const name of stringLike) {
+            const facts = strings.get(name) || { excluded: new Set<string>() };
+            const lengthTerm = `len(${name})`;
+            const length = numeric.values.get(lengthTerm);
+            const value = facts.equal !== undefined
+                ? facts.equal
+                : this.pickString(this.parseString(known.get(name)?.value), facts.excluded, length);
+            if (value === undefined) {
+                return { status: 'unknown', witness: {}, changed: [], unsupported, solvedLiterals: 0 };
+            }
+            set(name, { kind: 'string', value });
+        }
+
+        nulls.forEach((isNull, name) => {
+            if (witness[name]) return;
+            set(name, isNull ? { kind: 'null' } : { kind: 'non-null' });
+        });
+        booleans.forEach((value, name) => {
+            if (!witness[name]) set(name, this.truthinessWitness(value, known.get(name)));
+        });
+
+        return {
+            status: unsupported.length > 0 ? 'partial' : 'sat',
+            witness,
+            changed,
+            unsupported,
+            solvedLiterals: atoms.length
+        };
+    }
+
+    // Renders a witness as a literal of the language the file is written in
+    static formatWitness(value: WitnessValue, file: string = ''): string {
+        const ext = path.extname(file).toLowerCase();
+        const python = ext === '.py' || ext === '.pyw';
+        switch (value.kind) {
+            case 'number':
+                return String(value.value);
+            case 'string':
+                return JSON.stringify(value.value);
+            case 'boolean':
+                return python ? (value.value ? 'True' : 'False') : String(value.value);
+            case 'null':
+                if (ext === '.go') return 'nil';
+                if (python) return 'None';
+                if (['.c', '.h', '.cc', '.cpp', '.cxx', '.hpp'].includes(ext)) return 'nullptr';
+                return 'null';
+            case 'non-null':
+                return 'any non-null value';
+            case 'length':
+                return `${value.value} element${value.value === 1 ? '' : 's'}`;
+        }
+    }
+
+    private parseLiteral(literal: SolverLiteral): Atom | undefined {
+        let text = this.unwrap(literal.expression.trim());
+        let value = literal.value;
+
+        const negated = /^(?:!(?!=)|not\s+)\s*([\s\S]+)$/.exec(text);
+        if (negated && (PATH.test(negated[1].trim()) || /^\(/.test(negated[1].trim()))) {
+            return this.parseLiteral({ expression: negated[1], value: !value });
+        }
+
+        const isNone = /^(.+?)\s+is\s+(not\s+)?None$/.exec(text);
+        if (isNone) {
+            const variable = isNone[1].trim();
+            return PATH.test(variable) ? { kind: 'null', variable, isNull: !isNone[2] === value } : undefined;
+        }
+
+        const split = this.splitComparison(text);
+        if (!split) {
+            return PATH.test(text) ? { kind: 'boolean', variable: text, value } : undefined;
+        }
+
+        let [left, op, right] = split;
+        // Keep the literal on the right
+        if (NULL_LITERAL.test(left) || BOOLEAN_LITERAL.test(left) || STRING_LITERAL.test(left)) {
+            [left, right] = [right, left];
+            op = ({ '<': '>', '<=': '>=', '>': '<', '>=': '<=' } as Record<string, string>)[op] || op;
+        }
+        const equality = op === '==' || op === '===';
+        const inequality = op === '!=' || op === '!==';
+
+        if (NULL_LITERAL.test(right)) {
+            if (!PATH.test(left) || !(equality || inequality)) return undefined;
+            return { kind: 'null', variable: left, isNull: equality === value };
+        }
+
+        if (BOOLEAN_LITERAL.test(right)) {
+            if (!PATH.test(left) || !(equality || inequality)) return undefined;
+            const literalValue = right === 'true' || right === 'True';
+            return { kind: 'boolean', variable: left, value: equality === value ? literalValue : !literalValue };
+        }
+
+        if (STRING_LITERAL.test(right)) {
+            if (!PATH.test(left) || !(equality || inequality)) return undefined;
+            return { kind: 'string', variable: left, literal: this.unquote(right), equal: equality === value };
+        }
+
+        const lhs = this.parseLinear(left);
+        const rhs = this.parseLinear(right);
+        if (!lhs || !rhs) return undefined;
+
+        // left - right <op> 0, with the operator negated when the literal has to be false
+        const difference = this.combine(lhs, rhs, -1);
+        const normalized = ({ '===': '==', '!==': '!=' } as Record<string, string>)[op] || op;
+        const effective = value
+            ? normalized
+            : ({ '==': '!=', '!=': '==', '<': '>=', '<=': '>', '>': '<=', '>=': '<' } as Record<string, string>)[normalized];
+
+        switch (effective) {
+            case '<':
+            case '<=':
+            case '==':
+            case '!=':
+                return { kind: 'linear', constraint: { expression: difference, op: effective } };
+            case '>':
+                return { kind: 'linear', constraint: { expression: this.scale(difference, -1), op: '<' } };
+            case '>=':
+                return { kind: 'linear', constraint: { expression: this.scale(difference, -1), op: '<=' } };
+        }
+        return undefined;
+    }
+
+    private splitComparison(text: string): [string, string, string] | undefined {
+        let depth = 0;
+        let quote = '';
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+            if (quote) {
+                if (c === '\\') i++;
+                else if (c === quote) quote = '';
+                continue;
+            }
+            if (c === '"' || c === '\'' || c === '`') {
+                quote = c;
+            } else if ('([{'.includes(c)) {
+                depth++;
+            } else if (')]}'.includes(c)) {
+                depth--;
+            } else if (depth === 0) {
+                // `->` and `<-` are member access and channel receive, not comparisons
+                if ((c === '>' && text[i - 1] === '-') || (c === '<' && text[i + 1] === '-')) continue;
+                const op = COMPARISON_OPERATORS.find(candidate => text.startsWith(candidate, i));
+                if (op) {
+                    const rest = text.slice(i + op.length);
+                    // Chained comparisons (`a < b < c`) end up in the unsupported list
+                    return this.splitComparison(rest) ? undefined : [text.slice(0, i).trim(), op, rest.trim()];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // expression := term (('+' | '-') term)*, term := factor (('*' | '/') factor)*
+    private parseLinear(text: string): LinearExpression | undefined {
+        const tokens: string[] = [];
+        TOKEN.lastIndex = 0;
+        while (TOKEN.lastIndex < text.length) {
+            const match = TOKEN.exec(text);
+            if (!match) {
+                return text.slice(TOKEN.lastIndex).trim() === '' ? this.parseTokens(tokens) : undefined;
+            }
+            tokens.push(match[1]);
+        }
+        return this.parseTokens(tokens);
+    }
+
+    private parseTokens(tokens: string[]): LinearExpression | undefined {
+        let position = 0;
+        const peek = () => tokens[position];
+        const next = () => tokens[position++];
+
+        const factor = (): LinearExpression | undefined => {
+            const token = next();
+            if (token === undefined) return undefined;
+            if (token === '-') {
+                const operand = factor();
+                return operand && this.scale(operand, -1);
+            }
+            if (token === '+') return factor();
+            if (token === '(') {
+                const inner = expression();
+                return next() === ')' ? inner : undefined;
+            }
+            if (/^\d/.test(token)) {
+                return { coeffs: new Map(), constant: parseFloat(token) };
+            }
+            if (!PATH.test(token)) return undefined;
+
+            if (peek() === '(') {
+                next();
+                // len(x) / cap(x) and x.size() / x.length() / x.count() are the only calls with a meaning here
+                if (token === 'len' && PATH.test(peek() || '') && tokens[position + 1] === ')') {
+                    const argument = next();
+                    next();
+                    return this.term(`len(${argument})`);
+                }
+                const method = /^(.+?)(?:\.|->)(?:size|length|count|Count)$/.exec(token);
+                if (method && peek() === ')') {
+                    next();
+                    return this.term(`len(${method[1]})`);
+                }
+                return undefined;
+            }
+
+            const property = LENGTH_PROPERTY.exec(token);
+            return this.term(property ? `len(${property[1]})` : token);
+        };
+
+        const term = (): LinearExpression | undefined => {
+            let result = factor();
+            while (result && (peek() === '*' || peek() === '/')) {
+                const op = next();
+                const operand = factor();
+                if (!operand) return undefined;
+                if (op === '*') {
+                    if (operand.coeffs.size === 0) result = this.scale(result, operand.constant);
+                    else if (result.coeffs.size === 0) result = this.scale(operand, result.constant);
+                    else return undefined;
+                } else {
+                    if (operand.coeffs.size > 0 || operand.constant === 0) return undefined;
+                    result = this.scale(result, 1 / operand.constant);
+                }
+            }
+            return result;
+        };
+
+        const expression = (): LinearExpression | undefined => {
+            let result = term();
+            while (result && (peek() === '+' || peek() === '-')) {
+                const sign = next() === '+' ? 1 : -1;
+                const operand = term();
+                if (!operand) return undefined;
+                result = this.combine(result, operand, sign);
+            }
+            return result;
+        };
+
+        const result = expression();
+        return result && position === tokens.length ? result : undefined;
+    }
+
+    private term(name: string): LinearExpression {
+        return { coeffs: new Map([[name, 1]]), constant: 0 };
+    }
+
+    private scale(expression: LinearExpression, factor: number): LinearExpression {
+        const coeffs = new Map<string, number>();
+        expression.coeffs.forEach((c, v) => coeffs.set(v, c * factor));
+        return { coeffs, constant: expression.constant * factor };
+    }
+
+    // a + sign * b
+    private combine(a: LinearExpression, b: LinearExpression, sign: number): LinearExpression {
+        const coeffs = new Map(a.coeffs);
+        b.coeffs.forEach((c, v) => {
+            const sum = (coeffs.get(v) || 0) + sign * c;
+            if (Math.abs(sum) < 1e-12) coeffs.delete(v);
+            else coeffs.set(v, sum);
+        });
+        return { coeffs, constant: a.constant + sign * b.constant };
+    }
+
+    private solveLinear(
+        constraints: LinearConstraint[],
+        variables: string[],
+        integers: Set<string>,
+        preferred: Map<string, number>
+    ): { status: 'sat' | 'unsat' | 'unknown'; values: Map<string, number> } {
+        const values = new Map<string, number>();
+        const rows: Row[] = [];
+        const disequalities: LinearExpression[] = [];
+
+        for (const { expression, op } of constraints) {
+            if (op === '!=') {
+                disequalities.push(expression);
+            } else if (op === '==') {
+                rows.push(this.toRow(expression, false, integers), this.toRow(this.scale(expression, -1), false, integers));
+            } else {
+                rows.push(this.toRow(expression, op === '<', integers));
+            }
+        }
+
+        // Eliminate the least constrained variables first; systems[i] still mentions order[i..]
+        const occurrences = (v: string) => rows.filter(row => row.coeffs.has(v)).length;
+        const order = [...variables].sort((a, b) => occurrences(a) - occurrences(b));
+        const systems: Row[][] = [rows];
+
+        for (const variable of order) {
+            const current = systems[systems.length - 1];
+            const upper = current.filter(row => (row.coeffs.get(variable) || 0) > 0);
+            const lower = current.filter(row => (row.coeffs.get(variable) || 0) < 0);
+            const next = current.filter(row => !row.coeffs.has(variable));
+
+            for (const u of upper) {
+                for (const l of lower) {
+                    const a = u.coeffs.get(variable) as number;
+                    const b = -(l.coeffs.get(variable) as number);
+                    const combined = this.combine(this.scale(this.fromRow(u), b), this.fromRow(l), a);
+                    combined.coeffs.delete(variable);
+                    next.push({ coeffs: combined.coeffs, constant: combined.constant, strict: u.strict || l.strict });
+                }
+            }
+            if (next.length > MAX_ROWS) return { status: 'unknown', values };
+            systems.push(next);
+        }
+
+        const infeasible = systems[systems.length - 1].some(row =>
+            row.coeffs.size === 0 && (row.strict ? row.constant >= 0 : row.constant > 1e-9));
+        if (infeasible) return { status: 'unsat', values };
+
+        for (let i = order.length - 1; i >= 0; i--) {
+            const variable = order[i];
+            let lo = -Infinity, loStrict = false, hi = Infinity, hiStrict = false;
+
+            for (const row of systems[i]) {
+                const a = row.coeffs.get(variable);
+                if (!a) continue;
+                let rest = row.constant;
+                row.coeffs.forEach((c, v) => {
+                    if (v !== variable) rest += c * (values.get(v) as number);
+                });
+                const bound = -rest / a;
+                if (a > 0 && (bound < hi || (bound === hi && row.strict))) {
+                    hi = bound;
+                    hiStrict = row.strict;
+                } else if (a < 0 && (bound > lo || (bound === lo && row.strict))) {
+                    lo = bound;
+                    loStrict = row.strict;
+                }
+            }
+
+            // Disequalities whose other variables are already fixed rule out a single value
+            const excluded = disequalities
+                .filter(d => d.coeffs.has(variable) && Array.from(d.coeffs.keys()).every(v => v === variable || values.has(v)))
+                .map(d => {
+                    let rest = d.constant;
+                    d.coeffs.forEach((c, v) => {
+                        if (v !== variable) rest += c * (values.get(v) as number);
+                    });
+                    return -rest / (d.coeffs.get(variable) as number);
+                });
+
+            const value = this.pickValue(lo, loStrict, hi, hiStrict, integers.has(variable), preferred.get(variable), excluded);
+            if (value === undefined) return { status: 'unknown', values };
+            values.set(variable, value);
+        }
+
+        const violated = disequalities.some(d => {
+            let sum = d.constant;
+            d.coeffs.forEach((c, v) => sum += c * (values.get(v) ?? 0));
+            return Math.abs(sum) < 1e-9;
+        });
+        return { status: violated ? 'unknown' : 'sat', values };
+    }
+
+    // Over integers `e < 0` is `e + 1 <= 0`, which keeps back-substitution from landing between integers
+    private toRow(expression: LinearExpression, strict: boolean, integers: Set<string>): Row {
+        const integral = Array.from(expression.coeffs).every(([v, c]) => integers.has(v) && Number.isInteger(c)) &&
+            Number.isInteger(expression.constant);
+        if (strict && integral) {
+            return { coeffs: new Map(expression.coeffs), constant: expression.constant + 1, strict: false };
+        }
+        return { coeffs: new Map(expression.coeffs), constant: expression.constant, strict };
+    }
+
+    private fromRow(row: Row): LinearExpression {
+        return { coeffs: row.coeffs, constant: row.constant };
+    }
+
+    private pickValue(
+        lo: number, loStrict: boolean, hi: number, hiStrict: boolean,
+        integer: boolean, preferred: number | undefined, excluded: number[]
+    ): number | undefined {
+        const epsilon = 1e-9;
+        const inRange = (v: number) =>
+            (loStrict ? v > lo + epsilon : v >= lo - epsilon) && (hiStrict ? v < hi - epsilon : v <= hi + epsilon) &&
+            !excluded.some(e => Math.abs(e - v) < epsilon);
+
+        let start: number;
+        let step: number;
+        if (integer) {
+            const low = lo === -Infinity ? -Infinity : (loStrict ? Math.floor(lo + epsilon) + 1 : Math.ceil(lo - epsilon));
+            const high = hi === Infinity ? Infinity : (hiStrict ? Math.ceil(hi - epsilon) - 1 : Math.floor(hi + epsilon));
+            if (low > high) return undefined;
+            start = Math.min(Math.max(Math.round(preferred ?? 0), low), high);
+            step = 1;
+        } else if (preferred !== undefined && inRange(preferred)) {
+            return preferred;
+        } else {
+            // Closest point to the observed value, pulled inside strict bounds
+            const gap = lo !== -Infinity && hi !== Infinity ? Math.min(1, (hi - lo) / 2) : 1;
+            start = Math.min(Math.max(preferred ?? 0, lo), hi);
+            if (loStrict && start <= lo) start = lo + gap;
+            if (hiStrict && start >= hi) start = hi - gap;
+            step = 0.5;
+        }
+
+        for (let i = 0; i <= MAX_NUDGES; i++) {
+            for (const candidate of i === 0 ? [start] : [start + i * step, start - i * step]) {
+                if (inRange(candidate)) return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private pickString(current: string | undefined, excluded: Set<string>, length: number | undefined): string | undefined {
+        if (current !== undefined && !excluded.has(current) && (length === undefined || current.length === length)) {
+            return current;
+        }
+        if (length !== undefined) {
+            const resized = (current || '').slice(0, length).padEnd(length, 'a');
+            for (const candidate of [resized, ...['a', 'b', 'x', 'z'].map(fill => fill.repeat(length))]) {
+                if (!excluded.has(candidate)) return candidate;
+            }
+            return undefined;
+        }
+        const base = current || 'x';
+        for (const candidate of [base, `${base}_x`, 'x', 'y', 'other']) {
+            if (!excluded.has(candidate)) return candidate;
+        }
+        return undefined;
+    }
+
+    // `if name` / `if not items` test truthiness; the witness keeps the variable's observed type
+    private truthinessWitness(truthy: boolean, observed: SolverVariable | undefined): WitnessValue {
+        const raw = (observed?.value || '').trim();
+        const type = (observed?.type || '').toLowerCase();
+        if (!observed || /bool/.test(type) || BOOLEAN_LITERAL.test(raw)) {
+            return { kind: 'boolean', value: truthy };
+        }
+        if (this.isStringVariable(observed)) {
+            const current = this.parseString(raw);
+            return { kind: 'string', value: truthy ? (current || 'x') : '' };
+        }
+        const number = this.parseNumber(raw);
+        if (number !== undefined) {
+            return { kind: 'number', value: truthy ? (number !== 0 ? number : 1) : 0 };
+        }
+        if (this.isNullValue(raw) || type.includes('*') || type.includes('optional')) {
+            return truthy ? { kind: 'non-null' } : { kind: 'null' };
+        }
+        const length = this.observedLength(observed);
+        if (length !== undefined) {
+            return { kind: 'length', value: truthy ? Math.max(1, length) : 0 };
+        }
+        return { kind: 'boolean', value: truthy };
+    }
+
+    private matchesObserved(witness: WitnessValue, observed: SolverVariable | undefined): boolean {
+        const raw = observed?.value?.trim();
+        if (raw === undefined) return false;
+        switch (witness.kind) {
+            case 'number':
+                return this.parseNumber(raw) === witness.value;
+            case 'string':
+                return this.parseString(raw) === witness.value;
+            case 'boolean':
+                return /^(?:true|True)$/.test(raw) === witness.value && /^(?:true|false|True|False)$/.test(raw);
+            case 'null':
+                return this.isNullValue(raw);
+            case 'non-null':
+                return !this.isNullValue(raw);
+            case 'length':
+                return this.observedLength(observed) === witness.value;
+        }
+    }
+
+    private isIntegerVariable(variable: SolverVariable | undefined): boolean {
+        const type = (variable?.type || '').toLowerCase();
+        if (/float|double|decimal|real|complex/.test(type)) return false;
+        if (/int|long|short|byte|uint|rune|size_t/.test(type)) return true;
+        // Untyped: trust the observed value, default to integers
+        const observed = this.parseNumber(variable?.value);
+        return observed === undefined || Number.isInteger(observed);
+    }
+
+    private isStringVariable(variable: SolverVariable | undefined): boolean {
+        const type = (variable?.type || '').toLowerCase();
+        return /^(?:string|str|java\.lang\.string|std::string|system\.string)$/.test(type) ||
+            STRING_LITERAL.test((variable?.value || '').trim());
+    }
+
+    private observedLength(variable: SolverVariable | undefined): number | undefined {
+        const value = (variable?.value || '').trim();
+        if (STRING_LITERAL.test(value)) return this.unquote(value).length;
+        // Delve and most adapters print collections as `[]T len: 3, cap: 4` or `list(3)` / `Array(3)`
+        const length = /\blen(?:gth)?[:=]\s*(\d+)|^\w*\((\d+)\)|\bsize[:=]\s*(\d+)/.exec(value);
+        return length ? parseInt(length[1] || length[2] || length[3], 10) : undefined;
+    }
+
+    private parseNumber(value: string | undefined): number | undefined {
+        const text = (value || '').trim();
+        return /^-?\d+(?:\.\d+)?(?:e[-+]?\d+)?$/i.test(text) ? parseFloat(text) : undefined;
+    }
+
+    private parseString(value: string | undefined): string | undefined {
+        const text = (value || '').trim();
+        return STRING_LITERAL.test(text) ? this.unquote(text) : undefined;
+    }
+
+    private isNullValue(value: string): boolean {
+        return /^(?:nil|<nil>|null|None|undefined|nullptr|NULL|0x0)$/.test(value) || /\bnil\b/.test(value);
+    }
+
+    private unquote(literal: string): string {
+        if (literal.startsWith('"')) {
+            try {
+                return JSON.parse(literal);
+            } catch {
+                return literal.slice(1, -1);
+            }
+        }
+        return literal.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    private unwrap(text: string): string {
+        let result = text;
+        while (result.startsWith('(') && result.endsWith(')')) {
+            let depth = 0;
+            let closesAtEnd = true;
+            for (let i = 0; i < result.length; i++) {
+                if (result[i] === '(') depth++;
+                else if (result[i] === ')' && --depth === 0 && i < result.length - 1) {
+                    closesAtEnd = false;
+                    break;
+                }
+            }
+            if (!closesAtEnd) break;
+            result = result.slice(1, -1).trim();
+        }
+        return result;
+    }
+}
@@ -0,0 +1,206 @@
+import { LLMOptions } from './llmService';
+import { ConfigurationService } from './configurationService';
+
+// A droppable entry inside a section (one variable, one stack frame, ...)
+export interface BudgetItem {
+    id: string;
+    text: string;
+    importance: number;
+}
+
+export interface BudgetSection {
+    id: string;
+    title: string;
+    header: string;
+    items?: BudgetItem[];
+    footer?: string;
+    // Optional sections are dropped lowest priority first once items alone cannot fit the budget.
+    // Sections without a priority are never dropped.
+    priority?: number;
+    // Items kept in this section before whole sections start being dropped
+    minItems?: number;
+}
+
+export interface ContextBudgetReport {
+    budgetTokens: number;
+    estimatedTokens: number;
+    sectionTokens: Record<string, number>;
+    omittedItems: { section: string; id: string; importance: number }[];
+    omittedSections: string[];
+    overBudget: boolean;
+}
+
+// Context windows by model name; the first match wins
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+    [/gpt-4o|gpt-4-turbo|gpt-4-\d{4}-preview|gpt-4-1106|gpt-4-0125/, 128000],
+    [/gpt-4-32k/, 32768],
+    [/gpt-4/, 8192],
+    [/gpt-35-turbo|gpt-3\.5-turbo/, 16385],
+    [/claude-3|claude-2\.1/, 200000],
+    [/claude/, 100000]
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Room for the system prompt and the user's question
+const PROMPT_RESERVE_TOKENS = 800;
+// Large windows are not filled automatically; debug context beyond this rarely helps and costs money
+const MAX_AUTO_BUDGET_TOKENS = 32000;
+// Space kept for the "Omitted to Fit Token Budget" note once anything has to be dropped
+const OMISSION_NOTE_RESERVE_TOKENS = 80;
+// Debug dumps (JSON, identifiers, addresses) tokenize denser than prose
+const CHARS_PER_TOKEN = 3.5;
+
+export class ContextBudgetBuilder {
+    private sections: BudgetSection[] = [];
+    private budgetTokens: number;
+
+    constructor(budgetTokens: number) {
+        this.budgetTokens = budgetTokens;
+    }
+
+    static estimateTokens(text: string): number {
+        return Math.ceil(text.length / CHARS_PER_TOKEN);
+    }
+
+    static resolveBudget(options?: Pick<LLMOptions, 'model' | 'maxTokens'>): number {
+        const configured = ConfigurationService.getInstance().llm.contextTokenBudget;
+        if (configured > 0) {
+            return configured;
+        }
+
+        const model = (options?.model || '').toLowerCase();
+        const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+        const contextWindow = match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+        const replyTokens = options?.maxTokens || 2000;
+
+        return Math.max(1000, Math.min(MAX_AUTO_BUDGET_TOKENS, contextWindow - replyTokens - PROMPT_RESERVE_TOKENS));
+    }
+
+    addSection(section: BudgetSection): this {
+        this.sections.push(section);
+        return this;
+    }
+
+    build(): { text: string; report: ContextBudgetReport } {
+        const includedSections = new Set(this.sections.map(s => s.id));
+        const droppedItems = new Set<BudgetItem>();
+        const omittedItems: ContextBudgetReport['omittedItems'] = [];
+        const omittedSections: string[] = [];
+
+        const itemTokens = (item: BudgetItem) => ContextBudgetBuilder.estimateTokens(item.text + '\n');
+        const sectionTokens = (section: BudgetSection) =>
+            ContextBudgetBuilder.estimateTokens(section.header + '\n' + (section.footer !== undefined ? section.footer + '\n' : '')) +
+            (section.items || []).filter(item => !droppedItems.has(item)).reduce((sum, item) => sum + itemTokens(item), 0);
+
+        let total = this.sections.reduce((sum, section) => sum + sectionTokens(section), 0);
+        const target = total > this.budgetTokens
+            ? Math.max(0, this.budgetTokens - OMISSION_NOTE_RESERVE_TOKENS)
+            : this.budgetTokens;
+
+        const dropItem = (section: BudgetSection, item: BudgetItem) => {
+            droppedItems.add(item);
+            omittedItems.push({ section: section.title, id: item.id, importance: item.importance });
+            total -= itemTokens(item);
+        };
+
+        // 1. Drop the least important items across all sections, keeping each section's minimum
+        // 2. Drop optional sections, lowest priority first
+        // 3. Drop whatever items are left, still least important first
+        if (total > target) {
+            const candidates = this.sortedItems();
+            for (const { section, item } of candidates) {
+                if (total <= target) break;
+                const remaining = (section.items || []).filter(i => !droppedItems.has(i)).length;
+                if (remaining <= (section.minItems ?? 0)) continue;
+                dropItem(section, item);
+            }
+        }
+
+        if (total > target) {
+            const optional = this.sections
+                .filter(section => section.priority !== undefined)
+                .sort((a, b) => (a.priority as number) - (b.priority as number));
+            for (const section of optional) {
+                if (total <= target) break;
+                total -= sectionTokens(section);
+                includedSections.delete(section.id);
+                omittedSections.push(section.title);
+            }
+        }
+
+        if (total > target) {
+            for (const { section, item } of this.sortedItems()) {
+                if (total <= target) break;
+                if (!includedSections.has(section.id) || droppedItems.has(item)) continue;
+                dropItem(section, item);
+            }
+        }
+
+        const lines: string[] = [];
+        const tokensBySection: Record<string, number> = {};
+        this.sections.forEach(section => {
+            if (!includedSections.has(section.id)) return;
+            tokensBySection[section.id] = sectionTokens(section);
+            lines.push(section.header);
+            (section.items || []).forEach(item => {
+                if (!droppedItems.has(item)) lines.push(item.text);
+            });
+            if (section.footer !== undefined) lines.push(section.footer);
+        });
+
+        // Items from sections that were dropped entirely are reported under the section, not one by one
+        const reportedItems = omittedItems.filter(o => !omittedSections.includes(o.section));
+        const omissionNote = this.formatOmissionNote(reportedItems, omittedSections);
+        if (omissionNote) {
+            lines.push(omissionNote);
+        }
+
+        const text = lines.join('\n');
+        const estimatedTokens = ContextBudgetBuilder.estimateTokens(text);
+
+        return {
+            text,
+            report: {
+                budgetTokens: this.budgetTokens,
+                estimatedTokens,
+                sectionTokens: tokensBySection,
+                omittedItems: reportedItems,
+                omittedSections,
+                overBudget: estimatedTokens > this.budgetTokens
+            }
+        };
+    }
+
+    private sortedItems(): { section: BudgetSection; item: BudgetItem; order: number }[] {
+        const all: { section: BudgetSection; item: BudgetItem; order: number }[] = [];
+        this.sections.forEach(section => {
+            (section.items || []).forEach((item, order) => all.push({ section, item, order }));
+        });
+        // Least important first; on ties the later (further down the list) entry goes first
+        return all.sort((a, b) => a.item.importance - b.item.importance || b.order - a.order);
+    }
+
+    private formatOmissionNote(omittedItems: ContextBudgetReport['omittedItems'], omittedSections: string[]): string {
+        if (omittedItems.length === 0 && omittedSections.length === 0) {
+            return '';
+        }
+
+        const lines = [`\n## Omitted to Fit Token Budget (~${this.budgetTokens} tokens)`];
+
+        const bySection = new Map<string, string[]>();
+        omittedItems.forEach(item => {
+            const ids = bySection.get(item.section) || [];
+            ids.push(item.id);
+            bySection.set(item.section, ids);
+        });
+        bySection.forEach((ids, section) => {
+            const shown = ids.slice(0, 15).join(', ');
+            lines.push(`- ${section} (${ids.length}): ${shown}${ids.length > 15 ? `, +${ids.length - 15} more` : ''}`);
+        });
+
+        if (omittedSections.length > 0) {
+            lines.push(`- Sections: ${omittedSections.join(', ')}`);
+        }
+
+        return lines.join('\n');
+    }
+}
@@ -1,4 +1,3 @@
-import * as vscode from 'vscode';
 import * as os from 'os';
 import { EventEmitter } from 'events';
 import { DelveClient } from './delveClient';
@@ -6,6 +5,19 @@ import { DataStructureHandler, SimplificationOptions, SimplifiedValue } from './
 import { VariableExpansionService, ExpansionResult } from './variableExpansionService';
 import { SymbolicExecutor, SymbolicExecutionContext } from './symbolicExecutor';
 import { PathSensitivityAnalyzer, PathSensitivityReport } from './pathSensitivityAnalyzer';
+import { LanguageHandler, SupportedLanguage } from '../languages/languageHandler';
+import { CoDataStructureHandler } from './universalDatastructureHandler';
+import { ConfigurationService, LanguageProfile, VariableAnalysisSettings } from './configurationService';
+import { GoroutineAnalyzer, GoroutineOverview } from './goroutineAnalyzer';
+import { DebugExecutionUnit } from '../protocols/debuggerProtocol';
+
+// Frames kept per extra thread or async task; the stopped stack keeps its own limit
+const MAX_UNIT_FRAMES = 10;
+
+// Languages whose handler also decides control-flow, application and system variables. Every handler
+// parses values, names functions and ranks fields; the other languages keep the configurable
+// variableAnalysis patterns for classification.
+const HANDLER_CLASSIFIED_LANGUAGES: SupportedLanguage[] = ['java', 'csharp'];
 
 export interface FunctionCall {
     id: string;
@@ -18,6 +30,10 @@ export interface FunctionCall {
     endTime?: number;
     parentId?: string;
     children: string[];
+    // Set when the parent awaited this call instead of calling it: the async boundary label
+    asyncBoundary?: string;
+    // Thread or async task the call runs in, when it is not on the stopped thread's stack
+    executionUnit?: string;
 }
 
 export interface Variable {
@@ -83,16 +99,7 @@ export interface CallGraphNode {
     isStatic: boolean;
 }
 
-export interface VariableAnalysisConfig {
-    controlFlowPatterns: string[];
-    systemVariablePatterns: string[];
-    applicationVariablePatterns: string[];
-    maxVariableValueLength: number;
-    maxParameterCount: number;
-    enableTypeInference: boolean;
-    enableDeepExpansion: boolean;
-    maxExpansionDepth: number;
-    memoryLimitMB: number;
+export interface VariableAnalysisConfig extends VariableAnalysisSettings {
     safetyLimits: {
         maxRecursionDepth: number;
         emergencyStopDepth: number;
@@ -112,6 +119,8 @@ export interface ContextData {
     } | null;
     symbolicExecution?: SymbolicExecutionContext;
     pathSensitivity?: PathSensitivityReport;
+    // Go sessions only: every goroutine's state, not just the stopped one
+    goroutines?: GoroutineOverview;
     debugInfo: {
         isConnected: boolean;
         isStopped: boolean;
@@ -136,6 +145,7 @@ export interface ContextData {
             pathSensitivityTime?: number;
             pathsAnalyzed?: number;
             variableExpansionTime?: number;
+            goroutineAnalysisTime?: number;
             currentDepth: number;
         };
     };
@@ -149,21 +159,38 @@ export class ContextCollector extends EventEmitter {
     private variableExpansionService: VariableExpansionService;
     private symbolicExecutor: SymbolicExecutor;
     private pathSensitivityAnalyzer: PathSensitivityAnalyzer;
+    private goroutineAnalyzer: GoroutineAnalyzer;
     private variableConfig: VariableAnalysisConfig;
     private sessionId: string;
+    // Optional language handler for value parsing and ranking; when absent the Go-oriented variableAnalysis patterns are used
+    private languageHandler?: LanguageHandler;
 
     // Enhanced variable expansion results
     private expandedVariables: Map<string, ExpansionResult> = new Map();
 
-    constructor(delveClient: DelveClient) {
+    // Variable values and change history from previous stops, keyed by frame (function + file)
+    private variableHistory: Map<string, Map<string, { value: string; changes: VariableChange[] }>> = new Map();
+
+    // Rebuilt from a saved snapshot: nothing is collected and getContext returns the stop as it was saved
+    private readOnly = false;
+
+    // Off while a step trace records; stops then only update debug state and the recorder takes its own light snapshots
+    private collectOnStop = true;
+
+    constructor(delveClient: DelveClient, languageHandler?: LanguageHandler, launchConfiguration?: Record<string, any>) {
         super();
         this.delveClient = delveClient;
-        this.dataHandler = new DataStructureHandler();
+        this.languageHandler = languageHandler;
+        // With a language the simplifier follows its profile, including the launch configuration's coDebuggerProfile
+        this.dataHandler = languageHandler ? new CoDataStructureHandler(languageHandler, launchConfiguration) : new DataStructureHandler();
         this.variableExpansionService = new VariableExpansionService();
         this.sessionId = this.generateSessionId();
         this.symbolicExecutor = new SymbolicExecutor(this.sessionId);
         this.pathSensitivityAnalyzer = new PathSensitivityAnalyzer(this.sessionId);
+        this.goroutineAnalyzer = new GoroutineAnalyzer();
         this.variableConfig = this.loadVariableConfig();
+        ConfigurationService.getInstance().on('variableAnalysisChanged', this.onVariableAnalysisChanged);
+        ConfigurationService.getInstance().on('languageProfilesChanged', this.onLanguageProfilesChanged);
         
         this.context = {
             functionCalls: [],
@@ -197,6 +224,19 @@ export class ContextCollector extends EventEmitter {
         this.setupEventListeners();
     }
 
+    // A collector that only serves a saved stop, for reopening snapshots after the session ended
+    static fromSnapshot(context: ContextData, expandedVariables: Record<string, ExpansionResult>, languageHandler?: LanguageHandler): ContextCollector {
+        const collector = new ContextCollector(new DelveClient(), languageHandler);
+        collector.readOnly = true;
+        collector.context = context;
+        collector.expandedVariables = new Map(Object.entries(expandedVariables || {}));
+        return collector;
+    }
+
+    isReadOnly(): boolean {
+        return this.readOnly;
+    }
+
     private getCurrentUser(): string {
         return os.userInfo().username || 'unknown-user';
     }
@@ -213,40 +253,65 @@ export class ContextCollector extends EventEmitter {
     }
 
     private loadVariableConfig(): VariableAnalysisConfig {
-        const workspaceConfig = vscode.workspace.getConfiguration('goDebugger.variableAnalysis');
-        
-        return {
-            controlFlowPatterns: workspaceConfig.get('controlFlowPatterns', [
-                'err', 'error', 'ok', 'found', 'valid', 'success', 'fail', 'failed',
-                'result', 'status', 'state', 'flag', 'enabled', 'disabled', 'response',
-                'resp', 'req', 'request', 'ctx', 'context', 'done', 'finished',
-                'complete', 'ready', 'active', 'running', 'stopped'
-            ]),
-            systemVariablePatterns: workspaceConfig.get('systemVariablePatterns', [
-                '~', '.', '_internal', '_system', '_runtime', '_debug',
-                'autotmp', 'goroutine', 'stack', 'heap', 'gc', 'sync',
-                'mutex', 'lock', 'once', 'pool', 'buffer', 'cache'
-            ]),
-            applicationVariablePatterns: workspaceConfig.get('applicationVariablePatterns', [
-                'id', 'name', 'user', 'client', 'data', 'value', 'content',
-                'config', 'params', 'handler', 'service', 'manager', 'request',
-                'response', 'message', 'body', 'payload', 'result', 'output',
-                'input', 'query', 'command', 'event', 'notification'
-            ]),
-            maxVariableValueLength: workspaceConfig.get('maxVariableValueLength', 1000),
-            maxParameterCount: workspaceConfig.get('maxParameterCount', 30),
-            enableTypeInference: workspaceConfig.get('enableTypeInference', true),
-            enableDeepExpansion: workspaceConfig.get('enableDeepExpansion', true),
-            maxExpansionDepth: workspaceConfig.get('maxExpansionDepth', 6),
-            memoryLimitMB: workspaceConfig.get('memoryLimitMB', 50),
+        return this.applyLanguageProfile({
+            ...ConfigurationService.getInstance().variableAnalysis,
             safetyLimits: {
                 maxRecursionDepth: 10,
                 emergencyStopDepth: 15,
                 circularReferenceLimit: 100
             }
+        });
+    }
+
+    // Built-in profile < coDebugger.languageSpecific.<language>.* < launch configuration; undefined without a language handler
+    private getLanguageProfile(): LanguageProfile | undefined {
+        return this.dataHandler instanceof CoDataStructureHandler ? this.dataHandler.getLanguageProfile() : undefined;
+    }
+
+    // The language profile caps the variableAnalysis expansion depth and memory limit
+    private applyLanguageProfile(config: VariableAnalysisConfig): VariableAnalysisConfig {
+        const profile = this.getLanguageProfile();
+        if (!profile) {
+            return config;
+        }
+        return {
+            ...config,
+            maxExpansionDepth: Math.min(config.maxExpansionDepth, profile.maxVariableDepth),
+            memoryLimitMB: Math.min(config.memoryLimitMB, profile.memoryLimitMB)
+        };
+    }
+
+    // Array length, object keys, known types and truncation follow the language profile when there is one
+    private withLanguageProfile(options: Partial<SimplificationOptions>): Partial<SimplificationOptions> {
+        const profile = this.getLanguageProfile();
+        if (!profile) {
+            return options;
+        }
+        const handler = this.dataHandler as CoDataStructureHandler;
+        return {
+            ...options,
+            maxDepth: Math.min(options.maxDepth ?? profile.maxVariableDepth, profile.maxVariableDepth),
+            maxArrayLength: handler.getLanguageSpecificArrayLength(),
+            maxObjectKeys: profile.maxObjectKeys,
+            expandKnownTypes: handler.getLanguageSpecificKnownTypes(),
+            truncateThreshold: profile.truncateThreshold,
+            memoryLimit: profile.memoryLimitMB
         };
     }
 
+    // Only the changed keys are applied, so depth picked in the context view survives unrelated edits
+    private onVariableAnalysisChanged = (changes: Partial<VariableAnalysisSettings>): void => {
+        this.variableConfig = this.applyLanguageProfile({ ...this.variableConfig, ...changes });
+        console.log(`🔧 Applied variable analysis settings for the next refresh at ${this.getCurrentTimestamp()}:`, Object.keys(changes));
+    };
+
+    // A changed profile may raise the cap again, so depth and memory start over from the variableAnalysis settings
+    private onLanguageProfilesChanged = (): void => {
+        const { maxExpansionDepth, memoryLimitMB } = ConfigurationService.getInstance().variableAnalysis;
+        this.variableConfig = this.applyLanguageProfile({ ...this.variableConfig, maxExpansionDepth, memoryLimitMB });
+        console.log(`🔧 Applied ${this.languageHandler?.language} profile for the next refresh at ${this.getCurrentTimestamp()}: depth ${this.variableConfig.maxExpansionDepth}`);
+    };
+
     private setupEventListeners() {
         this.delveClient.on('attached', () => {
             console.log(`🔗 DelveClient attached - ready for VS Code context at ${this.getCurrentTimestamp()}`);
@@ -264,7 +329,9 @@ export class ContextCollector extends EventEmitter {
             this.context.debugInfo.currentFrameId = eventBody.frameId;
             this.context.debugInfo.timestamp = this.getCurrentTimestamp();
             this.context.debugInfo.user = this.getCurrentUser();
-            this.collectCurrentContext();
+            if (this.collectOnStop) {
+                this.collectCurrentContext();
+            }
         });
 
         this.delveClient.on('continued', () => {
@@ -283,6 +350,7 @@ export class ContextCollector extends EventEmitter {
             this.context.debugInfo.isStopped = false;
             this.context.debugInfo.timestamp = this.getCurrentTimestamp();
             this.context.debugInfo.user = this.getCurrentUser();
+            this.variableHistory.clear();
             this.clearContext();
             this.emit('collectionStopped');
         });
@@ -295,6 +363,7 @@ export class ContextCollector extends EventEmitter {
         this.context.currentLocation = null;
         this.context.symbolicExecution = undefined;
         this.context.pathSensitivity = undefined;
+        this.context.goroutines = undefined;
         this.context.debugInfo.totalFrames = 0;
         this.context.debugInfo.totalScopes = 0;
         this.context.debugInfo.currentThreadId = null;
@@ -317,6 +386,75 @@ export class ContextCollector extends EventEmitter {
         this.emit('contextUpdated', this.context);
     }
 
+    private getFrameHistoryKey(): string | null {
+        if (!this.context.currentLocation) {
+            return null;
+        }
+        return `${this.context.currentLocation.function}@${this.context.currentLocation.file}`;
+    }
+
+    private trackVariableChanges() {
+        const frameKey = this.getFrameHistoryKey();
+        if (!frameKey) {
+            return;
+        }
+
+        const location = `${this.context.currentLocation!.file}:${this.context.currentLocation!.line}`;
+        const previousStop = this.variableHistory.get(frameKey) || new Map<string, { value: string; changes: VariableChange[] }>();
+        const currentStop = new Map<string, { value: string; changes: VariableChange[] }>();
+        const timestamp = Date.now();
+        let changedCount = 0;
+
+        this.context.variables.forEach(variable => {
+            const key = `${variable.scope}:${variable.name}`;
+            const previous = previousStop.get(key);
+            const changes = previous ? [...previous.changes] : [];
+
+            if (previous && previous.value !== variable.value) {
+                changes.push({
+                    timestamp,
+                    oldValue: previous.value,
+                    newValue: variable.value,
+                    location
+                });
+                changedCount++;
+            }
+
+            // Keep the most recent changes only to bound memory in long loops
+            variable.changeHistory = changes.slice(-this.variableConfig.maxChangeHistory);
+            currentStop.set(key, { value: variable.value, changes: variable.changeHistory });
+        });
+
+        this.variableHistory.set(frameKey, currentStop);
+        console.log(`📈 Tracked ${changedCount} variable changes for ${frameKey} at ${this.getCurrentTimestamp()}`);
+    }
+
+    clearVariableHistory() {
+        this.variableHistory.clear();
+        this.context.variables.forEach(v => v.changeHistory = []);
+        console.log(`🧹 Variable change history cleared at ${this.getCurrentTimestamp()}`);
+    }
+
+    setCollectOnStop(enabled: boolean): void {
+        this.collectOnStop = enabled;
+    }
+
+    // Top-level locals of the stopped frame without expansion or analysis, cheap enough to take on every step
+    async collectLocals(): Promise<Variable[]> {
+        const scopes = (await this.delveClient.getScopes()).filter(scope => !scope.expensive);
+        if (scopes.length === 0) {
+            return [];
+        }
+
+        // Loop counters and flags have short values the relevance heuristics skip, so only system variables are dropped,
+        // except those the language still counts as relevant (C#'s $exception)
+        const locals = await this.collectBasicVariables([scopes[0]]);
+        const classifier = this.getClassifyingHandler();
+        return locals.filter(variable => variable.isApplicationRelevant || (classifier
+            ? !classifier.isSystemVariable(variable.name, variable.metadata.rawValue || variable.value)
+            : !this.variableConfig.systemVariablePatterns.some(pattern => variable.name.startsWith(pattern) || variable.name.includes(pattern))));
+    }
+
     startCollection() {
         this.isCollecting = true;
         console.log(`📊 Enhanced context collection enabled - using VS Code context at ${this.getCurrentTimestamp()} (User: ${this.getCurrentUser()})`);
@@ -324,6 +462,7 @@ export class ContextCollector extends EventEmitter {
 
     stopCollection() {
         this.isCollecting = false;
+        this.variableHistory.clear();
         this.clearContext();
         console.log(`⏹️ Enhanced context collection disabled at ${this.getCurrentTimestamp()} (User: ${this.getCurrentUser()})`);
     }
@@ -344,6 +483,11 @@ export class ContextCollector extends EventEmitter {
     }
 
     async refreshAll() {
+        if (this.readOnly) {
+            console.log(`📸 Snapshot context is read-only - nothing to refresh`);
+            return;
+        }
+
         if (!this.isCollecting) {
             console.log(`❌ Collection not enabled at ${this.getCurrentTimestamp()}`);
             return;
@@ -375,7 +519,7 @@ export class ContextCollector extends EventEmitter {
                 this.context.currentLocation = {
                     file: currentFrame.source?.path || '',
                     line: currentFrame.line,
-                    function: currentFrame.name
+                    function: this.extractFunctionName(currentFrame.name)
                 };
                 
                 console.log(`📍 Current location from VS Code context at ${this.getCurrentTimestamp()}:`, this.context.currentLocation);
@@ -387,14 +531,34 @@ export class ContextCollector extends EventEmitter {
                     this.collectExecutionPathsFromVSCode()
                 ]);
 
+                // Other threads and async tasks, linked into the stopped stack's await chain
+                await this.collectExecutionUnits();
+
+                // Diff against the previous stop in the same frame
+                this.trackVariableChanges();
+
+                // The bug is often in a goroutine other than the stopped one
+                let goroutineAnalysisTime: number | undefined;
+                if (this.delveClient.currentSession?.type === 'go') {
+                    const goroutineStartTime = Date.now();
+                    try {
+                        this.context.goroutines = await this.goroutineAnalyzer.analyze(this.delveClient, this.delveClient.getCurrentThreadId());
+                    } catch (error) {
+                        console.log(`⚠️ Goroutine analysis failed at ${this.getCurrentTimestamp()}: ${error.message}`);
+                        this.context.goroutines = undefined;
+                    }
+                    goroutineAnalysisTime = Date.now() - goroutineStartTime;
+                }
+
                 // Enhanced symbolic execution with expanded variables
                 console.log(`🧠 Starting symbolic execution with expanded variables at ${this.getCurrentTimestamp()}`);
                 const symbolicStartTime = Date.now();
                 
-                this.context.symbolicExecution = this.symbolicExecutor.analyzeExecutionContext(
+                const frameId = this.delveClient.getCurrentFrameId();
+                this.context.symbolicExecution = await this.symbolicExecutor.analyzeExecutionContext(
                     this.context.variables,
-                    this.context.functionCalls,
-                    this.context.currentLocation
+                    this.context.currentLocation,
+                    frameId !== null ? expression => this.delveClient.evaluate(expression, frameId) : undefined
                 );
                 
                 const symbolicAnalysisTime = Date.now() - symbolicStartTime;
@@ -426,6 +590,7 @@ export class ContextCollector extends EventEmitter {
                     pathSensitivityTime,
                     pathsAnalyzed: this.context.pathSensitivity.pathAnalysis.exploredPaths,
                     variableExpansionTime: Array.from(this.expandedVariables.values()).reduce((sum, r) => sum + r.expansionTime, 0),
+                    goroutineAnalysisTime,
                     currentDepth: this.variableConfig.maxExpansionDepth
                 };
                 
@@ -483,23 +648,25 @@ export class ContextCollector extends EventEmitter {
                 
                 return {
                     id: `frame-${frame.id}`,
-                    name: frame.name,
+                    name: this.extractFunctionName(frame.name),
                     file: frame.source?.path || '',
                     line: frame.line,
                     parameters: this.enhancedParameterSimplification(parameters),
                     startTime: Date.now(),
-                    children: [] as string[]
+                    children: [] as string[],
+                    asyncBoundary: frame.asyncBoundary
                 };
             } catch (error) {
                 console.log(`⚠️ Could not get variables for frame ${index} at ${this.getCurrentTimestamp()}: ${error.message}`);
                 return {
                     id: `frame-${frame.id}`,
-                    name: frame.name,
+                    name: this.extractFunctionName(frame.name),
                     file: frame.source?.path || '',
                     line: frame.line,
                     parameters: {},
                     startTime: Date.now(),
-                    children: [] as string[]
+                    children: [] as string[],
+                    asyncBoundary: frame.asyncBoundary
                 };
             }
         });
@@ -511,16 +678,93 @@ export class ContextCollector extends EventEmitter {
             }
         });
 
-        // Build relationships
-        for (let i = 0; i < allCalls.length - 1; i++) {
-            allCalls[i].parentId = allCalls[i + 1].id;
-            allCalls[i + 1].children.push(allCalls[i].id);
-        }
+        this.linkCallChain(allCalls);
 
         this.context.functionCalls = allCalls;
         console.log(`✅ Collected ${allCalls.length} function calls from VS Code context at ${this.getCurrentTimestamp()}`);
     }
 
+    // Calls are innermost first; each one's parent is the next frame down the stack
+    private linkCallChain(calls: FunctionCall[]): void {
+        for (let i = 0; i < calls.length - 1; i++) {
+            calls[i].parentId = calls[i + 1].id;
+            calls[i + 1].children.push(calls[i].id);
+        }
+    }
+
+    // Appends other threads' and asyncio tasks' frames to functionCalls. A task awaited by another task
+    // gets that task's innermost frame as its parent, so the calls follow the logical await chain.
+    private async collectExecutionUnits(): Promise<void> {
+        let units: DebugExecutionUnit[];
+        try {
+            units = await this.delveClient.getExecutionUnits();
+        } catch (error) {
+            console.log(`⚠️ Could not list threads and async tasks at ${this.getCurrentTimestamp()}: ${error.message}`);
+            return;
+        }
+        if (units.length === 0) {
+            return;
+        }
+
+        const calls = this.context.functionCalls;
+        const innermost = new Map<string, FunctionCall>();
+        const outermost = new Map<string, FunctionCall>();
+
+        for (const unit of units) {
+            if (unit.isCurrent) {
+                // The stopped stack already holds this task; its coroutine starts at the matching frame
+                const start = unit.frames[unit.frames.length - 1];
+                const match = start && calls.find(call =>
+                    call.name === this.extractFunctionName(start.name) && call.file === (start.source?.path || ''));
+                if (match && calls.length > 0) {
+                    innermost.set(unit.id, calls[0]);
+                    outermost.set(unit.id, match);
+                }
+                continue;
+            }
+
+            const unitCalls: FunctionCall[] = unit.frames.slice(0, MAX_UNIT_FRAMES).map((frame, index) => ({
+                id: `${unit.id}-frame-${index}`,
+                name: this.extractFunctionName(frame.name),
+                file: frame.source?.path || '',
+                line: frame.line,
+                parameters: {},
+                startTime: Date.now(),
+                children: [],
+                asyncBoundary: frame.asyncBoundary,
+                executionUnit: unit.name
+            }));
+            if (unitCalls.length === 0) {
+                continue;
+            }
+
+            this.linkCallChain(unitCalls);
+            innermost.set(unit.id, unitCalls[0]);
+            outermost.set(unit.id, unitCalls[unitCalls.length - 1]);
+            calls.push(...unitCalls);
+        }
+
+        let awaitLinks = 0;
+        for (const unit of units) {
+            const child = outermost.get(unit.id);
+            const parent = unit.awaitedBy ? innermost.get(unit.awaitedBy) : undefined;
+            if (!child || !parent || child === parent) {
+                continue;
+            }
+
+            const previousParent = calls.find(call => call.id === child.parentId);
+            if (previousParent) {
+                previousParent.children = previousParent.children.filter(id => id !== child.id);
+            }
+            child.parentId = parent.id;
+            child.asyncBoundary = 'await';
+            parent.children.push(child.id);
+            awaitLinks++;
+        }
+
+        console.log(`🧵 Added ${units.length} threads/async tasks (${awaitLinks} await links) to function calls at ${this.getCurrentTimestamp()}`);
+    }
+
     private async collectVariablesFromVSCodeWithConfigurableDepth() {
         if (!this.variableConfig.enableDeepExpansion) {
             console.log(`📝 Deep expansion disabled - using standard collection at ${this.getCurrentTimestamp()}`);
@@ -592,6 +836,16 @@ export class ContextCollector extends EventEmitter {
                     // Update scope information for expanded variable
                     const existingVar = variableMap.get(basicVar.name)!;
                     existingVar.scope = basicVar.scope;
+
+                    // The expanded tree only has a preview of the children; when the language handler
+                    // reformatted the debugger's own summary (STL containers, smart pointers), keep that
+                    if (this.languageHandler && basicVar.value !== basicVar.metadata.rawValue && !basicVar.metadata.truncatedAt) {
+                        existingVar.value = basicVar.value;
+                        existingVar.metadata.isPointer = basicVar.metadata.isPointer;
+                        existingVar.metadata.isNil = basicVar.metadata.isNil;
+                        existingVar.metadata.memoryAddress = basicVar.metadata.memoryAddress ?? existingVar.metadata.memoryAddress;
+                        existingVar.metadata.arrayLength = basicVar.metadata.arrayLength ?? existingVar.metadata.arrayLength;
+                    }
                     variableMap.set(basicVar.name, existingVar);
                 } else {
                     // Add new basic variable
@@ -793,11 +1047,12 @@ export class ContextCollector extends EventEmitter {
                 
                 scopeVars.forEach(variable => {
                     const simplified = this.smartSimplifyVariable(variable, scope.name);
+                    this.applyLanguageParsing(simplified, variable.value, variable.type);
                     
                     basicVariables.push({
                         name: variable.name,
                         value: simplified.displayValue,
-                        type: variable.type,
+                        type: variable.type || this.inferSmartType(variable.name, variable.value, 'unknown'),
                         scope: scope.name,
                         isControlFlow: this.isControlFlowVariable(variable.name),
                         isApplicationRelevant: this.isApplicationRelevantVariable(variable.name, variable.value),
@@ -851,7 +1106,7 @@ export class ContextCollector extends EventEmitter {
         let count = 0;
 
         const applicationFields = this.detectApplicationFields(params);
-        const simplificationOptions: Partial<SimplificationOptions> = {
+        const simplificationOptions: Partial<SimplificationOptions> = this.withLanguageProfile({
             maxDepth: Math.min(this.variableConfig.maxExpansionDepth, 4),
             maxArrayLength: 8,
             maxStringLength: this.variableConfig.maxVariableValueLength,
@@ -859,7 +1114,7 @@ export class ContextCollector extends EventEmitter {
             showPointerAddresses: false,
             preserveBusinessFields: applicationFields,
             expandKnownTypes: ['Context', 'Request', 'Response', 'User', 'Config', 'Handler', 'Service', 'Manager']
-        };
+        });
 
         // Prioritize application-relevant parameters
         const sortedParams = this.prioritizeParameters(params, applicationFields);
@@ -877,7 +1132,7 @@ export class ContextCollector extends EventEmitter {
     private smartSimplifyVariable(variable: any, scopeName: string): SimplifiedValue {
         const typeName = this.inferSmartType(variable.name, variable.value, variable.type);
         
-        const options: Partial<SimplificationOptions> = {
+        const options: Partial<SimplificationOptions> = this.withLanguageProfile({
             maxDepth: scopeName === 'Local' ? Math.min(this.variableConfig.maxExpansionDepth, 5) : 3,
             maxArrayLength: 10,
             maxStringLength: this.variableConfig.maxVariableValueLength,
@@ -885,7 +1140,7 @@ export class ContextCollector extends EventEmitter {
             showPointerAddresses: false,
             preserveBusinessFields: this.getContextualApplicationFields(variable.name),
             expandKnownTypes: ['Context', 'Request', 'Response', 'Handler', 'User', 'Service', 'Manager']
-        };
+        });
 
         return this.dataHandler.simplifyValue(variable.value, typeName, options);
     }
@@ -947,9 +1202,9 @@ export class ContextCollector extends EventEmitter {
         // Second: remaining fields sorted by importance
         const remainingEntries = Object.entries(params)
             .filter(([key]) => !(key in prioritized))
-            .sort(([a], [b]) => {
-                const aScore = this.calculateFieldImportance(a);
-                const bScore = this.calculateFieldImportance(b);
+            .sort(([a, aValue], [b, bValue]) => {
+                const aScore = this.calculateFieldImportance(a, aValue);
+                const bScore = this.calculateFieldImportance(b, bValue);
                 return bScore - aScore;
             });
 
@@ -960,7 +1215,11 @@ export class ContextCollector extends EventEmitter {
         return prioritized;
     }
 
-    private calculateFieldImportance(fieldName: string): number {
+    private calculateFieldImportance(fieldName: string, value?: any): number {
+        if (this.languageHandler) {
+            return this.languageHandler.calculateVariableImportance(fieldName, String(value ?? ''));
+        }
+
         let score = 0;
         const nameLower = fieldName.toLowerCase();
         
@@ -984,6 +1243,13 @@ export class ContextCollector extends EventEmitter {
             return originalType || 'interface{}';
         }
 
+        if (this.languageHandler) {
+            if (originalType && originalType !== 'unknown') {
+                return originalType;
+            }
+            return this.languageHandler.inferType(key, value, { variableName: key });
+        }
+
         const keyLower = key.toLowerCase();
         
         // Generic type inference patterns
@@ -1049,6 +1315,30 @@ export class ContextCollector extends EventEmitter {
         return base;
     }
 
+    private extractFunctionName(rawName: string): string {
+        return this.languageHandler ? this.languageHandler.extractFunctionName(rawName) : rawName;
+    }
+
+    // Overlay the language handler's view of a raw debugger value onto the simplified metadata
+    private applyLanguageParsing(simplified: SimplifiedValue, rawValue: string, type: string): void {
+        if (!this.languageHandler) {
+            return;
+        }
+
+        const parsed = this.languageHandler.parseVariableValue(rawValue, type || 'unknown');
+        simplified.metadata.isNil = parsed.isNil;
+        simplified.metadata.isPointer = parsed.isPointer;
+        simplified.metadata.memoryAddress = parsed.memoryAddress ?? simplified.metadata.memoryAddress;
+        simplified.metadata.arrayLength = parsed.arrayLength ?? simplified.metadata.arrayLength;
+        simplified.metadata.objectKeyCount = parsed.objectKeyCount ?? simplified.metadata.objectKeyCount;
+        simplified.hasMore = simplified.hasMore || parsed.isExpandable;
+
+        // Keep the simplifier's truncation for long values, otherwise prefer the language formatting
+        if (!simplified.metadata.truncatedAt) {
+            simplified.displayValue = parsed.displayValue;
+        }
+    }
+
     private isComplexDataStructure(value: string): boolean {
         return (
             value.includes('{') ||
@@ -1112,13 +1402,29 @@ export class ContextCollector extends EventEmitter {
         return value;
     }
 
+    private getClassifyingHandler(): LanguageHandler | undefined {
+        return this.languageHandler && HANDLER_CLASSIFIED_LANGUAGES.includes(this.languageHandler.language)
+            ? this.languageHandler
+            : undefined;
+    }
+
     private isControlFlowVariable(varName: string): boolean {
+        const classifier = this.getClassifyingHandler();
+        if (classifier) {
+            return classifier.isControlFlowVariable(varName);
+        }
+
         const nameLower = varName.toLowerCase();
         return this.variableConfig.controlFlowPatterns.some(pattern => 
             nameLower.includes(pattern));
     }
 
     private isApplicationRelevantVariable(varName: string, value: string): boolean {
+        const classifier = this.getClassifyingHandler();
+        if (classifier) {
+            return classifier.isApplicationRelevant(varName, value);
+        }
+
         // Exclude system/internal variables
         if (this.variableConfig.systemVariablePatterns.some(pattern => 
             varName.startsWith(pattern) || varName.includes(pattern))) {
@@ -1143,6 +1449,10 @@ export class ContextCollector extends EventEmitter {
 
     // Enhanced variable expansion for specific variables with configurable depth
     async expandSpecificVariable(variableName: string, maxDepth?: number, forceFullExpansion: boolean = false): Promise<SimplifiedValue | null> {
+        if (this.readOnly) {
+            return this.expandedVariables.get(variableName)?.data || null;
+        }
+
         const frameId = this.delveClient.getCurrentFrameId();
         if (!frameId) {
             console.log(`❌ No frame ID available for expanding ${variableName} at ${this.getCurrentTimestamp()}`);
@@ -1225,14 +1535,14 @@ export class ContextCollector extends EventEmitter {
             return null;
         }
 
-        const options: Partial<SimplificationOptions> = {
+        const options: Partial<SimplificationOptions> = this.withLanguageProfile({
             maxDepth: this.variableConfig.maxExpansionDepth,
             maxArrayLength: 20,
             maxStringLength: 2000,
             maxObjectKeys: 30,
             showPointerAddresses: true,
             preserveBusinessFields: this.getContextualApplicationFields(variableName)
-        };
+        });
 
         return this.dataHandler.simplifyValue(variable.metadata.rawValue, variable.type, options);
     }
@@ -1266,7 +1576,7 @@ export class ContextCollector extends EventEmitter {
 - Memory Usage: ${this.context.debugInfo.performance.memoryUsage}
 
 **Path Constraints:**
-${se.currentPath.pathConstraints.map(c => `- ${c.expression} (${c.isSatisfied ? '✅' : '❌'})`).join('\n')}
+${se.currentPath.pathConstraints.map(c => `- ${c.expression} = ${c.concreteResult ?? '?'} at line ${c.sourceLocation.line} (${c.isSatisfied ? '✅' : '❌'})`).join('\n')}
 
 **Symbolic Variables:**
 ${se.symbolicVariables.map(v => `- ${v.name}: ${v.symbolicValue}`).join('\n')}
@@ -1390,6 +1700,10 @@ ${this.context.variables.filter(v => v.metadata.rawValue && this.isValidJSON(v.m
     }
 
     getContext(): ContextData {
+        if (this.readOnly) {
+            return { ...this.context };
+        }
+
         return { 
             ...this.context,
             debugInfo: {
@@ -1424,6 +1738,20 @@ ${this.context.variables.filter(v => v.metadata.rawValue && this.isValidJSON(v.m
         };
     }
 
+    getLanguageHandler(): LanguageHandler | undefined {
+        return this.languageHandler;
+    }
+
+    // Ranking used when a prompt has to be trimmed: language importance plus what the collector learned
+    getVariableImportance(variable: Variable): number {
+        let score = this.calculateFieldImportance(variable.name, variable.value);
+        if (variable.isControlFlow) score += 50;
+        if (variable.isApplicationRelevant) score += 25;
+        if (variable.changeHistory.length > 0) score += 40;
+        if (variable.metadata.isNil) score -= 10;
+        return score;
+    }
+
     getVariableConfig(): VariableAnalysisConfig {
         return { ...this.variableConfig };
     }
@@ -1438,6 +1766,8 @@ updateVariableConfig(newConfig: Partial<VariableAnalysisConfig>): void {
         console.log(`🧹 Disposing ContextCollector at, Depth: ${this.variableConfig.maxExpansionDepth})`);
         
         this.stopCollection();
+        ConfigurationService.getInstance().off('variableAnalysisChanged', this.onVariableAnalysisChanged);
+        ConfigurationService.getInstance().off('languageProfilesChanged', this.onLanguageProfilesChanged);
         this.dataHandler = null as any;
         this.variableExpansionService?.clearHistory();
         this.expandedVariables.clear();
@@ -1,3 +1,5 @@
+import { DapTransport } from '../transport/dapTransport';
+
 export interface SimplificationOptions {
     maxDepth: number;
     maxArrayLength: number;
@@ -38,7 +40,7 @@ export interface VariableExpansionRequest {
     variableName: string;
     path: string[];
     maxDepth: number;
-    session: any;
+    session: DapTransport;
     frameId: number;
     variablesReference: number;
 }
@@ -425,7 +427,7 @@ protected handleStructRecursively(
  * FIXED: Deep expand with emergency stops
  */
 protected async deepExpandVariable(
-    session: any,
+    session: DapTransport,
     variable: any,
     path: string[],
     maxDepth: number,
@@ -682,7 +684,7 @@ protected async deepExpandVariable(
 
     // **ASYNC ON-DEMAND EXPANSION WITH FULL JSON SUPPORT**
     async expandVariableOnDemand(
-        session: any,
+        session: DapTransport,
         frameId: number,
         variableName: string,
         path: string[] = [],
@@ -1103,7 +1105,7 @@ protected async deepExpandVariable(
 
     // **PUBLIC API METHODS**
     async requestLazyExpansion(
-        session: any,
+        session: DapTransport,
         frameId: number,
         lazyLoadId: string,
         maxDepth: number = 3
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+
+export interface RegisteredSession {
+    readonly session: vscode.DebugSession;
+    dispose(): void;
+}
+
+// Keeps one entry per debug session, keyed by DebugSession.id, so a compound launch gets an
+// independent collector/protocol stack per session. Emits 'sessionsChanged' when entries are
+// added or removed and 'activeSessionChanged' with the new active entry (or undefined).
+export class DebugSessionRegistry<T extends RegisteredSession> extends EventEmitter implements vscode.Disposable {
+    private entries: Map<string, T> = new Map();
+    private activeId: string | undefined;
+
+    add(entry: T): void {
+        const id = entry.session.id;
+        const previous = this.entries.get(id);
+        if (previous && previous !== entry) {
+            previous.dispose();
+        }
+
+        this.entries.set(id, entry);
+        this.emit('sessionsChanged', this.getAll());
+
+        if (!this.activeId || !this.entries.has(this.activeId)) {
+            this.setActive(id);
+        }
+    }
+
+    has(sessionId: string): boolean {
+        return this.entries.has(sessionId);
+    }
+
+    get(sessionId: string | undefined): T | undefined {
+        return sessionId ? this.entries.get(sessionId) : undefined;
+    }
+
+    getActive(): T | undefined {
+        return this.get(this.activeId);
+    }
+
+    getAll(): T[] {
+        return Array.from(this.entries.values());
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    setActive(sessionId: string): T | undefined {
+        const entry = this.entries.get(sessionId);
+        if (!entry || this.activeId === sessionId) {
+            return entry;
+        }
+
+        this.activeId = sessionId;
+        console.log(`🎯 Active debug session is now ${entry.session.name} (${sessionId})`);
+        this.emit('activeSessionChanged', entry);
+        return entry;
+    }
+
+    // Disposes the session's stack; the most recently added remaining session becomes active
+    remove(sessionId: string): T | undefined {
+        const entry = this.entries.get(sessionId);
+        if (!entry) {
+            return undefined;
+        }
+
+        this.entries.delete(sessionId);
+        try {
+            entry.dispose();
+        } catch (error) {
+            console.error(`❌ Error disposing debug session ${entry.session.name}:`, error);
+        }
+        this.emit('sessionsChanged', this.getAll());
+
+        if (this.activeId === sessionId) {
+            const next = this.getAll().pop();
+            this.activeId = next?.session.id;
+            this.emit('activeSessionChanged', next);
+        }
+        return entry;
+    }
+
+    dispose(): void {
+        Array.from(this.entries.keys()).forEach(id => this.remove(id));
+        this.removeAllListeners();
+    }
+}
@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
 import { EventEmitter } from 'events';
+import { DebugExecutionUnit } from '../protocols/debuggerProtocol';
+import { DapTransport } from '../transport/dapTransport';
 
 export interface DelveFrame {
     id: number;
@@ -10,6 +11,8 @@ export interface DelveFrame {
     };
     line: number;
     column: number;
+    // Set by the other languages' protocols when the next frame down awaited this one
+    asyncBoundary?: string;
 }
 
 export interface DelveScope {
@@ -26,15 +29,20 @@ export interface DelveVariable {
     evaluateName?: string;
 }
 
+export interface DelveThread {
+    id: number;
+    name: string;
+}
+
 export interface DebugState {
     stopped: boolean;
     currentThreadId: number | null;
     currentFrameId: number | null;
-    session: vscode.DebugSession | null;
+    session: DapTransport | null;
 }
 
 export class DelveClient extends EventEmitter {
-    public currentSession: vscode.DebugSession | null = null;
+    public currentSession: DapTransport | null = null;
     private isAttached = false;
     private currentThreadId: number | null = null;
     private currentFrameId: number | null = null;
@@ -44,7 +52,7 @@ export class DelveClient extends EventEmitter {
         console.log(`🚀 DelveClient initialized`);
     }
 
-    attachToSession(session: vscode.DebugSession) {
+    attachToSession(session: DapTransport) {
         console.log(`🔗 DelveClient: Attaching to session: ${session.name} at 2025-06-09 03:05:14`);
         this.currentSession = session;
         this.isAttached = true;
@@ -74,11 +82,11 @@ export class DelveClient extends EventEmitter {
     async notifyStoppedFromVSCode() {
         console.log(`🛑 Debug stopped - detecting VS Code context at 2025-06-09 03:05:14`);
         
-        // Use VS Code's active debug context to get current thread
-        const activeStackItem = vscode.debug.activeStackItem;
+        // The transport knows the focused thread: the editor's selection, or the thread that reported the stop
+        const focusedThreadId = this.currentSession?.getFocusedThreadId();
         
-        if (activeStackItem && activeStackItem.session === this.currentSession) {
-            this.currentThreadId = activeStackItem.threadId;
+        if (focusedThreadId !== undefined) {
+            this.currentThreadId = focusedThreadId;
             
             console.log(`🎯 Using VS Code's active thread: ${this.currentThreadId} at 2025-06-09 03:05:14`);
             
@@ -117,8 +125,10 @@ export class DelveClient extends EventEmitter {
             const threadsResponse = await this.currentSession.customRequest('threads');
             
             if (threadsResponse.threads && threadsResponse.threads.length > 0) {
-                // Try first thread that has a stack trace
-                for (const thread of threadsResponse.threads) {
+                // Delve marks the selected goroutine with "* "; try it first, then any thread with a stack trace
+                const threads = [...threadsResponse.threads].sort((a: any, b: any) =>
+                    Number(String(b.name).startsWith('*')) - Number(String(a.name).startsWith('*')));
+                for (const thread of threads) {
                     try {
                         const stackTrace = await this.currentSession.customRequest('stackTrace', {
                             threadId: thread.id,
@@ -226,6 +236,46 @@ export class DelveClient extends EventEmitter {
         return [];
     }
 
+    async getThreads(): Promise<DelveThread[]> {
+        if (!this.currentSession) {
+            return [];
+        }
+
+        try {
+            const response = await this.currentSession.customRequest('threads');
+            return (response.threads || []).map((thread: any) => ({ id: thread.id, name: String(thread.name) }));
+        } catch (error) {
+            console.error(`❌ Error getting threads at 2025-06-09 03:05:14:`, error.message);
+            return [];
+        }
+    }
+
+    // Stack of any thread (goroutine for Delve), not just the one VS Code has selected
+    async getThreadStackTrace(threadId: number, levels: number = 20): Promise<DelveFrame[]> {
+        if (!this.currentSession) {
+            return [];
+        }
+
+        try {
+            const stackTrace = await this.currentSession.customRequest('stackTrace', {
+                threadId,
+                startFrame: 0,
+                levels
+            });
+
+            return (stackTrace.stackFrames || []).map((frame: any) => ({
+                id: frame.id,
+                name: frame.name,
+                source: frame.source,
+                line: frame.line,
+                column: frame.column
+            }));
+        } catch (error) {
+            console.log(`⚠️ Could not get stack trace for thread ${threadId}: ${error.message}`);
+            return [];
+        }
+    }
+
     async getScopes(): Promise<DelveScope[]> {
         if (!this.currentFrameId || !this.currentSession) {
             console.log(`❌ Cannot get scopes - no current frame at 2025-06-09 03:05:14`);
@@ -312,6 +362,45 @@ export class DelveClient extends EventEmitter {
         }
     }
 
+    // Go reports goroutines through getThreads; the wrapped language protocols add threads and async tasks
+    async getExecutionUnits(): Promise<DebugExecutionUnit[]> {
+        return [];
+    }
+
+    // DAP evaluate in the given frame; undefined when the adapter rejects the expression
+    async evaluate(expression: string, frameId: number): Promise<{ result: string; type?: string } | undefined> {
+        if (!this.currentSession) {
+            return undefined;
+        }
+
+        try {
+            const response = await this.currentSession.customRequest('evaluate', {
+                expression,
+                frameId,
+                context: 'watch'
+            });
+            return { result: String(response.result), type: response.type };
+        } catch (error) {
+            console.log(`⚠️ Could not evaluate "${expression}" in frame ${frameId}: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    // DAP 'next' or 'stepIn' on the stopped thread; the new position arrives later as a 'stopped' event
+    async step(kind: 'next' | 'stepIn'): Promise<boolean> {
+        if (!this.currentThreadId || !this.currentSession) {
+            return false;
+        }
+
+        try {
+            await this.currentSession.customRequest(kind, { threadId: this.currentThreadId });
+            return true;
+        } catch (error) {
+            console.log(`⚠️ ${kind} on thread ${this.currentThreadId} failed: ${error.message}`);
+            return false;
+        }
+    }
+
     getCurrentThreadId(): number | null {
         return this.currentThreadId;
     }
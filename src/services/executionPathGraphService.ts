@@ -19,6 +19,12 @@ export interface PathNode {
         executionTime?: number;
         memoryUsage?: string;
         alternativePathType?: string;
+        // SymbolicExecutor AlternativePath this node stands for
+        alternativePathId?: string;
+        // The parent awaited this node instead of calling it (async stack traces, asyncio tasks)
+        asyncBoundary?: string;
+        // Thread or async task the node belongs to when it is not on the stopped stack
+        executionUnit?: string;
     };
 }
 
@@ -127,35 +133,45 @@ export class ExecutionPathGraphService extends EventEmitter {
     }
 
     private buildActualPath(functionCalls: FunctionCall[]): PathNode[] {
-        const nodes: PathNode[] = [];
-        
-        // Reverse the function calls to show call hierarchy (deepest first becomes root)
-        const reversedCalls = [...functionCalls].reverse();
-        
-        reversedCalls.forEach((call, index) => {
-            const node: PathNode = {
-                id: call.id,
-                functionName: this.cleanFunctionName(call.name),
-                file: call.file || '',
-                line: call.line || 0,
-                depth: index,
-                status: index === 0 ? 'current' : 'executed', // First node (deepest call) is current
-                children: index < reversedCalls.length - 1 ? [reversedCalls[index + 1].id] : [],
-                parent: index > 0 ? reversedCalls[index - 1].id : undefined,
-                metadata: {
-                    executionTime: call.endTime ? call.endTime - call.startTime : undefined,
-                    probability: 1.0
-                }
-            };
-            nodes.push(node);
-        });
-        
-        return nodes;
+        const callsById = new Map(functionCalls.map(call => [call.id, call]));
+
+        // Depth follows parentId, so awaited frames and other tasks hang off their logical parent
+        const depthOf = (call: FunctionCall): number => {
+            const visited = new Set<string>([call.id]);
+            let depth = 0;
+            let parent = call.parentId ? callsById.get(call.parentId) : undefined;
+            while (parent && !visited.has(parent.id)) {
+                visited.add(parent.id);
+                depth++;
+                parent = parent.parentId ? callsById.get(parent.parentId) : undefined;
+            }
+            return depth;
+        };
+
+        // Outermost frames first; functionCalls[0] is the frame the debugger stopped in
+        return [...functionCalls].reverse().map(call => ({
+            id: call.id,
+            functionName: this.cleanFunctionName(call.name),
+            file: call.file || '',
+            line: call.line || 0,
+            depth: depthOf(call),
+            status: call === functionCalls[0] ? 'current' as const : 'executed' as const,
+            children: call.children.filter(id => callsById.has(id)),
+            parent: call.parentId && callsById.has(call.parentId) ? call.parentId : undefined,
+            metadata: {
+                executionTime: call.endTime ? call.endTime - call.startTime : undefined,
+                probability: 1.0,
+                asyncBoundary: call.asyncBoundary,
+                executionUnit: call.executionUnit
+            }
+        }));
     }
 
     private buildPossiblePaths(context: ContextData, actualPath: PathNode[]): PathNode[] {
         const possibleNodes: PathNode[] = [];
-        const maxActualDepth = actualPath.length > 0 ? Math.max(...actualPath.map(n => n.depth)) : 0;
+        // Alternatives branch off the stopped stack, not other threads or tasks
+        const stoppedPath = actualPath.filter(n => !n.metadata.executionUnit);
+        const maxActualDepth = stoppedPath.length > 0 ? Math.max(...stoppedPath.map(n => n.depth)) : 0;
         
         console.log(`🔍 Building possible paths, maxActualDepth: ${maxActualDepth}`);
         
@@ -164,8 +180,9 @@ export class ExecutionPathGraphService extends EventEmitter {
             console.log(`🔍 Symbolic execution data: present`);
             const symbolicAlternatives = this.processSymbolicExecutionAlternatives(
                 context.symbolicExecution.alternativePaths,
-                actualPath,
-                maxActualDepth
+                stoppedPath,
+                maxActualDepth,
+                context.symbolicExecution.currentPath.currentLocation
             );
             possibleNodes.push(...symbolicAlternatives);
         }
@@ -175,7 +192,7 @@ export class ExecutionPathGraphService extends EventEmitter {
             console.log(`🔍 Path sensitivity data: present`);
             const criticalPathNodes = this.processPathSensitivityPaths(
                 context.pathSensitivity.pathAnalysis.criticalPaths,
-                actualPath,
+                stoppedPath,
                 maxActualDepth
             );
             possibleNodes.push(...criticalPathNodes);
@@ -187,15 +204,18 @@ export class ExecutionPathGraphService extends EventEmitter {
     private processSymbolicExecutionAlternatives(
         alternatives: any[],
         actualPath: PathNode[],
-        maxActualDepth: number
+        maxActualDepth: number,
+        currentLocation?: { file: string; line: number; function: string }
     ): PathNode[] {
         const nodes: PathNode[] = [];
         
         console.log(`🔍 Processing ${alternatives.length} alternative paths from symbolic execution`);
         
         alternatives.forEach((alt, index) => {
-            // Extract proper function name from alternative description
-            const functionName = this.extractFunctionNameFromDescription(alt.description);
+            // Alternatives branch off inside the stopped function; their descriptions name a condition, not a function
+            const functionName = currentLocation?.function && currentLocation.function !== 'unknown'
+                ? this.cleanFunctionName(currentLocation.function)
+                : this.extractFunctionNameFromDescription(alt.description);
             
             if (this.isValidFunctionName(functionName)) {
                 // Find the best parent node from actual path
@@ -205,7 +225,7 @@ export class ExecutionPathGraphService extends EventEmitter {
                 const node: PathNode = {
                     id: `alt-${alt.id}`,
                     functionName: functionName,
-                    file: this.extractFileFromDescription(alt.description),
+                    file: currentLocation?.file || this.extractFileFromDescription(alt.description),
                     line: this.extractLineFromDescription(alt.description),
                     depth: depth,
                     status: 'possible',
@@ -214,7 +234,8 @@ export class ExecutionPathGraphService extends EventEmitter {
                     metadata: {
                         probability: this.convertProbabilityToNumber(alt.probability),
                         alternativePathType: 'symbolic_execution',
-                        branchCondition: alt.requiredInputChanges?.[0]?.reasoning || alt.description
+                        branchCondition: alt.requiredInputChanges?.[0]?.reasoning || alt.description,
+                        alternativePathId: alt.id
                     }
                 };
                 
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import { DelveClient, DelveFrame } from './delveClient';
+
+export interface GoroutineFrame {
+    id: number;
+    name: string;
+    file: string;
+    line: number;
+}
+
+export interface GoroutineInfo {
+    // Goroutine id from Delve's thread name ("[Go 7] ..."); the DAP thread id when the name has none
+    id: number;
+    threadId: number;
+    name: string;
+    isCurrent: boolean;
+    // Only runtime frames - GC workers, finalizers and the like; ignored by the deadlock hints
+    isSystem: boolean;
+    // First frame outside runtime/sync/internal packages, i.e. where the goroutine is in user code
+    topFrame?: GoroutineFrame;
+    waitReason?: string;
+    // Parked on something only another goroutine can release (channel, select, lock, WaitGroup, Cond)
+    isBlocked: boolean;
+    // Channel or lock expression read from the source line at topFrame, with its value when evaluate allows
+    blockedOn?: { expression: string; value?: string };
+    frames: GoroutineFrame[];
+}
+
+export interface GoroutineOverview {
+    total: number;
+    inspected: number;
+    goroutines: GoroutineInfo[];
+    deadlockHints: string[];
+    timestamp: number;
+}
+
+interface WaitPattern {
+    pattern: RegExp;
+    reason: string;
+    blocking: boolean;
+}
+
+// Matched against the frames above the first user frame, innermost first
+const WAIT_PATTERNS: WaitPattern[] = [
+    { pattern: /^runtime\.chanrecv/, reason: 'chan receive', blocking: true },
+    { pattern: /^runtime\.chansend/, reason: 'chan send', blocking: true },
+    { pattern: /^runtime\.selectgo$/, reason: 'select', blocking: true },
+    { pattern: /^runtime\.block$/, reason: 'select {}', blocking: true },
+    { pattern: /^sync\.\(\*RWMutex\)\.RLock$/, reason: 'sync.RWMutex.RLock', blocking: true },
+    { pattern: /^sync\.\(\*RWMutex\)\.Lock$/, reason: 'sync.RWMutex.Lock', blocking: true },
+    { pattern: /^sync\.\(\*Mutex\)\.(?:Lock|lockSlow)$/, reason: 'sync.Mutex.Lock', blocking: true },
+    { pattern: /^sync\.\(\*WaitGroup\)\.Wait$/, reason: 'sync.WaitGroup.Wait', blocking: true },
+    { pattern: /^sync\.\(\*Cond\)\.Wait$/, reason: 'sync.Cond.Wait', blocking: true },
+    { pattern: /^time\.Sleep$/, reason: 'sleep', blocking: false },
+    { pattern: /^internal\/poll\./, reason: 'IO wait', blocking: false },
+    { pattern: /^(?:syscall\.|runtime\.(?:syscall|cgocall))/, reason: 'syscall', blocking: false }
+];
+
+const PARK_FRAME = /^runtime\.(?:gopark|goparkunlock)$/;
+const RUNTIME_FRAME = /^(?:runtime|sync|internal\/[\w/]+|time|syscall|sync\/atomic)\./;
+const THREAD_NAME = /^(\*\s*)?\[Go (\d+)\]\s*(.*?)(?:\s+\(Thread \d+\))?$/;
+const EXPRESSION = '[A-Za-z_][\\w.]*(?:\\[[^\\]]*\\])?';
+
+const MAX_GOROUTINES = 64;
+const STACK_LEVELS = 12;
+const MAX_EVALUATIONS = 20;
+
+export class GoroutineAnalyzer {
+    private sourceCache: Map<string, string[] | null> = new Map();
+
+    async analyze(delveClient: DelveClient, currentThreadId: number | null): Promise<GoroutineOverview> {
+        this.sourceCache.clear();
+        const threads = await delveClient.getThreads();
+
+        // The stopped goroutine first, then by goroutine id, so the cap keeps the interesting ones
+        const ordered = threads
+            .map(thread => ({ thread, match: thread.name.match(THREAD_NAME) }))
+            .sort((a, b) => {
+                const aCurrent = a.thread.id === currentThreadId ? 0 : 1;
+                const bCurrent = b.thread.id === currentThreadId ? 0 : 1;
+                return aCurrent - bCurrent || Number(a.match?.[2] ?? a.thread.id) - Number(b.match?.[2] ?? b.thread.id);
+            })
+            .slice(0, MAX_GOROUTINES);
+
+        const goroutines: GoroutineInfo[] = [];
+        for (const { thread, match } of ordered) {
+            const stack = await delveClient.getThreadStackTrace(thread.id, STACK_LEVELS);
+            goroutines.push(this.describeGoroutine(
+                thread.id,
+                thread.name,
+                match ? Number(match[2]) : thread.id,
+                thread.id === currentThreadId || (currentThreadId === null && !!match?.[1]),
+                stack
+            ));
+        }
+
+        await this.resolveBlockingValues(delveClient, goroutines);
+
+        const overview: GoroutineOverview = {
+            total: threads.length,
+            inspected: goroutines.length,
+            goroutines,
+            deadlockHints: this.findDeadlockHints(goroutines, threads.length),
+            timestamp: Date.now()
+        };
+
+        console.log(`🧵 Goroutine overview: ${overview.inspected}/${overview.total} inspected, ` +
+            `${goroutines.filter(g => g.isBlocked).length} blocked, ${overview.deadlockHints.length} deadlock hints`);
+        return overview;
+    }
+
+    private describeGoroutine(threadId: number, name: string, id: number, isCurrent: boolean, stack: DelveFrame[]): GoroutineInfo {
+        const frames: GoroutineFrame[] = stack.map(frame => ({
+            id: frame.id,
+            name: frame.name,
+            file: frame.source?.path || '',
+            line: frame.line
+        }));
+
+        const userIndex = frames.findIndex(frame => !RUNTIME_FRAME.test(frame.name));
+        const topFrame = userIndex >= 0 ? frames[userIndex] : undefined;
+        const runtimeFrames = userIndex >= 0 ? frames.slice(0, userIndex) : frames;
+
+        let wait: WaitPattern | undefined;
+        for (const frame of runtimeFrames) {
+            wait = WAIT_PATTERNS.find(candidate => candidate.pattern.test(frame.name));
+            if (wait) break;
+        }
+
+        const parked = !!wait || (frames.length > 0 && PARK_FRAME.test(frames[0].name));
+        const info: GoroutineInfo = {
+            id,
+            threadId,
+            name,
+            isCurrent,
+            isSystem: frames.length > 0 && userIndex < 0,
+            topFrame,
+            waitReason: wait?.reason || (parked ? 'parked' : undefined),
+            // The goroutine the debugger stopped is judged separately, it may sit at a breakpoint
+            isBlocked: !!wait?.blocking && !isCurrent,
+            frames
+        };
+
+        if (info.isBlocked && topFrame) {
+            const expression = this.findBlockingExpression(info.waitReason!, topFrame);
+            if (expression) {
+                info.blockedOn = { expression };
+            }
+        }
+        return info;
+    }
+
+    // Reads the channel or lock from the line the goroutine is parked on
+    private findBlockingExpression(reason: string, frame: GoroutineFrame): string | undefined {
+        const lines = this.readSource(frame.file);
+        const line = lines?.[frame.line - 1];
+        if (!lines || line === undefined) {
+            return undefined;
+        }
+
+        const code = line.replace(/\/\/.*$/, '');
+        if (reason === 'chan receive') {
+            return code.match(new RegExp(`<-\\s*(${EXPRESSION})`))?.[1]
+                || code.match(new RegExp(`\\brange\\s+(${EXPRESSION})`))?.[1];
+        }
+        if (reason === 'chan send') {
+            return code.match(new RegExp(`(${EXPRESSION})\\s*<-`))?.[1];
+        }
+        if (reason === 'select') {
+            return this.findSelectChannels(lines, frame.line - 1);
+        }
+        if (reason.startsWith('sync.')) {
+            return code.match(new RegExp(`(${EXPRESSION})\\.(?:RLock|Lock|Wait)\\s*\\(`))?.[1];
+        }
+        return undefined;
+    }
+
+    // Channels named in the case clauses of the select starting at lineIndex
+    private findSelectChannels(lines: string[], lineIndex: number): string | undefined {
+        const indent = (lines[lineIndex].match(/^\s*/) || [''])[0].length;
+        const channels: string[] = [];
+
+        for (let i = lineIndex + 1; i < Math.min(lines.length, lineIndex + 200); i++) {
+            const line = lines[i].replace(/\/\/.*$/, '');
+            const lineIndent = (line.match(/^\s*/) || [''])[0].length;
+            if (line.trim() === '}' && lineIndent <= indent) {
+                break;
+            }
+
+            const clause = line.match(/^\s*case\s+(.*):\s*$/);
+            if (clause) {
+                const channel = clause[1].match(new RegExp(`<-\\s*(${EXPRESSION})`))?.[1]
+                    || clause[1].match(new RegExp(`^(${EXPRESSION})\\s*<-`))?.[1];
+                if (channel && !channels.includes(channel)) {
+                    channels.push(channel);
+                }
+            }
+        }
+
+        return channels.length > 0 ? channels.join(', ') : undefined;
+    }
+
+    private async resolveBlockingValues(delveClient: DelveClient, goroutines: GoroutineInfo[]): Promise<void> {
+        let evaluations = 0;
+        for (const goroutine of goroutines) {
+            if (!goroutine.blockedOn || !goroutine.topFrame || goroutine.blockedOn.expression.includes(',')) {
+                continue;
+            }
+            if (evaluations++ >= MAX_EVALUATIONS) {
+                break;
+            }
+
+            const result = await delveClient.evaluate(goroutine.blockedOn.expression, goroutine.topFrame.id);
+            if (result) {
+                goroutine.blockedOn.value = result.result;
+            }
+        }
+    }
+
+    private findDeadlockHints(goroutines: GoroutineInfo[], total: number): string[] {
+        const hints: string[] = [];
+        const user = goroutines.filter(g => !g.isSystem);
+        const others = user.filter(g => !g.isCurrent);
+        const current = user.find(g => g.isCurrent);
+        const complete = total === goroutines.length;
+
+        for (const goroutine of user) {
+            if (goroutine.blockedOn?.value && /\bnil\b/.test(goroutine.blockedOn.value) && goroutine.waitReason?.startsWith('chan')) {
+                hints.push(`Goroutine ${goroutine.id} waits on nil channel \`${goroutine.blockedOn.expression}\` at ${this.formatFrame(goroutine.topFrame)} - this never completes`);
+            }
+        }
+
+        // Parked in a blocking wait counts even for the current goroutine when the user paused there
+        const parked = (g: GoroutineInfo) => g.isBlocked || (g.isCurrent && WAIT_PATTERNS.some(p => p.blocking && p.reason === g.waitReason));
+        if (complete && user.length > 0 && user.every(parked)) {
+            hints.push(`All ${user.length} goroutines are blocked on channels or locks - nothing left running can wake them (likely deadlock)`);
+        } else if (complete && current && !parked(current) && others.length > 0 && others.every(g => g.isBlocked)) {
+            hints.push(`Every other goroutine (${others.length}) is blocked on channels or locks - if goroutine ${current.id} blocks too, the program deadlocks`);
+        }
+
+        const waitGroupWaiters = user.filter(g => g.waitReason === 'sync.WaitGroup.Wait');
+        if (hints.length > 0 && waitGroupWaiters.length > 0) {
+            hints.push(`Goroutine ${waitGroupWaiters.map(g => g.id).join(', ')} waits on a WaitGroup - check that every worker calls Done, including on error paths`);
+        }
+
+        const lockWaiters = new Map<string, GoroutineInfo[]>();
+        for (const goroutine of user) {
+            if (goroutine.waitReason?.includes('Mutex') && goroutine.blockedOn) {
+                const key = goroutine.blockedOn.expression;
+                lockWaiters.set(key, [...(lockWaiters.get(key) || []), goroutine]);
+            }
+        }
+        for (const waiters of lockWaiters.values()) {
+            if (waiters.length > 1) {
+                hints.push(`${waiters.length} goroutines (${waiters.map(g => g.id).join(', ')}) wait for \`${waiters[0].blockedOn!.expression}\` - look for a holder that never unlocks`);
+            }
+        }
+
+        return hints;
+    }
+
+    private formatFrame(frame?: GoroutineFrame): string {
+        return frame ? `${frame.file.split('/').pop()}:${frame.line}` : 'unknown location';
+    }
+
+    private readSource(file: string): string[] | null {
+        if (!file) {
+            return null;
+        }
+        if (!this.sourceCache.has(file)) {
+            try {
+                this.sourceCache.set(file, fs.readFileSync(file, 'utf8').split(/\r?\n/));
+            } catch {
+                this.sourceCache.set(file, null);
+            }
+        }
+        return this.sourceCache.get(file) || null;
+    }
+}
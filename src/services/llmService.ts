@@ -1,8 +1,15 @@
-import * as vscode from 'vscode';
-import fetch from 'node-fetch';
+import fetch, { RequestInit } from 'node-fetch';
+import { ConfigurationService, LLMStringSetting } from './configurationService';
+
+export type LocalApiStyle = 'ollama' | 'openai';
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
 
 export interface LLMOptions {
-    provider: 'openai' | 'anthropic' | 'azure' | 'custom';
+    provider: 'openai' | 'anthropic' | 'azure' | 'custom' | 'local';
     model: string;
     temperature?: number;
     maxTokens?: number;
@@ -20,6 +27,15 @@ export interface LLMResponse {
     timestamp: string;
 }
 
+// How a streamed body is framed: OpenAI/Azure/OpenAI-compatible SSE, Anthropic SSE events, or Ollama NDJSON
+type StreamFormat = 'openai-sse' | 'anthropic-sse' | 'ndjson';
+
+interface ProviderRequest {
+    url: string;
+    init: RequestInit;
+    format: StreamFormat;
+}
+
 export class LLMService {
     private requestCache = new Map<string, { response: LLMResponse; timestamp: number }>();
     private cacheTimeout = 300000; // 5 minutes
@@ -52,6 +68,9 @@ export class LLMService {
                 case 'custom':
                     response = await this.callCustomEndpoint(cleanContext, query, options);
                     break;
+                case 'local':
+                    response = await this.callLocalModel(cleanContext, query, options);
+                    break;
                 default:
                     throw new Error(`Unsupported provider: ${options.provider}`);
             }
@@ -66,6 +85,172 @@ export class LLMService {
         }
     }
 
+    // Same as callLLM, but hands every text delta to onChunk as it arrives. Aborting the
+    // signal cancels the HTTP request; the promise then rejects with an AbortError.
+    async streamLLM(context: string, query: string, options: LLMOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<string> {
+        const cleanContext = this.extractCleanContext(context);
+
+        const cacheKey = this.generateCacheKey(cleanContext, query, options);
+        const cached = this.getCachedResponse(cacheKey);
+        if (cached) {
+            console.log(`🚀 Using cached LLM response`);
+            onChunk(cached.content);
+            return cached.content;
+        }
+
+        // The custom endpoint has no defined streaming protocol, deliver it in one piece
+        if (options.provider === 'custom') {
+            const response = await this.callCustomEndpoint(cleanContext, query, options, signal);
+            this.cacheResponse(cacheKey, response);
+            onChunk(response.content);
+            return response.content;
+        }
+
+        const content = await this.streamMessages(this.toMessages(cleanContext, query), options, onChunk, signal);
+
+        this.cacheResponse(cacheKey, { content, model: options.model, timestamp: new Date().toISOString() });
+        return content;
+    }
+
+    // Multi-turn variant used by the debug chat: the caller owns the conversation, nothing is cached
+    async streamChat(messages: ChatMessage[], options: LLMOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<string> {
+        if (options.provider === 'custom') {
+            const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n');
+            const response = await this.callCustomEndpoint(transcript, 'Continue the conversation as the Assistant.', options, signal);
+            onChunk(response.content);
+            return response.content;
+        }
+
+        return this.streamMessages(messages, options, onChunk, signal);
+    }
+
+    private async streamMessages(messages: ChatMessage[], options: LLMOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<string> {
+        let request: ProviderRequest;
+        switch (options.provider) {
+            case 'openai':
+                request = this.buildOpenAIRequest(messages, options, true);
+                break;
+            case 'anthropic':
+                request = this.buildAnthropicRequest(messages, options, true);
+                break;
+            case 'azure':
+                request = this.buildAzureRequest(messages, options, true);
+                break;
+            case 'local':
+                request = this.buildLocalRequest(messages, options, true);
+                break;
+            default:
+                throw new Error(`Unsupported provider: ${options.provider}`);
+        }
+
+        const init: RequestInit = { ...request.init, signal: signal as any };
+        const response = options.provider === 'local'
+            ? await this.fetchLocal(request.url, init, (request as ProviderRequest & { baseUrl: string }).baseUrl)
+            : await fetch(request.url, init);
+
+        if (!response.ok) {
+            const body = await response.text();
+            let message = `${options.provider} API error: ${response.status}`;
+            try {
+                const data = JSON.parse(body);
+                message = data.error?.message || (typeof data.error === 'string' ? data.error : message);
+            } catch {
+                // Non-JSON error body, keep the status message
+            }
+            throw new Error(message);
+        }
+
+        let content = '';
+        await this.readStream(response.body, request.format, text => {
+            content += text;
+            onChunk(text);
+        });
+        return content;
+    }
+
+    private toMessages(context: string, query: string): ChatMessage[] {
+        return [{ role: 'user', content: `${query}\n\n--- Debug Context ---\n${context}` }];
+    }
+
+    private async readStream(body: NodeJS.ReadableStream, format: StreamFormat, onText: (text: string) => void): Promise<void> {
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        const handleLine = (line: string) => {
+            const trimmed = line.trim();
+            if (!trimmed) return;
+
+            if (format === 'ndjson') {
+                const data = JSON.parse(trimmed);
+                if (data.error) throw new Error(data.error);
+                if (data.message?.content) onText(data.message.content);
+                return;
+            }
+
+            // SSE: only "data:" lines carry payloads, "event:" lines are implied by the payload type
+            if (!trimmed.startsWith('data:')) return;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+
+            const data = JSON.parse(payload);
+            if (format === 'anthropic-sse') {
+                if (data.type === 'error') throw new Error(data.error?.message || 'Anthropic stream error');
+                if (data.type === 'content_block_delta' && data.delta?.text) onText(data.delta.text);
+            } else {
+                const delta = data.choices?.[0]?.delta?.content;
+                if (delta) onText(delta);
+            }
+        };
+
+        for await (const chunk of body as any as AsyncIterable<Buffer>) {
+            buffer += decoder.decode(chunk, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            lines.forEach(handleLine);
+        }
+
+        buffer += decoder.decode();
+        handleLine(buffer);
+    }
+
+    // Read through the shared configuration service; legacy contextSelector.llm keys are migrated on activation
+    private getSetting(key: LLMStringSetting): string | undefined {
+        return ConfigurationService.getInstance().getLLMSetting(key);
+    }
+
+    // Local providers must never leave the machine, so only loopback hosts are accepted
+    static isLoopbackEndpoint(endpoint: string): boolean {
+        try {
+            const host = new URL(endpoint).hostname.replace(/^\[|\]$/g, '');
+            return host === 'localhost' || host === '::1' || /^127\./.test(host);
+        } catch {
+            return false;
+        }
+    }
+
+    static getDefaultLocalEndpoint(style: LocalApiStyle): string {
+        // Ollama listens on 11434, llama.cpp's server on 8080
+        return style === 'ollama' ? 'http://localhost:11434' : 'http://localhost:8080';
+    }
+
+    async listLocalModels(endpoint?: string, style?: LocalApiStyle): Promise<string[]> {
+        const server = this.resolveLocalServer(endpoint, style);
+
+        const url = server.style === 'ollama' ? `${server.baseUrl}/api/tags` : `${server.baseUrl}/v1/models`;
+        const response = await this.fetchLocal(url, { method: 'GET' }, server.baseUrl);
+        const data = await response.json() as any;
+
+        if (!response.ok) {
+            throw new Error(data.error?.message || data.error || `Local model server error: ${response.status}`);
+        }
+
+        const models: string[] = server.style === 'ollama'
+            ? (data.models || []).map((m: any) => m.name || m.model)
+            : (data.data || []).map((m: any) => m.id);
+
+        return models.filter(Boolean);
+    }
+
     private extractCleanContext(rawContext: string): string {
         // Remove timestamp lines
         let cleaned = rawContext.replace(/\*\*Generated\*\*: [^\n]+\n/g, '');
@@ -146,11 +331,28 @@ export class LLMService {
     }
 
     private async callOpenAI(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
-        const config = vscode.workspace.getConfiguration('contextSelector.llm');
-        const apiKey = config.get<string>('openaiApiKey');
+        const request = this.buildOpenAIRequest(this.toMessages(context, query), options, false);
+        const response = await fetch(request.url, request.init);
+
+        const data = await response.json() as any;
+        
+        if (!response.ok) {
+            throw new Error(data.error?.message || `OpenAI API error: ${response.status}`);
+        }
+
+        return {
+            content: data.choices[0].message.content,
+            usage: data.usage,
+            model: data.model,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private buildOpenAIRequest(messages: ChatMessage[], options: LLMOptions, stream: boolean): ProviderRequest {
+        const apiKey = this.getSetting('openaiApiKey');
         
         if (!apiKey) {
-            throw new Error('OpenAI API key not configured. Please set contextSelector.llm.openaiApiKey in settings.');
+            throw new Error('OpenAI API key not configured. Please set coDebugger.llm.openaiApiKey in settings.');
         }
 
         const systemPrompt = `You are an expert debugging assistant. 
@@ -165,50 +367,56 @@ Analyze the provided debugging context and provide specific, actionable insights
 Be concise but thorough. Focus on application logic rather than infrastructure code.
 Provide practical debugging advice based on the current execution state.`;
 
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`,
-                'User-Agent': 'VSCode-CoDebugger/2.0'
-            },
-            body: JSON.stringify({
-                model: options.model || 'gpt-4',
-                messages: [
-                    {
-                        role: 'system',
-                        content: systemPrompt
-                    },
-                    {
-                        role: 'user',
-                        content: `${query}\n\n--- Debug Context ---\n${context}`
-                    }
-                ],
-                temperature: options.temperature ?? 0.3,
-                max_tokens: options.maxTokens || 2000
-            })
-        });
+        return {
+            url: 'https://api.openai.com/v1/chat/completions',
+            format: 'openai-sse',
+            init: {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${apiKey}`,
+                    'User-Agent': 'VSCode-CoDebugger/2.0'
+                },
+                body: JSON.stringify({
+                    model: options.model || 'gpt-4',
+                    messages: [
+                        {
+                            role: 'system',
+                            content: systemPrompt
+                        },
+                        ...messages
+                    ],
+                    temperature: options.temperature ?? 0.3,
+                    max_tokens: options.maxTokens || 2000,
+                    stream
+                })
+            }
+        };
+    }
+
+    private async callAnthropic(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
+        const request = this.buildAnthropicRequest(this.toMessages(context, query), options, false);
+        const response = await fetch(request.url, request.init);
 
         const data = await response.json() as any;
         
         if (!response.ok) {
-            throw new Error(data.error?.message || `OpenAI API error: ${response.status}`);
+            throw new Error(data.error?.message || `Anthropic API error: ${response.status}`);
         }
 
         return {
-            content: data.choices[0].message.content,
+            content: data.content[0].text,
             usage: data.usage,
             model: data.model,
             timestamp: new Date().toISOString()
         };
     }
 
-    private async callAnthropic(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
-        const config = vscode.workspace.getConfiguration('contextSelector.llm');
-        const apiKey = config.get<string>('anthropicApiKey');
+    private buildAnthropicRequest(messages: ChatMessage[], options: LLMOptions, stream: boolean): ProviderRequest {
+        const apiKey = this.getSetting('anthropicApiKey');
         
         if (!apiKey) {
-            throw new Error('Anthropic API key not configured. Please set contextSelector.llm.anthropicApiKey in settings.');
+            throw new Error('Anthropic API key not configured. Please set coDebugger.llm.anthropicApiKey in settings.');
         }
 
         const systemPrompt = `You are an expert debugging assistant.
@@ -223,95 +431,85 @@ Analyze the provided debugging context and provide specific, actionable insights
 Be concise but thorough. Focus on application logic rather than infrastructure code.
 Provide practical debugging advice based on the current execution state.`;
 
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': apiKey,
-                'anthropic-version': '2023-06-01',
-                'User-Agent': 'VSCode-CoDebugger/2.0'
-            },
-            body: JSON.stringify({
-                model: options.model || 'claude-3-sonnet-20240229',
-                system: systemPrompt,
-                messages: [
-                    {
-                        role: 'user',
-                        content: `${query}\n\n--- Debug Context ---\n${context}`
-                    }
-                ],
-                temperature: options.temperature ?? 0.3,
-                max_tokens: options.maxTokens || 2000
-            })
-        });
+        return {
+            url: 'https://api.anthropic.com/v1/messages',
+            format: 'anthropic-sse',
+            init: {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': apiKey,
+                    'anthropic-version': '2023-06-01',
+                    'User-Agent': 'VSCode-CoDebugger/2.0'
+                },
+                body: JSON.stringify({
+                    model: options.model || 'claude-3-sonnet-20240229',
+                    system: systemPrompt,
+                    messages,
+                    temperature: options.temperature ?? 0.3,
+                    max_tokens: options.maxTokens || 2000,
+                    stream
+                })
+            }
+        };
+    }
+
+    private async callAzureOpenAI(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
+        const request = this.buildAzureRequest(this.toMessages(context, query), options, false);
+        const response = await fetch(request.url, request.init);
 
         const data = await response.json() as any;
         
         if (!response.ok) {
-            throw new Error(data.error?.message || `Anthropic API error: ${response.status}`);
+            throw new Error(data.error?.message || `Azure OpenAI API error: ${response.status}`);
         }
 
         return {
-            content: data.content[0].text,
+            content: data.choices[0].message.content,
             usage: data.usage,
-            model: data.model,
+            model: this.getSetting('azureDeploymentName'),
             timestamp: new Date().toISOString()
         };
     }
 
-    private async callAzureOpenAI(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
-        const config = vscode.workspace.getConfiguration('contextSelector.llm');
-        const apiKey = config.get<string>('azureApiKey');
-        const endpoint = config.get<string>('azureEndpoint');
-        const deploymentName = config.get<string>('azureDeploymentName');
+    private buildAzureRequest(messages: ChatMessage[], options: LLMOptions, stream: boolean): ProviderRequest {
+        const apiKey = this.getSetting('azureApiKey');
+        const endpoint = this.getSetting('azureEndpoint');
+        const deploymentName = this.getSetting('azureDeploymentName');
         
         if (!apiKey || !endpoint || !deploymentName) {
             throw new Error('Azure OpenAI configuration incomplete. Please set azureApiKey, azureEndpoint, and azureDeploymentName.');
         }
 
-        const url = `${endpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=2023-12-01-preview`;
-
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'api-key': apiKey,
-                'User-Agent': 'VSCode-CoDebugger/2.0'
-            },
-            body: JSON.stringify({
-                messages: [
-                    {
-                        role: 'system',
-                        content: `You are a debugging expert. Analyze the provided debugging context and answer questions about code execution, variable changes, and function calls. Focus on application logic and provide actionable insights.`
-                    },
-                    {
-                        role: 'user',
-                        content: `${query}\n\nDebugging Context:\n${context}`
-                    }
-                ],
-                temperature: options.temperature ?? 0.3,
-                max_tokens: options.maxTokens || 2000
-            })
-        });
-
-        const data = await response.json() as any;
-        
-        if (!response.ok) {
-            throw new Error(data.error?.message || `Azure OpenAI API error: ${response.status}`);
-        }
-
         return {
-            content: data.choices[0].message.content,
-            usage: data.usage,
-            model: deploymentName,
-            timestamp: new Date().toISOString()
+            url: `${endpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=2023-12-01-preview`,
+            format: 'openai-sse',
+            init: {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'api-key': apiKey,
+                    'User-Agent': 'VSCode-CoDebugger/2.0'
+                },
+                body: JSON.stringify({
+                    messages: [
+                        {
+                            role: 'system',
+                            content: `You are a debugging expert. Analyze the provided debugging context and answer questions about code execution, variable changes, and function calls. Focus on application logic and provide actionable insights.`
+                        },
+                        ...messages
+                    ],
+                    temperature: options.temperature ?? 0.3,
+                    max_tokens: options.maxTokens || 2000,
+                    stream
+                })
+            }
         };
     }
 
-    private async callCustomEndpoint(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
-        const config = vscode.workspace.getConfiguration('contextSelector.llm');
-        const endpoint = options.apiEndpoint || config.get<string>('customEndpoint');
-        const apiKey = config.get<string>('customApiKey');
+    private async callCustomEndpoint(context: string, query: string, options: LLMOptions, signal?: AbortSignal): Promise<LLMResponse> {
+        const endpoint = options.apiEndpoint || this.getSetting('customEndpoint');
+        const apiKey = this.getSetting('customApiKey');
         
         if (!endpoint) {
             throw new Error('Custom endpoint not configured');
@@ -334,7 +532,8 @@ Provide practical debugging advice based on the current execution state.`;
                 prompt: `Query: ${query}\n\nContext: ${context}`,
                 temperature: options.temperature ?? 0.3,
                 max_tokens: options.maxTokens || 2000
-            })
+            }),
+            signal: signal as any
         });
 
         const data = await response.json() as any;
@@ -349,6 +548,116 @@ Provide practical debugging advice based on the current execution state.`;
         };
     }
 
+    private async callLocalModel(context: string, query: string, options: LLMOptions): Promise<LLMResponse> {
+        const request = this.buildLocalRequest(this.toMessages(context, query), options, false);
+        const response = await this.fetchLocal(request.url, request.init, request.baseUrl);
+
+        const data = await response.json() as any;
+
+        if (request.format === 'ndjson') {
+            if (!response.ok) {
+                throw new Error(data.error || `Ollama error: ${response.status}`);
+            }
+
+            return {
+                content: data.message?.content || '',
+                usage: data.prompt_eval_count !== undefined ? {
+                    promptTokens: data.prompt_eval_count,
+                    completionTokens: data.eval_count || 0,
+                    totalTokens: data.prompt_eval_count + (data.eval_count || 0)
+                } : undefined,
+                model: data.model,
+                timestamp: new Date().toISOString()
+            };
+        }
+
+        if (!response.ok) {
+            throw new Error(data.error?.message || `Local model server error: ${response.status}`);
+        }
+
+        return {
+            content: data.choices[0].message.content,
+            usage: data.usage,
+            model: data.model,
+            timestamp: new Date().toISOString()
+        };
+    }
+
+    private buildLocalRequest(messages: ChatMessage[], options: LLMOptions, stream: boolean): ProviderRequest & { baseUrl: string } {
+        const server = this.resolveLocalServer(options.apiEndpoint);
+
+        const localMessages = [
+            {
+                role: 'system',
+                content: `You are an expert debugging assistant. Analyze the provided debugging context and give specific, actionable insights about variable values, the call stack, potential bugs and next debugging steps. Focus on application logic rather than infrastructure code.`
+            },
+            ...messages
+        ];
+
+        if (server.style === 'ollama') {
+            return {
+                url: `${server.baseUrl}/api/chat`,
+                format: 'ndjson',
+                baseUrl: server.baseUrl,
+                init: {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        model: options.model,
+                        messages: localMessages,
+                        stream,
+                        options: {
+                            temperature: options.temperature ?? 0.3,
+                            num_predict: options.maxTokens || 2000
+                        }
+                    })
+                }
+            };
+        }
+
+        return {
+            url: `${server.baseUrl}/v1/chat/completions`,
+            format: 'openai-sse',
+            baseUrl: server.baseUrl,
+            init: {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: options.model,
+                    messages: localMessages,
+                    temperature: options.temperature ?? 0.3,
+                    max_tokens: options.maxTokens || 2000,
+                    stream
+                })
+            }
+        };
+    }
+
+    private resolveLocalServer(endpoint?: string, style?: LocalApiStyle): { baseUrl: string; style: LocalApiStyle } {
+        const resolvedStyle: LocalApiStyle = style || (this.getSetting('localApiStyle') === 'openai' ? 'openai' : 'ollama');
+        const rawEndpoint = endpoint || this.getSetting('localEndpoint') || LLMService.getDefaultLocalEndpoint(resolvedStyle);
+
+        if (!LLMService.isLoopbackEndpoint(rawEndpoint)) {
+            throw new Error(`Local provider endpoint must point to this machine (localhost/127.0.0.1/::1), got: ${rawEndpoint}`);
+        }
+
+        // Accept both "http://localhost:8080" and "http://localhost:8080/v1"
+        const baseUrl = rawEndpoint.replace(/\/+$/, '').replace(/\/v1$/, '');
+        return { baseUrl, style: resolvedStyle };
+    }
+
+    private async fetchLocal(url: string, init: any, baseUrl: string) {
+        try {
+            return await fetch(url, { ...init, headers: { ...(init.headers || {}), 'User-Agent': 'VSCode-CoDebugger/2.0' } });
+        } catch (error) {
+            // A cancel must stay an AbortError so the views report it as cancelled, not as a connection failure
+            if (error.name === 'AbortError' || init.signal?.aborted) {
+                throw error;
+            }
+            throw new Error(`Local model server not reachable at ${baseUrl}: ${error.message}`);
+        }
+    }
+
     dispose() {
         this.requestCache.clear();
     }
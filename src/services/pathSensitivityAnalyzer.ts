@@ -1,4 +1,8 @@
 import * as os from 'os';
+import { SourceBranch, SourceBranchArm, SourceBranchScanner } from './sourceBranchScanner';
+
+const ERROR_CONDITION = /\berr\b|\berror\b|exception|\bpanic\b/i;
+const VALIDATION_CONDITION = /valid|\blen\(|\.length\b|isEmpty|is None|== nil|== null|=== null|=== undefined|== ""|=== ''|== ''/;
 
 export interface PathSensitiveVariable {
     name: string;
@@ -108,6 +112,8 @@ export interface BranchPoint {
     alternatives: AlternativePath[];
     probability: number;
     variables: string[];
+    construct?: SourceBranch['construct'];
+    relation?: SourceBranch['relation'];
 }
 
 export interface AlternativePath {
@@ -189,6 +195,7 @@ export class PathSensitivityAnalyzer {
     private sessionId: string;
     private analysisStartTime: number;
     private dataFlowGraph: Map<string, DataFlowNode[]>;
+    private branchScanner: SourceBranchScanner;
 
     constructor(sessionId: string) {
         this.sessionId = sessionId;
@@ -196,6 +203,7 @@ export class PathSensitivityAnalyzer {
         this.currentPathId = 'root';
         this.pathSensitiveVariables = new Map();
         this.dataFlowGraph = new Map();
+        this.branchScanner = new SourceBranchScanner();
         
         this.executionTree = {
             rootNode: this.createRootNode(),
@@ -388,68 +396,198 @@ export class PathSensitivityAnalyzer {
         console.log(`✅ Detected ${this.executionTree.branchPoints.length} branch points`);
     }
 
+    // Branch points come from the frame's own source: the if/switch/select/loop/try constructs around
+    // the frame line, plus early-exit guards before it. Frames whose source is not readable yield none.
     private identifyBranchPointsInFunction(funcCall: any, index: number): BranchPoint[] {
-        const branchPoints: BranchPoint[] = [];
         const functionName = funcCall.name || '';
-        const location = {
-            file: funcCall.file || '',
-            line: funcCall.line || 0,
-            function: functionName
-        };
-
-        // Middleware branch points
-        if (this.isMiddlewareFunction(functionName)) {
-            branchPoints.push({
-                id: `branch-middleware-${index}`,
-                location,
-                branchType: 'middleware',
-                condition: `${functionName} execution path`,
-                alternatives: this.generateMiddlewareAlternatives(functionName, index),
-                probability: 0.95, // High probability of success
-                variables: this.extractVariablesFromParameters(funcCall.parameters)
+        const file = funcCall.file || '';
+        const line = funcCall.line || 0;
+
+        return this.branchScanner.findBranches(file, line).map(branch => {
+            const alternatives = this.generateSourceAlternatives(branch, functionName, index);
+            // Catch clauses name exception types, not variables
+            const conditions = branch.construct === 'try' ? [] : [branch.subject || '', ...branch.arms.map(arm => arm.condition)];
+            const variables = new Set<string>();
+            conditions.forEach(condition => {
+                SourceBranchScanner.conditionVariables(condition).forEach(name => variables.add(name));
             });
+
+            return {
+                id: `branch-${index}-${branch.line}`,
+                location: { file, line: branch.line, function: functionName },
+                branchType: this.sourceBranchType(branch),
+                condition: this.describeTakenCondition(branch),
+                alternatives,
+                probability: 1 / (alternatives.length + 1),
+                variables: Array.from(variables),
+                construct: branch.construct,
+                relation: branch.relation
+            };
+        });
+    }
+
+    private sourceBranchType(branch: SourceBranch): BranchPoint['branchType'] {
+        const conditions = [branch.subject || '', ...branch.arms.map(arm => arm.condition)];
+
+        if (branch.construct === 'try' || conditions.some(c => ERROR_CONDITION.test(c))) {
+            return 'error_handling';
         }
+        if (branch.construct === 'switch' || branch.construct === 'select') {
+            return 'routing';
+        }
+        if (conditions.some(c => VALIDATION_CONDITION.test(c))) {
+            return 'validation';
+        }
+        return 'business_logic';
+    }
 
-        // Routing branch points
-        if (this.isRoutingFunction(functionName)) {
-            branchPoints.push({
-                id: `branch-routing-${index}`,
-                location,
-                branchType: 'routing',
-                condition: `Route matching for ${functionName}`,
-                alternatives: this.generateRoutingAlternatives(functionName, index),
-                probability: 0.90, // High probability for matched route
-                variables: ['request', 'path', 'method']
-            });
+    // What held on the observed path, e.g. `!(err != nil)` past a guard or `!(a) && b` in an else-if
+    private describeTakenCondition(branch: SourceBranch): string {
+        if (branch.relation === 'guard') {
+            return `!(${branch.arms[0].condition})`;
         }
 
-        // Business logic branch points
-        if (this.isBusinessLogicFunction(functionName)) {
-            branchPoints.push({
-                id: `branch-business-${index}`,
-                location,
-                branchType: 'business_logic',
-                condition: `Business logic execution in ${functionName}`,
-                alternatives: this.generateBusinessLogicAlternatives(functionName, index),
-                probability: 0.80, // Moderate probability
-                variables: this.extractBusinessVariables(funcCall.parameters)
-            });
+        const taken = branch.arms[branch.takenArm];
+        if (!taken) {
+            return branch.subject || branch.arms.map(arm => arm.condition).join(' | ');
+        }
+
+        switch (branch.construct) {
+            case 'if':
+                return this.armConditions(branch, branch.takenArm).join(' && ');
+            case 'switch':
+            case 'select':
+                return this.armConditions(branch, branch.takenArm).join(' && ') || taken.kind;
+            case 'loop':
+                return taken.condition || 'loop';
+            case 'try':
+                return taken.kind === 'catch' ? `caught ${taken.condition}` : taken.kind === 'finally' ? 'finally' : 'no exception';
         }
+    }
+
+    // Conditions under which execution enters `branch.arms[armIndex]`
+    private armConditions(branch: SourceBranch, armIndex: number): string[] {
+        const arm = branch.arms[armIndex];
+        const subject = (branch.subject || '').replace(/^.*?:=\s*/, '');
 
-        // Validation branch points
-        if (this.isValidationFunction(functionName)) {
-            branchPoints.push({
-                id: `branch-validation-${index}`,
-                location,
-                branchType: 'validation',
-                condition: `Validation logic in ${functionName}`,
-                alternatives: this.generateValidationAlternatives(functionName, index),
-                probability: 0.85, // High probability of validation success
-                variables: this.extractValidationVariables(funcCall.parameters)
+        switch (branch.construct) {
+            case 'if': {
+                const earlier = branch.arms.slice(0, armIndex).map(a => `!(${a.condition})`);
+                return arm.condition ? [...earlier, arm.condition] : earlier;
+            }
+            case 'switch': {
+                const labels = (a: SourceBranchArm) => SourceBranchScanner.caseLabels(a.condition);
+                if (arm.kind === 'default') {
+                    return branch.arms
+                        .filter(a => a.kind === 'case')
+                        .flatMap(labels)
+                        .map(label => subject ? `${subject} != ${label}` : `!(${label})`);
+                }
+                return [labels(arm).map(label => subject ? `${subject} == ${label}` : label).join(' || ')];
+            }
+            case 'select':
+                return [arm.kind === 'default' ? 'no channel operation is ready' : `${arm.condition} is ready`];
+            default:
+                return arm.condition ? [arm.condition] : [];
+        }
+    }
+
+    private generateSourceAlternatives(branch: SourceBranch, functionName: string, index: number): AlternativePath[] {
+        // `variables` come from source expressions; some conditions are phrased ("xs is empty")
+        const options: { description: string; conditions: string[]; variables: string[]; outcome: string; error: boolean }[] = [];
+        const variablesOf = (conditions: string[]) =>
+            Array.from(new Set(conditions.flatMap(c => SourceBranchScanner.conditionVariables(c))));
+        const taken = branch.arms[branch.takenArm];
+        const label = (arm: SourceBranchArm) => arm.kind.replace('_', ' ');
+
+        if (branch.relation === 'guard') {
+            const guard = branch.arms[0];
+            options.push({
+                description: `Guard at line ${guard.line} fires: ${guard.condition}`,
+                conditions: [guard.condition],
+                variables: variablesOf([guard.condition]),
+                outcome: `Leaves ${functionName} early through lines ${guard.line}-${guard.endLine}`,
+                error: ERROR_CONDITION.test(guard.condition)
+            });
+        } else if (branch.construct === 'loop' && taken) {
+            const iterable = /^(?:.*\brange\s+|.*\s(?:in|of)\s+|[^:?]*[^:]:\s+)(.+)$/.exec(taken.condition);
+            if (taken.condition) {
+                options.push({
+                    description: `Loop at line ${taken.line} is not entered`,
+                    conditions: [iterable ? `${iterable[1]} is empty` : `!(${taken.condition})`],
+                    variables: variablesOf([iterable ? iterable[1] : taken.condition]),
+                    outcome: `Skips the loop body at lines ${taken.line}-${taken.endLine}`,
+                    error: false
+                });
+            }
+        } else if (branch.construct === 'try') {
+            const tryArm = branch.arms.find(arm => arm.kind === 'try');
+            branch.arms.forEach((arm, armIndex) => {
+                if (armIndex === branch.takenArm) return;
+                if (arm.kind === 'catch' && taken?.kind === 'try') {
+                    options.push({
+                        description: `Exception handled by catch at line ${arm.line}: ${arm.condition || 'any'}`,
+                        conditions: [`${arm.condition || 'an exception'} raised before line ${taken.endLine}`],
+                        variables: [],
+                        outcome: `Runs the handler at lines ${arm.line}-${arm.endLine}`,
+                        error: true
+                    });
+                } else if (arm.kind === 'try' && tryArm && taken?.kind === 'catch') {
+                    options.push({
+                        description: `Try block at line ${arm.line} completes without an exception`,
+                        conditions: [`no exception raised in lines ${arm.line}-${arm.endLine}`],
+                        variables: [],
+                        outcome: `Skips the handler at lines ${taken.line}-${taken.endLine}`,
+                        error: false
+                    });
+                }
+            });
+        } else {
+            branch.arms.forEach((arm, armIndex) => {
+                if (armIndex === branch.takenArm) return;
+                const conditions = this.armConditions(branch, armIndex);
+                options.push({
+                    description: `${label(arm)} at line ${arm.line}${arm.condition ? `: ${arm.condition}` : ''}`,
+                    conditions,
+                    variables: variablesOf(conditions),
+                    outcome: `Runs the ${label(arm)} arm at lines ${arm.line}-${arm.endLine}${taken ? ` instead of line ${taken.line}` : ''}`,
+                    error: conditions.some(c => ERROR_CONDITION.test(c))
+                });
             });
+
+            // An if chain without else can also fall through every arm
+            const last = branch.arms[branch.arms.length - 1];
+            if (branch.construct === 'if' && taken && last.kind !== 'else') {
+                const conditions = branch.arms.map(arm => `!(${arm.condition})`);
+                options.push({
+                    description: `No arm of the if at line ${branch.line} is taken`,
+                    conditions,
+                    variables: variablesOf(conditions),
+                    outcome: `Skips lines ${branch.line}-${last.endLine}`,
+                    error: conditions.some(c => ERROR_CONDITION.test(c))
+                });
+            }
         }
 
-        return branchPoints;
+        const probability = 1 / (options.length + 1);
+        return options.map((option, k) => ({
+            id: `alt-${index}-${branch.line}-${k}`,
+            description: option.description,
+            pathType: this.alternativePathType(branch, option.conditions, option.error),
+            probability,
+            requiredConditions: option.conditions,
+            affectedVariables: option.variables,
+            expectedOutcome: option.outcome,
+            testSuggestion: `Test ${functionName || 'this function'} with ${option.variables.length > 0 ? option.variables.join(', ') : 'inputs'} set so that ${option.conditions.join(' && ')}`,
+            depth: index + 1
+        }));
+    }
+
+    private alternativePathType(branch: SourceBranch, conditions: string[], error: boolean): AlternativePath['pathType'] {
+        if (error) return 'error_scenario';
+        if (branch.construct === 'switch' || branch.construct === 'select') return 'alternative_route';
+        if (conditions.some(c => VALIDATION_CONDITION.test(c))) return 'validation_failure';
+        return 'business_logic_branch';
     }
 
     private generateRealisticAlternativePaths(functionCalls: any[]): void {
@@ -488,172 +626,6 @@ export class PathSensitivityAnalyzer {
         console.log(`✅ Generated ${this.executionTree.possibleNodes.length} realistic alternative paths`);
     }
 
-    private generateMiddlewareAlternatives(functionName: string, index: number): AlternativePath[] {
-        const alternatives: AlternativePath[] = [];
-        const baseDepth = index + this.executionTree.actualNodes.length;
-
-        if (functionName.includes('Logger')) {
-            alternatives.push({
-                id: `middleware-logger-skip-${index}`,
-                description: 'Logger middleware bypassed',
-                pathType: 'middleware_bypass',
-                probability: 0.05,
-                requiredConditions: ['logger.enabled = false'],
-                affectedVariables: ['logEntry', 'responseTime'],
-                expectedOutcome: 'Request processed without logging',
-                testSuggestion: 'Test with logging disabled',
-                depth: baseDepth + 1
-            });
-        }
-
-        if (functionName.includes('Recovery')) {
-            alternatives.push({
-                id: `middleware-panic-${index}`,
-                description: 'Panic recovery triggered',
-                pathType: 'error_scenario',
-                probability: 0.01,
-                requiredConditions: ['panic occurs in handler'],
-                affectedVariables: ['error', 'stackTrace', 'response'],
-                expectedOutcome: 'Internal server error response',
-                testSuggestion: 'Test with panic in handler',
-                depth: baseDepth + 1
-            });
-        }
-
-        return alternatives;
-    }
-
-    private generateRoutingAlternatives(functionName: string, index: number): AlternativePath[] {
-        const alternatives: AlternativePath[] = [];
-        const baseDepth = index + this.executionTree.actualNodes.length;
-
-        alternatives.push({
-            id: `routing-404-${index}`,
-            description: 'Route not found (404)',
-            pathType: 'alternative_route',
-            probability: 0.10,
-            requiredConditions: ['request.path not in routes'],
-            affectedVariables: ['statusCode', 'response'],
-            expectedOutcome: '404 Not Found response',
-            testSuggestion: 'Test with invalid route path',
-            depth: baseDepth + 1
-        });
-
-        alternatives.push({
-            id: `routing-method-not-allowed-${index}`,
-            description: 'Method not allowed (405)',
-            pathType: 'alternative_route',
-            probability: 0.05,
-            requiredConditions: ['request.method not supported'],
-            affectedVariables: ['statusCode', 'allowedMethods'],
-            expectedOutcome: '405 Method Not Allowed response',
-            testSuggestion: 'Test with unsupported HTTP method',
-            depth: baseDepth + 1
-        });
-
-        return alternatives;
-    }
-
-    private generateBusinessLogicAlternatives(functionName: string, index: number): AlternativePath[] {
-        const alternatives: AlternativePath[] = [];
-        const baseDepth = index + this.executionTree.actualNodes.length;
-
-        alternatives.push({
-            id: `business-validation-error-${index}`,
-            description: 'Business validation failure',
-            pathType: 'validation_failure',
-            probability: 0.15,
-            requiredConditions: ['input validation fails'],
-            affectedVariables: ['validationErrors', 'statusCode'],
-            expectedOutcome: '400 Bad Request with validation errors',
-            testSuggestion: 'Test with invalid input data',
-            depth: baseDepth + 1
-        });
-
-        alternatives.push({
-            id: `business-database-error-${index}`,
-            description: 'Database operation failure',
-            pathType: 'error_scenario',
-            probability: 0.05,
-            requiredConditions: ['database connection fails'],
-            affectedVariables: ['dbError', 'statusCode'],
-            expectedOutcome: '500 Internal Server Error',
-            testSuggestion: 'Test with database unavailable',
-            depth: baseDepth + 1
-        });
-
-        alternatives.push({
-            id: `business-auth-error-${index}`,
-            description: 'Authentication/Authorization failure',
-            pathType: 'error_scenario',
-            probability: 0.10,
-            requiredConditions: ['invalid credentials or insufficient permissions'],
-            affectedVariables: ['authError', 'statusCode'],
-            expectedOutcome: '401 Unauthorized or 403 Forbidden',
-            testSuggestion: 'Test with invalid credentials',
-            depth: baseDepth + 1
-        });
-
-        return alternatives;
-    }
-
-    private generateValidationAlternatives(functionName: string, index: number): AlternativePath[] {
-        const alternatives: AlternativePath[] = [];
-        const baseDepth = index + this.executionTree.actualNodes.length;
-
-        alternatives.push({
-            id: `validation-required-field-${index}`,
-            description: 'Required field missing',
-            pathType: 'validation_failure',
-            probability: 0.20,
-            requiredConditions: ['required field is empty or null'],
-            affectedVariables: ['fieldErrors', 'statusCode'],
-            expectedOutcome: '400 Bad Request with field errors',
-            testSuggestion: 'Test with missing required fields',
-            depth: baseDepth + 1
-        });
-
-        alternatives.push({
-            id: `validation-format-error-${index}`,
-            description: 'Field format validation failure',
-            pathType: 'validation_failure',
-            probability: 0.15,
-            requiredConditions: ['field format is invalid'],
-            affectedVariables: ['formatErrors', 'statusCode'],
-            expectedOutcome: '400 Bad Request with format errors',
-            testSuggestion: 'Test with incorrectly formatted data',
-            depth: baseDepth + 1
-        });
-
-        return alternatives;
-    }
-
-    // Helper methods for function type detection
-    private isMiddlewareFunction(functionName: string): boolean {
-        const name = functionName.toLowerCase();
-        return name.includes('middleware') || name.includes('logger') || name.includes('recovery') || 
-               name.includes('cors') || name.includes('auth') || name.includes('next');
-    }
-
-    private isRoutingFunction(functionName: string): boolean {
-        const name = functionName.toLowerCase();
-        return name.includes('serve') || name.includes('route') || name.includes('handle') || 
-               name.includes('dispatch') || name.includes('engine') || name.includes('router');
-    }
-
-    private isBusinessLogicFunction(functionName: string): boolean {
-        const name = functionName.toLowerCase();
-        return name.includes('handler') || name.includes('controller') || name.includes('service') ||
-               name.includes('get') || name.includes('post') || name.includes('put') || name.includes('delete') ||
-               name.includes('create') || name.includes('update') || name.includes('process');
-    }
-
-    private isValidationFunction(functionName: string): boolean {
-        const name = functionName.toLowerCase();
-        return name.includes('validate') || name.includes('check') || name.includes('verify') ||
-               name.includes('sanitize') || name.includes('bind') || name.includes('parse');
-    }
-
     private findParentForAlternative(branchPoint: BranchPoint, functionCalls: any[]): string {
         // Find the function call that corresponds to this branch point
         const matchingCall = functionCalls.find(call => call.name === branchPoint.location.function);
@@ -663,31 +635,6 @@ export class PathSensitivityAnalyzer {
         return 'root';
     }
 
-    private extractVariablesFromParameters(parameters: any): string[] {
-        if (!parameters) return [];
-        return Object.keys(parameters).slice(0, 5); // Limit to 5 variables
-    }
-
-    private extractBusinessVariables(parameters: any): string[] {
-        if (!parameters) return [];
-        const businessVars = Object.keys(parameters).filter(key => {
-            const keyLower = key.toLowerCase();
-            return keyLower.includes('id') || keyLower.includes('data') || keyLower.includes('request') ||
-                   keyLower.includes('user') || keyLower.includes('config') || keyLower.includes('params');
-        });
-        return businessVars.slice(0, 5);
-    }
-
-    private extractValidationVariables(parameters: any): string[] {
-        if (!parameters) return [];
-        const validationVars = Object.keys(parameters).filter(key => {
-            const keyLower = key.toLowerCase();
-            return keyLower.includes('input') || keyLower.includes('form') || keyLower.includes('body') ||
-                   keyLower.includes('query') || keyLower.includes('param');
-        });
-        return validationVars.slice(0, 5);
-    }
-
     // Keep existing methods but fix their implementation
     private analyzeVariablePathSensitivity(variables: any[]): void {
         for (const variable of variables) {
@@ -1184,5 +1131,6 @@ private generatePathDescriptionWithFile(node: PathNode): string {
         this.executionTree.allPaths.clear();
         this.executionTree.pathHistory = [];
         this.dataFlowGraph.clear();
+        this.branchScanner.clearCache();
     }
 }
\ No newline at end of file
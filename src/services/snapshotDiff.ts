@@ -0,0 +1,252 @@
+import { FunctionCall, Variable } from './contextCollector';
+import { SimplifiedValue } from './dataStructureHandler';
+import { Constraint } from './symbolicExecutor';
+import { BudgetSection } from './contextBudgetBuilder';
+import { DebugSnapshot, SnapshotSummary } from './snapshotService';
+
+export interface ValueChange {
+    // Field path inside the variable, e.g. user.roles[2]
+    path: string;
+    kind: 'added' | 'removed' | 'changed';
+    before?: string;
+    after?: string;
+}
+
+export interface VariableDiff {
+    name: string;
+    scope: string;
+    type: string;
+    kind: 'added' | 'removed' | 'changed';
+    before?: string;
+    after?: string;
+    // Changes inside the expanded SimplifiedValue trees; empty when neither side was expanded
+    changes: ValueChange[];
+}
+
+export interface FrameChange {
+    name: string;
+    file: string;
+    line: number;
+}
+
+export interface ConstraintFlip {
+    expression: string;
+    location: string;
+    before: boolean;
+    after: boolean;
+    beforeResult?: string;
+    afterResult?: string;
+}
+
+export interface SnapshotDiff {
+    before: SnapshotSummary;
+    after: SnapshotSummary;
+    variables: VariableDiff[];
+    // Frames below these are shared by both stops; popped were on top of the earlier stack, pushed are on the later one
+    frames: { common: number; popped: FrameChange[]; pushed: FrameChange[] };
+    constraintFlips: ConstraintFlip[];
+}
+
+// Deeper structure changes are summarised by the parent field's display value
+const MAX_DIFF_DEPTH = 8;
+const MAX_CHANGES_PER_VARIABLE = 40;
+
+export class SnapshotDiffer {
+    diff(before: DebugSnapshot, after: DebugSnapshot): SnapshotDiff {
+        return {
+            before: before.summary,
+            after: after.summary,
+            variables: this.diffVariables(before, after),
+            frames: this.diffFrames(before.context.functionCalls, after.context.functionCalls),
+            constraintFlips: this.diffConstraints(this.collectConstraints(before), this.collectConstraints(after))
+        };
+    }
+
+    // Focused context for an AI query; items are ordered so the token budget drops the least telling ones first
+    toBudgetSection(diff: SnapshotDiff): BudgetSection {
+        const describe = (summary: SnapshotSummary) => summary.location
+            ? `stop #${summary.stopIndex} ${summary.location.function.split('.').pop()} (${summary.location.file.split('/').pop()}:${summary.location.line})`
+            : `stop #${summary.stopIndex}`;
+
+        const header = [
+            `## Comparison Between Stops`,
+            `Before: ${describe(diff.before)}`,
+            `After: ${describe(diff.after)}`,
+            `${diff.variables.length} variable changes, ${diff.frames.popped.length} frames popped, ` +
+                `${diff.frames.pushed.length} frames pushed, ${diff.constraintFlips.length} constraints flipped`,
+            ''
+        ].join('\n');
+
+        const items = [
+            ...diff.constraintFlips.map((flip, index) => ({
+                id: `flip-${index}`,
+                text: `Constraint \`${flip.expression}\` at ${flip.location}: ${flip.before ? 'satisfied' : 'violated'} → ${flip.after ? 'satisfied' : 'violated'}\n`,
+                importance: 300
+            })),
+            ...diff.frames.popped.map((frame, index) => ({
+                id: `popped-${index}`,
+                text: `Frame popped: ${frame.name} (${frame.file.split('/').pop()}:${frame.line})\n`,
+                importance: 200 - index
+            })),
+            ...diff.frames.pushed.map((frame, index) => ({
+                id: `pushed-${index}`,
+                text: `Frame pushed: ${frame.name} (${frame.file.split('/').pop()}:${frame.line})\n`,
+                importance: 200 - index
+            })),
+            ...diff.variables.map(variable => ({
+                id: `variable-${variable.scope}-${variable.name}`,
+                text: this.formatVariableDiff(variable) + '\n',
+                importance: (variable.kind === 'changed' ? 150 : 100) + Math.min(variable.changes.length, 20)
+            }))
+        ];
+
+        return { id: 'stopComparison', title: 'Comparison Between Stops', header, items };
+    }
+
+    formatVariableDiff(variable: VariableDiff): string {
+        if (variable.kind === 'added') {
+            return `+ ${variable.name} (${variable.type}) = ${variable.after}`;
+        }
+        if (variable.kind === 'removed') {
+            return `- ${variable.name} (${variable.type}) was ${variable.before}`;
+        }
+
+        const lines = [`~ ${variable.name} (${variable.type}): ${variable.before} → ${variable.after}`];
+        variable.changes.forEach(change => {
+            lines.push(change.kind === 'added' ? `    + ${change.path} = ${change.after}`
+                : change.kind === 'removed' ? `    - ${change.path} was ${change.before}`
+                : `    ~ ${change.path}: ${change.before} → ${change.after}`);
+        });
+        return lines.join('\n');
+    }
+
+    private diffVariables(before: DebugSnapshot, after: DebugSnapshot): VariableDiff[] {
+        const key = (variable: Variable) => `${variable.scope}:${variable.name}`;
+        const beforeVars = new Map(before.context.variables.map(variable => [key(variable), variable]));
+        const afterVars = new Map(after.context.variables.map(variable => [key(variable), variable]));
+        const diffs: VariableDiff[] = [];
+
+        // Expanded trees are stored by name alone, so a name shadowed in another scope has no tree we can trust
+        const scopesByName = new Map<string, Set<string>>();
+        [...before.context.variables, ...after.context.variables].forEach(variable => {
+            scopesByName.set(variable.name, (scopesByName.get(variable.name) || new Set<string>()).add(variable.scope));
+        });
+
+        for (const [id, variable] of afterVars) {
+            const previous = beforeVars.get(id);
+            if (!previous) {
+                diffs.push({ name: variable.name, scope: variable.scope, type: variable.type, kind: 'added', after: variable.value, changes: [] });
+                continue;
+            }
+
+            const changes: ValueChange[] = [];
+            const ambiguous = scopesByName.get(variable.name)!.size > 1;
+            const beforeTree = ambiguous ? undefined : before.expandedVariables?.[variable.name];
+            const afterTree = ambiguous ? undefined : after.expandedVariables?.[variable.name];
+            if (beforeTree?.success && afterTree?.success && beforeTree.data && afterTree.data) {
+                this.diffValues(beforeTree.data, afterTree.data, variable.name, 0, changes);
+            }
+
+            if (changes.length > 0 || previous.value !== variable.value || previous.type !== variable.type) {
+                diffs.push({
+                    name: variable.name,
+                    scope: variable.scope,
+                    type: variable.type,
+                    kind: 'changed',
+                    before: previous.value,
+                    after: variable.value,
+                    changes: changes.slice(0, MAX_CHANGES_PER_VARIABLE)
+                });
+            }
+        }
+
+        for (const [id, variable] of beforeVars) {
+            if (!afterVars.has(id)) {
+                diffs.push({ name: variable.name, scope: variable.scope, type: variable.type, kind: 'removed', before: variable.value, changes: [] });
+            }
+        }
+
+        return diffs;
+    }
+
+    private diffValues(before: SimplifiedValue, after: SimplifiedValue, path: string, depth: number, changes: ValueChange[]): void {
+        if (changes.length > MAX_CHANGES_PER_VARIABLE) {
+            return;
+        }
+
+        if (before.children && after.children && depth < MAX_DIFF_DEPTH) {
+            const keys = new Set([...Object.keys(before.children), ...Object.keys(after.children)]);
+            for (const key of keys) {
+                const childPath = /^\d+$/.test(key) ? `${path}[${key}]` : key.startsWith('[') ? `${path}${key}` : `${path}.${key}`;
+                const beforeChild = before.children[key];
+                const afterChild = after.children[key];
+                if (!beforeChild) {
+                    changes.push({ path: childPath, kind: 'added', after: afterChild.displayValue });
+                } else if (!afterChild) {
+                    changes.push({ path: childPath, kind: 'removed', before: beforeChild.displayValue });
+                } else {
+                    this.diffValues(beforeChild, afterChild, childPath, depth + 1, changes);
+                }
+            }
+            return;
+        }
+
+        if (before.displayValue !== after.displayValue || before.originalType !== after.originalType) {
+            changes.push({ path, kind: 'changed', before: before.displayValue, after: after.displayValue });
+        }
+    }
+
+    // Stacks are innermost first; the shared part is found from the outermost frame up
+    private diffFrames(beforeCalls: FunctionCall[], afterCalls: FunctionCall[]): SnapshotDiff['frames'] {
+        const stopped = (calls: FunctionCall[]) => calls.filter(call => !call.executionUnit).reverse();
+        const beforeStack = stopped(beforeCalls);
+        const afterStack = stopped(afterCalls);
+
+        let common = 0;
+        while (common < beforeStack.length && common < afterStack.length &&
+            beforeStack[common].name === afterStack[common].name && beforeStack[common].file === afterStack[common].file) {
+            common++;
+        }
+
+        const toChange = (call: FunctionCall): FrameChange => ({ name: call.name, file: call.file, line: call.line });
+        return {
+            common,
+            popped: beforeStack.slice(common).reverse().map(toChange),
+            pushed: afterStack.slice(common).reverse().map(toChange)
+        };
+    }
+
+    private collectConstraints(snapshot: DebugSnapshot): Constraint[] {
+        const symbolic = snapshot.context.symbolicExecution;
+        if (!symbolic) {
+            return [];
+        }
+        return [...(symbolic.currentPath?.pathConstraints || []), ...(symbolic.globalConstraints || [])];
+    }
+
+    private diffConstraints(before: Constraint[], after: Constraint[]): ConstraintFlip[] {
+        const key = (constraint: Constraint) =>
+            `${constraint.expression}@${constraint.sourceLocation.file}:${constraint.sourceLocation.line}`;
+        const previous = new Map(before.map(constraint => [key(constraint), constraint]));
+        const flips: ConstraintFlip[] = [];
+        const seen = new Set<string>();
+
+        for (const constraint of after) {
+            const id = key(constraint);
+            const earlier = previous.get(id);
+            if (!earlier || seen.has(id) || earlier.isSatisfied === constraint.isSatisfied) {
+                continue;
+            }
+            seen.add(id);
+            flips.push({
+                expression: constraint.expression,
+                location: `${constraint.sourceLocation.file.split('/').pop()}:${constraint.sourceLocation.line}`,
+                before: earlier.isSatisfied,
+                after: constraint.isSatisfied,
+                beforeResult: earlier.concreteResult,
+                afterResult: constraint.concreteResult
+            });
+        }
+        return flips;
+    }
+}
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { ContextData } from './contextCollector';
+import { ExpansionResult } from './variableExpansionService';
+import { ConfigurationService } from './configurationService';
+
+export interface SnapshotSummary {
+    id: string;
+    // DebugSession.id and name of the session the stop belongs to
+    sessionId: string;
+    sessionName: string;
+    language: string;
+    // 1-based stop number within the session
+    stopIndex: number;
+    timestamp: number;
+    location: { file: string; line: number; function: string } | null;
+    variableCount: number;
+    frameCount: number;
+}
+
+export interface DebugSnapshot {
+    summary: SnapshotSummary;
+    context: ContextData;
+    // Expanded SimplifiedValue trees by variable name, as the collector held them at this stop
+    expandedVariables: Record<string, ExpansionResult>;
+}
+
+const INDEX_FILE = 'index.json';
+
+// JSON has no Map or Set; ContextData uses both (callGraph, symbolic state, path analysis)
+function replacer(_key: string, value: any): any {
+    if (value instanceof Map) {
+        return { __map: Array.from(value.entries()) };
+    }
+    if (value instanceof Set) {
+        return { __set: Array.from(value.values()) };
+    }
+    return value;
+}
+
+function reviver(_key: string, value: any): any {
+    if (value && typeof value === 'object') {
+        if (Array.isArray(value.__map)) {
+            return new Map(value.__map);
+        }
+        if (Array.isArray(value.__set)) {
+            return new Set(value.__set);
+        }
+    }
+    return value;
+}
+
+// Saves every stop's ContextData under the workspace storage folder so it survives continue and
+// the end of the session. Writes are queued so the index is never written concurrently.
+// Emits 'snapshotsChanged' with the current summaries after each save or delete.
+export class SnapshotService extends EventEmitter implements vscode.Disposable {
+    private directory: string;
+    private index: SnapshotSummary[] | undefined;
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(storageUri: vscode.Uri) {
+        super();
+        this.directory = path.join(storageUri.fsPath, 'snapshots');
+    }
+
+    save(session: vscode.DebugSession, language: string, stopIndex: number, context: ContextData, expandedVariables: Map<string, ExpansionResult>): Promise<SnapshotSummary | undefined> {
+        const settings = ConfigurationService.getInstance().snapshots;
+        if (!settings.enabled || !context.currentLocation) {
+            return Promise.resolve(undefined);
+        }
+
+        const summary: SnapshotSummary = {
+            // A refresh at the same stop replaces that stop's snapshot
+            id: `${session.id}-${stopIndex}`.replace(/[^\w.-]/g, '_'),
+            sessionId: session.id,
+            sessionName: session.name,
+            language,
+            stopIndex,
+            timestamp: Date.now(),
+            location: { ...context.currentLocation },
+            variableCount: context.variables.length,
+            frameCount: context.functionCalls.length
+        };
+
+        let data: string;
+        try {
+            const snapshot: DebugSnapshot = { summary, context, expandedVariables: Object.fromEntries(expandedVariables) };
+            data = JSON.stringify(snapshot, replacer);
+        } catch (error) {
+            console.error(`❌ Could not serialize snapshot for stop ${stopIndex} of ${session.name}:`, error);
+            return Promise.resolve(undefined);
+        }
+
+        return this.enqueue(async () => {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(this.snapshotPath(summary.id), data, 'utf8');
+
+            const index = (await this.readIndex()).filter(entry => entry.id !== summary.id);
+            index.push(summary);
+            await this.applyRetention(index, settings.maxSnapshots);
+            await this.writeIndex(index);
+
+            console.log(`📸 Saved snapshot ${summary.id} (${Math.round(data.length / 1024)} KB, ${index.length} kept)`);
+            return summary;
+        });
+    }
+
+    async list(): Promise<SnapshotSummary[]> {
+        await this.queue;
+        return [...await this.readIndex()].sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async load(id: string): Promise<DebugSnapshot | undefined> {
+        await this.queue;
+        try {
+            const data = await fs.promises.readFile(this.snapshotPath(id), 'utf8');
+            return JSON.parse(data, reviver) as DebugSnapshot;
+        } catch (error) {
+            console.error(`❌ Could not load snapshot ${id}:`, error);
+            return undefined;
+        }
+    }
+
+    delete(ids: string[]): Promise<void> {
+        return this.enqueue(async () => {
+            const index = await this.readIndex();
+            await Promise.all(ids.map(id => this.removeFile(id)));
+            await this.writeIndex(index.filter(entry => !ids.includes(entry.id)));
+        });
+    }
+
+    async clear(): Promise<void> {
+        const index = await this.list();
+        await this.delete(index.map(entry => entry.id));
+    }
+
+    dispose(): void {
+        this.removeAllListeners();
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T | undefined> {
+        const result = this.queue.then(task).catch(error => {
+            console.error(`❌ Snapshot storage error:`, error);
+            return undefined;
+        });
+        this.queue = result.then(() => undefined);
+        return result;
+    }
+
+    private async applyRetention(index: SnapshotSummary[], maxSnapshots: number): Promise<void> {
+        if (index.length <= maxSnapshots) {
+            return;
+        }
+
+        index.sort((a, b) => a.timestamp - b.timestamp);
+        const removed = index.splice(0, index.length - maxSnapshots);
+        await Promise.all(removed.map(entry => this.removeFile(entry.id)));
+        console.log(`🧹 Removed ${removed.length} old snapshot(s) to keep ${maxSnapshots}`);
+    }
+
+    private async readIndex(): Promise<SnapshotSummary[]> {
+        if (!this.index) {
+            try {
+                this.index = JSON.parse(await fs.promises.readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+            } catch {
+                this.index = [];
+            }
+        }
+        return this.index!;
+    }
+
+    private async writeIndex(index: SnapshotSummary[]): Promise<void> {
+        this.index = index;
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(path.join(this.directory, INDEX_FILE), JSON.stringify(index, null, 2), 'utf8');
+        this.emit('snapshotsChanged', [...index]);
+    }
+
+    private async removeFile(id: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.snapshotPath(id));
+        } catch {
+            // Already gone
+        }
+    }
+
+    private snapshotPath(id: string): string {
+        return path.join(this.directory, `${id}.json`);
+    }
+}
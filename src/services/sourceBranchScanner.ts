@@ -0,0 +1,810 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type BranchArmKind = 'if' | 'else_if' | 'else' | 'case' | 'default' | 'loop' | 'try' | 'catch' | 'finally';
+
+// One arm of a branching construct, as written in the source
+export interface SourceBranchArm {
+    kind: BranchArmKind;
+    // Condition, case label or catch clause; empty for else/default/try/finally
+    condition: string;
+    line: number;
+    endLine: number;
+}
+
+export interface SourceBranch {
+    construct: 'if' | 'switch' | 'select' | 'loop' | 'try';
+    // enclosing - the frame line sits inside one of the arms
+    // guard     - an earlier `if` without else whose body always leaves the block,
+    //             so reaching the frame line means its condition was false
+    relation: 'enclosing' | 'guard';
+    line: number;
+    arms: SourceBranchArm[];
+    // Index of the arm containing the frame line, -1 when no arm was entered
+    takenArm: number;
+    // switch/match subject; empty for Go's `switch {` and for select
+    subject?: string;
+}
+
+interface BraceBlock {
+    open: number;
+    close: number;
+    headerStart: number;
+    header: string;
+    parent: number;
+}
+
+interface ParsedSource {
+    style: 'brace' | 'indent';
+    // Comments and string contents blanked, offsets unchanged; used for structure
+    code: string;
+    // Comments blanked, strings kept; used for condition text
+    text: string;
+    lineStarts: number[];
+    blocks: BraceBlock[];
+}
+
+interface ClassifiedHeader {
+    kind: BranchArmKind | 'switch' | 'select';
+    condition: string;
+}
+
+const BRACE_EXTENSIONS = ['.go', '.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.java', '.c', '.h', '.cc', '.cpp', '.cxx', '.c++', '.hpp', '.hxx', '.cs'];
+const INDENT_EXTENSIONS = ['.py', '.pyw'];
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_HEADER_CHARS = 1000;
+const MAX_GUARDS = 3;
+
+const CONTROL_HEADER = /^\}?\s*(?:else\b|if\b|for\b|foreach\b|while\b|switch\b|select\b|try\b|catch\b|finally\b)/;
+const BRACE_EXIT = /\b(?:return|throw|panic|continue|break|goto|os\.Exit|log\.Fatal\w*|log\.Panic\w*|process\.exit|System\.exit)\b/;
+const PYTHON_EXIT = /\b(?:return|raise|continue|break|sys\.exit|os\._exit)\b/;
+const PYTHON_HEADER = /^(if|elif|else|for|async\s+for|while|try|except|finally|with|async\s+with|match|case|def|async\s+def|class)\b/;
+
+const NON_VARIABLE_WORDS = new Set([
+    'nil', 'null', 'None', 'undefined', 'true', 'false', 'True', 'False', 'this', 'self', '_',
+    'and', 'or', 'not', 'is', 'in', 'of', 'as', 'range', 'instanceof', 'typeof', 'new', 'await',
+    'var', 'let', 'const', 'int', 'string', 'bool', 'auto', 'type', 'func', 'function', 'lambda'
+]);
+
+export class SourceBranchScanner {
+    private cache: Map<string, { mtimeMs: number; parsed: ParsedSource }> = new Map();
+
+    // Branching constructs that decide whether `line` (1-based) of `file` is reached, outermost first
+    findBranches(file: string, line: number): SourceBranch[] {
+        if (!file || line <= 0) {
+            return [];
+        }
+
+        const parsed = this.load(file);
+        if (!parsed || line > parsed.lineStarts.length) {
+            return [];
+        }
+
+        const branches = parsed.style === 'indent'
+            ? this.findIndentBranches(parsed, line)
+            : this.findBraceBranches(parsed, line);
+
+        return branches.sort((a, b) => a.line - b.line);
+    }
+
+    // Variables referenced by a condition: identifiers and member paths, without called function names
+    static conditionVariables(condition: string): string[] {
+        const stripped = condition.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`[^`]*`/g, ' ');
+        const variables: string[] = [];
+        const pattern = /[A-Za-z_$][\w$]*(?:\s*(?:\.|->|\?\.)\s*[A-Za-z_$][\w$]*)*/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(stripped)) !== null) {
+            if (match.index > 0 && /[\w$.]/.test(stripped[match.index - 1])) {
+                continue;
+            }
+
+            let name = match[0].replace(/\s+/g, '');
+            const rest = stripped.slice(match.index + match[0].length);
+            if (/^\s*\(/.test(rest)) {
+                // Method call: keep the receiver, drop the method name
+                const lastDot = Math.max(name.lastIndexOf('.'), name.lastIndexOf('->'));
+                if (lastDot <= 0) continue;
+                name = name.slice(0, lastDot).replace(/\?$/, '');
+            }
+
+            const root = name.split(/\.|->|\?\./)[0];
+            if (NON_VARIABLE_WORDS.has(root) && root === name) continue;
+            if (/^[A-Z][A-Z0-9_]+$/.test(name)) continue;
+            if (!variables.includes(name)) {
+                variables.push(name);
+            }
+        }
+
+        return variables.slice(0, 8);
+    }
+
+    // `"book", "pen"` -> ['"book"', '"pen"']
+    static caseLabels(label: string): string[] {
+        const labels: string[] = [];
+        let depth = 0;
+        let quote = '';
+        let current = '';
+
+        for (let i = 0; i < label.length; i++) {
+            const c = label[i];
+            if (quote) {
+                if (c === '\\') {
+                    current += c + (label[i + 1] || '');
+                    i++;
+                    continue;
+                }
+                if (c === quote) quote = '';
+            } else if (c === '"' || c === '\'' || c === '`') {
+                quote = c;
+            } else if ('([{'.includes(c)) {
+                depth++;
+            } else if (')]}'.includes(c)) {
+                depth--;
+            } else if (c === ',' && depth === 0) {
+                labels.push(current.trim());
+                current = '';
+                continue;
+            }
+            current += c;
+        }
+
+        labels.push(current.trim());
+        return labels.filter(l => l !== '');
+    }
+
+    clearCache(): void {
+        this.cache.clear();
+    }
+
+    private load(file: string): ParsedSource | undefined {
+        const ext = path.extname(file).toLowerCase();
+        const style = INDENT_EXTENSIONS.includes(ext) ? 'indent' : BRACE_EXTENSIONS.includes(ext) ? 'brace' : undefined;
+        if (!style) {
+            return undefined;
+        }
+
+        try {
+            const stat = fs.statSync(file);
+            if (!stat.isFile() || stat.size > MAX_FILE_BYTES) {
+                return undefined;
+            }
+
+            const cached = this.cache.get(file);
+            if (cached && cached.mtimeMs === stat.mtimeMs) {
+                return cached.parsed;
+            }
+
+            const source = fs.readFileSync(file, 'utf8');
+            const parsed = this.parse(source, style, ext);
+            this.cache.set(file, { mtimeMs: stat.mtimeMs, parsed });
+            return parsed;
+        } catch (error) {
+            console.log(`⚠️ Source not readable for branch detection: ${file}`);
+            return undefined;
+        }
+    }
+
+    private parse(source: string, style: 'brace' | 'indent', ext: string): ParsedSource {
+        const { code, text } = this.stripSource(source, style, ext);
+
+        const lineStarts = [0];
+        for (let i = 0; i < code.length; i++) {
+            if (code[i] === '\n') lineStarts.push(i + 1);
+        }
+
+        return {
+            style,
+            code,
+            text,
+            lineStarts,
+            blocks: style === 'brace' ? this.parseBlocks(code, text) : []
+        };
+    }
+
+    private stripSource(source: string, style: 'brace' | 'indent', ext: string): { code: string; text: string } {
+        const code = source.split('');
+        const text = source.split('');
+        const blank = (target: string[], from: number, to: number) => {
+            for (let i = from; i < to; i++) {
+                if (target[i] !== '\n' && target[i] !== '\r') target[i] = ' ';
+            }
+        };
+
+        let i = 0;
+        while (i < source.length) {
+            const c = source[i];
+            const next = source[i + 1];
+
+            if ((style === 'brace' && c === '/' && next === '/') || (style === 'indent' && c === '#')) {
+                const newline = source.indexOf('\n', i);
+                const end = newline < 0 ? source.length : newline;
+                blank(code, i, end);
+                blank(text, i, end);
+                i = end;
+                continue;
+            }
+
+            if (style === 'brace' && c === '/' && next === '*') {
+                const close = source.indexOf('*/', i + 2);
+                const end = close < 0 ? source.length : close + 2;
+                blank(code, i, end);
+                blank(text, i, end);
+                i = end;
+                continue;
+            }
+
+            if (c === '"' || c === '\'' || (c === '`' && style === 'brace')) {
+                const end = this.stringEnd(source, i, style, ext);
+                blank(code, i + 1, end - 1);
+                i = end;
+                continue;
+            }
+
+            i++;
+        }
+
+        return { code: code.join(''), text: text.join('') };
+    }
+
+    private stringEnd(source: string, start: number, style: 'brace' | 'indent', ext: string): number {
+        const quote = source[start];
+
+        if (style === 'indent' && source.startsWith(quote.repeat(3), start)) {
+            const close = source.indexOf(quote.repeat(3), start + 3);
+            return close < 0 ? source.length : close + 3;
+        }
+
+        // Go raw strings have no escapes; JS template literals may span lines
+        const raw = quote === '`' && ext === '.go';
+        const multiline = quote === '`';
+
+        for (let i = start + 1; i < source.length; i++) {
+            const c = source[i];
+            if (c === '\\' && !raw) {
+                i++;
+                continue;
+            }
+            if (c === quote) return i + 1;
+            if (c === '\n' && !multiline) return i;
+        }
+
+        return source.length;
+    }
+
+    private parseBlocks(code: string, text: string): BraceBlock[] {
+        const blocks: BraceBlock[] = [];
+        const stack: number[] = [];
+
+        for (let i = 0; i < code.length; i++) {
+            if (code[i] === '{') {
+                const { start, header } = this.findHeader(code, text, i);
+                blocks.push({
+                    open: i,
+                    close: code.length,
+                    headerStart: start,
+                    header,
+                    parent: stack.length > 0 ? stack[stack.length - 1] : -1
+                });
+                stack.push(blocks.length - 1);
+            } else if (code[i] === '}' && stack.length > 0) {
+                blocks[stack.pop() as number].close = i;
+            }
+        }
+
+        return blocks;
+    }
+
+    // Walks back from an opening brace to the start of the statement that owns it
+    private findHeader(code: string, text: string, open: number): { start: number; header: string } {
+        const limit = Math.max(0, open - MAX_HEADER_CHARS);
+        let depth = 0;
+        let i = open - 1;
+
+        for (; i >= limit; i--) {
+            const c = code[i];
+            if (c === ')' || c === ']') {
+                depth++;
+            } else if (c === '(' || c === '[') {
+                depth--;
+                // Inside an argument list, e.g. `items.forEach(item => {`
+                if (depth < 0) break;
+            }
+
+            if (depth === 0) {
+                if (c === '{' || c === '}') break;
+                // Statements without semicolons (Go, JS) end at a newline; Go's `if x := f(); x {` keeps its init
+                if ((c === '\n' || c === ';') && CONTROL_HEADER.test(code.slice(i + 1, open).trim())) break;
+            }
+        }
+
+        const start = i + 1;
+        return { start, header: text.slice(start, open).replace(/\s+/g, ' ').trim() };
+    }
+
+    private classifyHeader(header: string): ClassifiedHeader | undefined {
+        const h = header.replace(/^\}\s*/, '');
+        let m: RegExpExecArray | null;
+
+        if ((m = /^else\s+if\b\s*(.*)$/.exec(h))) return { kind: 'else_if', condition: this.afterInit(m[1]) };
+        if (/^else$/.test(h)) return { kind: 'else', condition: '' };
+        if ((m = /^if\b\s*(.*)$/.exec(h))) return { kind: 'if', condition: this.afterInit(m[1]) };
+        if ((m = /^switch\b\s*(.*)$/.exec(h))) return { kind: 'switch', condition: this.afterInit(m[1]) };
+        if (/^select$/.test(h)) return { kind: 'select', condition: '' };
+        if ((m = /^(?:for|foreach|while)\b\s*(.*)$/.exec(h))) return { kind: 'loop', condition: this.loopCondition(m[1]) };
+        if ((m = /^try\b\s*(.*)$/.exec(h))) return { kind: 'try', condition: this.unwrap(m[1]) };
+        if ((m = /^catch\b\s*(.*)$/.exec(h))) return { kind: 'catch', condition: this.unwrap(m[1]) };
+        if (/^finally$/.test(h)) return { kind: 'finally', condition: '' };
+
+        return undefined;
+    }
+
+    private findBraceBranches(parsed: ParsedSource, line: number): SourceBranch[] {
+        const { code, blocks } = parsed;
+        const lineStart = parsed.lineStarts[line - 1];
+        const firstChar = code.slice(lineStart).search(/\S/);
+        const target = firstChar < 0 ? lineStart : lineStart + firstChar;
+
+        const children = new Map<number, number[]>();
+        blocks.forEach((block, index) => {
+            const siblings = children.get(block.parent) || [];
+            siblings.push(index);
+            children.set(block.parent, siblings);
+        });
+
+        const enclosing = blocks
+            .map((block, index) => ({ block, index }))
+            .filter(({ block }) => block.open < target && target <= block.close);
+
+        const branches: SourceBranch[] = [];
+
+        enclosing.forEach(({ block, index }) => {
+            const classified = this.classifyHeader(block.header);
+            if (!classified) return;
+
+            if (classified.kind === 'switch' || classified.kind === 'select') {
+                branches.push(this.braceSwitch(parsed, block, classified, line));
+                return;
+            }
+
+            if (classified.kind === 'loop') {
+                branches.push({
+                    construct: 'loop',
+                    relation: 'enclosing',
+                    line: this.headerLine(parsed, block),
+                    arms: [this.braceArm(parsed, block, classified)],
+                    takenArm: 0
+                });
+                return;
+            }
+
+            const chain = this.braceChain(parsed, children.get(block.parent) || [], index);
+            const arms = chain.map(i => this.braceArm(parsed, blocks[i], this.classifyHeader(blocks[i].header) as ClassifiedHeader));
+            branches.push({
+                construct: ['try', 'catch', 'finally'].includes(arms[0].kind) ? 'try' : 'if',
+                relation: 'enclosing',
+                line: arms[0].line,
+                arms,
+                takenArm: chain.indexOf(index)
+            });
+        });
+
+        // Guards count at every level out to the enclosing function body
+        const guards: SourceBranch[] = [];
+        for (let level = enclosing.length - 1; level >= -1; level--) {
+            const parent = level >= 0 ? enclosing[level].index : -1;
+            guards.push(...this.braceGuards(parsed, parent, target, children));
+            if (parent >= 0 && !this.classifyHeader(blocks[parent].header)) break;
+        }
+        branches.push(...guards.sort((a, b) => a.line - b.line).slice(-MAX_GUARDS));
+
+        return branches;
+    }
+
+    // The if/else-if/else or try/catch/finally chain a block belongs to, as block indices
+    private braceChain(parsed: ParsedSource, siblings: number[], index: number): number[] {
+        const { blocks, code } = parsed;
+        const kindOf = (i: number) => this.classifyHeader(blocks[i].header)?.kind;
+        const adjacent = (a: number, b: number) => code.slice(blocks[a].close + 1, blocks[b].headerStart).trim() === '';
+        const followers = (head: BranchArmKind | 'switch' | 'select' | undefined): string[] =>
+            head === 'if' || head === 'else_if' ? ['else_if', 'else'] : ['catch', 'finally'];
+
+        let pos = siblings.indexOf(index);
+        while (pos > 0) {
+            const kind = kindOf(siblings[pos]);
+            const previous = kindOf(siblings[pos - 1]);
+            const continues = (kind === 'else_if' || kind === 'else')
+                ? previous === 'if' || previous === 'else_if'
+                : (kind === 'catch' || kind === 'finally') && (previous === 'try' || previous === 'catch');
+            if (!continues || !adjacent(siblings[pos - 1], siblings[pos])) break;
+            pos--;
+        }
+
+        const chain = [siblings[pos]];
+        const head = kindOf(siblings[pos]);
+        const allowed = followers(head);
+        for (let next = pos + 1; next < siblings.length; next++) {
+            const last = chain[chain.length - 1];
+            const kind = kindOf(siblings[next]);
+            if (!kind || !allowed.includes(kind) || !adjacent(last, siblings[next])) break;
+            if (kindOf(last) === 'else' || kindOf(last) === 'finally') break;
+            chain.push(siblings[next]);
+        }
+
+        return chain;
+    }
+
+    private braceSwitch(parsed: ParsedSource, block: BraceBlock, classified: ClassifiedHeader, line: number): SourceBranch {
+        const { code, text, lineStarts } = parsed;
+        const firstLine = this.lineOf(parsed, block.open) + 1;
+        const lastLine = this.lineOf(parsed, block.close);
+        const arms: SourceBranchArm[] = [];
+
+        // Case labels sit directly inside the switch body
+        let depth = 0;
+        let offset = block.open + 1;
+        for (let l = firstLine; l <= lastLine; l++) {
+            const lineEnd = l < lineStarts.length ? lineStarts[l] : code.length;
+            const codeLine = code.slice(Math.max(offset, lineStarts[l - 1]), lineEnd);
+
+            if (depth === 0) {
+                const label = /^\s*(?:case\s+(.+?)|default)\s*(?<!:):(?![:=])/.exec(codeLine);
+                if (label) {
+                    const labelText = label[1] !== undefined
+                        ? text.slice(lineStarts[l - 1], lineEnd).replace(/^\s*case\s+/, '').slice(0, label[1].length).trim()
+                        : '';
+                    if (arms.length > 0) arms[arms.length - 1].endLine = l - 1;
+                    arms.push({ kind: label[1] !== undefined ? 'case' : 'default', condition: labelText, line: l, endLine: lastLine });
+                }
+            }
+
+            for (let i = Math.max(offset, lineStarts[l - 1]); i < Math.min(lineEnd, block.close); i++) {
+                if (code[i] === '{') depth++;
+                else if (code[i] === '}') depth--;
+            }
+            offset = lineEnd;
+        }
+
+        return {
+            construct: classified.kind === 'select' ? 'select' : 'switch',
+            relation: 'enclosing',
+            line: this.headerLine(parsed, block),
+            arms,
+            takenArm: arms.findIndex(arm => arm.line <= line && line <= arm.endLine),
+            subject: classified.condition
+        };
+    }
+
+    // Single-arm ifs directly inside `parent` that end before the target and always exit early
+    private braceGuards(parsed: ParsedSource, parent: number, target: number, children: Map<number, number[]>): SourceBranch[] {
+        const { blocks, code } = parsed;
+        const siblings = children.get(parent) || [];
+        const guards: SourceBranch[] = [];
+
+        siblings.forEach((index, pos) => {
+            const block = blocks[index];
+            if (block.close >= target) return;
+            const classified = this.classifyHeader(block.header);
+            if (!classified || classified.kind !== 'if') return;
+
+            const next = siblings[pos + 1];
+            const hasElse = next !== undefined &&
+                /^else/.test(this.classifyHeader(blocks[next].header)?.kind || '') &&
+                code.slice(block.close + 1, blocks[next].headerStart).trim() === '';
+            if (hasElse || !BRACE_EXIT.test(code.slice(block.open + 1, block.close))) return;
+
+            guards.push({
+                construct: 'if',
+                relation: 'guard',
+                line: this.headerLine(parsed, block),
+                arms: [this.braceArm(parsed, block, classified)],
+                takenArm: -1
+            });
+        });
+
+        // `if (x) return;` without braces
+        const nestedOffsets = siblings.map(i => blocks[i]);
+        const fromLine = parent >= 0 ? this.lineOf(parsed, blocks[parent].open) + 1 : 1;
+        const toLine = this.lineOf(parsed, target) - 1;
+        for (let l = fromLine; l <= toLine; l++) {
+            const start = parsed.lineStarts[l - 1];
+            if (nestedOffsets.some(b => b.headerStart <= start && start <= b.close)) continue;
+            const codeLine = code.slice(start, l < parsed.lineStarts.length ? parsed.lineStarts[l] : code.length);
+            const ifMatch = /^\s*(?:\}\s*)?if\s*\(/.exec(codeLine);
+            if (!ifMatch) continue;
+
+            const openParen = start + ifMatch[0].length - 1;
+            const closeParen = this.matchParen(code, openParen);
+            if (closeParen < 0) continue;
+            const rest = code.slice(closeParen + 1, l < parsed.lineStarts.length ? parsed.lineStarts[l] : code.length);
+            if (!/^\s*(?:return|throw|continue|break|goto)\b/.test(rest)) continue;
+
+            guards.push({
+                construct: 'if',
+                relation: 'guard',
+                line: l,
+                arms: [{ kind: 'if', condition: this.unwrap(parsed.text.slice(openParen, closeParen + 1)), line: l, endLine: l }],
+                takenArm: -1
+            });
+        }
+
+        return guards;
+    }
+
+    private braceArm(parsed: ParsedSource, block: BraceBlock, classified: ClassifiedHeader): SourceBranchArm {
+        return {
+            kind: classified.kind as BranchArmKind,
+            condition: classified.condition,
+            line: this.headerLine(parsed, block),
+            endLine: this.lineOf(parsed, block.close)
+        };
+    }
+
+    private headerLine(parsed: ParsedSource, block: BraceBlock): number {
+        const offset = parsed.code.slice(block.headerStart, block.open).search(/[^\s}]/);
+        return this.lineOf(parsed, offset < 0 ? block.open : block.headerStart + offset);
+    }
+
+    private findIndentBranches(parsed: ParsedSource, line: number): SourceBranch[] {
+        const lines = parsed.code.split('\n');
+        const textLines = parsed.text.split('\n');
+        const branches: SourceBranch[] = [];
+
+        const guards: SourceBranch[] = [];
+        let currentIndent = this.indentOf(lines[line - 1]);
+
+        // Less-indented headers above the frame line open blocks that contain it;
+        // ifs at the current level that end before it are guard candidates
+        for (let i = line - 2; i >= 0; i--) {
+            if (lines[i].trim() === '') continue;
+            const indent = this.indentOf(lines[i]);
+            if (indent > currentIndent) continue;
+            const keyword = PYTHON_HEADER.exec(lines[i].trim());
+
+            if (indent === currentIndent) {
+                const guard = keyword && keyword[1] === 'if' ? this.indentGuard(lines, textLines, i, line) : undefined;
+                if (guard) guards.push(guard);
+                continue;
+            }
+
+            currentIndent = indent;
+            if (!keyword) continue;
+            if (/def$|^class$/.test(keyword[1])) break;
+
+            const branch = this.indentBranch(lines, textLines, i, line);
+            if (branch) branches.push(branch);
+        }
+
+        branches.push(...guards.slice(0, MAX_GUARDS));
+
+        return branches;
+    }
+
+    private indentBranch(lines: string[], textLines: string[], headerIndex: number, line: number): SourceBranch | undefined {
+        const arm = this.indentArm(lines, textLines, headerIndex);
+        if (!arm) return undefined;
+
+        if (arm.kind === 'loop') {
+            return { construct: 'loop', relation: 'enclosing', line: arm.line, arms: [arm], takenArm: 0 };
+        }
+
+        if (arm.kind === 'case' || arm.kind === 'default') {
+            return this.indentMatch(lines, textLines, headerIndex, line);
+        }
+
+        if (!['if', 'else_if', 'else', 'try', 'catch', 'finally'].includes(arm.kind)) {
+            return undefined;
+        }
+
+        const arms = this.indentChain(lines, textLines, headerIndex);
+        // A for/while `else` clause is not an if chain
+        if (arms.length === 0 || (arms[0].kind !== 'if' && arms[0].kind !== 'try')) {
+            return undefined;
+        }
+
+        return {
+            construct: arms[0].kind === 'if' ? 'if' : 'try',
+            relation: 'enclosing',
+            line: arms[0].line,
+            arms,
+            takenArm: arms.findIndex(a => a.line === arm.line)
+        };
+    }
+
+    private indentArm(lines: string[], textLines: string[], headerIndex: number): SourceBranchArm | undefined {
+        const trimmed = lines[headerIndex].trim();
+        const keyword = PYTHON_HEADER.exec(trimmed);
+        if (!keyword) return undefined;
+
+        const { condition, lastLine, inlineBody } = this.indentHeader(lines, textLines, headerIndex, keyword[0].length);
+        const word = keyword[1].replace(/^async\s+/, '');
+        const kinds: Record<string, BranchArmKind | undefined> = {
+            if: 'if', elif: 'else_if', else: 'else', for: 'loop', while: 'loop',
+            try: 'try', except: 'catch', finally: 'finally', case: 'case'
+        };
+        let kind = kinds[word];
+        if (!kind) return undefined;
+        if (kind === 'case' && condition === '_') kind = 'default';
+
+        const indent = this.indentOf(lines[headerIndex]);
+        let endLine = lastLine;
+        if (!inlineBody) {
+            for (let j = lastLine + 1; j < lines.length; j++) {
+                if (lines[j].trim() === '') continue;
+                if (this.indentOf(lines[j]) <= indent) break;
+                endLine = j;
+            }
+        }
+
+        return { kind, condition: kind === 'default' ? '' : condition, line: headerIndex + 1, endLine: endLine + 1 };
+    }
+
+    // Header text up to the block colon; headers may continue over bracketed lines
+    private indentHeader(
+        lines: string[],
+        textLines: string[],
+        headerIndex: number,
+        keywordLength: number
+    ): { condition: string; lastLine: number; inlineBody: boolean } {
+        let depth = 0;
+        let condition = '';
+
+        for (let l = headerIndex; l < Math.min(lines.length, headerIndex + 10); l++) {
+            const codeLine = lines[l];
+            const textLine = textLines[l];
+            const from = l === headerIndex ? codeLine.indexOf(codeLine.trim()) + keywordLength : 0;
+
+            for (let i = from; i < codeLine.length; i++) {
+                const c = codeLine[i];
+                if ('([{'.includes(c)) depth++;
+                else if (')]}'.includes(c)) depth--;
+                else if (c === ':' && depth === 0 && codeLine[i + 1] !== '=') {
+                    condition += textLine.slice(from, i);
+                    return {
+                        condition: this.unwrap(condition.replace(/\s+/g, ' ').replace(/([(\[{]) /g, '$1').replace(/ ([)\]}])/g, '$1')),
+                        lastLine: l,
+                        inlineBody: codeLine.slice(i + 1).trim() !== ''
+                    };
+                }
+            }
+            condition += textLine.slice(from) + ' ';
+        }
+
+        return { condition: this.unwrap(condition.replace(/\s+/g, ' ')), lastLine: headerIndex, inlineBody: false };
+    }
+
+    private indentChain(lines: string[], textLines: string[], headerIndex: number): SourceBranchArm[] {
+        const indent = this.indentOf(lines[headerIndex]);
+        const armAt = (i: number) => this.indentArm(lines, textLines, i);
+        const isFollower = (kind: BranchArmKind) => kind === 'else_if' || kind === 'else' || kind === 'catch' || kind === 'finally';
+
+        // Back up to the chain head: the nearest statement at this indent
+        let head = headerIndex;
+        while (true) {
+            const current = armAt(head);
+            if (!current || !isFollower(current.kind)) break;
+            let previous = head - 1;
+            while (previous >= 0 && (lines[previous].trim() === '' || this.indentOf(lines[previous]) > indent)) previous--;
+            if (previous < 0 || this.indentOf(lines[previous]) < indent) break;
+            const previousArm = armAt(previous);
+            if (!previousArm || previousArm.kind === 'loop') return [];
+            head = previous;
+        }
+
+        const arms: SourceBranchArm[] = [];
+        let current = armAt(head);
+        while (current) {
+            arms.push(current);
+            let next = current.endLine;
+            while (next < lines.length && lines[next].trim() === '') next++;
+            if (next >= lines.length || this.indentOf(lines[next]) !== indent) break;
+            const nextArm = armAt(next);
+            if (!nextArm || !isFollower(nextArm.kind)) break;
+            current = nextArm;
+        }
+
+        return arms;
+    }
+
+    private indentMatch(lines: string[], textLines: string[], caseIndex: number, line: number): SourceBranch | undefined {
+        const caseIndent = this.indentOf(lines[caseIndex]);
+        let matchIndex = caseIndex - 1;
+        while (matchIndex >= 0 && (lines[matchIndex].trim() === '' || this.indentOf(lines[matchIndex]) >= caseIndent)) matchIndex--;
+        if (matchIndex < 0 || !/^match\b/.test(lines[matchIndex].trim())) return undefined;
+
+        const arms: SourceBranchArm[] = [];
+        for (let j = matchIndex + 1; j < lines.length; j++) {
+            if (lines[j].trim() === '') continue;
+            const indent = this.indentOf(lines[j]);
+            if (indent < caseIndent) break;
+            if (indent === caseIndent) {
+                const arm = this.indentArm(lines, textLines, j);
+                if (arm && (arm.kind === 'case' || arm.kind === 'default')) arms.push(arm);
+            }
+        }
+
+        return {
+            construct: 'switch',
+            relation: 'enclosing',
+            line: matchIndex + 1,
+            arms,
+            takenArm: arms.findIndex(arm => arm.line <= line && line <= arm.endLine),
+            subject: this.indentHeader(lines, textLines, matchIndex, 'match'.length).condition
+        };
+    }
+
+    private indentGuard(lines: string[], textLines: string[], headerIndex: number, line: number): SourceBranch | undefined {
+        const arms = this.indentChain(lines, textLines, headerIndex);
+        if (arms.length !== 1 || arms[0].endLine >= line) return undefined;
+
+        const body = lines.slice(headerIndex, arms[0].endLine).join('\n');
+        if (!PYTHON_EXIT.test(body.slice(body.indexOf(':')))) return undefined;
+
+        return { construct: 'if', relation: 'guard', line: headerIndex + 1, arms, takenArm: -1 };
+    }
+
+    private indentOf(line: string): number {
+        return line.length - line.trimStart().length;
+    }
+
+    private lineOf(parsed: ParsedSource, offset: number): number {
+        const starts = parsed.lineStarts;
+        let low = 0;
+        let high = starts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (starts[mid] <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return low + 1;
+    }
+
+    private matchParen(code: string, open: number): number {
+        let depth = 0;
+        for (let i = open; i < code.length; i++) {
+            if (code[i] === '(') depth++;
+            else if (code[i] === ')' && --depth === 0) return i;
+            else if (code[i] === '\n' && depth === 0) return -1;
+        }
+        return -1;
+    }
+
+    // `if x := f(); x > 0` -> `x > 0`
+    private afterInit(header: string): string {
+        const parts = this.splitTopLevel(this.unwrap(header), ';');
+        return this.unwrap(parts[parts.length - 1]);
+    }
+
+    // `(int i = 0; i < n; i++)` -> `i < n`; range/for-each headers are kept whole
+    private loopCondition(header: string): string {
+        const parts = this.splitTopLevel(this.unwrap(header), ';');
+        return this.unwrap(parts.length === 3 ? parts[1] : parts[parts.length - 1]);
+    }
+
+    private splitTopLevel(value: string, separator: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+        for (const c of value) {
+            if ('([{'.includes(c)) depth++;
+            else if (')]}'.includes(c)) depth--;
+            if (c === separator && depth === 0) {
+                parts.push(current);
+                current = '';
+            } else {
+                current += c;
+            }
+        }
+        parts.push(current);
+        return parts.map(p => p.trim());
+    }
+
+    private unwrap(value: string): string {
+        let result = value.trim();
+        while (result.startsWith('(') && this.matchParen(result.replace(/\n/g, ' '), 0) === result.length - 1) {
+            result = result.slice(1, -1).trim();
+        }
+        return result;
+    }
+}
@@ -0,0 +1,235 @@
+import { EventEmitter } from 'events';
+import { DelveClient } from './delveClient';
+import { ContextCollector, Variable } from './contextCollector';
+
+export type TraceStepKind = 'next' | 'stepIn';
+
+export interface TraceOptions {
+    stepKind: TraceStepKind;
+    maxSteps: number;
+    // Recording ends once a step lands on this line (file matched by suffix, any file when omitted)
+    untilLine?: { file?: string; line: number };
+    // ...or inside this function (full name or its last segment)
+    untilFunction?: string;
+}
+
+export interface TraceVariableChange {
+    name: string;
+    type: string;
+    // Undefined the first time the variable is seen in its frame
+    before?: string;
+    after: string;
+}
+
+export interface TraceStep {
+    // 0 is where recording started
+    index: number;
+    timestamp: number;
+    location: { file: string; line: number; function: string };
+    // Stack depth, so calls and returns can be indented in the timeline
+    depth: number;
+    changes: TraceVariableChange[];
+}
+
+export type TraceEndReason = 'maxSteps' | 'reachedLine' | 'reachedFunction' | 'cancelled' | 'timeout' | 'ended' | 'error';
+
+export interface StepTrace {
+    id: string;
+    sessionId: string;
+    sessionName: string;
+    options: TraceOptions;
+    startedAt: number;
+    finishedAt?: number;
+    endReason?: TraceEndReason;
+    error?: string;
+    steps: TraceStep[];
+}
+
+export const MAX_TRACE_STEPS = 1000;
+// Steps over a blocking call never stop again; the recording ends instead of hanging
+const STEP_TIMEOUT_MS = 10000;
+const MAX_CHANGES_PER_STEP = 25;
+const MAX_VALUE_LENGTH = 200;
+
+// Steps the stopped thread with DAP next/stepIn and records a light snapshot per step: location and
+// the locals that changed. Full context collection is paused meanwhile and runs once at the last stop.
+// Emits 'stepRecorded' (step, trace) and 'traceFinished' (trace).
+export class StepTraceRecorder extends EventEmitter {
+    private delveClient: DelveClient;
+    private contextCollector: ContextCollector;
+    private recording = false;
+    private cancelRequested = false;
+    private lastTrace?: StepTrace;
+
+    constructor(delveClient: DelveClient, contextCollector: ContextCollector) {
+        super();
+        this.delveClient = delveClient;
+        this.contextCollector = contextCollector;
+    }
+
+    isRecording(): boolean {
+        return this.recording;
+    }
+
+    getLastTrace(): StepTrace | undefined {
+        return this.lastTrace;
+    }
+
+    cancel(): void {
+        this.cancelRequested = this.recording;
+    }
+
+    async record(options: TraceOptions): Promise<StepTrace> {
+        if (this.recording) {
+            throw new Error('A step trace is already being recorded');
+        }
+        if (!this.delveClient.isStoppedAtBreakpoint()) {
+            throw new Error('The debugger must be stopped to record a step trace');
+        }
+
+        const session = this.delveClient.currentSession!;
+        const trace: StepTrace = {
+            id: `${session.id}-${Date.now()}`,
+            sessionId: session.id,
+            sessionName: session.name,
+            options: { ...options, maxSteps: Math.min(Math.max(1, options.maxSteps), MAX_TRACE_STEPS) },
+            startedAt: Date.now(),
+            steps: []
+        };
+
+        this.recording = true;
+        this.cancelRequested = false;
+        this.contextCollector.setCollectOnStop(false);
+        console.log(`🎬 Recording ${trace.options.stepKind} trace of up to ${trace.options.maxSteps} steps in ${session.name}`);
+
+        // Last seen locals per frame (function + file), so a return shows only what the callee changed
+        const frameValues = new Map<string, Map<string, string>>();
+        try {
+            this.addStep(trace, await this.captureStep(0, frameValues));
+
+            while (!trace.endReason) {
+                if (this.cancelRequested) {
+                    trace.endReason = 'cancelled';
+                } else if (trace.steps.length > trace.options.maxSteps) {
+                    trace.endReason = 'maxSteps';
+                } else if (!await this.stepAndWait(trace.options.stepKind)) {
+                    trace.endReason = this.delveClient.isConnected() ? 'timeout' : 'ended';
+                } else {
+                    const step = await this.captureStep(trace.steps.length, frameValues);
+                    this.addStep(trace, step);
+                    trace.endReason = this.reachedTarget(step, trace.options);
+                }
+            }
+        } catch (error) {
+            trace.endReason = 'error';
+            trace.error = error.message;
+            console.error(`❌ Step trace failed after ${trace.steps.length} steps:`, error);
+        } finally {
+            trace.finishedAt = Date.now();
+            this.recording = false;
+            this.contextCollector.setCollectOnStop(true);
+        }
+
+        this.lastTrace = trace;
+        console.log(`🎬 Step trace finished: ${trace.steps.length} steps (${trace.endReason})`);
+        this.emit('traceFinished', trace);
+
+        // The views skipped every intermediate stop; collect the one we ended at
+        if (this.delveClient.isStoppedAtBreakpoint()) {
+            await this.contextCollector.refreshAll();
+        }
+        return trace;
+    }
+
+    static toMarkdown(trace: StepTrace): string {
+        const lines = [
+            `# Step Trace · ${trace.sessionName}`,
+            '',
+            `- Mode: ${trace.options.stepKind === 'stepIn' ? 'step into' : 'step over'}, up to ${trace.options.maxSteps} steps`
+        ];
+        if (trace.options.untilLine) {
+            lines.push(`- Until line: ${trace.options.untilLine.file ? `${trace.options.untilLine.file}:` : ''}${trace.options.untilLine.line}`);
+        }
+        if (trace.options.untilFunction) {
+            lines.push(`- Until function: ${trace.options.untilFunction}`);
+        }
+        lines.push(`- Recorded: ${new Date(trace.startedAt).toLocaleString()}, ${trace.steps.length} steps, ended by ${trace.endReason || 'recording'}${trace.error ? ` (${trace.error})` : ''}`, '');
+
+        const baseDepth = trace.steps[0]?.depth ?? 0;
+        for (const step of trace.steps) {
+            const indent = '  '.repeat(Math.max(0, step.depth - baseDepth));
+            lines.push(`${indent}${step.index}. \`${step.location.function}\` ${step.location.file.split(/[\\/]/).pop()}:${step.location.line}`);
+            step.changes.forEach(change => {
+                lines.push(`${indent}   - ${change.name}: ${change.before === undefined ? '' : `${change.before} → `}${change.after}`);
+            });
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    private addStep(trace: StepTrace, step: TraceStep): void {
+        trace.steps.push(step);
+        this.emit('stepRecorded', step, trace);
+    }
+
+    // Waits for the 'stopped' event the step produces; false when the program ran on, ended or the request failed
+    private stepAndWait(kind: TraceStepKind): Promise<boolean> {
+        return new Promise(resolve => {
+            const finish = (stopped: boolean) => {
+                clearTimeout(timer);
+                this.delveClient.off('stopped', onStopped);
+                this.delveClient.off('detached', onDetached);
+                resolve(stopped);
+            };
+            const onStopped = () => finish(true);
+            const onDetached = () => finish(false);
+            const timer = setTimeout(() => finish(false), STEP_TIMEOUT_MS);
+
+            this.delveClient.on('stopped', onStopped);
+            this.delveClient.on('detached', onDetached);
+            this.delveClient.step(kind).then(sent => {
+                if (!sent) finish(false);
+            });
+        });
+    }
+
+    private async captureStep(index: number, frameValues: Map<string, Map<string, string>>): Promise<TraceStep> {
+        const frames = await this.delveClient.getStackTrace();
+        const top = frames[0];
+        if (!top) {
+            throw new Error('No stack frame at the current stop');
+        }
+
+        const location = { file: top.source?.path || '', line: top.line, function: top.name };
+        const frameKey = `${location.function}@${location.file}`;
+        const locals: Variable[] = await this.contextCollector.collectLocals();
+        const previous = frameValues.get(frameKey);
+        const truncate = (value: string) => value.length > MAX_VALUE_LENGTH ? value.substring(0, MAX_VALUE_LENGTH) + '...' : value;
+
+        const changes = locals
+            .filter(variable => previous?.get(variable.name) !== variable.value)
+            .slice(0, MAX_CHANGES_PER_STEP)
+            .map(variable => ({
+                name: variable.name,
+                type: variable.type,
+                before: previous?.has(variable.name) ? truncate(previous.get(variable.name)!) : undefined,
+                after: truncate(variable.value)
+            }));
+        frameValues.set(frameKey, new Map(locals.map(variable => [variable.name, variable.value])));
+
+        return { index, timestamp: Date.now(), location, depth: frames.length, changes };
+    }
+
+    private reachedTarget(step: TraceStep, options: TraceOptions): TraceEndReason | undefined {
+        const until = options.untilLine;
+        if (until && step.location.line === until.line &&
+            (!until.file || step.location.file.replace(/\\/g, '/').endsWith(until.file.replace(/\\/g, '/')))) {
+            return 'reachedLine';
+        }
+
+        const target = options.untilFunction;
+        if (target && (step.location.function === target || step.location.function.split('.').pop() === target)) {
+            return 'reachedFunction';
+        }
+        return undefined;
+    }
+}
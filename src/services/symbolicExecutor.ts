@@ -1,4 +1,6 @@
 import * as os from 'os';
+import { SourceBranchScanner } from './sourceBranchScanner';
+import { ConstraintSolver, SolverLiteral, SolverResult, SolverVariable, WitnessValue } from './constraintSolver';
 
 export interface SymbolicVariable {
     name: string;
@@ -31,6 +33,10 @@ export interface Constraint {
     isSatisfied: boolean;
     alternativeValue?: any;
     timestamp: number;
+    // Result of evaluating the expression in the stopped frame, for conditions read from source
+    concreteResult?: string;
+    // Value the expression must have for execution to stay on the current path
+    requiredValue?: boolean;
 }
 
 export interface ExecutionPath {
@@ -79,6 +85,10 @@ export interface AlternativePath {
         currentValue: any;
         suggestedValue: any;
         reasoning: string;
+        // Sub-expression of the branch condition that has to flip
+        expression?: string;
+        // Solver value behind suggestedValue, for generated tests
+        witness?: WitnessValue;
     }[];
     pathConstraints: Constraint[];
     estimatedOutcome: string;
@@ -146,6 +156,34 @@ export interface RootCauseAnalysis {
     }[];
 }
 
+// Evaluates an expression in the stopped frame; undefined when the debugger cannot evaluate it
+export type ConditionEvaluator = (expression: string) => Promise<{ result: string; type?: string } | undefined>;
+
+// A branch condition split on its top-level boolean operators; atoms are the evaluated sub-expressions
+interface ConditionNode {
+    kind: 'and' | 'or' | 'not' | 'atom';
+    text: string;
+    children: ConditionNode[];
+    value?: boolean;
+    constraint?: Constraint;
+}
+
+// A condition guarding the current line and the value it had for execution to get there
+interface GuardingCondition {
+    location: { file: string; line: number; function: string };
+    expression: string;
+    required: boolean;
+    branchType: BranchDecision['branchType'];
+    tree: ConditionNode;
+}
+
+const MAX_EVALUATIONS = 24;
+// Calls are only evaluated for builtins without side effects
+const PURE_CALLS = /^(?:len|cap|isinstance|type|Array\.isArray|Number\.isNaN|isNaN)$/;
+const NEGATED_OPERATORS: Record<string, string> = {
+    '==': '!=', '===': '!==', '!=': '==', '!==': '===', '<': '>=', '<=': '>', '>': '<=', '>=': '<'
+};
+
 export class SymbolicExecutor {
     private currentPath: ExecutionPath;
     private symbolicState: Map<string, SymbolicVariable>;
@@ -153,10 +191,21 @@ export class SymbolicExecutor {
     private branchHistory: BranchDecision[];
     private sessionId: string;
     private analysisStartTime: number;
+    private branchScanner: SourceBranchScanner;
+    private solver: ConstraintSolver;
+    // Values of the variables branch conditions mention, read in the stopped frame
+    private observedValues: Map<string, { result: string; type?: string }>;
+    private solverVariables: SolverVariable[];
+    private constraintsSolved: number;
 
     constructor(sessionId: string) {
         this.sessionId = sessionId;
         this.analysisStartTime = Date.now();
+        this.branchScanner = new SourceBranchScanner();
+        this.solver = new ConstraintSolver();
+        this.observedValues = new Map();
+        this.solverVariables = [];
+        this.constraintsSolved = 0;
         this.symbolicState = new Map();
         this.constraints = [];
         this.branchHistory = [];
@@ -188,23 +237,34 @@ export class SymbolicExecutor {
         };
     }
 
-    analyzeExecutionContext(
+    async analyzeExecutionContext(
         variables: any[],
-        functionCalls: any[],
-        currentLocation: any
-    ): SymbolicExecutionContext {
+        currentLocation: any,
+        evaluator?: ConditionEvaluator
+    ): Promise<SymbolicExecutionContext> {
         const startTime = Date.now();
         console.log(`🧠 Starting symbolic execution analysis for ${this.getCurrentUser()} at ${this.getCurrentTimestamp()}...`);
 
         // Update current location
         this.updateCurrentLocation(currentLocation);
 
+        // Constraints and decisions describe this stop only
+        this.constraints = [];
+        this.branchHistory = [];
+        this.currentPath.pathConstraints = [];
+        this.currentPath.branchesTaken = [];
+        this.observedValues.clear();
+        this.constraintsSolved = 0;
+
+        // Conditions guarding the current line, evaluated in the stopped frame
+        const guardingConditions = this.collectGuardingConditions();
+        await this.evaluateConditions(guardingConditions, evaluator);
+        this.recordBranchDecisions(guardingConditions);
+        this.solverVariables = this.collectSolverVariables(variables);
+
         // Analyze variables for symbolic constraints
         this.analyzeVariables(variables);
 
-        // Analyze function call patterns for execution paths
-        this.analyzeFunctionCalls(functionCalls);
-
         // Generate alternative execution paths
         const alternativePaths = this.generateAlternativePaths();
 
@@ -235,7 +295,7 @@ export class SymbolicExecutor {
             },
             performance: {
                 analysisTime,
-                constraintsSolved: this.constraints.length,
+                constraintsSolved: this.constraintsSolved,
                 pathsExplored: alternativePaths.length + 1
             }
         };
@@ -267,7 +327,7 @@ export class SymbolicExecutor {
     }
 
     private createSymbolicVariable(variable: any): SymbolicVariable {
-        const constraints = this.inferConstraintsFromVariable(variable);
+        const constraints = [...this.inferConstraintsFromVariable(variable), ...this.sourceConstraintsFor(variable.name)];
         
         return {
             name: variable.name,
@@ -311,8 +371,10 @@ export class SymbolicExecutor {
         }
 
         if (type.includes('bool')) {
-            const condition = this.inferBooleanCondition(name, value);
-            return `symbolic_bool(condition: ${condition})`;
+            const condition = this.sourceConstraintsFor(name)[0];
+            return condition
+                ? `symbolic_bool(condition: ${condition.expression} at line ${condition.sourceLocation.line})`
+                : `symbolic_bool(value: ${value})`;
         }
 
         if (type.includes('pointer') || value?.includes('0x')) {
@@ -335,27 +397,6 @@ export class SymbolicExecutor {
                 [variable.name],
                 true
             ));
-
-            // Range constraints for specific variable patterns
-            if (this.isLikelyAge(variable.name)) {
-                constraints.push(this.createConstraint(
-                    `${variable.name}_age_range`,
-                    `${variable.name} >= 0 && ${variable.name} <= 150`,
-                    'range',
-                    [variable.name],
-                    this.checkAgeRange(variable.value)
-                ));
-            }
-
-            if (this.isLikelyIndex(variable.name)) {
-                constraints.push(this.createConstraint(
-                    `${variable.name}_index_range`,
-                    `${variable.name} >= 0`,
-                    'inequality',
-                    [variable.name],
-                    parseInt(variable.value) >= 0
-                ));
-            }
         }
 
         // Null check constraints
@@ -369,12 +410,6 @@ export class SymbolicExecutor {
             ));
         }
 
-        // Application logic constraints
-        if (this.isApplicationVariable(variable.name)) {
-            const applicationConstraints = this.inferApplicationConstraints(variable);
-            constraints.push(...applicationConstraints);
-        }
-
         return constraints;
     }
 
@@ -402,55 +437,295 @@ export class SymbolicExecutor {
         };
     }
 
-    private analyzeFunctionCalls(functionCalls: any[]): void {
-        for (let i = 0; i < functionCalls.length - 1; i++) {
-            const currentCall = functionCalls[i];
-            const nextCall = functionCalls[i + 1];
+    // Conditions the current line depends on, read from the source around it
+    private collectGuardingConditions(): GuardingCondition[] {
+        const location = this.currentPath.currentLocation;
+        const python = /\.pyw?$/i.test(location.file);
+        const guarding: GuardingCondition[] = [];
+        const add = (line: number, expression: string, required: boolean, branchType: BranchDecision['branchType']) => {
+            if (!expression) return;
+            guarding.push({
+                location: { file: location.file, line, function: location.function },
+                expression,
+                required,
+                branchType,
+                tree: this.parseCondition(expression, python)
+            });
+        };
 
-            // Infer branch decisions from function call patterns
-            const branchDecision = this.inferBranchFromFunctionCalls(currentCall, nextCall);
-            if (branchDecision) {
-                this.branchHistory.push(branchDecision);
+        for (const branch of this.branchScanner.findBranches(location.file, location.line)) {
+            if (branch.relation === 'guard') {
+                add(branch.arms[0].line, branch.arms[0].condition, false, 'if');
+                continue;
+            }
+
+            const taken = branch.arms[branch.takenArm];
+            if (!taken) continue;
+
+            switch (branch.construct) {
+                case 'if':
+                    branch.arms.slice(0, branch.takenArm + 1).forEach((arm, i) => add(arm.line, arm.condition, i === branch.takenArm, 'if'));
+                    break;
+                case 'loop':
+                    // range/for-each headers are not boolean expressions
+                    if (!/:=|\brange\b|\s(?:in|of)\s|[^:?]:\s/.test(taken.condition)) {
+                        add(taken.line, taken.condition, true, 'while');
+                    }
+                    break;
+                case 'switch': {
+                    const subject = branch.subject || '';
+                    if (/:=|\.\(type\)/.test(subject)) break;
+                    branch.arms.forEach(arm => {
+                        if (arm.kind !== 'case') return;
+                        const labels = SourceBranchScanner.caseLabels(arm.condition).map(label => subject ? `${subject} == ${label}` : label);
+                        add(arm.line, labels.join(python ? ' or ' : ' || '), arm === taken, 'switch');
+                    });
+                    break;
+                }
             }
         }
+
+        return guarding;
     }
 
-    private inferBranchFromFunctionCalls(currentCall: any, nextCall: any): BranchDecision | null {
-        // Analyze function names and parameters to infer conditional logic
-        const currentName = currentCall.name || '';
-        const nextName = nextCall.name || '';
+    private async evaluateConditions(conditions: GuardingCondition[], evaluator?: ConditionEvaluator): Promise<void> {
+        const results = new Map<string, { result: string; type?: string } | undefined>();
+        let evaluations = 0;
 
-        // Look for validation/check patterns
-        if (currentName.includes('Validate') || currentName.includes('Check') || currentName.includes('Verify')) {
-            return {
-                id: `branch-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
-                location: {
-                    file: currentCall.file || '',
-                    line: currentCall.line || 0,
-                    function: currentCall.name || ''
-                },
-                conditionExpression: `${currentName}() == success`,
-                conditionResult: true, // Assume success since we continued
-                variablesInvolved: this.extractVariablesFromParameters(currentCall.parameters),
-                branchType: 'if',
+        for (const condition of conditions) {
+            for (const atom of this.atomsOf(condition.tree)) {
+                if (!results.has(atom.text) && evaluator && evaluations < MAX_EVALUATIONS && this.isSafeToEvaluate(atom.text)) {
+                    evaluations++;
+                    results.set(atom.text, await evaluator(atom.text));
+                }
+
+                const evaluation = results.get(atom.text);
+                atom.value = evaluation ? this.truthValue(evaluation.result) : undefined;
+                atom.constraint = this.createConstraint(
+                    `cond-${condition.location.line}-${this.constraints.length}`,
+                    atom.text,
+                    this.classifyCondition(atom.text),
+                    SourceBranchScanner.conditionVariables(atom.text),
+                    true
+                );
+                atom.constraint.sourceLocation = {
+                    file: condition.location.file,
+                    line: condition.location.line,
+                    condition: condition.expression
+                };
+                atom.constraint.concreteResult = evaluation?.result;
+                this.constraints.push(atom.constraint);
+            }
+
+            this.markRequiredValues(condition.tree, condition.required);
+        }
+
+        // The variables themselves give the solver a starting point to change as little as possible
+        const referenced = new Set(this.constraints.flatMap(c => c.variables));
+        for (const name of referenced) {
+            if (!evaluator || evaluations >= MAX_EVALUATIONS) break;
+            if (!results.has(name)) {
+                evaluations++;
+                results.set(name, await evaluator(name));
+            }
+            const evaluation = results.get(name);
+            if (evaluation) {
+                this.observedValues.set(name, evaluation);
+            }
+        }
+
+        console.log(`🔬 Evaluated ${evaluations} branch sub-expressions and variables from ${conditions.length} guarding conditions`);
+    }
+
+    private recordBranchDecisions(conditions: GuardingCondition[]): void {
+        conditions.forEach((condition, index) => {
+            const flips = this.flipsFor(condition.tree, !condition.required);
+
+            const decision: BranchDecision = {
+                id: `branch-${condition.location.line}-${index}`,
+                location: condition.location,
+                conditionExpression: condition.expression,
+                conditionResult: condition.required,
+                variablesInvolved: SourceBranchScanner.conditionVariables(condition.expression),
+                branchType: condition.branchType,
                 timestamp: Date.now(),
                 alternativeOutcome: {
-                    description: `Validation failure in ${currentName}`,
-                    requiredConstraints: [
-                        this.createConstraint(
-                            `validation_failure_${currentName}`,
-                            `${currentName}() == false`,
-                            'equality',
-                            [],
-                            false
-                        )
-                    ],
-                    estimatedProbability: 0.2
+                    description: `\`${condition.expression}\` at line ${condition.location.line} is ${!condition.required}`,
+                    requiredConstraints: flips
+                        .filter(flip => flip.atom.constraint)
+                        .map(flip => ({
+                            ...(flip.atom.constraint as Constraint),
+                            requiredValue: flip.goal,
+                            isSatisfied: false,
+                            alternativeValue: this.suggestInputChange(flip.atom.text, flip.goal).suggestedValue
+                        })),
+                    estimatedProbability: 1 / (flips.length + 1)
                 }
             };
+
+            this.branchHistory.push(decision);
+            this.currentPath.branchesTaken.push(decision);
+        });
+
+        this.currentPath.pathConstraints = this.constraints.filter(c => c.id.startsWith('cond-'));
+    }
+
+    // Splits on top-level boolean operators: `a && (b || !c)` -> and(a, or(b, not(c)))
+    private parseCondition(expression: string, python: boolean): ConditionNode {
+        const text = this.unwrapParens(expression.trim());
+
+        const operators: [ConditionNode['kind'], string][] = [['or', python ? 'or' : '||'], ['and', python ? 'and' : '&&']];
+        for (const [kind, operator] of operators) {
+            const parts = this.splitOnOperator(text, operator);
+            if (parts.length > 1) {
+                return { kind, text, children: parts.map(part => this.parseCondition(part, python)) };
+            }
         }
 
-        return null;
+        // `!a == b` negates `a` only, so `!` is split off just for plain or parenthesized operands
+        const negated = python ? /^not\s+([\s\S]+)$/.exec(text) : /^!(?!=)\s*([\s\S]+)$/.exec(text);
+        if (negated && (python || this.isParenthesized(negated[1]) || !/[=<>]/.test(negated[1]))) {
+            return { kind: 'not', text, children: [this.parseCondition(negated[1], python)] };
+        }
+
+        return { kind: 'atom', text, children: [] };
+    }
+
+    private splitOnOperator(text: string, operator: string): string[] {
+        const parts: string[] = [];
+        const word = /^[a-z]/.test(operator);
+        let depth = 0;
+        let quote = '';
+        let start = 0;
+
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+            if (quote) {
+                if (c === '\\') i++;
+                else if (c === quote) quote = '';
+                continue;
+            }
+            if (c === '"' || c === '\'' || c === '`') {
+                quote = c;
+            } else if ('([{'.includes(c)) {
+                depth++;
+            } else if (')]}'.includes(c)) {
+                depth--;
+            } else if (depth === 0 && text.startsWith(operator, i)) {
+                if (word && (/\w/.test(text[i - 1] || '') || /\w/.test(text[i + operator.length] || ''))) continue;
+                parts.push(text.slice(start, i).trim());
+                start = i + operator.length;
+                i = start - 1;
+            }
+        }
+
+        parts.push(text.slice(start).trim());
+        return parts.filter(part => part !== '');
+    }
+
+    private isParenthesized(text: string): boolean {
+        if (!text.startsWith('(')) return false;
+        let depth = 0;
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '(') depth++;
+            else if (text[i] === ')' && --depth === 0) return i === text.length - 1;
+        }
+        return false;
+    }
+
+    private unwrapParens(text: string): string {
+        let result = text;
+        while (this.isParenthesized(result)) {
+            result = result.slice(1, -1).trim();
+        }
+        return result;
+    }
+
+    private atomsOf(node: ConditionNode): ConditionNode[] {
+        return node.kind === 'atom' ? [node] : node.children.flatMap(child => this.atomsOf(child));
+    }
+
+    // Which atoms the taken path pins down: every operand of a true `&&`, every operand of a false `||`
+    private markRequiredValues(node: ConditionNode, goal: boolean | undefined): void {
+        switch (node.kind) {
+            case 'atom':
+                if (node.constraint) {
+                    node.constraint.requiredValue = goal;
+                    node.constraint.isSatisfied = goal === undefined || node.value === undefined || node.value === goal;
+                }
+                break;
+            case 'not':
+                this.markRequiredValues(node.children[0], goal === undefined ? undefined : !goal);
+                break;
+            case 'and':
+                node.children.forEach(child => this.markRequiredValues(child, goal === true ? true : undefined));
+                break;
+            case 'or':
+                node.children.forEach(child => this.markRequiredValues(child, goal === false ? false : undefined));
+                break;
+        }
+    }
+
+    // Fewest atoms to flip for `node` to become `goal`; atoms that could not be evaluated count as needing a flip
+    private flipsFor(node: ConditionNode, goal: boolean): { atom: ConditionNode; goal: boolean }[] {
+        if (node.kind === 'atom') {
+            return node.value === goal ? [] : [{ atom: node, goal }];
+        }
+        if (node.kind === 'not') {
+            return this.flipsFor(node.children[0], !goal);
+        }
+
+        const options = node.children.map(child => this.flipsFor(child, goal));
+        // A true `&&` or a false `||` needs every operand; otherwise one operand is enough
+        const needsAll = (node.kind === 'and') === goal;
+        return needsAll
+            ? options.flat()
+            : options.reduce((best, option) => option.length < best.length ? option : best);
+    }
+
+    private isSafeToEvaluate(expression: string): boolean {
+        // Assignments, increments, channel receives and the like change program state
+        if (/(^|[^=!<>])=(?![=>])|=>|\+\+|--|:=|<-|\bawait\b|\byield\b|\bnew\b|\bdelete\b/.test(expression)) {
+            return false;
+        }
+        const calls = expression.match(/[A-Za-z_$][\w$.]*\s*\(/g) || [];
+        return calls.every(call => PURE_CALLS.test(call.replace(/\s*\($/, '')));
+    }
+
+    private truthValue(result: string): boolean | undefined {
+        const value = result.trim();
+        if (value === '') return undefined;
+        if (/^(?:true|True)$/.test(value)) return true;
+        if (/^(?:false|False|nil|<nil>|null|None|undefined|""|''|\[\]|\{\})$/.test(value)) return false;
+        if (/^-?\d+(\.\d+)?$/.test(value)) return parseFloat(value) !== 0;
+        return true;
+    }
+
+    private classifyCondition(expression: string): Constraint['type'] {
+        if (/\b(?:nil|null|None|undefined)\b/.test(expression)) return 'null-check';
+        if (/\binstanceof\b|\bisinstance\(|\btypeof\b|\.\(type\)/.test(expression)) return 'type-check';
+        if (/<(?!-)|(?<!-)>/.test(expression)) return 'range';
+        if (/!==?/.test(expression)) return 'inequality';
+        return 'equality';
+    }
+
+    // `x == 3` wanted true -> set x to 3; `n > 0` wanted false -> a value <= 0
+    private suggestInputChange(expression: string, goal: boolean): { variable: string; suggestedValue: any } {
+        const none = /^(.+?)\s+is\s+(not\s+)?None$/.exec(expression);
+        if (none) {
+            return { variable: none[1], suggestedValue: !none[2] === goal ? 'None' : 'a value other than None' };
+        }
+
+        const comparison = /^(.+?)\s*(===|!==|==|!=|<=|>=|<(?!-)|(?<!-)>)\s*(.+)$/.exec(expression);
+        if (comparison) {
+            const [, left, operator, right] = comparison;
+            const effective = goal ? operator : NEGATED_OPERATORS[operator];
+            if (effective === '==' || effective === '===') return { variable: left, suggestedValue: right };
+            if (effective === '!=' || effective === '!==') return { variable: left, suggestedValue: `anything but ${right}` };
+            return { variable: left, suggestedValue: `a value ${effective} ${right}` };
+        }
+
+        return { variable: SourceBranchScanner.conditionVariables(expression)[0] || expression, suggestedValue: goal };
     }
 
     private generateAlternativePaths(): AlternativePath[] {
@@ -478,37 +753,56 @@ export class SymbolicExecutor {
     }
 
     private createAlternativeFromConstraint(constraint: Constraint): AlternativePath | null {
+        const file = constraint.sourceLocation.file || this.currentPath.currentLocation.file;
+
         if (constraint.type === 'null-check' && !constraint.isSatisfied) {
+            const variable = constraint.variables[0];
+            const fixed = this.solvePath([{ expression: constraint.expression, value: true }]);
+            const broken = this.solvePath([{ expression: constraint.expression, value: false }]);
             return {
                 id: `alt-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
                 description: `Null pointer dereference scenario`,
                 requiredInputChanges: [{
-                    variable: constraint.variables[0],
-                    currentValue: 'nil',
-                    suggestedValue: 'non-nil value',
+                    variable,
+                    currentValue: this.observedValue(variable) ?? 'nil',
+                    suggestedValue: this.witnessText(fixed, variable, file) ?? 'non-nil value',
                     reasoning: 'Avoid null pointer dereference'
                 }],
                 pathConstraints: [constraint],
                 estimatedOutcome: 'NullPointerException or panic',
                 probability: 'high',
-                testSuggestion: `Test with ${constraint.variables[0]} = nil to reproduce null pointer issue`
+                testSuggestion: `Test with ${variable} = ${this.witnessText(broken, variable, file) ?? 'nil'} to reproduce null pointer issue`
             };
         }
 
         if (constraint.type === 'range' && !constraint.isSatisfied) {
+            const goal = constraint.requiredValue !== false;
+            const result = this.solvePath([{ expression: constraint.expression, value: goal }]);
+            const assignments = this.witnessAssignments(result, file);
             return {
                 id: `alt-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
                 description: `Boundary condition violation`,
-                requiredInputChanges: [{
-                    variable: constraint.variables[0],
-                    currentValue: 'current value',
-                    suggestedValue: constraint.alternativeValue || 'boundary value',
-                    reasoning: 'Test edge case handling'
-                }],
+                requiredInputChanges: assignments.length > 0
+                    ? assignments.map(({ variable, value, witness }) => ({
+                        variable,
+                        currentValue: this.observedValue(variable) ?? 'unknown',
+                        suggestedValue: value,
+                        reasoning: `Makes \`${constraint.expression}\` ${goal} again`,
+                        expression: constraint.expression,
+                        witness
+                    }))
+                    : [{
+                        variable: constraint.variables[0],
+                        currentValue: this.observedValue(constraint.variables[0]) ?? 'unknown',
+                        suggestedValue: constraint.alternativeValue || 'boundary value',
+                        reasoning: 'Test edge case handling'
+                    }],
                 pathConstraints: [constraint],
                 estimatedOutcome: 'Index out of bounds or validation error',
                 probability: 'medium',
-                testSuggestion: `Test with extreme values for ${constraint.variables[0]}`
+                testSuggestion: assignments.length > 0
+                    ? `Test with ${assignments.map(a => `${a.variable} = ${a.value}`).join(', ')}`
+                    : `Test with extreme values for ${constraint.variables[0]}`
             };
         }
 
@@ -518,22 +812,130 @@ export class SymbolicExecutor {
     private createAlternativeFromBranch(branch: BranchDecision): AlternativePath | null {
         if (!branch.alternativeOutcome) return null;
 
+        const line = branch.location.line;
+        const flips = branch.alternativeOutcome.requiredConstraints;
+        const result = this.solvePath(this.pathConditionFor(branch));
+        const assignments = this.witnessAssignments(result, branch.location.file);
+        const flipFor = (variable: string) => flips.find(flip =>
+            flip.variables.some(v => variable === v || variable === `len(${v})`)) || flips[0];
+
+        const requiredInputChanges: AlternativePath['requiredInputChanges'] = assignments.map(({ variable, value, witness }) => {
+            const flip = flipFor(variable);
+            return {
+                variable,
+                currentValue: this.observedValue(variable.replace(/^len\((.+)\)$/, '$1')) ?? 'not evaluated',
+                suggestedValue: value,
+                reasoning: flip
+                    ? `Flips \`${flip.expression}\` (now ${flip.concreteResult ?? 'unknown'}) to ${flip.requiredValue} so \`${branch.conditionExpression}\` at line ${line} becomes ${!branch.conditionResult}`
+                    : `Keeps the conditions before line ${line} as they are`,
+                expression: flip?.expression,
+                witness
+            };
+        });
+
+        // Sub-expressions outside what the solver understands fall back to a description of the flip
+        const unsolved = flips.filter(flip => result.status !== 'unsat' && !flip.variables.some(v =>
+            assignments.some(a => a.variable === v || a.variable === `len(${v})`)));
+        unsolved.forEach(constraint => {
+            const change = this.suggestInputChange(constraint.expression, constraint.requiredValue !== false);
+            requiredInputChanges.push({
+                variable: change.variable,
+                currentValue: constraint.concreteResult ?? 'not evaluated',
+                suggestedValue: change.suggestedValue,
+                reasoning: `Flip \`${constraint.expression}\` (now ${constraint.concreteResult ?? 'unknown'}) to ${constraint.requiredValue} so \`${branch.conditionExpression}\` at line ${line} becomes ${!branch.conditionResult}`,
+                expression: constraint.expression
+            });
+        });
+
+        const witnessed = assignments.map(a => `${a.variable} = ${a.value}`);
+        const described = unsolved.map(flip => `\`${flip.expression}\` is ${flip.requiredValue}`);
+        let testSuggestion: string;
+        if (result.status === 'unsat') {
+            testSuggestion = `No input reaches this path: \`${branch.conditionExpression}\` being ${!branch.conditionResult} contradicts the conditions before line ${line}`;
+        } else if (witnessed.length > 0) {
+            testSuggestion = `Test with ${witnessed.join(', ')}${described.length > 0 ? ` and inputs where ${described.join(' and ')}` : ''}`;
+        } else if (described.length > 0) {
+            testSuggestion = `Test with inputs where ${described.join(' and ')}`;
+        } else {
+            testSuggestion = `Test with inputs where \`${branch.conditionExpression}\` is ${!branch.conditionResult}`;
+        }
+
         return {
             id: `alt-branch-${branch.id}`,
             description: branch.alternativeOutcome.description,
-            requiredInputChanges: branch.variablesInvolved.map(varName => ({
-                variable: varName,
-                currentValue: 'current value',
-                suggestedValue: 'alternative value',
-                reasoning: `To trigger alternative branch in ${branch.location.function}`
-            })),
-            pathConstraints: branch.alternativeOutcome.requiredConstraints,
-            estimatedOutcome: branch.alternativeOutcome.description,
-            probability: this.probabilityToString(branch.alternativeOutcome.estimatedProbability),
-            testSuggestion: `Modify ${branch.variablesInvolved.join(', ')} to test alternative execution path`
+            requiredInputChanges,
+            pathConstraints: flips,
+            estimatedOutcome: branch.conditionResult
+                ? `Execution leaves the ${branch.branchType} at line ${line}`
+                : `Execution enters the ${branch.branchType} at line ${line}`,
+            probability: result.status === 'unsat'
+                ? 'very-low'
+                : this.probabilityToString(branch.alternativeOutcome.estimatedProbability),
+            testSuggestion
         };
     }
 
+    // Path condition of the alternative: conditions evaluated before the branch keep their values,
+    // the flipped sub-expressions get their goals and the rest of the branch condition stays as observed
+    private pathConditionFor(branch: BranchDecision): SolverLiteral[] {
+        const literals: SolverLiteral[] = [];
+        const flips = branch.alternativeOutcome?.requiredConstraints || [];
+
+        for (const constraint of this.currentPath.pathConstraints) {
+            const location = constraint.sourceLocation;
+            const own = location.line === branch.location.line && location.condition === branch.conditionExpression;
+            if (!own && location.line >= branch.location.line) continue;
+
+            const flip = own ? flips.find(f => f.id === constraint.id) : undefined;
+            const observed = constraint.concreteResult !== undefined ? this.truthValue(constraint.concreteResult) : undefined;
+            const value = flip ? flip.requiredValue : (own ? observed : constraint.requiredValue ?? observed);
+            if (value !== undefined) {
+                literals.push({ expression: constraint.expression, value });
+            }
+        }
+
+        return literals;
+    }
+
+    private solvePath(literals: SolverLiteral[]): SolverResult {
+        const result = this.solver.solve(literals, this.solverVariables);
+        if (result.status === 'sat' || result.status === 'partial') {
+            this.constraintsSolved += result.solvedLiterals;
+        }
+        return result;
+    }
+
+    // Witness values that differ from what the stop shows, rendered for the source language
+    private witnessAssignments(result: SolverResult, file: string): { variable: string; value: string; witness: WitnessValue }[] {
+        return result.changed.map(variable => ({
+            variable,
+            value: ConstraintSolver.formatWitness(result.witness[variable], file),
+            witness: result.witness[variable]
+        }));
+    }
+
+    private witnessText(result: SolverResult, variable: string, file: string): string | undefined {
+        const witness = result.witness[variable];
+        return witness ? ConstraintSolver.formatWitness(witness, file) : undefined;
+    }
+
+    private observedValue(name: string): string | undefined {
+        return this.observedValues.get(name)?.result ?? this.solverVariables.find(v => v.name === name)?.value;
+    }
+
+    private collectSolverVariables(variables: any[]): SolverVariable[] {
+        const byName = new Map<string, SolverVariable>();
+        for (const variable of variables || []) {
+            if (variable?.name) {
+                byName.set(variable.name, { name: variable.name, type: variable.type, value: variable.value });
+            }
+        }
+        this.observedValues.forEach((evaluation, name) => {
+            byName.set(name, { name, type: evaluation.type, value: evaluation.result });
+        });
+        return Array.from(byName.values());
+    }
+
     private performRootCauseAnalysis(): RootCauseAnalysis {
         // Analyze the execution path to identify root causes
         const criticalDecisions = this.identifyCriticalDecisions();
@@ -625,15 +1027,6 @@ export class SymbolicExecutor {
         return patterns.some(pattern => name.toLowerCase().includes(pattern));
     }
 
-    private isLikelyAge(name: string): boolean {
-        return name.toLowerCase().includes('age') || name.toLowerCase().includes('year');
-    }
-
-    private isLikelyIndex(name: string): boolean {
-        const patterns = ['index', 'idx', 'pos', 'position', 'offset'];
-        return patterns.some(pattern => name.toLowerCase().includes(pattern));
-    }
-
     private isApplicationVariable(name: string): boolean {
         const patterns = ['user', 'customer', 'order', 'product', 'account', 'payment', 'handler', 'service', 'manager', 'controller'];
         return patterns.some(pattern => name.toLowerCase().includes(pattern));
@@ -643,9 +1036,9 @@ export class SymbolicExecutor {
         return value === null || value === undefined || String(value).includes('nil');
     }
 
-    private checkAgeRange(value: any): boolean {
-        const age = parseInt(String(value));
-        return !isNaN(age) && age >= 0 && age <= 150;
+    private sourceConstraintsFor(name: string): Constraint[] {
+        return this.constraints.filter(c =>
+            c.id.startsWith('cond-') && c.variables.some(v => v === name || v.startsWith(`${name}.`) || v.startsWith(`${name}->`)));
     }
 
     private getCurrentPathCondition(): string {
@@ -662,43 +1055,6 @@ export class SymbolicExecutor {
         return 'input_variables';
     }
 
-    private inferBooleanCondition(name: string, value: any): string {
-        return `${name} == ${value}`;
-    }
-
-    private inferApplicationConstraints(variable: any): Constraint[] {
-        // Add application-specific constraints based on variable patterns
-        const constraints: Constraint[] = [];
-        const varName = variable.name.toLowerCase();
-        
-        // Generic application constraints
-        if (varName.includes('id')) {
-            constraints.push(this.createConstraint(
-                `${variable.name}_id_positive`,
-                `${variable.name} > 0`,
-                'inequality',
-                [variable.name],
-                parseInt(variable.value) > 0
-            ));
-        }
-        
-        if (varName.includes('email')) {
-            constraints.push(this.createConstraint(
-                `${variable.name}_email_format`,
-                `${variable.name}.includes("@")`,
-                'type-check',
-                [variable.name],
-                String(variable.value).includes('@')
-            ));
-        }
-        
-        return constraints;
-    }
-
-    private extractVariablesFromParameters(params: any): string[] {
-        return Object.keys(params || {});
-    }
-
     private identifyCriticalDecisions(): BranchDecision[] {
         return this.branchHistory.filter(b => 
             b.branchType === 'if' && 
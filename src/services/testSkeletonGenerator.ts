@@ -0,0 +1,741 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AlternativePath } from './symbolicExecutor';
+import { WitnessValue } from './constraintSolver';
+
+export type TestFramework = 'go-testing' | 'pytest' | 'jest' | 'mocha' | 'junit4' | 'junit5';
+
+export interface TestSkeletonRequest {
+    location: { file: string; line: number; function: string };
+    // Captured frame values of the current function, as in FunctionCall.parameters
+    parameters: Record<string, any>;
+    path: AlternativePath;
+}
+
+export interface GeneratedTest {
+    // Where the test belongs, next to the source (or under src/test/java for Maven/Gradle layouts)
+    file: string;
+    content: string;
+    framework: TestFramework;
+    // Inputs left as TODOs because neither the captured values nor the path's witnesses fill them in
+    todos: number;
+}
+
+interface FunctionParameter {
+    name: string;
+    type?: string;
+    variadic?: boolean;
+}
+
+interface FunctionSignature {
+    name: string;
+    parameters: FunctionParameter[];
+    // Go method receiver
+    receiver?: { name: string; type: string };
+    // Class of a Python / JS / Java method
+    owner?: string;
+    isStatic: boolean;
+    isAsync: boolean;
+}
+
+interface TestCase {
+    title: string;
+    comments: string[];
+    values: Map<string, string>;
+    // Member paths rooted at a parameter, e.g. `user.Age = 18`
+    assignments: { target: string; value: string }[];
+    todos: string[];
+}
+
+type SourceLanguage = 'go' | 'python' | 'javascript' | 'typescript' | 'java';
+
+const LANGUAGE_BY_EXTENSION: Record<string, SourceLanguage> = {
+    '.go': 'go', '.py': 'python', '.pyw': 'python',
+    '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+    '.ts': 'typescript', '.tsx': 'typescript', '.java': 'java'
+};
+// Standard-library interfaces whose zero value is nil rather than T{}
+const GO_INTERFACES = /^(?:error|any|interface\{\}|context\.Context|http\.ResponseWriter|http\.Handler|io\.\w+|net\.Conn|sql\.Result|fmt\.Stringer)$/;
+const MAX_HEADER_LINES = 20;
+
+// Turns an alternative path into a test file for the language of the stopped function: the observed
+// inputs become one case, the inputs the path's requiredInputChanges call for become another.
+export class TestSkeletonGenerator {
+    generate(request: TestSkeletonRequest): GeneratedTest {
+        const file = request.location.file;
+        const language = LANGUAGE_BY_EXTENSION[path.extname(file).toLowerCase()];
+        if (!language) {
+            throw new Error(`Test generation is not supported for ${path.extname(file) || 'this'} files`);
+        }
+
+        const source = this.readSource(file);
+        const name = this.functionName(request.location.function);
+        const found = this.findSignature(source, name, request.location.line, language);
+        const signature: FunctionSignature = found || {
+            name,
+            // Without a signature every captured value is passed along; the TODO says so
+            parameters: Object.keys(request.parameters).map(key => ({ name: key })),
+            isStatic: true,
+            isAsync: false
+        };
+
+        const observed = this.observedCase(signature, request.parameters, language);
+        if (!found) {
+            observed.todos.push(`could not find the signature of ${name}; check the arguments, they are every captured variable`);
+        }
+        const alternative = this.alternativeCase(observed, signature, request.path, language);
+        const cases = [observed, alternative];
+        const todos = cases.reduce((sum, c) => sum + c.todos.length, 0);
+        const header = [
+            `Paths through ${signature.owner ? `${signature.owner}.` : ''}${signature.name} from the debugger stop at ${path.basename(file)}:${request.location.line}.`,
+            `Alternative: ${this.plain(request.path.description)}`
+        ];
+
+        switch (language) {
+            case 'go':
+                return { file: this.testFileFor(file, language), content: this.renderGo(source, signature, cases, header), framework: 'go-testing', todos };
+            case 'python':
+                return { file: this.testFileFor(file, language), content: this.renderPytest(file, signature, cases, header), framework: 'pytest', todos };
+            case 'java': {
+                const framework = this.detectJavaFramework(file);
+                return { file: this.testFileFor(file, language), content: this.renderJUnit(source, file, signature, cases, header, framework), framework, todos };
+            }
+            default: {
+                const framework = this.detectJavaScriptFramework(file);
+                return {
+                    file: this.testFileFor(file, language),
+                    content: this.renderJavaScript(file, signature, cases, header, framework, language === 'typescript'),
+                    framework,
+                    todos
+                };
+            }
+        }
+    }
+
+    private observedCase(signature: FunctionSignature, parameters: Record<string, any>, language: SourceLanguage): TestCase {
+        const values = new Map<string, string>();
+        const todos: string[] = [];
+
+        signature.parameters.forEach(parameter => {
+            const captured = parameters[parameter.name];
+            const literal = this.capturedLiteral(captured, parameter, language);
+            values.set(parameter.name, literal.code);
+            if (!literal.exact) {
+                todos.push(captured === undefined
+                    ? `${parameter.name} was not captured at the stop`
+                    : `build ${parameter.name} from the captured value ${this.shorten(String(captured))}`);
+            }
+        });
+
+        return { title: 'observed path', comments: ['Inputs as captured at the stop'], values, assignments: [], todos };
+    }
+
+    private alternativeCase(observed: TestCase, signature: FunctionSignature, alternative: AlternativePath, language: SourceLanguage): TestCase {
+        const values = new Map(observed.values);
+        const assignments: TestCase['assignments'] = [];
+        // Inputs the alternative overrides do not need the observed case's TODO any more
+        const overridden = new Set<string>();
+        const todos: string[] = [];
+        const parameterNames = new Set(signature.parameters.map(p => p.name));
+
+        for (const change of alternative.requiredInputChanges) {
+            const variable = String(change.variable);
+            const literal = change.witness ? this.witnessLiteral(change.witness, language) : undefined;
+            const root = variable.replace(/^len\((.+)\)$/, '$1').split(/\.|->|\[/)[0];
+
+            if (literal === undefined) {
+                todos.push(`${variable}: ${change.suggestedValue} (${change.reasoning})`);
+            } else if (!parameterNames.has(root)) {
+                todos.push(`${variable} = ${literal}: ${root} is not a parameter of ${signature.name}, reach it through the inputs`);
+            } else if (variable === root) {
+                values.set(root, literal);
+                overridden.add(root);
+            } else {
+                assignments.push({ target: variable.replace(/->/g, '.'), value: literal });
+            }
+        }
+
+        const inheritedTodos = observed.todos.filter(todo => !Array.from(overridden).some(name => todo.startsWith(`build ${name} `) || todo.startsWith(`${name} was not`)));
+        const comments = [alternative.estimatedOutcome, alternative.testSuggestion].filter(Boolean).map(text => this.plain(text));
+
+        return {
+            title: this.plain(alternative.description),
+            comments,
+            values,
+            assignments,
+            todos: [...inheritedTodos, ...todos]
+        };
+    }
+
+    private renderGo(source: string, signature: FunctionSignature, cases: TestCase[], header: string[]): string {
+        const packageName = /^\s*package\s+(\w+)/m.exec(source)?.[1] || 'main';
+        const fields = signature.parameters.map(p => ({
+            name: p.name,
+            type: p.variadic ? `[]${p.type || 'any'}` : (p.type || 'any')
+        }));
+        const width = Math.max(0, ...fields.map(f => f.name.length));
+        const typeNames = [...fields.map(f => f.type), signature.receiver?.type || ''].join(' ');
+        const imports = ['"testing"', ...this.goImportsFor(source, typeNames)].sort();
+        const args = signature.parameters.map(p => `a.${p.name}${p.variadic ? '...' : ''}`).join(', ');
+        const testName = `Test${signature.receiver ? this.capitalize(signature.receiver.type.replace(/^\*/, '')) : ''}${this.capitalize(signature.name)}Paths`;
+
+        const lines = [`package ${packageName}`, ''];
+        if (imports.length === 1) {
+            lines.push(`import ${imports[0]}`);
+        } else {
+            lines.push('import (', ...imports.map(i => `\t${i}`), ')');
+        }
+        lines.push('', ...header.map(h => `// ${h}`), `func ${testName}(t *testing.T) {`);
+        lines.push(fields.length > 0
+            ? ['\ttype args struct {', ...fields.map(f => `\t\t${f.name.padEnd(width)} ${f.type}`), '\t}'].join('\n')
+            : '\ttype args struct{}');
+        lines.push('\ttests := []struct {', '\t\tname   string', '\t\targs   args', '\t\tadjust func(a *args)', '\t}{');
+
+        for (const testCase of cases) {
+            lines.push('\t\t{');
+            testCase.comments.forEach(comment => lines.push(`\t\t\t// ${comment}`));
+            testCase.todos.forEach(todo => lines.push(`\t\t\t// TODO: ${todo}`));
+            lines.push(`\t\t\tname: ${JSON.stringify(testCase.title)},`);
+            const values = fields.map(f => `${f.name}: ${testCase.values.get(f.name)}`).join(', ');
+            lines.push(`\t\t\targs: args{${values}},`);
+            if (testCase.assignments.length > 0) {
+                lines.push('\t\t\tadjust: func(a *args) {', ...testCase.assignments.map(a => `\t\t\t\ta.${a.target} = ${a.value}`), '\t\t\t},');
+            }
+            lines.push('\t\t},');
+        }
+
+        lines.push('\t}', '\tfor _, tt := range tests {', '\t\tt.Run(tt.name, func(t *testing.T) {', '\t\t\ta := tt.args');
+        lines.push('\t\t\tif tt.adjust != nil {', '\t\t\t\ttt.adjust(&a)', '\t\t\t}');
+        if (signature.receiver) {
+            const type = signature.receiver.type;
+            const construct = type.startsWith('*') ? `&${type.slice(1)}{}` : `${type}{}`;
+            lines.push(`\t\t\t${signature.receiver.name} := ${construct} // TODO: set up the receiver`);
+            lines.push(`\t\t\t${signature.receiver.name}.${signature.name}(${args})`);
+        } else {
+            lines.push(`\t\t\t${signature.name}(${args})`);
+        }
+        lines.push('\t\t\t// TODO: check the results', '\t\t})', '\t}', '}', '');
+        return lines.join('\n');
+    }
+
+    private renderPytest(file: string, signature: FunctionSignature, cases: TestCase[], header: string[]): string {
+        const module = path.basename(file, path.extname(file));
+        const imported = signature.owner || signature.name;
+        const lines = [...header.map(h => `# ${h}`)];
+        if (signature.isAsync) lines.push('import asyncio', '');
+        lines.push(`from ${module} import ${imported}`);
+
+        for (const testCase of cases) {
+            lines.push('', '', `def test_${this.snake(signature.name)}_${this.snake(testCase.title)}():`);
+            testCase.comments.forEach(comment => lines.push(`    # ${comment}`));
+            testCase.todos.forEach(todo => lines.push(`    # TODO: ${todo}`));
+            signature.parameters.forEach(p => lines.push(`    ${p.name} = ${testCase.values.get(p.name)}`));
+            testCase.assignments.forEach(a => lines.push(`    ${a.target} = ${a.value}`));
+
+            let callee = signature.name;
+            if (signature.owner) {
+                if (signature.isStatic) {
+                    callee = `${signature.owner}.${signature.name}`;
+                } else {
+                    lines.push(`    subject = ${signature.owner}()  # TODO: construct with its dependencies`);
+                    callee = `subject.${signature.name}`;
+                }
+            }
+            const call = `${callee}(${signature.parameters.map(p => p.variadic ? `*${p.name}` : p.name).join(', ')})`;
+            lines.push(`    result = ${signature.isAsync ? `asyncio.run(${call})` : call}`);
+            lines.push('    # TODO: assert on result');
+        }
+
+        lines.push('');
+        return lines.join('\n');
+    }
+
+    private renderJavaScript(
+        file: string, signature: FunctionSignature, cases: TestCase[], header: string[],
+        framework: TestFramework, typescript: boolean
+    ): string {
+        const module = `./${path.basename(file, path.extname(file))}`;
+        const imported = signature.owner || signature.name;
+        const lines: string[] = [];
+
+        if (typescript) {
+            if (framework === 'mocha') lines.push(`import * as assert from 'assert';`);
+            lines.push(`import { ${imported} } from '${module}';`);
+        } else {
+            if (framework === 'mocha') lines.push(`const assert = require('assert');`);
+            lines.push(`const { ${imported} } = require('${module}');`);
+        }
+        lines.push('', ...header.map(h => `// ${h}`), `// TODO: adjust the import if ${imported} is not a named export`);
+        lines.push(`describe(${this.jsString(`${signature.owner ? `${signature.owner}.` : ''}${signature.name} paths`)}, () => {`);
+
+        cases.forEach((testCase, index) => {
+            if (index > 0) lines.push('');
+            lines.push(`    it(${this.jsString(testCase.title)}, ${signature.isAsync ? 'async ' : ''}() => {`);
+            testCase.comments.forEach(comment => lines.push(`        // ${comment}`));
+            testCase.todos.forEach(todo => lines.push(`        // TODO: ${todo}`));
+            signature.parameters.forEach(p => lines.push(`        const ${p.name} = ${testCase.values.get(p.name)};`));
+            testCase.assignments.forEach(a => lines.push(`        ${a.target} = ${a.value};`));
+
+            let callee = signature.name;
+            if (signature.owner) {
+                if (signature.isStatic) {
+                    callee = `${signature.owner}.${signature.name}`;
+                } else {
+                    lines.push(`        const subject = new ${signature.owner}(); // TODO: construct with its dependencies`);
+                    callee = `subject.${signature.name}`;
+                }
+            }
+            const args = signature.parameters.map(p => p.variadic ? `...${p.name}` : p.name).join(', ');
+            lines.push(`        const result = ${signature.isAsync ? 'await ' : ''}${callee}(${args});`);
+            lines.push(framework === 'mocha'
+                ? '        // TODO: assert.deepStrictEqual(result, expected);'
+                : '        // TODO: expect(result).toEqual(expected);');
+            lines.push('    });');
+        });
+
+        lines.push('});', '');
+        return lines.join('\n');
+    }
+
+    private renderJUnit(
+        source: string, file: string, signature: FunctionSignature, cases: TestCase[], header: string[], framework: TestFramework
+    ): string {
+        const packageName = /^\s*package\s+([\w.]+)\s*;/m.exec(source)?.[1];
+        const owner = signature.owner || path.basename(file, '.java');
+        const junit4 = framework === 'junit4';
+        const visibility = junit4 ? 'public ' : '';
+        const lines: string[] = [];
+
+        if (packageName) lines.push(`package ${packageName};`, '');
+        lines.push(junit4 ? 'import org.junit.Test;' : 'import org.junit.jupiter.api.Test;', '');
+        lines.push(...header.map(h => `// ${h}`), `${visibility}class ${owner}PathsTest {`);
+
+        for (const testCase of cases) {
+            lines.push('', '    @Test', `    ${visibility}void ${this.camel(testCase.title)}() throws Exception {`);
+            testCase.comments.forEach(comment => lines.push(`        // ${comment}`));
+            testCase.todos.forEach(todo => lines.push(`        // TODO: ${todo}`));
+            signature.parameters.forEach(p => {
+                const type = p.variadic ? `${p.type || 'Object'}[]` : (p.type || 'Object');
+                lines.push(`        ${type} ${p.name} = ${testCase.values.get(p.name)};`);
+            });
+            testCase.assignments.forEach(a => lines.push(`        ${a.target} = ${a.value};`));
+
+            const args = signature.parameters.map(p => p.name).join(', ');
+            if (signature.isStatic) {
+                lines.push(`        ${owner}.${signature.name}(${args});`);
+            } else {
+                lines.push(`        ${owner} subject = new ${owner}(); // TODO: construct with its dependencies`);
+                lines.push(`        subject.${signature.name}(${args});`);
+            }
+            lines.push('        // TODO: assert on the result', '    }');
+        }
+
+        lines.push('}', '');
+        return lines.join('\n');
+    }
+
+    private findSignature(source: string, name: string, line: number, language: SourceLanguage): FunctionSignature | undefined {
+        if (!source || !name) return undefined;
+        const lines = source.split(/\r?\n/);
+        const escaped = name.replace(/[$]/g, '\\$');
+        const headers: Record<SourceLanguage, RegExp[]> = {
+            go: [new RegExp(`^func\\s*(?:\\(([^)]*)\\))?\\s*${escaped}\\s*(?:\\[[^\\]]*\\])?\\s*\\(`)],
+            python: [new RegExp(`^(\\s*)(async\\s+)?def\\s+${escaped}\\s*\\(`)],
+            javascript: [
+                new RegExp(`(async\\s+)?function\\s*\\*?\\s*${escaped}\\s*\\(`),
+                new RegExp(`\\b${escaped}\\s*[:=]\\s*(async\\s+)?(?:function\\b[^(]*)?\\(`),
+                new RegExp(`^\\s*((?:(?:public|private|protected|static|async|override|readonly)\\s+)*)${escaped}\\s*\\(`)
+            ],
+            typescript: [],
+            java: [new RegExp(`^\\s*((?:(?:public|private|protected|static|final|synchronized|abstract)\\s+)*)(?:<[^>]+>\\s+)?[\\w<>\\[\\],.?]+(?:\\s*\\[\\])*\\s+${escaped}\\s*\\(`)]
+        };
+        const patterns = language === 'typescript' ? headers.javascript : headers[language];
+
+        // The closest definition above the stopped line
+        for (let i = Math.min(line - 1, lines.length - 1); i >= 0; i--) {
+            for (const [index, pattern] of patterns.entries()) {
+                const match = pattern.exec(lines[i]);
+                if (!match) continue;
+                const text = lines.slice(i, i + MAX_HEADER_LINES).join('\n');
+                const open = text.indexOf('(', match.index + match[0].length - 1);
+                const parameterText = this.balanced(text, open);
+                if (parameterText === undefined) continue;
+                const header = match[0];
+
+                switch (language) {
+                    case 'go':
+                        return this.goSignature(name, match[1], parameterText);
+                    case 'python':
+                        return this.pythonSignature(name, lines, i, match[1].length, !!match[2], parameterText);
+                    case 'java':
+                        return {
+                            name,
+                            parameters: this.javaParameters(parameterText),
+                            owner: this.enclosingClass(lines, i, /^\s*(?:(?:public|private|protected|static|final|abstract)\s+)*(?:class|record|enum)\s+(\w+)/),
+                            isStatic: /\bstatic\b/.test(header),
+                            isAsync: false
+                        };
+                    default: {
+                        const method = index === 2;
+                        return {
+                            name,
+                            parameters: this.javaScriptParameters(parameterText),
+                            owner: method ? this.enclosingClass(lines, i, /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/) : undefined,
+                            isStatic: !method || /\bstatic\b/.test(header),
+                            isAsync: /\basync\b/.test(header)
+                        };
+                    }
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private goSignature(name: string, receiverText: string | undefined, parameterText: string): FunctionSignature {
+        let receiver: FunctionSignature['receiver'];
+        if (receiverText !== undefined) {
+            const parts = receiverText.trim().split(/\s+/);
+            receiver = parts.length > 1 ? { name: parts[0], type: parts.slice(1).join('') } : { name: 'recv', type: parts[0] };
+        }
+
+        const items = this.splitTopLevel(parameterText).map(item => {
+            const named = /^([A-Za-z_]\w*)\s+(.+)$/.exec(item);
+            return named ? { name: named[1] as string | undefined, type: named[2] } : { name: undefined, type: item };
+        });
+        const named = items.some(item => item.name !== undefined);
+        const parameters: FunctionParameter[] = [];
+        let pendingType = '';
+
+        // `a, b int` declares both as int, so types are filled in from the right
+        for (let i = items.length - 1; i >= 0; i--) {
+            const item = items[i];
+            let parameter: FunctionParameter;
+            if (!named) {
+                parameter = { name: `arg${i}`, type: item.type };
+            } else if (item.name !== undefined) {
+                pendingType = item.type;
+                parameter = { name: item.name, type: item.type };
+            } else {
+                parameter = { name: item.type, type: pendingType };
+            }
+            if (parameter.name === '_') parameter.name = `arg${i}`;
+            if (parameter.type?.startsWith('...')) {
+                parameter.type = parameter.type.slice(3);
+                parameter.variadic = true;
+            }
+            parameters.unshift(parameter);
+        }
+
+        return { name, parameters, receiver, isStatic: !receiver, isAsync: false };
+    }
+
+    private pythonSignature(
+        name: string, lines: string[], headerLine: number, indent: number, isAsync: boolean, parameterText: string
+    ): FunctionSignature {
+        const parameters: FunctionParameter[] = [];
+        let first: string | undefined;
+
+        for (const raw of this.splitTopLevel(parameterText)) {
+            const item = raw.trim();
+            if (item === '*' || item === '/' || item.startsWith('**')) continue;
+            const match = /^(\*)?([A-Za-z_]\w*)\s*(?::\s*([^=]+?))?\s*(?:=.*)?$/s.exec(item);
+            if (!match) continue;
+            if (first === undefined) {
+                first = match[2];
+                if (first === 'self' || first === 'cls') continue;
+            }
+            parameters.push({ name: match[2], type: match[3]?.trim(), variadic: !!match[1] });
+        }
+
+        const decorators = lines.slice(Math.max(0, headerLine - 3), headerLine).join('\n');
+        const owner = indent > 0 ? this.enclosingClass(lines, headerLine, /^\s*class\s+(\w+)/) : undefined;
+        return {
+            name,
+            parameters,
+            owner,
+            isStatic: !owner || first === 'cls' || (first !== 'self' && /@staticmethod/.test(decorators)),
+            isAsync
+        };
+    }
+
+    private javaScriptParameters(parameterText: string): FunctionParameter[] {
+        return this.splitTopLevel(parameterText).map((raw, index) => {
+            const item = raw.trim().replace(/^(?:public|private|protected|readonly)\s+/, '');
+            const variadic = item.startsWith('...');
+            const body = variadic ? item.slice(3) : item;
+            const match = /^([A-Za-z_$][\w$]*)\??\s*(?::\s*([^=]+?))?\s*(?:=.*)?$/s.exec(body);
+            // Destructured parameters get a placeholder name
+            return match
+                ? { name: match[1], type: match[2]?.trim(), variadic }
+                : { name: `arg${index}`, variadic };
+        }).filter(p => p.name !== 'this');
+    }
+
+    private javaParameters(parameterText: string): FunctionParameter[] {
+        return this.splitTopLevel(parameterText).map((raw, index) => {
+            const item = raw.replace(/@\w+(?:\([^)]*\))?\s*/g, '').replace(/\bfinal\s+/g, '').trim();
+            const match = /^(.+?)\s*(\.\.\.)?\s+([A-Za-z_$][\w$]*)$/.exec(item);
+            return match ? { name: match[3], type: match[1].trim(), variadic: !!match[2] } : { name: `arg${index}`, type: item };
+        });
+    }
+
+    private enclosingClass(lines: string[], headerLine: number, pattern: RegExp): string | undefined {
+        const indent = /^\s*/.exec(lines[headerLine])?.[0].length || 0;
+        for (let i = headerLine - 1; i >= 0; i--) {
+            const match = pattern.exec(lines[i]);
+            if (match && (/^\s*/.exec(lines[i])?.[0].length || 0) < indent) {
+                return match[1];
+            }
+        }
+        return undefined;
+    }
+
+    // Text between the parenthesis at `open` and its match
+    private balanced(text: string, open: number): string | undefined {
+        if (open < 0 || text[open] !== '(') return undefined;
+        let depth = 0;
+        let quote = '';
+        for (let i = open; i < text.length; i++) {
+            const c = text[i];
+            if (quote) {
+                if (c === '\\') i++;
+                else if (c === quote) quote = '';
+                continue;
+            }
+            if (c === '"' || c === '\'' || c === '`') quote = c;
+            else if (c === '(') depth++;
+            else if (c === ')' && --depth === 0) return text.slice(open + 1, i);
+        }
+        return undefined;
+    }
+
+    private splitTopLevel(text: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let start = 0;
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+            if ('([{<'.includes(c)) depth++;
+            else if (')]}>'.includes(c) && text[i - 1] !== '-' && text[i - 1] !== '=') depth--;
+            else if (c === ',' && depth === 0) {
+                parts.push(text.slice(start, i));
+                start = i + 1;
+            }
+        }
+        parts.push(text.slice(start));
+        return parts.map(part => part.replace(/\/\/.*$|#.*$/gm, '').trim()).filter(part => part !== '');
+    }
+
+    // Imports of the source file that the argument types refer to
+    private goImportsFor(source: string, typeNames: string): string[] {
+        const used = new Set((typeNames.match(/\b([a-z]\w*)\.[A-Z]/g) || []).map(q => q.split('.')[0]));
+        const block = /^import\s*\(([\s\S]*?)\)/m.exec(source)?.[1] || '';
+        const singles = (source.match(/^import\s+(?:\w+\s+)?"[^"]+"/gm) || []).map(line => line.replace(/^import\s+/, ''));
+        const specs = [...block.split('\n'), ...singles].map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean);
+
+        return specs.filter(spec => {
+            const match = /^(?:(\w+)\s+)?"([^"]+)"$/.exec(spec);
+            if (!match) return false;
+            return used.has(match[1] || match[2].split('/').pop() as string);
+        });
+    }
+
+    private capturedLiteral(captured: any, parameter: FunctionParameter, language: SourceLanguage): { code: string; exact: boolean } {
+        const raw = captured === undefined || captured === null ? '' : String(captured).trim();
+        const type = parameter.type;
+        const lowerType = (type || '').toLowerCase();
+
+        if (parameter.variadic && !/^(?:nil|<nil>|null|None|undefined)$/.test(raw)) {
+            return { code: this.variadicPlaceholder(type, language), exact: raw === '' || /\blen:\s*0\b|^\[\]$|^\(\)$/.test(raw) };
+        }
+
+        if (/^-?\d+(\.\d+)?$/.test(raw)) {
+            if (language === 'java' && /^long$/.test(lowerType)) return { code: `${raw}L`, exact: true };
+            if (language === 'java' && /^float$/.test(lowerType)) return { code: `${raw}f`, exact: true };
+            return { code: raw, exact: true };
+        }
+        if (/^(?:true|false|True|False)$/.test(raw)) {
+            return { code: this.booleanLiteral(/^[tT]/.test(raw), language), exact: true };
+        }
+        if (/^(?:nil|<nil>|null|None|undefined)$/.test(raw)) {
+            return { code: this.nullLiteral(language, type), exact: true };
+        }
+        if (/^"(?:[^"\\]|\\.)*"$|^'(?:[^'\\]|\\.)*'$/.test(raw)) {
+            const text = raw.startsWith('"') ? this.safeJson(raw) : raw.slice(1, -1).replace(/\\(.)/g, '$1');
+            return { code: JSON.stringify(text), exact: true };
+        }
+
+        return { code: this.placeholder(raw, type, language), exact: false };
+    }
+
+    private witnessLiteral(witness: WitnessValue, language: SourceLanguage): string | undefined {
+        switch (witness.kind) {
+            case 'number':
+                return String(witness.value);
+            case 'string':
+                return JSON.stringify(witness.value);
+            case 'boolean':
+                return this.booleanLiteral(witness.value, language);
+            case 'null':
+                return this.nullLiteral(language);
+            default:
+                // "any non-null value" and collection sizes need a value built by hand
+                return undefined;
+        }
+    }
+
+    private placeholder(raw: string, type: string | undefined, language: SourceLanguage): string {
+        switch (language) {
+            case 'go':
+                return this.goZeroValue(type || '');
+            case 'python':
+                return raw.startsWith('[') ? '[]' : raw.startsWith('{') ? '{}' : 'None';
+            case 'java':
+                return 'null';
+            default:
+                return raw.startsWith('[') || /^Array\(/.test(raw) ? '[]' : raw.startsWith('{') || /^Object\b/.test(raw) ? '{}' : 'undefined';
+        }
+    }
+
+    // Rest parameters start out empty
+    private variadicPlaceholder(type: string | undefined, language: SourceLanguage): string {
+        switch (language) {
+            case 'go':
+                return 'nil';
+            case 'java':
+                return `new ${(type || 'Object').replace(/<.*>$/, '')}[0]`;
+            default:
+                return '[]';
+        }
+    }
+
+    private goZeroValue(type: string): string {
+        if (!type || GO_INTERFACES.test(type) || /^(?:\*|\[\]|map\[|chan\b|func\b|<-chan)/.test(type)) return 'nil';
+        if (type === 'string') return '""';
+        if (type === 'bool') return 'false';
+        if (/^(?:u?int\d*|uintptr|float\d+|complex\d+|byte|rune)$/.test(type)) return '0';
+        return `${type}{}`;
+    }
+
+    private booleanLiteral(value: boolean, language: SourceLanguage): string {
+        return language === 'python' ? (value ? 'True' : 'False') : String(value);
+    }
+
+    private nullLiteral(language: SourceLanguage, type?: string): string {
+        if (language === 'go') return type && !/^(?:\*|\[\]|map\[|chan\b|func\b)/.test(type) && !GO_INTERFACES.test(type) ? this.goZeroValue(type) : 'nil';
+        if (language === 'python') return 'None';
+        return 'null';
+    }
+
+    private testFileFor(file: string, language: SourceLanguage): string {
+        const dir = path.dirname(file);
+        const ext = path.extname(file);
+        const base = path.basename(file, ext);
+        switch (language) {
+            case 'go':
+                return path.join(dir, `${base}_paths_test.go`);
+            case 'python':
+                return path.join(dir, `test_${base}_paths.py`);
+            case 'java': {
+                const testDir = dir.replace(/([\\/])src\1main\1java(?=[\\/]|$)/, '$1src$1test$1java');
+                return path.join(testDir, `${base}PathsTest.java`);
+            }
+            default:
+                return path.join(dir, `${base}.paths.test${ext}`);
+        }
+    }
+
+    // Nearest package.json decides between Jest and Mocha; Jest is the default
+    private detectJavaScriptFramework(file: string): TestFramework {
+        const manifest = this.nearest(file, ['package.json']);
+        if (manifest) {
+            try {
+                const pkg = JSON.parse(fs.readFileSync(manifest, 'utf8'));
+                const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+                if (deps.mocha && !deps.jest) return 'mocha';
+            } catch {
+                // Unreadable manifest: fall back to Jest
+            }
+        }
+        return 'jest';
+    }
+
+    // JUnit 4 only when the build file asks for it and not for Jupiter
+    private detectJavaFramework(file: string): TestFramework {
+        const build = this.nearest(file, ['pom.xml', 'build.gradle', 'build.gradle.kts']);
+        if (build) {
+            try {
+                const text = fs.readFileSync(build, 'utf8');
+                if (!/junit-jupiter|org\.junit\.jupiter/.test(text) && /junit:junit|<artifactId>junit<\/artifactId>/.test(text)) {
+                    return 'junit4';
+                }
+            } catch {
+                // Unreadable build file: fall back to JUnit 5
+            }
+        }
+        return 'junit5';
+    }
+
+    private nearest(file: string, names: string[]): string | undefined {
+        let dir = path.dirname(file);
+        for (let depth = 0; depth < 12; depth++) {
+            for (const name of names) {
+                const candidate = path.join(dir, name);
+                if (fs.existsSync(candidate)) return candidate;
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) break;
+            dir = parent;
+        }
+        return undefined;
+    }
+
+    private readSource(file: string): string {
+        try {
+            return fs.readFileSync(file, 'utf8');
+        } catch {
+            return '';
+        }
+    }
+
+    // `main.(*Server).handle` -> handle, `OrderService.check` -> check
+    private functionName(qualified: string): string {
+        const cleaned = (qualified || '').replace(/\(.*?\)\s*$/, '').replace(/-fm$/, '');
+        return /([A-Za-z_$][\w$]*)\s*$/.exec(cleaned)?.[1] || '';
+    }
+
+    private plain(text: string): string {
+        return String(text || '').replace(/`/g, '').replace(/\s+/g, ' ').trim();
+    }
+
+    private shorten(text: string): string {
+        const single = text.replace(/\s+/g, ' ');
+        return single.length > 80 ? `${single.slice(0, 77)}...` : single;
+    }
+
+    private snake(text: string): string {
+        return text.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'path';
+    }
+
+    private camel(text: string): string {
+        const words = this.snake(text).split('_').filter(Boolean);
+        const name = words.map((word, i) => i === 0 ? word : this.capitalize(word)).join('');
+        return /^\d/.test(name) ? `path${this.capitalize(name)}` : name;
+    }
+
+    private capitalize(text: string): string {
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+
+    private jsString(text: string): string {
+        return `'${text.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+    }
+
+    private safeJson(literal: string): string {
+        try {
+            return JSON.parse(literal);
+        } catch {
+            return literal.slice(1, -1);
+        }
+    }
+}
@@ -9,6 +9,7 @@ import { CoDataStructureHandler } from './universalDatastructureHandler';
 import { VariableExpansionService, ExpansionResult } from './variableExpansionService';
 import { SymbolicExecutor, SymbolicExecutionContext } from './symbolicExecutor';
 import { PathSensitivityAnalyzer, PathSensitivityReport } from './pathSensitivityAnalyzer';
+import { VsCodeDapTransport } from '../transport/vscodeDapTransport';
 
 // Import existing interfaces but make them language-agnostic
 export interface FunctionCall {
@@ -153,7 +154,7 @@ export class CoContextCollector extends EventEmitter {
         this.sessionId = this.generateSessionId();
         
         // Initialize services with language handlers
-        this.dataHandler = new CoDataStructureHandler(this.languageHandler);
+        this.dataHandler = new CoDataStructureHandler(this.languageHandler, session.configuration);
         this.variableExpansionService = new VariableExpansionService();
         this.symbolicExecutor = new SymbolicExecutor(this.sessionId);
         this.pathSensitivityAnalyzer = new PathSensitivityAnalyzer(this.sessionId);
@@ -245,7 +246,7 @@ export class CoContextCollector extends EventEmitter {
     }
 
     attachToSession(session: vscode.DebugSession): void {
-        this.debuggerProtocol.attachToSession(session);
+        this.debuggerProtocol.attachToSession(new VsCodeDapTransport(session));
     }
 
     startCollection(): void {
@@ -355,9 +356,8 @@ export class CoContextCollector extends EventEmitter {
                 console.log(`🧠 Starting ${this.language} symbolic execution at ${this.getCurrentTimestamp()}`);
                 const symbolicStartTime = Date.now();
                 
-                this.context.symbolicExecution = this.symbolicExecutor.analyzeExecutionContext(
+                this.context.symbolicExecution = await this.symbolicExecutor.analyzeExecutionContext(
                     this.context.variables,
-                    this.context.functionCalls,
                     this.context.currentLocation
                 );
                 
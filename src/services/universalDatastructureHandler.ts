@@ -1,12 +1,18 @@
 import { DataStructureHandler, SimplificationOptions, SimplifiedValue } from './dataStructureHandler';
 import { LanguageHandler } from '../languages/languageHandler';
+import { ConfigurationService, LanguageProfile } from './configurationService';
+
+// STL entries in the C++ known types that analyzeSTLContainers=false stops expanding
+const STL_CONTAINER_PATTERN = /^std::(vector|list|deque|set|multiset|map|multimap|unordered_set|unordered_map|array|queue|stack|priority_queue)$/;
 
 export class CoDataStructureHandler extends DataStructureHandler {
     private languageHandler: LanguageHandler;
+    private launchOverrides: Partial<LanguageProfile>;
 
-    constructor(languageHandler: LanguageHandler) {
+    constructor(languageHandler: LanguageHandler, launchConfiguration?: Record<string, any>) {
         super();
         this.languageHandler = languageHandler;
+        this.launchOverrides = ConfigurationService.getLaunchProfileOverrides(launchConfiguration);
         console.log(`🌍 Co Data Structure Handler initialized for ${languageHandler.language} at 2025-06-13 04:11:03`);
     }
 
@@ -25,24 +31,60 @@ export class CoDataStructureHandler extends DataStructureHandler {
         return super.simplifyValue(rawValue, typeName, mergedOptions);
     }
 
+    // Built-in profile < coDebugger.languageSpecific.<language>.* (user/workspace) < launch configuration
+    getLanguageProfile(): LanguageProfile {
+        const config = this.languageHandler.getDefaultConfig();
+        const builtIn: LanguageProfile = {
+            maxVariableDepth: config.maxVariableDepth,
+            maxArrayLength: this.getDefaultArrayLength(),
+            maxObjectKeys: this.getDefaultObjectKeys(),
+            knownTypes: this.languageHandler.patterns.complexTypes,
+            truncateThreshold: this.getDefaultTruncateThreshold(),
+            memoryLimitMB: config.memoryLimitMB,
+            analyzeSTLContainers: true
+        };
+
+        return {
+            ...builtIn,
+            ...ConfigurationService.getInstance().getLanguageOverrides(this.languageHandler.language),
+            ...this.launchOverrides
+        };
+    }
+
     private getLanguageSpecificDefaults(): Partial<SimplificationOptions> {
         const config = this.languageHandler.getDefaultConfig();
+        const profile = this.getLanguageProfile();
         
         return {
-            maxDepth: config.maxVariableDepth,
+            maxDepth: profile.maxVariableDepth,
             maxStringLength: config.maxVariableValueLength,
-            maxArrayLength: this.getLanguageSpecificArrayLength(),
-            maxObjectKeys: this.getLanguageSpecificObjectKeys(),
-            expandKnownTypes: this.getLanguageSpecificKnownTypes(),
+            maxArrayLength: profile.maxArrayLength,
+            maxObjectKeys: profile.maxObjectKeys,
+            expandKnownTypes: this.getKnownTypes(profile),
             preserveBusinessFields: this.languageHandler.patterns.applicationPatterns,
             showPointerAddresses: this.languageHandler.language === 'go', // Only Go shows pointers
             enableLazyExpansion: true,
-            memoryLimit: config.memoryLimitMB,
-            truncateThreshold: this.getLanguageSpecificTruncateThreshold()
+            memoryLimit: profile.memoryLimitMB,
+            truncateThreshold: profile.truncateThreshold
         };
     }
 
-    private getLanguageSpecificArrayLength(): number {
+    getLanguageSpecificArrayLength(): number {
+        return this.getLanguageProfile().maxArrayLength;
+    }
+
+    getLanguageSpecificKnownTypes(): string[] {
+        return this.getKnownTypes(this.getLanguageProfile());
+    }
+
+    private getKnownTypes(profile: LanguageProfile): string[] {
+        if (this.languageHandler.language === 'cpp' && !profile.analyzeSTLContainers) {
+            return profile.knownTypes.filter(type => !STL_CONTAINER_PATTERN.test(type));
+        }
+        return profile.knownTypes;
+    }
+
+    private getDefaultArrayLength(): number {
         switch (this.languageHandler.language) {
             case 'go': return 50;
             case 'python': return 30;
@@ -52,7 +94,7 @@ export class CoDataStructureHandler extends DataStructureHandler {
         }
     }
 
-    private getLanguageSpecificObjectKeys(): number {
+    private getDefaultObjectKeys(): number {
         switch (this.languageHandler.language) {
             case 'go': return 50;
             case 'python': return 40;
@@ -62,11 +104,7 @@ export class CoDataStructureHandler extends DataStructureHandler {
         }
     }
 
-    private getLanguageSpecificKnownTypes(): string[] {
-        return this.languageHandler.patterns.complexTypes;
-    }
-
-    private getLanguageSpecificTruncateThreshold(): number {
+    private getDefaultTruncateThreshold(): number {
         switch (this.languageHandler.language) {
             case 'go': return 2000;
             case 'python': return 2500;
@@ -140,6 +178,7 @@ export class CoDataStructureHandler extends DataStructureHandler {
             language: this.languageHandler.language,
             patterns: this.languageHandler.patterns,
             config: this.languageHandler.getDefaultConfig(),
+            profile: this.getLanguageProfile(),
             defaults: this.getLanguageSpecificDefaults()
         };
     }
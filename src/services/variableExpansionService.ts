@@ -1,4 +1,5 @@
 import { DataStructureHandler, SimplifiedValue, VariableExpansionRequest } from './dataStructureHandler';
+import { DapTransport } from '../transport/dapTransport';
 
 export interface ExpansionResult {
     success: boolean;
@@ -18,7 +19,7 @@ export class VariableExpansionService {
     }
 
     async expandVariable(
-        session: any,
+        session: DapTransport,
         frameId: number,
         variableName: string,
         maxDepth: number = 4,
@@ -72,7 +73,7 @@ export class VariableExpansionService {
     }
 
     async expandAllVariablesInScope(
-    session: any,
+    session: DapTransport,
     frameId: number,
     maxDepth: number = 3,
     maxVariables: number = 8, // Reduced from 20
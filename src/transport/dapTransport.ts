@@ -0,0 +1,18 @@
+// The one thing the protocols and expansion services need from a debug session: a way to send DAP
+// requests, and which thread to look at when the debuggee stops. Implemented over VS Code's DebugSession
+// (VsCodeDapTransport), a DAP server socket or adapter process (SocketDapTransport), and an in-memory
+// script for tests and replays (ScriptedDapTransport).
+export interface DapTransport {
+    // Stable per session; snapshots and step traces are keyed by it
+    readonly id: string;
+    readonly name: string;
+    // Debug adapter type ('go', 'debugpy', 'pwa-node', ...)
+    readonly type: string;
+
+    // Sends a DAP request and resolves with the response body; rejects when the adapter reports failure
+    customRequest(command: string, args?: any): Promise<any>;
+
+    // The thread to collect at a stop: the one focused in the editor, or the one the 'stopped' event named.
+    // Undefined when unknown; protocols then search the threads for one with a stack.
+    getFocusedThreadId(): number | undefined;
+}
@@ -0,0 +1,69 @@
+import { DapTransport } from './dapTransport';
+
+// A response body, an Error to fail the request with, or a function computing either from the arguments
+export type ScriptedResponse = any | ((args: any, transport: ScriptedDapTransport) => any);
+
+export interface ScriptedRequest {
+    command: string;
+    arguments?: any;
+}
+
+// In-memory DapTransport that answers from a script instead of a debug adapter, so protocols and
+// expansion services can be driven in tests or from a recorded session. Unscripted requests fail,
+// and every request is kept in `requests` for assertions.
+export class ScriptedDapTransport implements DapTransport {
+    private static nextId = 1;
+
+    readonly id: string;
+    readonly name: string;
+    readonly type: string;
+    readonly requests: ScriptedRequest[] = [];
+
+    private responses = new Map<string, ScriptedResponse>();
+    private queued = new Map<string, ScriptedResponse[]>();
+    private focusedThreadId: number | undefined;
+
+    constructor(name: string = 'scripted', type: string = 'scripted') {
+        this.id = `scripted-${ScriptedDapTransport.nextId++}`;
+        this.name = name;
+        this.type = type;
+    }
+
+    // Answer every `command` request with this response
+    respond(command: string, response: ScriptedResponse): this {
+        this.responses.set(command, response);
+        return this;
+    }
+
+    // Answer only the next `command` request; queued answers are used up before the respond() one
+    respondOnce(command: string, response: ScriptedResponse): this {
+        this.queued.set(command, [...(this.queued.get(command) || []), response]);
+        return this;
+    }
+
+    // Simulates a stop on this thread (or clears it), as a 'stopped' event or the editor's focus would
+    focusThread(threadId: number | undefined): this {
+        this.focusedThreadId = threadId;
+        return this;
+    }
+
+    getFocusedThreadId(): number | undefined {
+        return this.focusedThreadId;
+    }
+
+    async customRequest(command: string, args?: any): Promise<any> {
+        this.requests.push({ command, arguments: args });
+
+        const queue = this.queued.get(command);
+        const response = queue && queue.length > 0 ? queue.shift() : this.responses.get(command);
+        if (response === undefined) {
+            throw new Error(`No scripted response for '${command}'`);
+        }
+
+        const body = typeof response === 'function' ? await response(args, this) : response;
+        if (body instanceof Error) {
+            throw body;
+        }
+        return body ?? {};
+    }
+}
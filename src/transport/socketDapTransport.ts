@@ -0,0 +1,207 @@
+import * as net from 'net';
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import { DapTransport } from './dapTransport';
+
+// A DAP server listening on TCP (dlv dap --listen, js-debug's dapDebugServer) or an adapter speaking
+// DAP on its stdio (python -m debugpy.adapter)
+export type DapEndpoint = { host: string; port: number } | { command: string; args: string[] };
+
+export interface DapMessage {
+    seq: number;
+    type: 'request' | 'response' | 'event';
+    command?: string;
+    event?: string;
+    request_seq?: number;
+    success?: boolean;
+    message?: string;
+    arguments?: any;
+    body?: any;
+}
+
+interface PendingRequest {
+    command: string;
+    resolve: (body: any) => void;
+    reject: (error: Error) => void;
+    timer?: NodeJS.Timeout;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+// DapTransport talking DAP straight to a server socket or an adapter's stdio, for use outside VS Code.
+// The thread of the last 'stopped' event is the focused one. Emits every DAP event under its own name,
+// 'reverseRequest' for requests from the adapter, and 'close'.
+export class SocketDapTransport extends EventEmitter implements DapTransport {
+    private static nextId = 1;
+
+    readonly id: string;
+    readonly name: string;
+    readonly type: string;
+    configuration: Record<string, any> = {};
+
+    private output: Writable;
+    private socket?: net.Socket;
+    private process?: ChildProcess;
+    private buffer = Buffer.alloc(0);
+    private seq = 1;
+    private pending = new Map<number, PendingRequest>();
+    private closed = false;
+    private focusedThreadId: number | undefined;
+
+    private constructor(name: string, type: string, input: Readable, output: Writable) {
+        super();
+        this.id = `headless-${SocketDapTransport.nextId++}`;
+        this.name = name;
+        this.type = type;
+        this.output = output;
+        input.on('data', (chunk: Buffer) => this.onData(chunk));
+    }
+
+    static open(endpoint: DapEndpoint, name: string, type: string): Promise<SocketDapTransport> {
+        if ('command' in endpoint) {
+            const child = spawn(endpoint.command, endpoint.args, { stdio: ['pipe', 'pipe', 'inherit'] });
+            const connection = new SocketDapTransport(name, type, child.stdout!, child.stdin!);
+            connection.process = child;
+            child.on('exit', () => connection.onClose());
+            return new Promise((resolve, reject) => {
+                child.once('error', error => reject(new Error(`Could not start ${endpoint.command}: ${error.message}`)));
+                child.once('spawn', () => resolve(connection));
+            });
+        }
+
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(endpoint.port, endpoint.host);
+            socket.once('error', error => reject(new Error(`Could not connect to ${endpoint.host}:${endpoint.port}: ${error.message}`)));
+            socket.once('connect', () => {
+                const connection = new SocketDapTransport(name, type, socket, socket);
+                connection.socket = socket;
+                socket.on('close', () => connection.onClose());
+                socket.on('error', error => console.error(`❌ DAP connection ${connection.id} failed:`, error.message));
+                resolve(connection);
+            });
+        });
+    }
+
+    // Resolves with the response body; timeoutMs 0 waits forever (launch may only answer after configurationDone)
+    customRequest(command: string, args?: any, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<any> {
+        if (this.closed) {
+            return Promise.reject(new Error(`DAP connection closed before '${command}'`));
+        }
+
+        const seq = this.seq++;
+        return new Promise((resolve, reject) => {
+            const pending: PendingRequest = { command, resolve, reject };
+            if (timeoutMs > 0) {
+                pending.timer = setTimeout(() => {
+                    this.pending.delete(seq);
+                    reject(new Error(`DAP request '${command}' timed out after ${timeoutMs}ms`));
+                }, timeoutMs);
+            }
+            this.pending.set(seq, pending);
+            this.send({ seq, type: 'request', command, arguments: args });
+        });
+    }
+
+    // Answer a request the adapter sent us (startDebugging, runInTerminal)
+    respond(request: DapMessage, body?: any, error?: string): void {
+        this.send({
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            command: request.command,
+            success: !error,
+            message: error,
+            body
+        });
+    }
+
+    getFocusedThreadId(): number | undefined {
+        return this.focusedThreadId;
+    }
+
+    isClosed(): boolean {
+        return this.closed;
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.socket?.end();
+        this.process?.kill();
+        this.onClose();
+    }
+
+    private send(message: DapMessage): void {
+        if (this.closed) return;
+        const json = JSON.stringify(message);
+        this.output.write(`Content-Length: ${Buffer.byteLength(json, 'utf8')}${HEADER_SEPARATOR}${json}`, 'utf8');
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while (true) {
+            const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+            if (headerEnd < 0) return;
+
+            const length = this.buffer.slice(0, headerEnd).toString('ascii').match(/Content-Length:\s*(\d+)/i);
+            if (!length) {
+                // Not a DAP header; drop it rather than stall on it forever
+                this.buffer = this.buffer.slice(headerEnd + HEADER_SEPARATOR.length);
+                continue;
+            }
+
+            const start = headerEnd + HEADER_SEPARATOR.length;
+            const end = start + Number(length[1]);
+            if (this.buffer.length < end) return;
+
+            const body = this.buffer.slice(start, end).toString('utf8');
+            this.buffer = this.buffer.slice(end);
+            try {
+                this.dispatch(JSON.parse(body));
+            } catch (error) {
+                console.error(`❌ Bad DAP message on ${this.id}:`, error.message);
+            }
+        }
+    }
+
+    private dispatch(message: DapMessage): void {
+        if (message.type === 'response') {
+            const pending = this.pending.get(message.request_seq!);
+            if (!pending) return;
+            this.pending.delete(message.request_seq!);
+            clearTimeout(pending.timer);
+            if (message.success) {
+                pending.resolve(message.body || {});
+            } else {
+                pending.reject(new Error(message.message || `DAP request '${pending.command}' failed`));
+            }
+        } else if (message.type === 'event') {
+            this.trackFocus(message);
+            this.emit(message.event!, message.body || {});
+        } else if (message.type === 'request') {
+            this.emit('reverseRequest', message);
+        }
+    }
+
+    // Before the event is emitted, so 'stopped' listeners already see the new focus
+    private trackFocus(message: DapMessage): void {
+        if (message.event === 'stopped' && message.body?.threadId !== undefined) {
+            this.focusedThreadId = message.body.threadId;
+        } else if (message.event === 'continued' && (message.body?.allThreadsContinued !== false || message.body?.threadId === this.focusedThreadId)) {
+            this.focusedThreadId = undefined;
+        }
+    }
+
+    private onClose(): void {
+        if (this.closed) return;
+        this.closed = true;
+        for (const pending of this.pending.values()) {
+            clearTimeout(pending.timer);
+            pending.reject(new Error(`DAP connection closed before '${pending.command}' answered`));
+        }
+        this.pending.clear();
+        this.emit('close');
+    }
+}
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { DapTransport } from './dapTransport';
+
+// DapTransport over a VS Code debug session; the focused thread is the one selected in the Call Stack view
+export class VsCodeDapTransport implements DapTransport {
+    readonly session: vscode.DebugSession;
+
+    constructor(session: vscode.DebugSession) {
+        this.session = session;
+    }
+
+    get id(): string {
+        return this.session.id;
+    }
+
+    get name(): string {
+        return this.session.name;
+    }
+
+    get type(): string {
+        return this.session.type;
+    }
+
+    async customRequest(command: string, args?: any): Promise<any> {
+        return this.session.customRequest(command, args);
+    }
+
+    getFocusedThreadId(): number | undefined {
+        const activeStackItem = vscode.debug.activeStackItem;
+        return activeStackItem && activeStackItem.session === this.session ? activeStackItem.threadId : undefined;
+    }
+}
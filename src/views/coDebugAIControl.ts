@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { ContextCollector } from '../services/contextCollector';
-import { LLMService } from '../services/llmService';
+import { LLMService, LLMOptions } from '../services/llmService';
+import { AIConfigurationService } from '../services/aiConfigurationService';
+import { ContextBudgetBuilder } from '../services/contextBudgetBuilder';
 import { SupportedLanguage } from '../languages/languageHandler';
 
 export interface QuickContextOptions {
@@ -196,6 +198,11 @@ export class CoDebugAIControl {
                 description: 'Get AI analysis of current state',
                 action: 'askAI'
             },
+            {
+                label: '$(comment-discussion) Debug Chat',
+                description: 'Follow-up questions that keep history across breakpoints',
+                action: 'chat'
+            },
             {
                 label: '$(copy) Copy Essential Context',
                 description: 'Copy key debug info to clipboard',
@@ -226,6 +233,9 @@ export class CoDebugAIControl {
                 case 'askAI':
                     await this.quickAIQuery();
                     break;
+                case 'chat':
+                    vscode.commands.executeCommand('coDebugger.openDebugChat');
+                    break;
                 case 'copyEssential':
                     await this.copyEssentialContext();
                     break;
@@ -487,26 +497,34 @@ export class CoDebugAIControl {
         };
     }
 
-    private buildQuickContext(options: QuickContextOptions): string {
+    private buildQuickContext(options: QuickContextOptions, llmOptions?: Pick<LLMOptions, 'model' | 'maxTokens'>): string {
         if (!this.contextCollector) return '';
 
-        const context = this.contextCollector.getContext();
-        const sections: string[] = [];
+        const contextCollector = this.contextCollector;
+        const context = contextCollector.getContext();
+        const builder = new ContextBudgetBuilder(ContextBudgetBuilder.resolveBudget(llmOptions || AIConfigurationService.getActiveProfile()));
 
         // Header with timestamp
-        sections.push(`# ${this.currentLanguage?.toUpperCase()} Debug Context - ${new Date().toLocaleString()}`);
-        sections.push(`**Location**: ${context.currentLocation?.function || 'Unknown'}`);
-        sections.push(`**File**: ${context.currentLocation?.file.split('/').pop() || 'Unknown'}:${context.currentLocation?.line || 0}`);
-        sections.push('');
+        builder.addSection({
+            id: 'header',
+            title: 'Location',
+            header: [
+                `# ${this.currentLanguage?.toUpperCase()} Debug Context - ${new Date().toLocaleString()}`,
+                `**Location**: ${context.currentLocation?.function || 'Unknown'}`,
+                `**File**: ${context.currentLocation?.file.split('/').pop() || 'Unknown'}:${context.currentLocation?.line || 0}`,
+                ''
+            ].join('\n')
+        });
 
         // Variables with enhanced filtering
         if (options.includeVariables) {
-            let vars = this.contextCollector.getApplicationVariables();
+            let vars = contextCollector.getApplicationVariables();
+            let title: string;
             
             // If focusing on complex data structures
             if (options.includeMemoryInfo && !options.includeFunctions) {
-                vars = this.contextCollector.getComplexVariables().slice(0, options.variableCount);
-                sections.push('## Complex Data Structures');
+                vars = contextCollector.getComplexVariables().slice(0, options.variableCount);
+                title = 'Complex Data Structures';
             } else if (options.includeErrorAnalysis && !options.includeFunctions) {
                 // Focus on error-related variables
                 vars = vars.filter(v => 
@@ -515,14 +533,14 @@ export class CoDebugAIControl {
                     v.type.toLowerCase().includes('error') ||
                     v.isControlFlow
                 ).slice(0, options.variableCount);
-                sections.push('## Error-Related Variables');
+                title = 'Error-Related Variables';
             } else {
                 vars = vars.slice(0, options.variableCount);
-                sections.push('## Key Variables');
+                title = 'Key Variables';
             }
             
             if (vars.length > 0) {
-                vars.forEach(v => {
+                const items = vars.map(v => {
                     let value = v.value.length > 100 ? v.value.substring(0, 100) + '...' : v.value;
                     let line = `- **${v.name}**`;
                     
@@ -544,18 +562,17 @@ export class CoDebugAIControl {
                         line += ` [Length: ${v.metadata.arrayLength}]`;
                     }
                     
-                    sections.push(line);
+                    return { id: v.name, text: line, importance: contextCollector.getVariableImportance(v) };
                 });
-                sections.push('');
+                builder.addSection({ id: 'variables', title, header: `## ${title}`, items, footer: '', minItems: 3 });
             }
         }
 
         // Functions with configurable depth
         if (options.includeFunctions) {
-            const calls = context.functionCalls.slice(0, options.functionDepth);
+            const calls = context.functionCalls.filter(call => !call.executionUnit).slice(0, options.functionDepth);
             if (calls.length > 0) {
-                sections.push('## Function Call Stack');
-                calls.forEach((call, i) => {
+                const items = calls.map((call, i) => {
                     const funcName = call.name.split('.').pop() || call.name;
                     const fileName = call.file.split('/').pop() || 'unknown';
                     let line = `${i + 1}. **${funcName}** (${fileName}:${call.line})`;
@@ -565,22 +582,24 @@ export class CoDebugAIControl {
                         line += ` [${duration}ms]`;
                     }
                     
-                    sections.push(line);
-                    
                     // Include parameters for first few functions if requested
                     if (i < 2 && Object.keys(call.parameters).length > 0) {
                         const paramStr = Object.entries(call.parameters).slice(0, 3)
                             .map(([k, v]) => `${k}: ${String(v).substring(0, 30)}`)
                             .join(', ');
-                        sections.push(`   Parameters: {${paramStr}}`);
+                        line += `\n   Parameters: {${paramStr}}`;
                     }
+                    
+                    // Frames closer to the stop matter more
+                    return { id: funcName, text: line, importance: 200 - i * 25 };
                 });
-                sections.push('');
+                builder.addSection({ id: 'callStack', title: 'Function Call Stack', header: '## Function Call Stack', items, footer: '', priority: 4, minItems: 1 });
             }
         }
 
         // Performance metrics
         if (options.includePerformance) {
+            const sections: string[] = [];
             sections.push('## Performance Metrics');
             sections.push(`- **Collection Time**: ${context.debugInfo.performance.collectionTime}ms`);
             sections.push(`- **Variable Expansion**: ${context.debugInfo.performance.variableExpansionTime || 0}ms`);
@@ -592,11 +611,13 @@ export class CoDebugAIControl {
                 sections.push(`- **AI Analysis Time**: ${context.debugInfo.performance.symbolicAnalysisTime}ms`);
             }
             sections.push('');
+            builder.addSection({ id: 'performance', title: 'Performance Metrics', header: sections.join('\n'), priority: 0 });
         }
 
         // Error analysis
         if (options.includeErrorAnalysis && context.symbolicExecution) {
             const se = context.symbolicExecution;
+            const sections: string[] = [];
             sections.push('## Error Analysis');
             
             if (se.executionSummary.potentialIssues.length > 0) {
@@ -618,11 +639,13 @@ export class CoDebugAIControl {
                 });
             }
             sections.push('');
+            builder.addSection({ id: 'errorAnalysis', title: 'Error Analysis', header: sections.join('\n'), priority: 3 });
         }
 
         // AI Analysis Summary
         if (options.includeSymbolic && context.symbolicExecution) {
             const se = context.symbolicExecution;
+            const sections: string[] = [];
             sections.push('## AI Symbolic Analysis');
             sections.push(`- **Path Probability**: ${(se.currentPath.pathProbability * 100).toFixed(1)}%`);
             sections.push(`- **Alternative Paths**: ${se.alternativePaths.length}`);
@@ -635,14 +658,26 @@ export class CoDebugAIControl {
                     if (alt.estimatedOutcome) {
                         sections.push(`   Expected: ${alt.estimatedOutcome}`);
                     }
+                    const flips = alt.requiredInputChanges.filter(change => change.expression);
+                    if (flips.length > 0) {
+                        sections.push(`   Flip: ${flips.map(change => `${change.expression} (now ${change.currentValue})`).join(', ')}`);
+                    }
+                });
+            }
+            if (se.currentPath.pathConstraints.length > 0) {
+                sections.push('### Guarding Conditions:');
+                se.currentPath.pathConstraints.slice(0, 8).forEach(c => {
+                    sections.push(`- \`${c.expression}\` = ${c.concreteResult ?? '?'} (line ${c.sourceLocation.line})`);
                 });
             }
             sections.push('');
+            builder.addSection({ id: 'symbolic', title: 'AI Symbolic Analysis', header: sections.join('\n'), priority: 1 });
         }
 
         // Path Sensitivity
         if (options.includePathSensitivity && context.pathSensitivity) {
             const ps = context.pathSensitivity;
+            const sections: string[] = [];
             sections.push('## Path Sensitivity Analysis');
             sections.push(`- **Path Coverage**: ${(ps.pathAnalysis.pathCoverage * 100).toFixed(1)}%`);
             sections.push(`- **Critical Paths**: ${ps.pathAnalysis.criticalPaths.length}`);
@@ -659,13 +694,24 @@ export class CoDebugAIControl {
                 });
             }
             sections.push('');
+            builder.addSection({ id: 'pathSensitivity', title: 'Path Sensitivity Analysis', header: sections.join('\n'), priority: 2 });
         }
 
-        sections.push('---');
-        sections.push('*Generated by Co Debug AI for GitHub Copilot analysis*');
-        sections.push(`*Context Type: ${this.getContextTypeDescription(options)}*`);
+        builder.addSection({
+            id: 'footer',
+            title: 'Footer',
+            header: [
+                '---',
+                '*Generated by Co Debug AI for GitHub Copilot analysis*',
+                `*Context Type: ${this.getContextTypeDescription(options)}*`
+            ].join('\n')
+        });
 
-        return sections.join('\n');
+        const { text, report } = builder.build();
+        if (report.omittedItems.length > 0 || report.omittedSections.length > 0) {
+            console.log(`✂️ Quick context trimmed to ~${report.estimatedTokens}/${report.budgetTokens} tokens: ${report.omittedItems.length} items, ${report.omittedSections.length} sections omitted`);
+        }
+        return text;
     }
 
     private getContextTypeDescription(options: QuickContextOptions): string {
@@ -724,6 +770,9 @@ export class CoDebugAIControl {
         });
 
         if (query && this.contextCollector) {
+            const profile = await AIConfigurationService.ensureActiveProfile(this.llmService, { maxTokens: 1000 });
+            if (!profile) return;
+
             const quickContext = this.buildQuickContext({
                 includeVariables: true,
                 includeFunctions: true,
@@ -735,18 +784,13 @@ export class CoDebugAIControl {
                 includeTypeInfo: true,
                 variableCount: 8,
                 functionDepth: 3
-            });
+            }, profile);
 
             try {
-                const response = await this.llmService.callLLM(quickContext, query, {
-                    provider: 'openai',
-                    model: 'gpt-4',
-                    temperature: 0.3,
-                    maxTokens: 1000
-                });
+                const response = await this.llmService.callLLM(quickContext, query, profile);
 
                 const doc = await vscode.workspace.openTextDocument({
-                    content: `# AI Debug Analysis\n\n**Query**: ${query}\n\n## Response\n${response}\n\n---\n*Co Debug AI Analysis*`,
+                    content: `# AI Debug Analysis\n\n**Query**: ${query}\n**Model**: ${profile.label}\n\n## Response\n${response}\n\n---\n*Co Debug AI Analysis*`,
                     language: 'markdown'
                 });
 
@@ -779,7 +823,7 @@ export class CoDebugAIControl {
         });
 
         await vscode.env.clipboard.writeText(essentialContext);
-        vscode.window.showInformationMessage('📋 Essential debug context copied to clipboard!');
+        vscode.window.showInformationMessage(`📋 Essential debug context copied to clipboard! (active AI: ${AIConfigurationService.getActiveProfile().label})`);
     }
 
     private showDocumentation() {
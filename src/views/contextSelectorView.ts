@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { ContextCollector, ContextData, Variable } from '../services/contextCollector';
+import { GoroutineInfo } from '../services/goroutineAnalyzer';
 import { LLMService } from '../services/llmService';
+import { AIConfigurationService } from '../services/aiConfigurationService';
+import { BudgetSection, ContextBudgetBuilder, ContextBudgetReport } from '../services/contextBudgetBuilder';
+import { SnapshotSummary } from '../services/snapshotService';
 import * as os from 'os';
 
 export interface ContextSelection {
@@ -22,6 +26,18 @@ export interface ContextSelection {
         includeVariableExpansion: boolean;
         includePerformanceMetrics: boolean;
     };
+    // Go sessions: the goroutine overview, plus full stacks of the goroutines picked by id
+    goroutines: {
+        includeOverview: boolean;
+        stackIds: number[];
+    };
+}
+
+export interface LLMResponseState {
+    query: string;
+    model: string;
+    text: string;
+    status: 'streaming' | 'done' | 'cancelled' | 'error';
 }
 
 export class ContextSelectorView {
@@ -30,11 +46,23 @@ export class ContextSelectorView {
     private llmService: LLMService;
     private currentSelection: ContextSelection;
     private delveClient?: { getCurrentThreadId: () => number | null; getCurrentFrameId: () => number | null };
-
-    constructor(contextCollector: ContextCollector, llmService: LLMService, delveClient?: any) {
+    private currentLLMRequest?: AbortController;
+    private llmResponse?: LLMResponseState;
+    private lastBudgetReport?: ContextBudgetReport;
+    // The debug session this view belongs to; each session of a compound launch gets its own panel
+    private session?: vscode.DebugSession;
+    // Set when the view shows a saved stop; refresh, depth changes and test generation are disabled
+    private snapshot?: SnapshotSummary;
+    private closeListener?: () => void;
+    // Extra context the user attached from another view (e.g. a stop comparison); sent with every AI query until detached
+    private focusedContext?: { label: string; section: BudgetSection };
+
+    constructor(contextCollector: ContextCollector, llmService: LLMService, delveClient?: any, session?: vscode.DebugSession, snapshot?: SnapshotSummary) {
         this.contextCollector = contextCollector;
         this.llmService = llmService;
         this.delveClient = delveClient;
+        this.session = session;
+        this.snapshot = snapshot;
         
         this.currentSelection = {
             functionCalls: { includeRuntime: true, includeCallStack: true },
@@ -51,7 +79,8 @@ export class ContextSelectorView {
                 includePathSensitivity: true,
                 includeVariableExpansion: true,
                 includePerformanceMetrics: true
-            }
+            },
+            goroutines: { includeOverview: true, stackIds: [] }
         };
 
         this.setupEventListeners();
@@ -64,29 +93,51 @@ export class ContextSelectorView {
         });
     }
 
-    show(): void {
+    show(column: vscode.ViewColumn = vscode.ViewColumn.One): void {
         if (!this.view) {
             this.view = vscode.window.createWebviewPanel(
                 'contextSelector.view',
-                `Co Debug Context`,
-                vscode.ViewColumn.One,
+                this.snapshot ? `Co Debug Snapshot · ${this.snapshot.sessionName} #${this.snapshot.stopIndex}`
+                    : this.session ? `Co Debug Context · ${this.session.name}` : `Co Debug Context`,
+                column,
                 { enableScripts: true, retainContextWhenHidden: true }
             );
 
-            this.view.onDidDispose(() => { this.view = undefined; });
+            this.view.onDidDispose(() => {
+                this.currentLLMRequest?.abort();
+                this.view = undefined;
+                this.closeListener?.();
+            });
             this.view.webview.onDidReceiveMessage(async (message) => {
                 await this.handleMessage(message);
             });
         }
 
         this.updateContent();
-        this.view.reveal();
+        this.view.reveal(column);
     }
 
     refresh(): void {
         if (this.view) this.updateContent();
     }
 
+    // Called when the user closes the panel; the view can be shown again afterwards
+    onDidClose(listener: () => void): void {
+        this.closeListener = listener;
+    }
+
+    attachFocusedContext(label: string, section: BudgetSection): void {
+        this.focusedContext = { label, section };
+        this.show();
+        vscode.window.showInformationMessage(`📎 ${label} attached to the AI context`);
+    }
+
+    dispose(): void {
+        this.currentLLMRequest?.abort();
+        this.view?.dispose();
+        this.view = undefined;
+    }
+
     private updateContent(): void {
         if (!this.view) return;
         const context = this.contextCollector.getContext();
@@ -128,40 +179,68 @@ ${context.debugInfo.errors.length > 0 ? `Errors: ${context.debugInfo.errors.join
 2. Trigger execution to hit the breakpoint  
 3. Context will be automatically collected with variable expansion to depth ${this.currentSelection.variables.expansionDepth}
 `);
+            if (this.focusedContext) {
+                const focused = this.focusedContext.section;
+                sections.push(focused.header + (focused.items || []).map(item => item.text).join('') + (focused.footer || ''));
+            }
             return sections.join('\n');
         }
 
+        const builder = new ContextBudgetBuilder(ContextBudgetBuilder.resolveBudget(AIConfigurationService.getActiveProfile()));
+        builder.addSection({ id: 'status', title: 'Debug Status', header: sections.join('\n') });
+        if (this.focusedContext) {
+            builder.addSection(this.focusedContext.section);
+        }
+
         // Function Calls (clean)
         if (this.currentSelection.functionCalls.includeRuntime && context.functionCalls.length > 0) {
-            sections.push('## Function Calls\n');
-            context.functionCalls.slice(0, 5).forEach((call, index) => {
-                const fileName = call.file.split('/').pop() || 'unknown';
-                const funcName = call.name.split('.').pop() || call.name;
-                sections.push(`${index + 1}. ${funcName} (${fileName}:${call.line})`);
-                
-                if (Object.keys(call.parameters).length > 0) {
-                    const paramStr = Object.entries(call.parameters).slice(0, 2)
-                        .map(([k, v]) => `${k}: ${String(v).length > 40 ? String(v).substring(0, 40) + '...' : v}`)
-                        .join(', ');
-                    sections.push(`   {${paramStr}}`);
-                }
-                sections.push('');
+            builder.addSection({
+                id: 'callStack',
+                title: 'Function Calls',
+                header: '## Function Calls\n',
+                priority: 3,
+                minItems: 1,
+                items: context.functionCalls.filter(call => !call.executionUnit).slice(0, 5).map((call, index) => {
+                    const fileName = call.file.split('/').pop() || 'unknown';
+                    const funcName = call.name.split('.').pop() || call.name;
+                    let text = `${index + 1}. ${funcName} (${fileName}:${call.line})`;
+                    if (call.asyncBoundary) {
+                        text += ` [async: ${call.asyncBoundary}]`;
+                    }
+                    
+                    if (Object.keys(call.parameters).length > 0) {
+                        const paramStr = Object.entries(call.parameters).slice(0, 2)
+                            .map(([k, v]) => `${k}: ${String(v).length > 40 ? String(v).substring(0, 40) + '...' : v}`)
+                            .join(', ');
+                        text += `\n   {${paramStr}}`;
+                    }
+                    // Frames closer to the stop matter more
+                    return { id: funcName, text: text + '\n', importance: 200 - index * 25 };
+                })
             });
         }
 
-        // Variables (clean)
+        // Variables (clean), least important dropped first when over the token budget
         if (context.variables.length > 0) {
             const vars = this.currentSelection.variables.showApplicationOnly ? 
                 this.contextCollector.getApplicationVariables() : context.variables;
             
-            sections.push(`## Variables (${vars.length} total) - Depth ${this.currentSelection.variables.expansionDepth}\n`);
-            vars.slice(0, 8).forEach(variable => {
-                sections.push(this.formatCleanVariable(variable));
+            builder.addSection({
+                id: 'variables',
+                title: 'Variables',
+                header: `## Variables (${vars.length} total) - Depth ${this.currentSelection.variables.expansionDepth}\n`,
+                minItems: 3,
+                items: vars.map(variable => ({
+                    id: variable.name,
+                    text: this.formatCleanVariable(variable),
+                    importance: this.contextCollector.getVariableImportance(variable)
+                }))
             });
         }
 
         // Analysis sections (clean)
         if (this.currentSelection.analysis.includeSymbolicExecution && context.symbolicExecution) {
+            const sections: string[] = [];
             sections.push('\n## Symbolic Execution Analysis\n');
             const se = context.symbolicExecution;
             sections.push(`Path Probability: ${(se.currentPath.pathProbability * 100).toFixed(1)}%`);
@@ -186,6 +265,10 @@ ${context.debugInfo.errors.length > 0 ? `Errors: ${context.debugInfo.errors.join
                     if (alt.estimatedOutcome) {
                         sections.push(`   Expected: ${alt.estimatedOutcome}`);
                     }
+                    const flips = alt.requiredInputChanges.filter(change => change.expression);
+                    if (flips.length > 0) {
+                        sections.push(`   Flip: ${flips.map(change => `${change.expression} (now ${change.currentValue})`).join(', ')}`);
+                    }
                     if (alt.testSuggestion) {
                         sections.push(`   Test: ${alt.testSuggestion}`);
                     }
@@ -194,14 +277,17 @@ ${context.debugInfo.errors.length > 0 ? `Errors: ${context.debugInfo.errors.join
 
             if (se.currentPath.pathConstraints.length > 0) {
                 sections.push(`\nPath Constraints:`);
-                se.currentPath.pathConstraints.slice(0, 3).forEach((constraint, i) => {
-                    sections.push(`${i + 1}. ${constraint.expression} (${constraint.isSatisfied ? 'satisfied' : 'unsatisfied'})`);
+                se.currentPath.pathConstraints.slice(0, 8).forEach((constraint, i) => {
+                    const result = constraint.concreteResult !== undefined ? ` = ${constraint.concreteResult}` : '';
+                    sections.push(`${i + 1}. ${constraint.expression}${result} at line ${constraint.sourceLocation.line} (${constraint.isSatisfied ? 'satisfied' : 'unsatisfied'})`);
                 });
             }
             sections.push('');
+            builder.addSection({ id: 'symbolic', title: 'Symbolic Execution Analysis', header: sections.join('\n'), priority: 1 });
         }
         
         if (this.currentSelection.analysis.includePathSensitivity && context.pathSensitivity) {
+            const sections: string[] = [];
             sections.push(`## Path Sensitivity Analysis\n`);
             const ps = context.pathSensitivity;
             sections.push(`Path Coverage: ${(ps.pathAnalysis.pathCoverage * 100).toFixed(1)}%`);
@@ -236,9 +322,92 @@ ${context.debugInfo.errors.length > 0 ? `Errors: ${context.debugInfo.errors.join
                 });
             }
             sections.push('');
+            builder.addSection({ id: 'pathSensitivity', title: 'Path Sensitivity Analysis', header: sections.join('\n'), priority: 2 });
+        }
+
+        if (context.goroutines) {
+            this.addGoroutineSections(builder, context);
+        }
+
+        const { text, report } = builder.build();
+        this.lastBudgetReport = report;
+        return text;
+    }
+
+    private addGoroutineSections(builder: ContextBudgetBuilder, context: ContextData): void {
+        const overview = context.goroutines!;
+        const selection = this.currentSelection.goroutines;
+
+        if (selection.includeOverview) {
+            const header: string[] = [`## Goroutines (${overview.inspected} of ${overview.total} inspected)\n`];
+            if (overview.deadlockHints.length > 0) {
+                header.push('Deadlock Hints:');
+                overview.deadlockHints.forEach(hint => header.push(`- ${hint}`));
+                header.push('');
+            }
+
+            builder.addSection({
+                id: 'goroutines',
+                title: 'Goroutines',
+                header: header.join('\n'),
+                priority: 2,
+                minItems: 1,
+                items: overview.goroutines.filter(g => !g.isSystem).map(g => ({
+                    id: `goroutine-${g.id}`,
+                    text: this.formatGoroutine(g) + '\n',
+                    // The stopped goroutine and blocked ones explain most concurrency bugs
+                    importance: (g.isCurrent ? 300 : 0) + (g.isBlocked ? 150 : 0) + (g.blockedOn ? 50 : 0) - g.id / 1000
+                }))
+            });
         }
 
-        return sections.join('\n');
+        const stacks = overview.goroutines.filter(g => selection.stackIds.includes(g.id));
+        if (stacks.length > 0) {
+            builder.addSection({
+                id: 'goroutineStacks',
+                title: 'Goroutine Stacks',
+                header: '## Selected Goroutine Stacks\n',
+                priority: 2,
+                items: stacks.map(g => ({
+                    id: `goroutine-stack-${g.id}`,
+                    text: `Goroutine ${g.id}${g.waitReason ? ` [${g.waitReason}]` : ''}:\n` +
+                        g.frames.map(frame => `  ${frame.name} (${frame.file.split('/').pop()}:${frame.line})`).join('\n') + '\n',
+                    importance: 200
+                }))
+            });
+        }
+    }
+
+    private formatGoroutine(g: GoroutineInfo): string {
+        const frame = g.topFrame || g.frames[0];
+        const location = frame ? `${frame.name.split('/').pop()} (${frame.file.split('/').pop()}:${frame.line})` : 'no frames';
+        const state = g.isCurrent ? 'stopped here' : g.waitReason || 'running';
+        const blocked = g.blockedOn ? ` on \`${g.blockedOn.expression}\`${g.blockedOn.value ? ` = ${g.blockedOn.value}` : ''}` : '';
+        return `Goroutine ${g.id} [${state}${blocked}] ${location}`;
+    }
+
+    private renderGoroutines(context: ContextData): string {
+        const overview = context.goroutines;
+        if (!overview) {
+            return '';
+        }
+
+        const escape = (text: string) => String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        const hints = overview.deadlockHints.map(hint =>
+            `<div style="color: var(--vscode-errorForeground); margin-bottom: 4px;">⚠️ ${escape(hint.replace(/`/g, ''))}</div>`).join('');
+        const rows = overview.goroutines.filter(g => !g.isSystem).map(g => `
+                <label style="display: block;" title="${escape(g.name)}"><input type="checkbox" class="goroutine-stack" value="${g.id}" ${this.currentSelection.goroutines.stackIds.includes(g.id) ? 'checked' : ''} onchange="updateSelection()">
+                ${escape(this.formatGoroutine(g).replace(/`/g, ''))}</label>`).join('');
+
+        return `
+            <div class="section">
+                <h3>🧵 Goroutines (${overview.inspected}/${overview.total})</h3>
+                ${hints}
+                <label><input type="checkbox" id="includeGoroutines" ${this.currentSelection.goroutines.includeOverview ? 'checked' : ''} onchange="updateSelection()">Include Goroutine Overview</label>
+                <div style="font-size: 0.9em; color: var(--vscode-descriptionForeground); margin: 6px 0;">Tick goroutines to include their stacks:</div>
+                ${rows}
+            </div>
+            `;
     }
 
     private formatCleanVariable(variable: Variable): string {
@@ -261,6 +430,7 @@ ${context.debugInfo.errors.length > 0 ? `Errors: ${context.debugInfo.errors.join
         }
         
         const metadataStr = metadata.length > 0 ? ` | ${metadata.join(' | ')}` : '';
+        const historyStr = this.formatChangeHistory(variable);
         
         if (this.currentSelection.variables.showAsJSON) {
             const fullJSON = this.getFullExpandedJSON(variable);
@@ -271,14 +441,14 @@ Type: ${variable.type} | Scope: ${variable.scope}${metadataStr}
 
 JSON Structure:
 ${fullJSON}
-
+${historyStr}
 `;
             } else {
                 return `### ${variable.name} [${badges.join(',')}]
 Type: ${variable.type} | Scope: ${variable.scope}${metadataStr}
 
 Value: ${this.formatSimpleValue(variable)}
-
+${historyStr}
 `;
             }
         } else {
@@ -290,11 +460,24 @@ Value: ${this.formatSimpleValue(variable)}
             return `### ${variable.name} [${badges.join(',')}]
 Type: ${variable.type} | Scope: ${variable.scope}${metadataStr}
 Value: ${value}
-
+${historyStr}
 `;
         }
     }
 
+    private formatChangeHistory(variable: Variable): string {
+        if (variable.changeHistory.length === 0) {
+            return '';
+        }
+
+        const changes = variable.changeHistory.slice(-5).map(change => {
+            const location = change.location.split('/').pop();
+            return `- ${change.oldValue} → ${change.newValue} (${location})`;
+        });
+
+        return `History (${variable.changeHistory.length} changes):\n${changes.join('\n')}\n`;
+    }
+
     private formatSimpleValue(variable: Variable): string {
         if (variable.type === 'string') {
             let cleanValue = variable.value;
@@ -609,6 +792,11 @@ Value: ${value}
     }
 
     private async handleMessage(message: any): Promise<void> {
+        if (this.snapshot && ['refreshContext', 'changeDepth', 'generateTest', 'switchSession'].includes(message.command)) {
+            vscode.window.showInformationMessage(`📸 This snapshot is read-only`);
+            return;
+        }
+
         switch (message.command) {
             case 'updateSelection':
                 this.currentSelection = message.selection;
@@ -642,6 +830,18 @@ Value: ${value}
                 await this.handleCleanLLMCall(message.query, message.context);
                 break;
 
+            case 'webviewReady':
+                this.postLLMResponse();
+                break;
+
+            case 'cancelLLM':
+                this.currentLLMRequest?.abort();
+                break;
+
+            case 'openLLMResponse':
+                await this.openLLMResponse();
+                break;
+
             case 'copyContext':
                 this.copyContext();
                 break;
@@ -649,37 +849,96 @@ Value: ${value}
             case 'showFullAnalysis':
                 this.showFullAnalysis();
                 break;
+
+            case 'generateTest':
+                await vscode.commands.executeCommand('coDebugger.generatePathTest', message.pathId, this.session?.id);
+                break;
+
+            case 'switchSession':
+                await vscode.commands.executeCommand('coDebugger.switchSession');
+                break;
+
+            case 'detachFocusedContext':
+                this.focusedContext = undefined;
+                this.updateContent();
+                break;
         }
     }
 
     private async handleCleanLLMCall(query: string, contextText: string): Promise<void> {
+        const profile = await AIConfigurationService.ensureActiveProfile(this.llmService);
+        if (!profile) return;
+
+        // Only one analysis streams at a time
+        this.currentLLMRequest?.abort();
+        const controller = new AbortController();
+        this.currentLLMRequest = controller;
+
+        const llmResponse: LLMResponseState = { query, model: profile.label, text: '', status: 'streaming' };
+        this.llmResponse = llmResponse;
+        this.postLLMResponse();
+
         try {
             const cleanContext = this.buildSelectedContext();
             
-            console.log(`🤖 LLM call with clean context (${cleanContext.length} chars)`);
+            console.log(`🤖 LLM call with clean context (${cleanContext.length} chars) via ${profile.label}`);
+            this.logBudgetReport();
             
-            const response = await this.llmService.callLLM(cleanContext, query, {
-                provider: 'openai',
-                model: 'gpt-4',
-                temperature: 0.3,
-                maxTokens: 4000
-            });
+            await this.llmService.streamLLM(cleanContext, query, profile, chunk => {
+                llmResponse.text += chunk;
+                this.postLLMResponse();
+            }, controller.signal);
+
+            llmResponse.status = 'done';
+        } catch (error) {
+            if (error.name === 'AbortError') {
+                console.log(`⏹️ LLM request cancelled`);
+                llmResponse.status = 'cancelled';
+            } else {
+                llmResponse.status = 'error';
+                llmResponse.text += `${llmResponse.text ? '\n\n' : ''}❌ ${error.message}`;
+                vscode.window.showErrorMessage(`LLM call failed: ${error.message}`);
+            }
+        } finally {
+            if (this.currentLLMRequest === controller) {
+                this.currentLLMRequest = undefined;
+            }
+            this.postLLMResponse();
+        }
+    }
 
-            const doc = await vscode.workspace.openTextDocument({
-                content: `# AI Debug Analysis
-Query: ${query}
+    private logBudgetReport(): void {
+        const report = this.lastBudgetReport;
+        if (!report) return;
+
+        console.log(`📏 Context ~${report.estimatedTokens}/${report.budgetTokens} tokens`, report.sectionTokens);
+        if (report.omittedItems.length > 0 || report.omittedSections.length > 0) {
+            console.log(`✂️ Omitted ${report.omittedItems.length} items and ${report.omittedSections.length} sections to fit the budget`);
+        }
+    }
+
+    private postLLMResponse(): void {
+        if (!this.view || !this.llmResponse) return;
+        // The full text is sent each time so a webview rebuilt mid-stream (refresh, depth change) catches up
+        this.view.webview.postMessage({ command: 'llmResponse', ...this.llmResponse });
+    }
+
+    private async openLLMResponse(): Promise<void> {
+        if (!this.llmResponse) return;
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: `# AI Debug Analysis
+Query: ${this.llmResponse.query}
+Model: ${this.llmResponse.model}
 
 ## AI Analysis
-${response}
+${this.llmResponse.text}
 
 ---
 *Analysis based on clean debug context without internal metadata*`,
-                language: 'plaintext'
-            });
-            await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
-        } catch (error) {
-            vscode.window.showErrorMessage(`LLM call failed: ${error.message}`);
-        }
+            language: 'plaintext'
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
     }
 
     private async handleDepthChange(newDepth: number): Promise<void> {
@@ -755,7 +1014,7 @@ ${selectedContext}
         const selectedContext = this.buildSelectedContext();
         
         vscode.env.clipboard.writeText(selectedContext).then(() => {
-            vscode.window.showInformationMessage('📋 Clean context copied to clipboard!');
+            vscode.window.showInformationMessage(`📋 Clean context copied to clipboard! (active AI: ${AIConfigurationService.getActiveProfile().label})`);
         });
     }
 
@@ -767,9 +1026,25 @@ ${selectedContext}
         return new Date().toISOString().slice(0, 19).replace('T', ' ');
     }
 
+    private renderAlternativePaths(context: ContextData): string {
+        const alternatives = context.symbolicExecution?.alternativePaths || [];
+        if (alternatives.length === 0) {
+            return '<div style="font-size: 0.9em; color: var(--vscode-descriptionForeground);">No alternative paths at this stop</div>';
+        }
+
+        const escape = (text: string) => String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+        return alternatives.slice(0, 8).map(alt => `
+                <div style="display: flex; gap: 8px; align-items: center; justify-content: space-between; margin-bottom: 6px;">
+                    <span title="${escape(alt.testSuggestion)}">${escape(alt.description.replace(/`/g, ''))}</span>
+                    ${this.snapshot ? '' : `<button class="btn" onclick="generateTest('${escape(alt.id)}')">Generate test for this path</button>`}
+                </div>`).join('');
+    }
+
     private generateHtml(context: ContextData): string {
-        const statusIcon = context.debugInfo.isStopped ? '🛑' : '▶️';
-        const statusText = context.debugInfo.isStopped ? 'Stopped' : 'Running';
+        const statusIcon = this.snapshot ? '📸' : context.debugInfo.isStopped ? '🛑' : '▶️';
+        const statusText = this.snapshot ? `Snapshot of stop #${this.snapshot.stopIndex} (read-only)` : context.debugInfo.isStopped ? 'Stopped' : 'Running';
+        const sessionName = this.snapshot?.sessionName || this.session?.name;
+        const timestamp = this.snapshot ? new Date(this.snapshot.timestamp).toISOString().slice(0, 19).replace('T', ' ') : this.getCurrentTimestamp();
         const currentDepth = this.currentSelection.variables.expansionDepth;
         
         return `<!DOCTYPE html>
@@ -813,7 +1088,7 @@ ${selectedContext}
 </head>
 <body>
     <div class="header">
-        <div class="status">${statusIcon} ${statusText} | Clean Context | ${this.getCurrentTimestamp()}</div>
+        <div class="status">${statusIcon} ${statusText}${sessionName ? ` | ${sessionName.replace(/&/g, '&amp;').replace(/</g, '&lt;')}` : ''} | Clean Context | ${timestamp}</div>
         
         <div class="metrics">
             <div class="metric"><div class="metric-value">${context.variables.length}</div><div>Variables</div></div>
@@ -829,9 +1104,10 @@ ${selectedContext}
             'None'}</div>
         
         <div class="actions">
-            <button class="btn primary" onclick="refresh()">🔄 Refresh</button>
+            ${this.snapshot ? '' : `<button class="btn primary" onclick="refresh()">🔄 Refresh</button>`}
             <button class="btn" onclick="showFullAnalysis()">📄 Full Analysis</button>
             <button class="btn" onclick="copyContext()">📋 Copy Clean Context</button>
+            ${this.snapshot ? '' : `<button class="btn" onclick="switchSession()">⇄ Sessions</button>`}
         </div>
     </div>
     
@@ -839,7 +1115,7 @@ ${selectedContext}
         <div class="panel">
             <h2>🎯 Context Selector</h2>
             
-            <div class="depth-controls">
+            <div class="depth-controls"${this.snapshot ? ' style="display: none;"' : ''}>
                 <h4>📏 Expansion Depth</h4>
                 <div style="display: flex; align-items: center; margin: 10px 0;">
                     <span>Depth:</span>
@@ -864,6 +1140,12 @@ ${selectedContext}
                 <label><input type="checkbox" id="includeVariableExpansion" ${this.currentSelection.analysis.includeVariableExpansion ? 'checked' : ''} onchange="updateSelection()">Include Variable Expansion Details</label>
             </div>
             
+            <div class="section">
+                <h3>🧪 Alternative Paths</h3>
+                ${this.renderAlternativePaths(context)}
+            </div>
+            
+            ${this.renderGoroutines(context)}
             <div class="section">
                 <h3>📞 Function Calls</h3>
                 <label><input type="checkbox" id="includeRuntime" checked onchange="updateSelection()">
@@ -890,13 +1172,25 @@ Examples:
 • Explain the variable relationships
 • What are the critical paths showing?
 • Why is this function being called?"></textarea>
+                ${this.focusedContext ? `<div style="display: flex; gap: 10px; align-items: center; margin-top: 10px;">
+                    <span>📎 ${this.focusedContext.label.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</span>
+                    <button class="btn" onclick="detachFocusedContext()">✖ Detach</button>
+                </div>` : ''}
                 <div style="display: flex; gap: 10px; margin-top: 10px;">
-                    <button class="btn primary" onclick="callLLM()">🤖 Ask AI</button>
+                    <button class="btn primary" onclick="callLLM()">🤖 Ask AI (${AIConfigurationService.getActiveProfile().label})</button>
                     <button class="btn" onclick="clearQuery()">🗑️ Clear</button>
                 </div>
                 <div style="margin-top: 10px; font-size: 0.8em; color: var(--vscode-descriptionForeground);">
                     💡 <strong>Clean Context</strong>: No timestamps, user info, or internal metadata sent to AI
                 </div>
+                <div id="aiResponseSection" style="display: none; margin-top: 15px;">
+                    <div style="display: flex; gap: 10px; align-items: center; margin-bottom: 8px;">
+                        <strong id="aiResponseStatus"></strong>
+                        <button class="btn" id="cancelLLMButton" onclick="cancelLLM()">⏹️ Cancel</button>
+                        <button class="btn" id="openLLMButton" onclick="openLLMResponse()">📄 Open in Editor</button>
+                    </div>
+                    <div id="aiResponse" class="preview"></div>
+                </div>
             </div>
         </div>
         
@@ -931,6 +1225,10 @@ Examples:
                     includePathSensitivity: document.getElementById('includePathSensitivity').checked,
                     includeVariableExpansion: document.getElementById('includeVariableExpansion').checked,
                     includePerformanceMetrics: false
+                },
+                goroutines: {
+                    includeOverview: document.getElementById('includeGoroutines') ? document.getElementById('includeGoroutines').checked : true,
+                    stackIds: Array.from(document.querySelectorAll('.goroutine-stack:checked')).map(input => Number(input.value))
                 }
             };
             vscode.postMessage({ command: 'updateSelection', selection: selection });
@@ -949,7 +1247,10 @@ Examples:
         }
         
         function showFullAnalysis() { vscode.postMessage({ command: 'showFullAnalysis' }); }
+        function generateTest(pathId) { vscode.postMessage({ command: 'generateTest', pathId: pathId }); }
         function copyContext() { vscode.postMessage({ command: 'copyContext' }); }
+        function switchSession() { vscode.postMessage({ command: 'switchSession' }); }
+        function detachFocusedContext() { vscode.postMessage({ command: 'detachFocusedContext' }); }
         function callLLM() {
             const query = document.getElementById('queryInput').value.trim();
             if (!query) { alert('Please enter a query first.'); return; }
@@ -957,15 +1258,34 @@ Examples:
             vscode.postMessage({ command: 'callLLM', query: query, context: context });
         }
         function clearQuery() { document.getElementById('queryInput').value = ''; }
+        function cancelLLM() { vscode.postMessage({ command: 'cancelLLM' }); }
+        function openLLMResponse() { vscode.postMessage({ command: 'openLLMResponse' }); }
+
+        function renderLLMResponse(response) {
+            const statusLabels = {
+                streaming: '⏳ ' + response.model + ' is responding...',
+                done: '✅ ' + response.model,
+                cancelled: '⏹️ Cancelled',
+                error: '❌ Failed'
+            };
+            document.getElementById('aiResponseSection').style.display = 'block';
+            document.getElementById('aiResponseStatus').textContent = statusLabels[response.status];
+            document.getElementById('cancelLLMButton').style.display = response.status === 'streaming' ? 'inline-block' : 'none';
+            document.getElementById('openLLMButton').style.display = response.status === 'streaming' || !response.text ? 'none' : 'inline-block';
+            document.getElementById('aiResponse').textContent = response.text;
+        }
 
         window.addEventListener('message', event => {
             const message = event.data;
             if (message.command === 'updatePreview') {
                 document.getElementById('previewContent').textContent = message.context;
+            } else if (message.command === 'llmResponse') {
+                renderLLMResponse(message);
             }
         });
 
         updateSelection();
+        vscode.postMessage({ command: 'webviewReady' });
     </script>
 </body>
 </html>`;
@@ -0,0 +1,468 @@
+import * as vscode from 'vscode';
+import { ContextCollector, ContextData, Variable } from '../services/contextCollector';
+import { LLMService, ChatMessage } from '../services/llmService';
+import { AIConfigurationService } from '../services/aiConfigurationService';
+
+// Program state at one stop, used to tell the model only what changed since it last saw the program
+export interface DebugStopSnapshot {
+    location: string;
+    variables: Map<string, { name: string; value: string; type: string }>;
+    timestamp: number;
+}
+
+export interface ChatTranscriptEntry {
+    kind: 'user' | 'assistant' | 'stop' | 'info';
+    text: string;
+    status?: 'streaming' | 'done' | 'cancelled' | 'error';
+}
+
+// Older turns beyond this are dropped from the request; the first turn (full context) is always kept
+const MAX_HISTORY_TURNS = 10;
+const MAX_CONTEXT_VARIABLES = 25;
+const MAX_VALUE_LENGTH = 300;
+
+export class DebugChatView {
+    private panel: vscode.WebviewPanel | undefined;
+    private contextCollector: ContextCollector;
+    private llmService: LLMService;
+    private sessionName: string;
+    private onClosed?: () => void;
+
+    private messages: ChatMessage[] = [];
+    private transcript: ChatTranscriptEntry[] = [];
+    private currentSnapshot?: DebugStopSnapshot;
+    private lastSentSnapshot?: DebugStopSnapshot;
+    private currentRequest?: AbortController;
+    private sessionEnded = false;
+
+    private readonly contextListener = () => this.onContextUpdated();
+
+    constructor(contextCollector: ContextCollector, llmService: LLMService, sessionName: string, onClosed?: () => void) {
+        this.contextCollector = contextCollector;
+        this.llmService = llmService;
+        this.sessionName = sessionName;
+        this.onClosed = onClosed;
+
+        this.contextCollector.on('contextUpdated', this.contextListener);
+    }
+
+    // The collector is recreated when the session's language changes; the conversation survives it
+    setContextCollector(contextCollector: ContextCollector): void {
+        this.contextCollector.off('contextUpdated', this.contextListener);
+        this.contextCollector = contextCollector;
+        this.contextCollector.on('contextUpdated', this.contextListener);
+    }
+
+    show(): void {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'coDebugger.debugChat',
+            `💬 Debug Chat: ${this.sessionName}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            if (this.sessionEnded) {
+                this.dispose();
+            }
+        });
+
+        this.panel.webview.onDidReceiveMessage(async (message) => {
+            await this.handleMessage(message);
+        });
+
+        this.panel.webview.html = this.generateHtml();
+    }
+
+    isVisible(): boolean {
+        return !!this.panel;
+    }
+
+    endSession(): void {
+        this.sessionEnded = true;
+        this.contextCollector.off('contextUpdated', this.contextListener);
+        this.transcript.push({ kind: 'info', text: '🔌 Debug session ended. You can keep asking about what was captured.' });
+        this.postTranscript();
+
+        if (!this.panel) {
+            this.dispose();
+        }
+    }
+
+    dispose(): void {
+        this.currentRequest?.abort();
+        this.contextCollector.off('contextUpdated', this.contextListener);
+        this.panel?.dispose();
+        this.panel = undefined;
+        this.onClosed?.();
+        this.onClosed = undefined;
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'webviewReady':
+                this.postTranscript();
+                break;
+            case 'ask':
+                await this.ask(message.question);
+                break;
+            case 'cancel':
+                this.currentRequest?.abort();
+                break;
+            case 'clear':
+                this.clearConversation();
+                break;
+        }
+    }
+
+    private onContextUpdated(): void {
+        const context = this.contextCollector.getContext();
+        if (!context.debugInfo.isStopped || !context.currentLocation) return;
+
+        const snapshot = this.takeSnapshot(context);
+
+        // contextUpdated fires several times per stop (expansion, analysis); record each distinct stop once
+        if (this.currentSnapshot && this.isSameState(this.currentSnapshot, snapshot)) return;
+
+        const changed = this.currentSnapshot ? this.diffVariables(this.currentSnapshot, snapshot).changed.length : 0;
+        this.currentSnapshot = snapshot;
+
+        this.transcript.push({
+            kind: 'stop',
+            text: `🛑 Stopped at ${snapshot.location}${changed > 0 ? ` (${changed} variable${changed === 1 ? '' : 's'} changed)` : ''}`
+        });
+        this.postTranscript();
+    }
+
+    private async ask(question: string): Promise<void> {
+        if (!question?.trim() || this.currentRequest) return;
+
+        const profile = await AIConfigurationService.ensureActiveProfile(this.llmService);
+        if (!profile) return;
+
+        // The chat may have been opened after the program already stopped
+        if (!this.currentSnapshot) {
+            this.onContextUpdated();
+        }
+
+        const isFirstTurn = this.messages.length === 0;
+        const contextBlock = isFirstTurn ? this.buildFullContext() : this.buildContextDelta();
+        const content = `${question}\n\n${isFirstTurn ? '--- Debug Context ---' : '--- Debug Context Update ---'}\n${contextBlock}`;
+
+        const previousSentSnapshot = this.lastSentSnapshot;
+        this.messages.push({ role: 'user', content });
+        this.lastSentSnapshot = this.currentSnapshot;
+
+        const controller = new AbortController();
+        this.currentRequest = controller;
+
+        this.transcript.push({ kind: 'user', text: question });
+        const answer: ChatTranscriptEntry = { kind: 'assistant', text: '', status: 'streaming' };
+        this.transcript.push(answer);
+        this.postTranscript();
+
+        try {
+            console.log(`💬 Debug chat turn ${Math.ceil(this.messages.length / 2)} via ${profile.label}`);
+
+            const response = await this.llmService.streamChat(this.getMessagesToSend(), profile, chunk => {
+                answer.text += chunk;
+                this.postStreamUpdate(answer);
+            }, controller.signal);
+
+            this.messages.push({ role: 'assistant', content: response });
+            answer.status = 'done';
+        } catch (error) {
+            // A failed turn is dropped from the history so the next question re-sends its context
+            this.messages.pop();
+            this.lastSentSnapshot = previousSentSnapshot;
+
+            if (error.name === 'AbortError') {
+                answer.status = 'cancelled';
+            } else {
+                answer.status = 'error';
+                answer.text += `${answer.text ? '\n\n' : ''}❌ ${error.message}`;
+            }
+        } finally {
+            this.currentRequest = undefined;
+            this.postTranscript();
+        }
+    }
+
+    private getMessagesToSend(): ChatMessage[] {
+        const maxMessages = MAX_HISTORY_TURNS * 2;
+        if (this.messages.length <= maxMessages + 1) {
+            return this.messages;
+        }
+
+        // History ends with the pending user turn, so an even-length tail starts with an assistant
+        // message and roles keep alternating after the opening turn
+        const tail = this.messages.slice(-maxMessages);
+        return [this.messages[0], ...tail];
+    }
+
+    private clearConversation(): void {
+        if (this.currentRequest) return;
+
+        this.messages = [];
+        this.lastSentSnapshot = undefined;
+        this.transcript = [{ kind: 'info', text: '🗑️ Conversation cleared. The next question will include the full debug context.' }];
+        this.postTranscript();
+    }
+
+    private buildFullContext(): string {
+        const context = this.contextCollector.getContext();
+        if (!context.debugInfo.isStopped || !context.currentLocation) {
+            return '(The program is not stopped at a breakpoint.)';
+        }
+
+        let text = `Location: ${this.formatLocation(context)}\n`;
+
+        const callStack = context.functionCalls.filter(call => !call.executionUnit).slice(0, 8);
+        if (callStack.length > 0) {
+            text += `\nCall stack:\n`;
+            callStack.forEach((call, index) => {
+                const asyncNote = call.asyncBoundary ? ` [async: ${call.asyncBoundary}]` : '';
+                text += `${index}. ${call.name} (${call.file.split('/').pop()}:${call.line})${asyncNote}\n`;
+            });
+        }
+
+        const variables = this.contextCollector.getApplicationVariables().slice(0, MAX_CONTEXT_VARIABLES);
+        if (variables.length > 0) {
+            text += `\nVariables:\n`;
+            variables.forEach(variable => {
+                text += `- ${variable.name} (${variable.type}) = ${this.truncate(variable.value)}\n`;
+            });
+        }
+
+        return text.trim();
+    }
+
+    private buildContextDelta(): string {
+        const previous = this.lastSentSnapshot;
+        const current = this.currentSnapshot;
+
+        if (!current || current === previous) {
+            return '(No new breakpoint stop since the previous message.)';
+        }
+        if (!previous) {
+            return this.buildFullContext();
+        }
+
+        const context = this.contextCollector.getContext();
+        const diff = this.diffVariables(previous, current);
+
+        let text = previous.location === current.location
+            ? `Stopped again at ${current.location}\n`
+            : `Moved from ${previous.location} to ${current.location}\n`;
+
+        if (previous.location !== current.location) {
+            const callStack = context.functionCalls.filter(call => !call.executionUnit).slice(0, 5);
+            if (callStack.length > 0) {
+                text += `Call stack: ${callStack.map(call => call.name).join(' ← ')}\n`;
+            }
+        }
+
+        if (diff.changed.length > 0) {
+            text += `\nChanged variables:\n`;
+            diff.changed.forEach(change => {
+                text += `- ${change.name}: ${this.truncate(change.oldValue)} → ${this.truncate(change.newValue)}\n`;
+                const history = this.findVariable(context, change.key)?.changeHistory || [];
+                history.slice(-3).forEach(entry => {
+                    text += `    at ${entry.location}: ${this.truncate(entry.oldValue)} → ${this.truncate(entry.newValue)}\n`;
+                });
+            });
+        }
+
+        if (diff.added.length > 0) {
+            text += `\nNew variables:\n`;
+            diff.added.slice(0, MAX_CONTEXT_VARIABLES).forEach(variable => {
+                text += `- ${variable.name} (${variable.type}) = ${this.truncate(variable.value)}\n`;
+            });
+        }
+
+        if (diff.removed.length > 0) {
+            text += `\nNo longer in scope: ${diff.removed.join(', ')}\n`;
+        }
+
+        if (diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0) {
+            text += `No variable changes.\n`;
+        }
+
+        return text.trim();
+    }
+
+    private takeSnapshot(context: ContextData): DebugStopSnapshot {
+        const variables = new Map<string, { name: string; value: string; type: string }>();
+        this.contextCollector.getApplicationVariables().forEach(variable => {
+            variables.set(`${variable.scope}:${variable.name}`, { name: variable.name, value: variable.value, type: variable.type });
+        });
+
+        return {
+            location: this.formatLocation(context),
+            variables,
+            timestamp: Date.now()
+        };
+    }
+
+    private isSameState(a: DebugStopSnapshot, b: DebugStopSnapshot): boolean {
+        if (a.location !== b.location) return false;
+        const diff = this.diffVariables(a, b);
+        return diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0;
+    }
+
+    private diffVariables(previous: DebugStopSnapshot, current: DebugStopSnapshot) {
+        const changed: { key: string; name: string; oldValue: string; newValue: string }[] = [];
+        const added: { name: string; value: string; type: string }[] = [];
+        const removed: string[] = [];
+
+        current.variables.forEach((variable, key) => {
+            const before = previous.variables.get(key);
+            if (!before) {
+                added.push(variable);
+            } else if (before.value !== variable.value) {
+                changed.push({ key, name: variable.name, oldValue: before.value, newValue: variable.value });
+            }
+        });
+
+        previous.variables.forEach((variable, key) => {
+            if (!current.variables.has(key)) {
+                removed.push(variable.name);
+            }
+        });
+
+        return { changed, added, removed };
+    }
+
+    private findVariable(context: ContextData, key: string): Variable | undefined {
+        return context.variables.find(v => `${v.scope}:${v.name}` === key);
+    }
+
+    private formatLocation(context: ContextData): string {
+        const location = context.currentLocation;
+        if (!location) return 'unknown';
+        return `${location.function} (${location.file.split('/').pop()}:${location.line})`;
+    }
+
+    private truncate(value: string): string {
+        if (!value) return String(value);
+        return value.length > MAX_VALUE_LENGTH ? value.substring(0, MAX_VALUE_LENGTH) + '...' : value;
+    }
+
+    private postTranscript(): void {
+        this.panel?.webview.postMessage({
+            command: 'transcript',
+            entries: this.transcript,
+            busy: !!this.currentRequest
+        });
+    }
+
+    private postStreamUpdate(entry: ChatTranscriptEntry): void {
+        this.panel?.webview.postMessage({
+            command: 'streamUpdate',
+            index: this.transcript.indexOf(entry),
+            text: entry.text
+        });
+    }
+
+    private generateHtml(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Debug Chat</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0; margin: 0;
+               display: flex; flex-direction: column; height: 100vh; }
+        #transcript { flex: 1; overflow-y: auto; padding: 15px; }
+        .entry { margin-bottom: 12px; padding: 10px; border-radius: 6px; white-space: pre-wrap; line-height: 1.5; }
+        .entry.user { background: var(--vscode-input-background); border-left: 3px solid var(--vscode-textLink-foreground); }
+        .entry.assistant { background: var(--vscode-textCodeBlock-background); font-family: var(--vscode-editor-font-family); font-size: 0.9em; }
+        .entry.stop, .entry.info { padding: 4px 10px; font-size: 0.85em; color: var(--vscode-descriptionForeground); }
+        .entry .status { font-size: 0.8em; color: var(--vscode-descriptionForeground); margin-top: 6px; }
+        .composer { border-top: 1px solid var(--vscode-panel-border); padding: 10px 15px; }
+        textarea { width: 100%; min-height: 60px; padding: 8px; box-sizing: border-box; border: 1px solid var(--vscode-input-border);
+                   border-radius: 3px; background-color: var(--vscode-input-background); color: var(--vscode-input-foreground);
+                   font-family: var(--vscode-font-family); resize: vertical; }
+        .actions { display: flex; gap: 10px; margin-top: 8px; }
+        .btn { padding: 6px 14px; background-color: var(--vscode-button-background); color: var(--vscode-button-foreground);
+               border: none; border-radius: 3px; cursor: pointer; font-size: 0.9em; }
+        .btn:hover { background-color: var(--vscode-button-hoverBackground); }
+        .btn:disabled { opacity: 0.5; cursor: default; }
+    </style>
+</head>
+<body>
+    <div id="transcript"></div>
+    <div class="composer">
+        <textarea id="question" placeholder="Ask about the current stop, e.g. why did total change since the last breakpoint? (Ctrl+Enter to send)"></textarea>
+        <div class="actions">
+            <button class="btn" id="sendButton" onclick="ask()">💬 Send</button>
+            <button class="btn" id="cancelButton" onclick="cancel()" style="display: none;">⏹️ Cancel</button>
+            <button class="btn" onclick="clearConversation()">🗑️ Clear</button>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const statusLabels = { streaming: '⏳ Responding...', cancelled: '⏹️ Cancelled', error: '❌ Failed' };
+
+        function ask() {
+            const input = document.getElementById('question');
+            const question = input.value.trim();
+            if (!question) return;
+            vscode.postMessage({ command: 'ask', question: question });
+            input.value = '';
+        }
+        function cancel() { vscode.postMessage({ command: 'cancel' }); }
+        function clearConversation() { vscode.postMessage({ command: 'clear' }); }
+
+        document.getElementById('question').addEventListener('keydown', event => {
+            if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) ask();
+        });
+
+        function renderEntry(entry) {
+            const div = document.createElement('div');
+            div.className = 'entry ' + entry.kind;
+            const text = document.createElement('div');
+            text.className = 'text';
+            text.textContent = entry.text;
+            div.appendChild(text);
+            if (entry.status && statusLabels[entry.status]) {
+                const status = document.createElement('div');
+                status.className = 'status';
+                status.textContent = statusLabels[entry.status];
+                div.appendChild(status);
+            }
+            return div;
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            const transcript = document.getElementById('transcript');
+            if (message.command === 'transcript') {
+                transcript.innerHTML = '';
+                message.entries.forEach(entry => transcript.appendChild(renderEntry(entry)));
+                document.getElementById('sendButton').disabled = message.busy;
+                document.getElementById('cancelButton').style.display = message.busy ? 'inline-block' : 'none';
+                transcript.scrollTop = transcript.scrollHeight;
+            } else if (message.command === 'streamUpdate') {
+                const entry = transcript.children[message.index];
+                if (entry) {
+                    entry.querySelector('.text').textContent = message.text;
+                    transcript.scrollTop = transcript.scrollHeight;
+                }
+            }
+        });
+
+        vscode.postMessage({ command: 'webviewReady' });
+    </script>
+</body>
+</html>`;
+    }
+}
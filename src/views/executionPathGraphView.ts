@@ -1,14 +1,22 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import { ExecutionPathGraphService, ExecutionPathGraph, PathNode } from '../services/executionPathGraphService';
+import { StepTrace, StepTraceRecorder } from '../services/stepTraceRecorder';
+
+const escapeHtml = (text: unknown) => String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 export class ExecutionPathGraphView {
     private panel: vscode.WebviewPanel | undefined;
     private graphService: ExecutionPathGraphService;
     private context: vscode.ExtensionContext;
+    private session?: vscode.DebugSession;
+    // Last recorded step trace, shown as a timeline under the graph header
+    private trace?: StepTrace;
 
-    constructor(graphService: ExecutionPathGraphService, context: vscode.ExtensionContext) {
+    constructor(graphService: ExecutionPathGraphService, context: vscode.ExtensionContext, session?: vscode.DebugSession) {
         this.graphService = graphService;
         this.context = context;
+        this.session = session;
         
         this.setupEventListeners();
     }
@@ -27,12 +35,12 @@ export class ExecutionPathGraphView {
 
         this.panel = vscode.window.createWebviewPanel(
             'executionPathGraph',
-            '🔄 Execution Path Graph',
+            this.session ? `🔄 Execution Path Graph · ${this.session.name}` : '🔄 Execution Path Graph',
             vscode.ViewColumn.Two,
             {
                 enableScripts: true,
                 retainContextWhenHidden: true,
-                localResourceRoots: [this.context.extensionUri]
+                localResourceRoots: [this.getVisNetworkRoot()]
             }
         );
 
@@ -51,6 +59,83 @@ export class ExecutionPathGraphView {
         this.updateWebview(currentGraph);
     }
 
+    // Shows the trace while it records; the timeline is replaced in place so the graph keeps its layout
+    showTrace(trace: StepTrace): void {
+        this.trace = trace;
+        if (!this.panel) {
+            this.show();
+            return;
+        }
+        this.panel.webview.postMessage({ command: 'renderTrace', html: this.renderTrace() });
+    }
+
+    getTrace(): StepTrace | undefined {
+        return this.trace;
+    }
+
+    async exportTrace(): Promise<void> {
+        const trace = this.trace;
+        if (!trace) {
+            vscode.window.showInformationMessage('No step trace recorded yet - use "Record Step Trace" while stopped');
+            return;
+        }
+
+        const name = `trace-${trace.sessionName.replace(/[^\w.-]+/g, '_')}-${new Date(trace.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, `${name}.json`) : undefined,
+            filters: { 'JSON': ['json'], 'Markdown': ['md'] },
+            saveLabel: 'Export Trace'
+        });
+        if (!target) return;
+
+        const content = target.path.endsWith('.md') ? StepTraceRecorder.toMarkdown(trace) : JSON.stringify(trace, null, 2);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`💾 Step trace exported to ${target.fsPath}`);
+    }
+
+    private async openTraceStep(index: number): Promise<void> {
+        const step = this.trace?.steps[index];
+        if (!step?.location.file) return;
+
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(step.location.file));
+            const position = new vscode.Position(Math.max(0, step.location.line - 1), 0);
+            await vscode.window.showTextDocument(document, {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+        } catch (error) {
+            vscode.window.showWarningMessage(`Could not open ${step.location.file}: ${error.message}`);
+        }
+    }
+
+    private renderTrace(): string {
+        const trace = this.trace;
+        if (!trace) return '';
+
+        const baseDepth = trace.steps[0]?.depth ?? 0;
+        const status = trace.endReason ? `ended: ${trace.endReason}${trace.error ? ` (${escapeHtml(trace.error)})` : ''}` : 'recording…';
+        const rows = trace.steps.map(step => {
+            const changes = step.changes.map(change =>
+                `<span class="trace-change">${escapeHtml(change.name)}: ${change.before === undefined ? '' : `${escapeHtml(change.before)} → `}<strong>${escapeHtml(change.after)}</strong></span>`
+            ).join('');
+            return `<div class="trace-step" data-action="openTraceStep" data-index="${step.index}" style="padding-left: ${Math.max(0, step.depth - baseDepth) * 14 + 6}px">
+                <span class="trace-index">${step.index}</span>
+                <span class="trace-location">${escapeHtml(step.location.function.split('.').pop())} <span class="trace-file">${escapeHtml(step.location.file.split(/[\\/]/).pop())}:${step.location.line}</span></span>
+                ${changes}
+            </div>`;
+        }).join('');
+
+        return `<div class="trace-header">
+                <strong>🎬 Step Trace</strong>
+                <span class="trace-file">${trace.options.stepKind === 'stepIn' ? 'step into' : 'step over'} · ${trace.steps.length} steps · ${status}</span>
+                <button class="btn" data-action="exportTrace">💾 Export</button>
+                <button class="btn" data-action="clearTrace">✖ Clear</button>
+            </div>
+            <div class="trace-steps">${rows}</div>`;
+    }
+
     private updateWebview(graph: ExecutionPathGraph): void {
         if (!this.panel) return;
 
@@ -68,6 +153,16 @@ export class ExecutionPathGraphView {
             case 'refreshGraph':
                 this.refreshGraph();
                 break;
+            case 'openTraceStep':
+                this.openTraceStep(message.index);
+                break;
+            case 'exportTrace':
+                this.exportTrace();
+                break;
+            case 'clearTrace':
+                this.trace = undefined;
+                this.panel?.webview.postMessage({ command: 'renderTrace', html: '' });
+                break;
         }
     }
 
@@ -94,6 +189,18 @@ export class ExecutionPathGraphView {
 
         // Try multiple strategies to navigate to the code
         this.navigateToCode(node);
+
+        const alternativePathId = node.metadata.alternativePathId;
+        if (alternativePathId) {
+            vscode.window.showInformationMessage(
+                `🧪 ${node.metadata.branchCondition || node.functionName}`,
+                'Generate test for this path'
+            ).then(selection => {
+                if (selection === 'Generate test for this path') {
+                    vscode.commands.executeCommand('coDebugger.generatePathTest', alternativePathId, this.session?.id);
+                }
+            });
+        }
     }
 
     private async navigateToCode(node: PathNode): Promise<void> {
@@ -346,7 +453,9 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
             node.line ? `**Line**: ${node.line}` : null,
             node.metadata.riskLevel ? `**Risk Level**: ${node.metadata.riskLevel}` : null,
             node.metadata.probability ? `**Probability**: ${(node.metadata.probability * 100).toFixed(1)}%` : null,
-            node.metadata.alternativePathType ? `**Type**: ${node.metadata.alternativePathType}` : null
+            node.metadata.alternativePathType ? `**Type**: ${node.metadata.alternativePathType}` : null,
+            node.metadata.executionUnit ? `**Runs in**: ${node.metadata.executionUnit}` : null,
+            node.metadata.asyncBoundary ? `**Awaited by parent**: ${node.metadata.asyncBoundary}` : null
         ].filter(Boolean).join('\n');
 
         const action = node.status === 'possible' ? 'This represents a possible execution path.' :
@@ -373,17 +482,35 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
 
     private refreshGraph(): void {
         console.log('🔄 Refreshing execution path graph at 2025-06-12 02:20:35');
-        vscode.commands.executeCommand('contextSelector.refreshContext');
+        vscode.commands.executeCommand('contextSelector.refreshContext', this.session?.id);
+    }
+
+    // vis-network ships with the extension so the graph renders offline and
+    // the webview never loads remote code.
+    private getVisNetworkRoot(): vscode.Uri {
+        return vscode.Uri.joinPath(this.context.extensionUri, 'node_modules', 'vis-network', 'standalone', 'umd');
     }
 
     private getWebviewContent(graph: ExecutionPathGraph): string {
+    const webview = this.panel!.webview;
+    const visScriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.getVisNetworkRoot(), 'vis-network.min.js'));
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = [
+        "default-src 'none'",
+        `img-src ${webview.cspSource} data:`,
+        `style-src ${webview.cspSource} 'unsafe-inline'`,
+        `font-src ${webview.cspSource}`,
+        `script-src 'nonce-${nonce}'`
+    ].join('; ');
+
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Execution Path Graph</title>
-    <script src="https://unpkg.com/vis-network@latest/dist/vis-network.min.js"></script>
+    <script nonce="${nonce}" src="${visScriptUri}"></script>
     <style>
         * {
             box-sizing: border-box;
@@ -615,6 +742,60 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
             100% { transform: rotate(360deg); }
         }
         
+        .trace {
+            flex-shrink: 0;
+            margin: 8px 8px 0;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            font-size: 11px;
+        }
+        
+        .trace:empty {
+            display: none;
+        }
+        
+        .trace-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 8px;
+            background: var(--vscode-sideBar-background);
+        }
+        
+        .trace-steps {
+            max-height: 25vh;
+            overflow-y: auto;
+        }
+        
+        .trace-step {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            padding: 3px 6px;
+            cursor: pointer;
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+        
+        .trace-step:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        
+        .trace-index {
+            min-width: 24px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .trace-file {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .trace-change {
+            font-family: var(--vscode-editor-font-family);
+            background: var(--vscode-diffEditor-insertedTextBackground, rgba(0, 255, 0, 0.1));
+            border-radius: 3px;
+            padding: 0 4px;
+        }
+        
         /* FIXED: Responsive adjustments */
         @media (max-width: 600px) {
             .header { padding: 8px; max-height: 50vh; }
@@ -634,11 +815,11 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
         </div>
         
         <div class="controls">
-            <button class="btn primary" onclick="refreshGraph()">🔄 Refresh</button>
-            <button class="btn" onclick="exportGraph()">📋 Export</button>
-            <button class="btn" onclick="fitGraph()">🔍 Fit</button>
-            <button class="btn" onclick="resetView()">🎯 Reset</button>
-            <button class="btn" onclick="forceRedraw()">🔧 Redraw</button>
+            <button class="btn primary" data-action="refreshGraph">🔄 Refresh</button>
+            <button class="btn" data-action="exportGraph">📋 Export</button>
+            <button class="btn" data-action="fitGraph">🔍 Fit</button>
+            <button class="btn" data-action="resetView">🎯 Reset</button>
+            <button class="btn" data-action="forceRedraw">🔧 Redraw</button>
         </div>
         
         <div class="stats-grid">
@@ -680,13 +861,15 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
         </div>
     </div>
     
+    <div id="trace" class="trace">${this.renderTrace()}</div>
+    
     <div class="graph-container">
         ${graph.pathStatistics.totalNodes === 0 ? `
         <div class="empty-state">
             <div class="empty-state-icon">📊</div>
             <h3>No Execution Paths Available</h3>
             <p>Start debugging to see execution paths.</p>
-            <button class="btn primary" onclick="refreshGraph()">🔄 Refresh</button>
+            <button class="btn primary" data-action="refreshGraph">🔄 Refresh</button>
         </div>
         ` : `
         <div id="loading" class="loading-overlay">
@@ -694,9 +877,9 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
         </div>
         <div id="network"></div>
         <div class="controls-overlay">
-            <button class="control-btn" onclick="zoomIn()">+</button>
-            <button class="control-btn" onclick="zoomOut()">-</button>
-            <button class="control-btn" onclick="fitGraph()">⌂</button>
+            <button class="control-btn" data-action="zoomIn">+</button>
+            <button class="control-btn" data-action="zoomOut">-</button>
+            <button class="control-btn" data-action="fitGraph">⌂</button>
         </div>
         <div class="clickable-indicator">
             💡 Click nodes to navigate
@@ -704,7 +887,7 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
         `}
     </div>
     
-    <script>
+    <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
         const graphData = ${JSON.stringify(graph)};
         let network;
@@ -782,11 +965,16 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
                     node.children.forEach(childId => {
                         const child = allNodes.find(n => n.id === childId);
                         if (child) {
+                            // Await links (async stack traces, tasks awaiting tasks) are dashed and labelled
+                            const asyncBoundary = child.metadata && child.metadata.asyncBoundary;
                             edges.add({
                                 from: node.id,
                                 to: child.id,
                                 arrows: { to: { enabled: true } },
-                                color: { color: '#666666' },
+                                color: { color: asyncBoundary ? '#AB47BC' : '#666666' },
+                                dashes: !!asyncBoundary,
+                                label: asyncBoundary || undefined,
+                                font: { size: 9, color: '#AB47BC', strokeWidth: 0 },
                                 width: 2
                             });
                         }
@@ -897,7 +1085,8 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
         }
         
         function createTooltipText(node) {
-            return \`<strong>\${node.functionName}</strong><br>Status: \${node.status}<br>Line: \${node.line}<br>Click to navigate\`;
+            const unit = node.metadata && node.metadata.executionUnit ? \`<br>Runs in: \${node.metadata.executionUnit}\` : '';
+            return \`<strong>\${node.functionName}</strong><br>Status: \${node.status}<br>Line: \${node.line}\${unit}<br>Click to navigate\`;
         }
         
         // Control functions
@@ -946,6 +1135,32 @@ private async searchForRealMethod(methodName: string, line?: number): Promise<vo
             }
         }
         
+        // Inline handlers are blocked by the CSP, so buttons declare a data-action
+        const actions = { refreshGraph, exportGraph, fitGraph, resetView, zoomIn, zoomOut, forceRedraw };
+        const traceActions = ['openTraceStep', 'exportTrace', 'clearTrace'];
+        document.addEventListener('click', event => {
+            const button = event.target.closest('[data-action]');
+            if (button && traceActions.includes(button.dataset.action)) {
+                vscode.postMessage({ command: button.dataset.action, index: Number(button.dataset.index) });
+                return;
+            }
+            const action = button && actions[button.dataset.action];
+            if (action) {
+                action();
+            }
+        });
+        
+        window.addEventListener('message', event => {
+            if (event.data.command === 'renderTrace') {
+                const trace = document.getElementById('trace');
+                trace.innerHTML = event.data.html;
+                const steps = trace.querySelector('.trace-steps');
+                if (steps) {
+                    steps.scrollTop = steps.scrollHeight;
+                }
+            }
+        });
+        
         // FIXED: Initialize when DOM is ready
         if (document.readyState === 'loading') {
             document.addEventListener('DOMContentLoaded', initializeGraph);
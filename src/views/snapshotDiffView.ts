@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { SnapshotDiff, SnapshotDiffer, VariableDiff } from '../services/snapshotDiff';
+import { SnapshotSummary } from '../services/snapshotService';
+import { BudgetSection } from '../services/contextBudgetBuilder';
+
+const escape = (text: unknown) => String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Side-by-side comparison of two saved stops. The diff can be handed to an AI query as focused context
+// through onAttach, which receives it as a budget section.
+export class SnapshotDiffView {
+    private panel: vscode.WebviewPanel | undefined;
+    private diff: SnapshotDiff;
+    private differ: SnapshotDiffer;
+    private onAttach: (section: BudgetSection, diff: SnapshotDiff) => void;
+
+    constructor(diff: SnapshotDiff, differ: SnapshotDiffer, onAttach: (section: BudgetSection, diff: SnapshotDiff) => void) {
+        this.diff = diff;
+        this.differ = differ;
+        this.onAttach = onAttach;
+    }
+
+    show(): void {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                'coDebugger.snapshotDiff',
+                `Compare: ${this.diff.before.sessionName} #${this.diff.before.stopIndex} ↔ #${this.diff.after.stopIndex}`,
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            this.panel.onDidDispose(() => this.panel = undefined);
+            this.panel.webview.onDidReceiveMessage(async (message) => {
+                await this.handleMessage(message);
+            });
+            this.panel.webview.html = this.generateHtml();
+        }
+        this.panel.reveal();
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'attachToAI':
+                this.onAttach(this.differ.toBudgetSection(this.diff), this.diff);
+                break;
+
+            case 'copyDiff':
+                await vscode.env.clipboard.writeText(this.toMarkdown());
+                vscode.window.showInformationMessage('📋 Stop comparison copied to clipboard');
+                break;
+
+            case 'openMarkdown': {
+                const doc = await vscode.workspace.openTextDocument({ content: this.toMarkdown(), language: 'markdown' });
+                await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+                break;
+            }
+        }
+    }
+
+    private toMarkdown(): string {
+        const section = this.differ.toBudgetSection(this.diff);
+        return section.header + '\n' + (section.items || []).map(item => item.text).join('');
+    }
+
+    private describe(summary: SnapshotSummary): string {
+        const location = summary.location
+            ? `${summary.location.function.split('.').pop()} (${summary.location.file.split('/').pop()}:${summary.location.line})`
+            : 'unknown location';
+        return `${escape(summary.sessionName)} #${summary.stopIndex} · ${escape(location)} · ${new Date(summary.timestamp).toLocaleTimeString()}`;
+    }
+
+    private renderFrames(): string {
+        const { common, popped, pushed } = this.diff.frames;
+        if (popped.length === 0 && pushed.length === 0) {
+            return `<div class="empty">Same call stack (${common} frames)</div>`;
+        }
+
+        const list = (frames: typeof popped, cls: string) => frames.length === 0
+            ? '<div class="empty">—</div>'
+            : frames.map(frame => `<div class="cell ${cls}">${escape(frame.name)} <span class="dim">${escape(frame.file.split('/').pop())}:${frame.line}</span></div>`).join('');
+
+        return `<div class="row">
+            <div>${list(popped, 'removed')}</div>
+            <div>${list(pushed, 'added')}</div>
+        </div>
+        <div class="dim">${common} shared frame(s) below</div>`;
+    }
+
+    private renderConstraints(): string {
+        if (this.diff.constraintFlips.length === 0) {
+            return '<div class="empty">No constraint changed between satisfied and violated</div>';
+        }
+
+        const state = (satisfied: boolean, result?: string) =>
+            `${satisfied ? '✅ satisfied' : '❌ violated'}${result !== undefined ? ` <span class="dim">(${escape(result)})</span>` : ''}`;
+        return this.diff.constraintFlips.map(flip => `
+            <div class="label"><code>${escape(flip.expression)}</code> <span class="dim">${escape(flip.location)}</span></div>
+            <div class="row">
+                <div class="cell ${flip.before ? '' : 'removed'}">${state(flip.before, flip.beforeResult)}</div>
+                <div class="cell ${flip.after ? '' : 'removed'}">${state(flip.after, flip.afterResult)}</div>
+            </div>`).join('');
+    }
+
+    private renderVariable(variable: VariableDiff): string {
+        const before = variable.kind === 'added' ? '<span class="dim">—</span>' : escape(variable.before);
+        const after = variable.kind === 'removed' ? '<span class="dim">—</span>' : escape(variable.after);
+        const fields = variable.changes.map(change => `
+            <div class="row field">
+                <div class="cell ${change.kind === 'added' ? '' : 'removed'}"><span class="dim">${escape(change.path)}</span> ${change.kind === 'added' ? '—' : escape(change.before)}</div>
+                <div class="cell ${change.kind === 'removed' ? '' : 'added'}"><span class="dim">${escape(change.path)}</span> ${change.kind === 'removed' ? '—' : escape(change.after)}</div>
+            </div>`).join('');
+
+        return `
+            <div class="label">${variable.kind === 'added' ? '➕' : variable.kind === 'removed' ? '➖' : '✏️'} <strong>${escape(variable.name)}</strong> <span class="dim">${escape(variable.type)} · ${escape(variable.scope)}</span></div>
+            <div class="row">
+                <div class="cell ${variable.kind === 'added' ? '' : 'removed'}">${before}</div>
+                <div class="cell ${variable.kind === 'removed' ? '' : 'added'}">${after}</div>
+            </div>${fields}`;
+    }
+
+    private generateHtml(): string {
+        const webview = this.panel!.webview;
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const csp = [
+            "default-src 'none'",
+            `style-src ${webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`
+        ].join('; ');
+
+        const variables = this.diff.variables;
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Compare Stops</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); background: var(--vscode-editor-background); padding: 16px; }
+        .row { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+        .columns { position: sticky; top: 0; background: var(--vscode-editor-background); padding: 8px 0; border-bottom: 1px solid var(--vscode-panel-border); font-weight: bold; }
+        .cell { font-family: var(--vscode-editor-font-family); font-size: 0.9em; padding: 4px 8px; border-radius: 3px; white-space: pre-wrap; word-break: break-all; margin-bottom: 2px; }
+        .cell.removed { background: var(--vscode-diffEditor-removedTextBackground, rgba(255, 0, 0, 0.15)); }
+        .cell.added { background: var(--vscode-diffEditor-insertedTextBackground, rgba(0, 255, 0, 0.15)); }
+        .field .cell { margin-left: 16px; font-size: 0.85em; }
+        .label { margin: 10px 0 4px; }
+        .dim, .empty { color: var(--vscode-descriptionForeground); }
+        h3 { margin-top: 24px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+        .actions { display: flex; gap: 8px; margin-bottom: 12px; }
+        .btn { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 6px 12px; border-radius: 3px; cursor: pointer; }
+        .btn.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    </style>
+</head>
+<body>
+    <div class="actions">
+        <button class="btn primary" data-action="attachToAI">📎 Attach to AI Context</button>
+        <button class="btn" data-action="copyDiff">📋 Copy</button>
+        <button class="btn" data-action="openMarkdown">📄 Open as Markdown</button>
+    </div>
+
+    <div class="row columns">
+        <div>Before: ${this.describe(this.diff.before)}</div>
+        <div>After: ${this.describe(this.diff.after)}</div>
+    </div>
+
+    <h3>📞 Call Stack</h3>
+    ${this.renderFrames()}
+
+    <h3>🧠 Constraints Flipped (${this.diff.constraintFlips.length})</h3>
+    ${this.renderConstraints()}
+
+    <h3>🔍 Variables (${variables.filter(v => v.kind === 'changed').length} changed, ${variables.filter(v => v.kind === 'added').length} added, ${variables.filter(v => v.kind === 'removed').length} removed)</h3>
+    ${variables.length > 0 ? variables.map(variable => this.renderVariable(variable)).join('') : '<div class="empty">No variable changed</div>'}
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const button = event.target.closest('[data-action]');
+            if (button) {
+                vscode.postMessage({ command: button.dataset.action });
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { SnapshotService, SnapshotSummary } from '../services/snapshotService';
+
+export type SnapshotTreeNode =
+    | { kind: 'session'; sessionId: string; sessionName: string; snapshots: SnapshotSummary[] }
+    | { kind: 'snapshot'; snapshot: SnapshotSummary };
+
+// Lists saved snapshots grouped by debug session, newest session first
+export class SnapshotTreeProvider implements vscode.TreeDataProvider<SnapshotTreeNode>, vscode.Disposable {
+    private snapshotService: SnapshotService;
+    private changeEmitter = new vscode.EventEmitter<SnapshotTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(snapshotService: SnapshotService) {
+        this.snapshotService = snapshotService;
+        this.snapshotService.on('snapshotsChanged', this.refresh);
+    }
+
+    refresh = (): void => {
+        this.changeEmitter.fire(undefined);
+    };
+
+    async getChildren(element?: SnapshotTreeNode): Promise<SnapshotTreeNode[]> {
+        if (element?.kind === 'session') {
+            return element.snapshots
+                .sort((a, b) => a.stopIndex - b.stopIndex)
+                .map(snapshot => ({ kind: 'snapshot' as const, snapshot }));
+        }
+        if (element) {
+            return [];
+        }
+
+        const sessions = new Map<string, SnapshotTreeNode & { kind: 'session' }>();
+        for (const snapshot of await this.snapshotService.list()) {
+            if (!sessions.has(snapshot.sessionId)) {
+                sessions.set(snapshot.sessionId, { kind: 'session', sessionId: snapshot.sessionId, sessionName: snapshot.sessionName, snapshots: [] });
+            }
+            sessions.get(snapshot.sessionId)!.snapshots.push(snapshot);
+        }
+        return Array.from(sessions.values());
+    }
+
+    getTreeItem(element: SnapshotTreeNode): vscode.TreeItem {
+        if (element.kind === 'session') {
+            const item = new vscode.TreeItem(element.sessionName, vscode.TreeItemCollapsibleState.Collapsed);
+            const started = Math.min(...element.snapshots.map(snapshot => snapshot.timestamp));
+            item.description = `${element.snapshots.length} stops · ${new Date(started).toLocaleString()}`;
+            item.iconPath = new vscode.ThemeIcon('debug-alt');
+            item.contextValue = 'coDebuggerSnapshotSession';
+            return item;
+        }
+
+        const snapshot = element.snapshot;
+        const location = snapshot.location;
+        const item = new vscode.TreeItem(`#${snapshot.stopIndex} ${location ? location.function.split('.').pop() : 'unknown'}`);
+        item.description = `${location ? `${location.file.split(/[\\/]/).pop()}:${location.line} · ` : ''}${new Date(snapshot.timestamp).toLocaleTimeString()}`;
+        item.tooltip = `${snapshot.sessionName} (${snapshot.language}) stop #${snapshot.stopIndex}\n` +
+            `${location ? `${location.file}:${location.line}\n` : ''}` +
+            `${snapshot.variableCount} variables, ${snapshot.frameCount} frames\n${new Date(snapshot.timestamp).toLocaleString()}`;
+        item.iconPath = new vscode.ThemeIcon('device-camera');
+        item.contextValue = 'coDebuggerSnapshot';
+        item.command = { command: 'coDebugger.openSnapshot', title: 'Open Snapshot', arguments: [element] };
+        return item;
+    }
+
+    dispose(): void {
+        this.snapshotService.off('snapshotsChanged', this.refresh);
+        this.changeEmitter.dispose();
+    }
+}
@@ -1,12 +1,17 @@
 const path = require('path');
+const webpack = require('webpack');
 
 module.exports = {
   target: 'node',
   mode: 'none',
-  entry: './src/extension.ts',
+  entry: {
+    extension: './src/extension.ts',
+    // Headless CLI (bin: co-debugger)
+    cli: './src/cli/index.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2'
   },
   resolve: {
@@ -31,5 +36,8 @@ module.exports = {
   externals: {
     vscode: 'commonjs vscode'
   },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, entryOnly: true, include: 'cli.js' })
+  ],
   devtool: 'nosources-source-map'
 };
\ No newline at end of file